@@ -1,7 +1,7 @@
 import axios from "axios";
 import chalk from "chalk";
 import * as readline from "readline";
-import { getHeaders } from "../utils";
+import { getHeaders, printTrashHint } from "../utils";
 
 function prompt(question: string): Promise<string> {
   const rl = readline.createInterface({
@@ -28,7 +28,7 @@ export async function clearCommand(
     if (!options.force) {
       console.log(
         chalk.yellow(
-          `⚠️  This will delete ALL memories for agent "${options.agent}". This cannot be undone.`
+          `⚠️  This will move ALL memories for agent "${options.agent}" to the trash.`
         )
       );
       const answer = await prompt("Are you sure? (type 'yes' to confirm): ");
@@ -47,6 +47,7 @@ export async function clearCommand(
     });
 
     console.log(chalk.green(`✓ Cleared ${response.data.deleted} memories`));
+    printTrashHint(response.data);
   } catch (error) {
     if (axios.isAxiosError(error) && error.response?.status === 401) {
       console.error(chalk.red("✗ Unauthorized — provide --api-key or set MEMORY_API_KEY"));
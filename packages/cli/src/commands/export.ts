@@ -1,17 +1,35 @@
 import axios from "axios";
 import chalk from "chalk";
 import * as fs from "fs";
+import * as readline from "readline";
+import type { Readable } from "stream";
 import { getHeaders } from "../utils";
 
-export async function exportCommand(
-  options: { url: string; apiKey?: string; agent: string; output?: string }
-) {
+interface ExportOptions {
+  url: string;
+  apiKey?: string;
+  agent?: string;
+  output?: string;
+  format?: string;
+}
+
+export async function exportCommand(options: ExportOptions) {
   try {
-    if (!options.agent) {
-      console.error(chalk.red("✗ --agent is required"));
+    const format = options.format || "ndjson";
+    if (format !== "ndjson" && format !== "json") {
+      console.error(chalk.red("✗ --format must be ndjson or json"));
+      process.exit(1);
+    }
+    if (format === "json" && !options.agent) {
+      console.error(chalk.red("✗ --agent is required for --format json"));
       process.exit(1);
     }
 
+    if (format === "ndjson") {
+      await exportArchive(options);
+      return;
+    }
+
     console.log(chalk.yellow(`⏳ Exporting memories for agent "${options.agent}"...`));
 
     const response = await axios.get(`${options.url}/export`, {
@@ -33,3 +51,39 @@ export async function exportCommand(
     process.exit(1);
   }
 }
+
+/** Stream the NDJSON archive to disk line by line */
+async function exportArchive(options: ExportOptions) {
+  const label = options.agent ? `agent "${options.agent}"` : "all agents";
+  console.log(chalk.yellow(`⏳ Exporting archive for ${label}...`));
+
+  const response = await axios.get<Readable>(`${options.url}/export`, {
+    params: { agentId: options.agent, format: "ndjson" },
+    headers: getHeaders(options.apiKey),
+    responseType: "stream",
+  });
+
+  const outputPath =
+    options.output || `openclaw-memory-${options.agent || "all"}-${Date.now()}.ndjson`;
+  const file = fs.createWriteStream(outputPath);
+  let counts: Record<string, number> | null = null;
+
+  const lines = readline.createInterface({ input: response.data, crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (!file.write(line + "\n")) {
+      await new Promise<void>((resolve) => file.once("drain", () => resolve()));
+    }
+    if (line.startsWith('{"type":"end"')) counts = JSON.parse(line).counts;
+  }
+  await new Promise<void>((resolve) => file.end(() => resolve()));
+
+  if (!counts) {
+    console.error(chalk.red(`✗ Archive ended early — ${outputPath} is incomplete`));
+    process.exit(1);
+  }
+
+  console.log(chalk.green(`✓ Exported archive to ${outputPath}`));
+  for (const [type, count] of Object.entries(counts)) {
+    console.log(`  ${type.padEnd(12)} ${count}`);
+  }
+}
@@ -0,0 +1,68 @@
+import axios from "axios";
+import chalk from "chalk";
+import * as fs from "fs";
+import { getHeaders } from "../utils";
+
+interface ImportCounts {
+  inserted: number;
+  updated: number;
+  skipped: number;
+}
+
+export async function importCommand(
+  file: string,
+  options: { url: string; apiKey?: string; replace?: boolean },
+) {
+  try {
+    if (!fs.existsSync(file)) {
+      console.error(chalk.red(`✗ File not found: ${file}`));
+      process.exit(1);
+    }
+
+    console.log(chalk.yellow(`⏳ Importing ${file}...`));
+
+    const response = await axios.post(`${options.url}/import`, fs.createReadStream(file), {
+      params: options.replace ? { replace: "true" } : {},
+      headers: { ...getHeaders(options.apiKey), "Content-Type": "application/x-ndjson" },
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+    });
+
+    const data = response.data;
+    const status = data.success
+      ? chalk.green("✓ Import complete")
+      : chalk.yellow("⚠ Import finished with problems");
+    console.log(`\n${status}\n`);
+    console.log(`  Exported:   ${new Date(data.archive.exportedAt).toLocaleString()}`);
+    console.log(`  Agent:      ${data.archive.agentId ?? "all agents"}`);
+    console.log(
+      `  Embeddings: ${data.reusedEmbeddings ? "reused" : `re-embedding in the background (archive model ${data.archive.embedding.model})`}`,
+    );
+    console.log();
+
+    for (const [type, counts] of Object.entries(data.counts as Record<string, ImportCounts>)) {
+      const parts = [`${counts.inserted} inserted`];
+      if (counts.updated > 0) parts.push(`${counts.updated} replaced`);
+      if (counts.skipped > 0) parts.push(`${counts.skipped} already present`);
+      console.log(`  ${type.padEnd(12)} ${parts.join(", ")}`);
+    }
+
+    if (!data.complete) {
+      console.log(chalk.yellow("\n  Archive has no end marker — it may be truncated"));
+    }
+    for (const error of data.errors as Array<{ line: number; error: string }>) {
+      console.log(chalk.red(`  Line ${error.line}: ${error.error}`));
+    }
+    console.log();
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 401) {
+      console.error(chalk.red("✗ Unauthorized — provide --api-key or set MEMORY_API_KEY"));
+    } else if (axios.isAxiosError(error) && error.response?.data?.error) {
+      console.error(chalk.red(`✗ Failed to import: ${error.response.data.error}`));
+    } else {
+      console.error(chalk.red("✗ Failed to import archive"));
+      console.error(chalk.red(`  ${String(error)}`));
+    }
+    process.exit(1);
+  }
+}
@@ -0,0 +1,123 @@
+import axios from "axios";
+import chalk from "chalk";
+import { getHeaders } from "../utils";
+
+interface KeysOptions {
+  url: string;
+  apiKey?: string;
+}
+
+interface ApiKeyInfo {
+  id: string;
+  name: string;
+  prefix: string;
+  agents: string[];
+  projects: string[];
+  capabilities: string[];
+  createdAt: string;
+  createdBy: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+function splitList(value?: string): string[] | undefined {
+  if (!value) return undefined;
+  const items = value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+function printKey(key: ApiKeyInfo) {
+  const status = key.revokedAt ? chalk.red(" (revoked)") : "";
+  console.log(`  ${chalk.cyan(key.name)}${status}`);
+  console.log(`    ID:           ${key.id}`);
+  console.log(`    Key:          ${key.prefix}…`);
+  console.log(`    Agents:       ${key.agents.join(", ")}`);
+  console.log(`    Projects:     ${key.projects.join(", ")}`);
+  console.log(`    Capabilities: ${key.capabilities.join(", ")}`);
+  console.log(
+    `    Last used:    ${key.lastUsedAt ? new Date(key.lastUsedAt).toLocaleString() : "never"}`,
+  );
+  console.log();
+}
+
+function handleError(error: unknown, action: string): never {
+  if (axios.isAxiosError(error) && error.response?.status === 401) {
+    console.error(chalk.red("✗ Unauthorized — provide --api-key or set MEMORY_API_KEY"));
+  } else if (axios.isAxiosError(error) && error.response?.data?.error) {
+    console.error(chalk.red(`✗ Failed to ${action}: ${error.response.data.error}`));
+  } else {
+    console.error(chalk.red(`✗ Failed to ${action}`));
+    console.error(chalk.red(`  ${String(error)}`));
+  }
+  process.exit(1);
+}
+
+export async function keysCreateCommand(
+  options: KeysOptions & {
+    name?: string;
+    agents?: string;
+    projects?: string;
+    capabilities?: string;
+  },
+) {
+  try {
+    if (!options.name) {
+      console.error(chalk.red("✗ --name is required"));
+      process.exit(1);
+    }
+
+    const response = await axios.post(
+      `${options.url}/keys`,
+      {
+        name: options.name,
+        agents: splitList(options.agents),
+        projects: splitList(options.projects),
+        capabilities: splitList(options.capabilities),
+      },
+      { headers: getHeaders(options.apiKey) },
+    );
+
+    console.log(chalk.green.bold("\n✓ API key created\n"));
+    printKey(response.data.apiKey);
+    console.log(`  ${chalk.bold(response.data.key)}`);
+    console.log(chalk.yellow(`\n  ${response.data.message}`));
+    console.log();
+  } catch (error) {
+    handleError(error, "create API key");
+  }
+}
+
+export async function keysListCommand(options: KeysOptions & { all?: boolean }) {
+  try {
+    const response = await axios.get(`${options.url}/keys`, {
+      headers: getHeaders(options.apiKey),
+      params: options.all ? { includeRevoked: "true" } : {},
+    });
+
+    const keys: ApiKeyInfo[] = response.data.keys;
+    if (keys.length === 0) {
+      console.log(chalk.yellow("No API keys — create one with: ocmem keys create --name <name>"));
+      return;
+    }
+
+    console.log(chalk.green.bold(`\n✓ ${keys.length} API key(s)\n`));
+    keys.forEach(printKey);
+  } catch (error) {
+    handleError(error, "list API keys");
+  }
+}
+
+export async function keysRevokeCommand(id: string, options: KeysOptions) {
+  try {
+    const response = await axios.delete(`${options.url}/keys/${id}`, {
+      headers: getHeaders(options.apiKey),
+    });
+
+    console.log(chalk.green(`✓ Revoked API key "${response.data.apiKey.name}"`));
+  } catch (error) {
+    handleError(error, "revoke API key");
+  }
+}
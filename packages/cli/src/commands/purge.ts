@@ -1,6 +1,6 @@
 import axios from "axios";
 import chalk from "chalk";
-import { getHeaders } from "../utils";
+import { getHeaders, printTrashHint } from "../utils";
 
 export async function purgeCommand(
   options: { url: string; apiKey?: string; agent?: string; olderThanDays?: number }
@@ -25,6 +25,7 @@ export async function purgeCommand(
     });
 
     console.log(chalk.green(`✓ Purged ${response.data.deleted} memories`));
+    printTrashHint(response.data);
   } catch (error) {
     if (axios.isAxiosError(error) && error.response?.status === 401) {
       console.error(chalk.red("✗ Unauthorized — provide --api-key or set MEMORY_API_KEY"));
@@ -0,0 +1,137 @@
+import axios from "axios";
+import chalk from "chalk";
+import { getHeaders } from "../utils";
+
+interface ReembedOptions {
+  url: string;
+  apiKey?: string;
+  job?: string;
+}
+
+interface ReembedJob {
+  id: string;
+  fromModel: string;
+  targetModel: string;
+  status: string;
+  total: number;
+  processed: number;
+  errors: number;
+  progress: number;
+  createdAt: string;
+  completedAt?: string;
+  error?: string;
+}
+
+function printJob(job: ReembedJob) {
+  const statusColor =
+    job.status === "complete" || job.status === "ready"
+      ? chalk.green
+      : job.status === "failed" || job.status === "aborted"
+        ? chalk.red
+        : chalk.yellow;
+
+  console.log(`  Job:      ${job.id}`);
+  console.log(`  Models:   ${job.fromModel} → ${chalk.cyan(job.targetModel)}`);
+  console.log(`  Status:   ${statusColor(job.status)}`);
+  console.log(`  Progress: ${job.processed}/${job.total} (${job.progress}%)`);
+  if (job.errors > 0) {
+    console.log(`  Errors:   ${chalk.red(job.errors)} (re-embedded at cutover)`);
+  }
+  if (job.error) {
+    console.log(`  Error:    ${chalk.red(job.error)}`);
+  }
+  console.log();
+}
+
+function handleError(error: unknown, action: string): never {
+  if (axios.isAxiosError(error) && error.response?.status === 401) {
+    console.error(chalk.red("✗ Unauthorized — provide --api-key or set MEMORY_API_KEY"));
+  } else if (axios.isAxiosError(error) && error.response?.data?.error) {
+    console.error(chalk.red(`✗ Failed to ${action}: ${error.response.data.error}`));
+  } else {
+    console.error(chalk.red(`✗ Failed to ${action}`));
+    console.error(chalk.red(`  ${String(error)}`));
+  }
+  process.exit(1);
+}
+
+export async function reembedStartCommand(
+  options: ReembedOptions & { model?: string; dimensions?: string },
+) {
+  try {
+    if (!options.model) {
+      console.error(chalk.red("✗ --model is required"));
+      process.exit(1);
+    }
+
+    const response = await axios.post(
+      `${options.url}/reembed/start`,
+      {
+        model: options.model,
+        ...(options.dimensions && { dimensions: parseInt(options.dimensions, 10) }),
+      },
+      { headers: getHeaders(options.apiKey) },
+    );
+
+    console.log(chalk.green.bold(`\n✓ ${response.data.message}\n`));
+    printJob(response.data.job);
+    console.log(
+      chalk.gray("  Recall keeps using the current model until you run: ocmem reembed cutover"),
+    );
+    console.log();
+  } catch (error) {
+    handleError(error, "start re-embed migration");
+  }
+}
+
+export async function reembedStatusCommand(options: ReembedOptions) {
+  try {
+    const response = await axios.get(`${options.url}/reembed/status`, {
+      headers: getHeaders(options.apiKey),
+      params: options.job ? { jobId: options.job } : {},
+    });
+
+    console.log(chalk.green.bold("\n✓ Re-embed Migration\n"));
+    printJob(response.data.job);
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      console.log(chalk.yellow("No re-embed migration found"));
+      return;
+    }
+    handleError(error, "get re-embed status");
+  }
+}
+
+export async function reembedCutoverCommand(options: ReembedOptions) {
+  try {
+    console.log(chalk.yellow("⏳ Cutting over to the new embedding model..."));
+
+    const response = await axios.post(
+      `${options.url}/reembed/cutover`,
+      options.job ? { jobId: options.job } : {},
+      { headers: getHeaders(options.apiKey) },
+    );
+
+    console.log(chalk.green.bold(`\n✓ ${response.data.message}\n`));
+    printJob(response.data.job);
+    console.log(chalk.yellow(`  ${response.data.hint}`));
+    console.log();
+  } catch (error) {
+    handleError(error, "cut over");
+  }
+}
+
+export async function reembedAbortCommand(options: ReembedOptions) {
+  try {
+    const response = await axios.post(
+      `${options.url}/reembed/abort`,
+      options.job ? { jobId: options.job } : {},
+      { headers: getHeaders(options.apiKey) },
+    );
+
+    console.log(chalk.green("✓ Re-embed migration aborted — shadow vectors removed"));
+    printJob(response.data.job);
+  } catch (error) {
+    handleError(error, "abort re-embed migration");
+  }
+}
@@ -0,0 +1,206 @@
+import axios from "axios";
+import chalk from "chalk";
+import * as readline from "readline";
+import { getHeaders } from "../utils";
+
+interface SnapshotOptions {
+  url: string;
+  apiKey?: string;
+}
+
+interface SnapshotInfo {
+  id: string;
+  agentId: string;
+  name: string;
+  createdAt: string;
+  createdBy: string | null;
+  embeddingModel: string;
+  counts: Record<string, number>;
+}
+
+interface TypeDiff {
+  snapshot: number;
+  live: number;
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+function prompt(question: string): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer.toLowerCase());
+    });
+  });
+}
+
+function formatCounts(counts: Record<string, number>): string {
+  return Object.entries(counts)
+    .filter(([, count]) => count > 0)
+    .map(([type, count]) => `${count} ${type}`)
+    .join(", ");
+}
+
+function printSnapshot(snapshot: SnapshotInfo) {
+  console.log(`  ${chalk.cyan(snapshot.name)}`);
+  console.log(`    ID:      ${snapshot.id}`);
+  console.log(`    Agent:   ${snapshot.agentId}`);
+  console.log(`    Created: ${new Date(snapshot.createdAt).toLocaleString()}`);
+  console.log(`    Holds:   ${formatCounts(snapshot.counts) || "nothing"}`);
+  console.log();
+}
+
+function handleError(error: unknown, action: string): never {
+  if (axios.isAxiosError(error) && error.response?.status === 401) {
+    console.error(chalk.red("✗ Unauthorized — provide --api-key or set MEMORY_API_KEY"));
+  } else if (axios.isAxiosError(error) && error.response?.data?.error) {
+    console.error(chalk.red(`✗ Failed to ${action}: ${error.response.data.error}`));
+  } else {
+    console.error(chalk.red(`✗ Failed to ${action}`));
+    console.error(chalk.red(`  ${String(error)}`));
+  }
+  process.exit(1);
+}
+
+export async function snapshotCreateCommand(
+  options: SnapshotOptions & { agent?: string; name?: string },
+) {
+  try {
+    if (!options.agent) {
+      console.error(chalk.red("✗ --agent is required"));
+      process.exit(1);
+    }
+
+    console.log(chalk.yellow(`⏳ Snapshotting agent "${options.agent}"...`));
+    const response = await axios.post(
+      `${options.url}/snapshots`,
+      { agentId: options.agent, name: options.name },
+      { headers: getHeaders(options.apiKey) },
+    );
+
+    console.log(chalk.green.bold("\n✓ Snapshot created\n"));
+    printSnapshot(response.data.snapshot);
+  } catch (error) {
+    handleError(error, "create snapshot");
+  }
+}
+
+export async function snapshotListCommand(options: SnapshotOptions & { agent?: string }) {
+  try {
+    const response = await axios.get(`${options.url}/snapshots`, {
+      headers: getHeaders(options.apiKey),
+      params: options.agent ? { agentId: options.agent } : {},
+    });
+
+    const snapshots: SnapshotInfo[] = response.data.snapshots;
+    if (snapshots.length === 0) {
+      console.log(
+        chalk.yellow("No snapshots — create one with: ocmem snapshot create --agent <id>"),
+      );
+      return;
+    }
+
+    console.log(chalk.green.bold(`\n✓ ${snapshots.length} snapshot(s)\n`));
+    snapshots.forEach(printSnapshot);
+  } catch (error) {
+    handleError(error, "list snapshots");
+  }
+}
+
+export async function snapshotDiffCommand(id: string, options: SnapshotOptions) {
+  try {
+    const response = await axios.get(`${options.url}/snapshots/${id}/diff`, {
+      headers: getHeaders(options.apiKey),
+    });
+    const { snapshot, types, memories } = response.data as {
+      snapshot: SnapshotInfo;
+      types: Record<string, TypeDiff>;
+      memories: Record<"added" | "removed" | "changed", Array<{ id: string; text: string }>>;
+    };
+
+    console.log(chalk.bold(`\nLive state vs. "${snapshot.name}"\n`));
+    for (const [type, diff] of Object.entries(types)) {
+      console.log(
+        `  ${type.padEnd(12)} ${String(diff.snapshot).padStart(6)} → ${String(diff.live).padEnd(6)}` +
+          chalk.green(` +${diff.added}`) +
+          chalk.red(` -${diff.removed}`) +
+          chalk.yellow(` ~${diff.changed}`),
+      );
+    }
+
+    const labels = {
+      added: chalk.green("+"),
+      removed: chalk.red("-"),
+      changed: chalk.yellow("~"),
+    };
+    for (const status of ["added", "removed", "changed"] as const) {
+      if (memories[status].length === 0) continue;
+      console.log(chalk.bold(`\n  Memories ${status} since the snapshot:`));
+      for (const memory of memories[status]) {
+        console.log(`    ${labels[status]} ${memory.text.slice(0, 100)}`);
+      }
+    }
+    console.log();
+  } catch (error) {
+    handleError(error, "diff snapshot");
+  }
+}
+
+export async function snapshotRestoreCommand(
+  id: string,
+  options: SnapshotOptions & { force?: boolean; backup?: boolean },
+) {
+  try {
+    if (!options.force) {
+      console.log(
+        chalk.yellow(
+          "⚠️  This replaces the agent's memories, episodes, entities and clusters with the snapshot.",
+        ),
+      );
+      if (options.backup === false) {
+        console.log(chalk.yellow("   No backup snapshot will be taken."));
+      }
+      const answer = await prompt("Are you sure? (type 'yes' to confirm): ");
+      if (answer !== "yes") {
+        console.log(chalk.gray("Cancelled."));
+        return;
+      }
+    }
+
+    console.log(chalk.yellow("⏳ Restoring snapshot..."));
+    const response = await axios.post(
+      `${options.url}/snapshots/${id}/restore`,
+      { backup: options.backup !== false },
+      { headers: getHeaders(options.apiKey) },
+    );
+
+    console.log(chalk.green(`✓ Restored "${response.data.snapshot.name}"`));
+    console.log(`  Restored: ${formatCounts(response.data.restored) || "nothing"}`);
+    console.log(`  Deleted:  ${formatCounts(response.data.deleted) || "nothing"}`);
+    if (response.data.backupSnapshotId) {
+      console.log(
+        chalk.gray(
+          `  Undo with: ocmem snapshot restore ${response.data.backupSnapshotId} --no-backup`,
+        ),
+      );
+    }
+  } catch (error) {
+    handleError(error, "restore snapshot");
+  }
+}
+
+export async function snapshotDeleteCommand(id: string, options: SnapshotOptions) {
+  try {
+    await axios.delete(`${options.url}/snapshots/${id}`, {
+      headers: getHeaders(options.apiKey),
+    });
+    console.log(chalk.green(`✓ Deleted snapshot ${id}`));
+  } catch (error) {
+    handleError(error, "delete snapshot");
+  }
+}
@@ -0,0 +1,47 @@
+import { spawn } from "child_process";
+import { existsSync } from "fs";
+import { resolve } from "path";
+import chalk from "chalk";
+import { findProjectRoot } from "../resolve";
+
+export async function workerCommand(options: { concurrency?: string }) {
+  const root = findProjectRoot();
+
+  if (!root) {
+    console.log(chalk.red("\n  Could not find openclaw-memory project."));
+    console.log(chalk.dim("  Run `ocmem init` from the project directory first.\n"));
+    process.exit(1);
+  }
+
+  if (options.concurrency && !/^[1-9]\d*$/.test(options.concurrency)) {
+    console.error(chalk.red("✗ --concurrency must be a positive integer"));
+    process.exit(1);
+  }
+
+  const daemonDir = resolve(root, "packages/daemon");
+  const cwd = existsSync(daemonDir) ? daemonDir : root;
+
+  // Prefer the built worker, fall back to tsx via pnpm
+  const workerJs = resolve(daemonDir, "dist/worker.js");
+  const [cmd, args] = existsSync(workerJs) ? ["node", [workerJs]] : ["pnpm", ["worker"]];
+
+  const env = { ...process.env };
+  if (options.concurrency) env.REFLECTION_WORKER_CONCURRENCY = options.concurrency;
+
+  console.log(chalk.bold("\n  OpenClaw Memory — Reflection worker\n"));
+  console.log(
+    chalk.dim("  Set REFLECTION_WORKER=false on the daemon to run reflection only here.\n"),
+  );
+
+  // The worker reads .env.local itself (same files as the daemon)
+  const child = spawn(cmd, args, { cwd, stdio: "inherit", env });
+
+  child.on("error", (err) => {
+    console.error(chalk.red(`  Failed to start worker: ${err.message}`));
+    process.exit(1);
+  });
+  child.on("exit", (code) => process.exit(code ?? 0));
+
+  // The child gets Ctrl+C from the terminal; stay alive until it exits
+  process.on("SIGINT", () => {});
+}
@@ -3,13 +3,29 @@
 import { Command } from "commander";
 import { initCommand } from "./commands/init";
 import { startCommand } from "./commands/start";
+import { workerCommand } from "./commands/worker";
 import { statusCommand } from "./commands/status";
 import { debugCommand } from "./commands/debug";
 import { searchCommand } from "./commands/search";
 import { purgeCommand } from "./commands/purge";
 import { exportCommand } from "./commands/export";
+import { importCommand } from "./commands/import";
 import { clearCommand } from "./commands/clear";
 import { dashboardCommand } from "./commands/dashboard";
+import {
+  reembedStartCommand,
+  reembedStatusCommand,
+  reembedCutoverCommand,
+  reembedAbortCommand,
+} from "./commands/reembed";
+import { keysCreateCommand, keysListCommand, keysRevokeCommand } from "./commands/keys";
+import {
+  snapshotCreateCommand,
+  snapshotDeleteCommand,
+  snapshotDiffCommand,
+  snapshotListCommand,
+  snapshotRestoreCommand,
+} from "./commands/snapshots";
 import { resolveDaemonUrl } from "./resolve";
 import pkg from "../package.json";
 
@@ -34,6 +50,12 @@ program
   .option("--web", "Also start the web dashboard")
   .action(startCommand);
 
+program
+  .command("worker")
+  .description("Run a reflection worker that drains the job queue (foreground)")
+  .option("--concurrency <n>", "Jobs to run at the same time (default: 1)")
+  .action(workerCommand);
+
 program
   .command("dashboard")
   .description("Open the web dashboard in your browser")
@@ -84,13 +106,22 @@ program
 
 program
   .command("export")
-  .description("Export memories to JSON file")
+  .description("Export memories, episodes, entities, edges, clusters and settings to an archive")
   .option("--url <url>", "Daemon URL", DEFAULT_URL)
   .option("--api-key <key>", "API key for daemon auth", process.env.MEMORY_API_KEY)
-  .option("--agent <id>", "Agent ID (required)")
+  .option("--agent <id>", "Agent ID (default: all agents)")
   .option("--output <path>", "Output file path")
+  .option("--format <format>", "ndjson (full archive) or json (memories only)", "ndjson")
   .action(exportCommand);
 
+program
+  .command("import <file>")
+  .description("Import an NDJSON archive from ocmem export")
+  .option("--url <url>", "Daemon URL", DEFAULT_URL)
+  .option("--api-key <key>", "Admin API key for daemon auth", process.env.MEMORY_API_KEY)
+  .option("--replace", "Overwrite documents that already exist (default: skip them)")
+  .action(importCommand);
+
 program
   .command("clear")
   .description("Delete all memories for an agent (DANGEROUS)")
@@ -100,4 +131,116 @@ program
   .option("--force", "Skip confirmation prompt")
   .action(clearCommand);
 
+const reembed = program
+  .command("reembed")
+  .description("Switch the embedding model without a recall outage");
+
+reembed
+  .command("start")
+  .description("Embed all memories with a new model into shadow vectors")
+  .option("--url <url>", "Daemon URL", DEFAULT_URL)
+  .option("--api-key <key>", "API key for daemon auth", process.env.MEMORY_API_KEY)
+  .option("--model <model>", "Target embedding model (required)")
+  .option("--dimensions <n>", "Output dimensions (must match the vector index)")
+  .action(reembedStartCommand);
+
+reembed
+  .command("status")
+  .description("Show migration progress")
+  .option("--url <url>", "Daemon URL", DEFAULT_URL)
+  .option("--api-key <key>", "API key for daemon auth", process.env.MEMORY_API_KEY)
+  .option("--job <id>", "Job ID (default: most recent)")
+  .action(reembedStatusCommand);
+
+reembed
+  .command("cutover")
+  .description("Switch recall to the new model and drop the old vectors")
+  .option("--url <url>", "Daemon URL", DEFAULT_URL)
+  .option("--api-key <key>", "API key for daemon auth", process.env.MEMORY_API_KEY)
+  .option("--job <id>", "Job ID (default: most recent)")
+  .action(reembedCutoverCommand);
+
+reembed
+  .command("abort")
+  .description("Stop the migration and remove its shadow vectors")
+  .option("--url <url>", "Daemon URL", DEFAULT_URL)
+  .option("--api-key <key>", "API key for daemon auth", process.env.MEMORY_API_KEY)
+  .option("--job <id>", "Job ID (default: most recent)")
+  .action(reembedAbortCommand);
+
+const keys = program.command("keys").description("Manage scoped API keys");
+
+keys
+  .command("create")
+  .description("Create an API key (printed once)")
+  .option("--url <url>", "Daemon URL", DEFAULT_URL)
+  .option("--api-key <key>", "Admin API key for daemon auth", process.env.MEMORY_API_KEY)
+  .option("--name <name>", "Key name, recorded on usage events (required)")
+  .option("--agents <patterns>", "Comma-separated agent ID patterns, * wildcard (default: *)")
+  .option("--projects <patterns>", "Comma-separated project ID patterns (default: *)")
+  .option(
+    "--capabilities <list>",
+    "Comma-separated: read, write, reflect, admin (default: read,write)",
+  )
+  .action(keysCreateCommand);
+
+keys
+  .command("list")
+  .description("List API keys")
+  .option("--url <url>", "Daemon URL", DEFAULT_URL)
+  .option("--api-key <key>", "Admin API key for daemon auth", process.env.MEMORY_API_KEY)
+  .option("--all", "Include revoked keys")
+  .action(keysListCommand);
+
+keys
+  .command("revoke <id>")
+  .description("Revoke an API key")
+  .option("--url <url>", "Daemon URL", DEFAULT_URL)
+  .option("--api-key <key>", "Admin API key for daemon auth", process.env.MEMORY_API_KEY)
+  .action(keysRevokeCommand);
+
+const snapshot = program
+  .command("snapshot")
+  .description("Capture an agent's memory and roll back to it");
+
+snapshot
+  .command("create")
+  .description("Snapshot an agent's memories, episodes, entities and clusters")
+  .option("--url <url>", "Daemon URL", DEFAULT_URL)
+  .option("--api-key <key>", "API key for daemon auth", process.env.MEMORY_API_KEY)
+  .option("--agent <id>", "Agent ID (required)")
+  .option("--name <name>", "Snapshot name (default: timestamp)")
+  .action(snapshotCreateCommand);
+
+snapshot
+  .command("list")
+  .description("List snapshots, newest first")
+  .option("--url <url>", "Daemon URL", DEFAULT_URL)
+  .option("--api-key <key>", "API key for daemon auth", process.env.MEMORY_API_KEY)
+  .option("--agent <id>", "Agent ID (default: all agents)")
+  .action(snapshotListCommand);
+
+snapshot
+  .command("diff <id>")
+  .description("Show what changed since a snapshot")
+  .option("--url <url>", "Daemon URL", DEFAULT_URL)
+  .option("--api-key <key>", "API key for daemon auth", process.env.MEMORY_API_KEY)
+  .action(snapshotDiffCommand);
+
+snapshot
+  .command("restore <id>")
+  .description("Roll the agent back to a snapshot")
+  .option("--url <url>", "Daemon URL", DEFAULT_URL)
+  .option("--api-key <key>", "Admin API key for daemon auth", process.env.MEMORY_API_KEY)
+  .option("--no-backup", "Don't snapshot the current state first")
+  .option("--force", "Skip confirmation prompt")
+  .action(snapshotRestoreCommand);
+
+snapshot
+  .command("delete <id>")
+  .description("Delete a snapshot")
+  .option("--url <url>", "Daemon URL", DEFAULT_URL)
+  .option("--api-key <key>", "Admin API key for daemon auth", process.env.MEMORY_API_KEY)
+  .action(snapshotDeleteCommand);
+
 program.parse();
@@ -1,3 +1,5 @@
+import chalk from "chalk";
+
 export function getHeaders(apiKey?: string): Record<string, string> {
   const headers: Record<string, string> = {};
   if (apiKey) {
@@ -5,3 +7,17 @@ export function getHeaders(apiKey?: string): Record<string, string> {
   }
   return headers;
 }
+
+/** Tell the user how to undo a purge / clear that went to the trash */
+export function printTrashHint(data: {
+  deleted: number;
+  operationId?: string | null;
+  purgeAfter?: string | null;
+}) {
+  if (!data.operationId || data.deleted === 0) return;
+  const until = data.purgeAfter
+    ? new Date(data.purgeAfter).toLocaleString()
+    : "the retention window ends";
+  console.log(chalk.gray(`  Moved to trash until ${until} — restore with POST /trash/restore`));
+  console.log(chalk.gray(`  Operation ID: ${data.operationId}`));
+}
@@ -4,6 +4,7 @@ import type {
   RememberOptions,
   RecallOptions,
   RecallResult,
+  ReinforceResult,
   ExportResult,
   StatusResult,
 } from "./types";
@@ -47,12 +48,19 @@ export class MemoryClient {
       query,
       limit: options?.limit ?? 10,
       tags: options?.tags?.join(","),
+      mode: options?.mode,
+      reinforce: options?.reinforce ? "true" : undefined,
     };
 
     const response = await this.client.get("/recall", { params });
     return response.data.results;
   }
 
+  async reinforce(id: string): Promise<ReinforceResult> {
+    const response = await this.client.post(`/memories/${id}/reinforce`);
+    return response.data;
+  }
+
   async forget(id: string): Promise<void> {
     await this.client.delete(`/forget/${id}`);
   }
@@ -2,8 +2,12 @@ export { MemoryClient } from "./MemoryClient";
 export type {
   MemoryClientConfig,
   RememberOptions,
+  RecallMode,
   RecallOptions,
   RecallResult,
+  RecallScores,
+  ReinforceResult,
+  ScoreBreakdown,
   ExportResult,
   StatusResult,
 } from "./types";
@@ -11,9 +11,30 @@ export interface RememberOptions {
   ttl?: number; // seconds
 }
 
+export type RecallMode = "vector" | "hybrid";
+
 export interface RecallOptions {
   limit?: number;
   tags?: string[];
+  mode?: RecallMode;
+  reinforce?: boolean; // reinforce returned hits (counts as "used")
+}
+
+export interface RecallScores {
+  fused: number;
+  vector: number | null;
+  vectorRank: number | null;
+  text: number | null;
+  textRank: number | null;
+}
+
+export interface ScoreBreakdown {
+  similarity: number;
+  strength: number;
+  confidence: number;
+  recency: number;
+  layerBoost: number;
+  final: number;
 }
 
 export interface RecallResult {
@@ -23,6 +44,16 @@ export interface RecallResult {
   tags: string[];
   metadata: Record<string, unknown>;
   createdAt: Date;
+  scores?: RecallScores; // present when mode is "hybrid"
+  scoreBreakdown?: ScoreBreakdown; // present on vector hits
+}
+
+export interface ReinforceResult {
+  id: string;
+  confidence: number;
+  strength: number;
+  reinforcementCount: number;
+  lastReinforcedAt: string;
 }
 
 export interface ExportResult {
@@ -0,0 +1,216 @@
+/**
+ * Tests for scoped API keys (services/apiKeyService.ts) and route
+ * authorization (middleware/auth.ts)
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import express, { Express, NextFunction, Request, Response } from "express";
+import request from "supertest";
+import { Db, ObjectId } from "mongodb";
+import { createTestApp } from "./helpers";
+import { authorize } from "../middleware/auth";
+import {
+  exceedsScope,
+  hashApiKey,
+  matchesPattern,
+  runAsApiKey,
+  type ApiKeyPrincipal,
+} from "../services/apiKeyService";
+
+const scopedKey: ApiKeyPrincipal = {
+  id: "key-1",
+  name: "ci-bot",
+  agents: ["ci-*"],
+  projects: ["*"],
+  capabilities: ["read", "write"],
+};
+
+/** App whose requests run as `principal` (or anonymously), skipping key lookup */
+function appFor(principal?: ApiKeyPrincipal): Express {
+  const app = express();
+  app.use(express.json());
+  if (principal) {
+    app.use((_req: Request, _res: Response, next: NextFunction) => runAsApiKey(principal, next));
+  }
+  const ok = (_req: Request, res: Response) => res.json({ success: true });
+  app.post("/remember", authorize("write", "project"), ok);
+  app.get("/recall", authorize("read", "project"), ok);
+  app.delete("/clear", authorize("admin"), ok);
+  app.get("/settings/:agentId", authorize("read"), ok);
+  app.post("/reembed/start", authorize("admin", "global"), ok);
+  app.get("/reflect/status", authorize("read", "job"), ok);
+  return app;
+}
+
+describe("matchesPattern", () => {
+  it("should treat * as a wildcard", () => {
+    expect(matchesPattern("*", "anything")).toBe(true);
+    expect(matchesPattern("ci-*", "ci-runner")).toBe(true);
+    expect(matchesPattern("ci-*", "prod-runner")).toBe(false);
+    expect(matchesPattern("*-bot", "ci-bot")).toBe(true);
+  });
+
+  it("should match literally otherwise", () => {
+    expect(matchesPattern("openclaw", "openclaw")).toBe(true);
+    expect(matchesPattern("openclaw", "openclaw2")).toBe(false);
+    expect(matchesPattern("a.b", "axb")).toBe(false);
+  });
+});
+
+describe("exceedsScope", () => {
+  it("should accept keys within the caller's patterns and capabilities", () => {
+    expect(
+      exceedsScope(scopedKey, {
+        agents: ["ci-web", "ci-*"],
+        projects: ["api"],
+        capabilities: ["read"],
+      }),
+    ).toBeNull();
+  });
+
+  it("should name what goes beyond the caller", () => {
+    const limited = { ...scopedKey, projects: ["web"] };
+    expect(
+      exceedsScope(limited, { agents: ["ci-a"], projects: ["*"], capabilities: ["read"] }),
+    ).toBe("projects *");
+    expect(
+      exceedsScope(scopedKey, { agents: ["*"], projects: ["*"], capabilities: ["read"] }),
+    ).toBe("agents *");
+    expect(
+      exceedsScope(scopedKey, { agents: ["ci-a"], projects: ["*"], capabilities: ["admin"] }),
+    ).toBe("capabilities admin");
+  });
+});
+
+describe("hashApiKey", () => {
+  it("should be stable and not contain the key", () => {
+    const hash = hashApiKey("ocm_secret");
+    expect(hash).toBe(hashApiKey("ocm_secret"));
+    expect(hash).not.toContain("secret");
+    expect(hash).toHaveLength(64);
+  });
+});
+
+describe("authorize", () => {
+  it("should allow everything on an open daemon", async () => {
+    const response = await request(appFor()).delete("/clear").send({ agentId: "prod" });
+    expect(response.status).toBe(200);
+  });
+
+  it("should allow a matching agent with the right capability", async () => {
+    const app = appFor(scopedKey);
+
+    expect(
+      (await request(app).post("/remember").send({ agentId: "ci-runner", text: "x" })).status,
+    ).toBe(200);
+    expect((await request(app).get("/recall").query({ agentId: "ci-runner" })).status).toBe(200);
+    expect((await request(app).get("/settings/ci-runner")).status).toBe(200);
+  });
+
+  it("should reject agents outside the key's patterns", async () => {
+    const app = appFor(scopedKey);
+
+    const response = await request(app).post("/remember").send({ agentId: "prod", text: "x" });
+    expect(response.status).toBe(403);
+    expect(response.body.error).toContain('agent "prod"');
+
+    expect((await request(app).get("/settings/prod")).status).toBe(403);
+  });
+
+  it("should reject missing capabilities", async () => {
+    const response = await request(appFor(scopedKey)).delete("/clear").send({ agentId: "ci-x" });
+    expect(response.status).toBe(403);
+    expect(response.body.error).toContain("admin");
+  });
+
+  it("should check agentId in the query as well as the body", async () => {
+    const app = appFor({ ...scopedKey, capabilities: ["read", "write", "admin"] });
+
+    expect((await request(app).delete("/clear").query({ agentId: "ci-a" })).status).toBe(200);
+    expect((await request(app).delete("/clear").query({ agentId: "prod" })).status).toBe(403);
+
+    // The route reads the query; a matching body must not vouch for it
+    const smuggled = await request(app)
+      .delete("/clear")
+      .query({ agentId: "prod" })
+      .send({ agentId: "ci-a" });
+    expect(smuggled.status).toBe(403);
+
+    const repeated = await request(app).get("/recall?agentId=ci-a&agentId=prod");
+    expect(repeated.status).toBe(403);
+
+    expect(
+      (await request(app).delete("/clear").query({ agentId: "ci-a" }).send({ agentId: "ci-a" }))
+        .status,
+    ).toBe(200);
+  });
+
+  it("should require agentId from keys limited to specific agents", async () => {
+    const response = await request(appFor(scopedKey)).get("/recall");
+    expect(response.status).toBe(403);
+  });
+
+  it("should keep agent-limited keys off global routes", async () => {
+    const admin = { ...scopedKey, capabilities: ["admin" as const] };
+    expect((await request(appFor(admin)).post("/reembed/start")).status).toBe(403);
+    expect((await request(appFor({ ...admin, agents: ["*"] })).post("/reembed/start")).status).toBe(
+      200,
+    );
+    expect(
+      (await request(appFor({ ...admin, agents: ["*"], projects: ["web"] })).post("/reembed/start"))
+        .status,
+    ).toBe(403);
+  });
+
+  it("should enforce project patterns", async () => {
+    const app = appFor({ ...scopedKey, projects: ["web"] });
+
+    expect(
+      (await request(app).get("/recall").query({ agentId: "ci-a", projectId: "web" })).status,
+    ).toBe(200);
+    expect(
+      (await request(app).get("/recall").query({ agentId: "ci-a", projectId: "api" })).status,
+    ).toBe(403);
+    expect((await request(app).get("/recall").query({ agentId: "ci-a" })).status).toBe(403);
+  });
+});
+
+describe("authorize owned resources", () => {
+  let db: Db;
+  const jobIds: ObjectId[] = [];
+
+  async function insertJob(agentId: string): Promise<string> {
+    const _id = new ObjectId();
+    await db.collection("reflection_jobs").insertOne({
+      _id,
+      agentId,
+      status: "complete",
+      createdAt: new Date(),
+      stages: [],
+    });
+    jobIds.push(_id);
+    return _id.toString();
+  }
+
+  function jobStatus(app: Express, jobId: string | string[]) {
+    return request(app).get("/reflect/status").query({ jobId });
+  }
+
+  beforeAll(async () => {
+    db = (await createTestApp()).locals.db;
+  });
+
+  afterAll(async () => {
+    await db.collection("reflection_jobs").deleteMany({ _id: { $in: jobIds } });
+  });
+
+  it("should check the owner of the job in ?jobId=", async () => {
+    const app = appFor(scopedKey);
+    app.locals.db = db;
+
+    expect((await jobStatus(app, await insertJob("ci-a"))).status).toBe(200);
+    expect((await jobStatus(app, await insertJob("prod"))).status).toBe(403);
+    const own = await insertJob("ci-b");
+    expect((await jobStatus(app, [own, own])).status).toBe(403);
+  });
+});
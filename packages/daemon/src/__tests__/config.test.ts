@@ -93,4 +93,59 @@ describe("loadConfig", () => {
 
     expect(config.memoryApiKey).toBe("my-secret-key");
   });
+
+  it("should default trash retention to 30 days and allow 0", async () => {
+    process.env.MONGODB_URI = "mongodb://localhost:27017";
+    process.env.VOYAGE_MOCK = "true";
+    delete process.env.TRASH_RETENTION_DAYS;
+
+    const { loadConfig } = await import("../config");
+    expect(loadConfig().trashRetentionDays).toBe(30);
+
+    process.env.TRASH_RETENTION_DAYS = "0";
+    expect(loadConfig().trashRetentionDays).toBe(0);
+  });
+
+  it("should run the reflection worker in-process unless REFLECTION_WORKER=false", async () => {
+    process.env.MONGODB_URI = "mongodb://localhost:27017";
+    process.env.VOYAGE_MOCK = "true";
+    delete process.env.REFLECTION_WORKER;
+    delete process.env.REFLECTION_WORKER_CONCURRENCY;
+
+    const { loadConfig } = await import("../config");
+    const config = loadConfig();
+    expect(config.reflectionWorkerEnabled).toBe(true);
+    expect(config.reflectionWorkerConcurrency).toBe(1);
+    expect(config.reflectionJobMaxAttempts).toBe(3);
+
+    process.env.REFLECTION_WORKER = "false";
+    process.env.REFLECTION_WORKER_CONCURRENCY = "4";
+    expect(loadConfig().reflectionWorkerEnabled).toBe(false);
+    expect(loadConfig().reflectionWorkerConcurrency).toBe(4);
+  });
+
+  it("should not require VOYAGE_API_KEY for non-voyage providers", async () => {
+    process.env.MONGODB_URI = "mongodb://localhost:27017";
+    delete process.env.VOYAGE_API_KEY;
+    process.env.VOYAGE_MOCK = "false";
+    process.env.EMBEDDING_PROVIDER = "ollama";
+    process.env.EMBEDDING_MODEL = "bge-m3";
+
+    const { loadConfig } = await import("../config");
+    const config = loadConfig();
+
+    expect(config.embeddingProvider).toBe("ollama");
+    expect(config.embeddingModel).toBe("bge-m3");
+  });
+
+  it("should default to the voyage provider", async () => {
+    process.env.MONGODB_URI = "mongodb://localhost:27017";
+    process.env.VOYAGE_MOCK = "true";
+    delete process.env.EMBEDDING_PROVIDER;
+
+    const { loadConfig } = await import("../config");
+    const config = loadConfig();
+
+    expect(config.embeddingProvider).toBe("voyage");
+  });
 });
@@ -0,0 +1,208 @@
+/**
+ * Tests for LLM contradiction classification (services/contradictionClassifier.ts)
+ * and how detectContradictions() uses it
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll, vi } from "vitest";
+import { Db } from "mongodb";
+import { connectDatabase } from "../db";
+import { COLLECTION_CONTRADICTION_VERDICTS, COLLECTION_MEMORIES } from "../constants";
+import { hashEmbed, LocalEmbedder } from "../embedders/local";
+import { classifyPair, hashPair, parseVerdict } from "../services/contradictionClassifier";
+import { detectContradictions } from "../services/contradictionDetector";
+import { resolveSettings } from "../services/settingsService";
+import type { DaemonConfig } from "../config";
+import type { AgentSettings, ResolvedPipelineSettings } from "../types/settings";
+
+const MODEL = "test-verdict-model";
+const agentId = "test-agent-contradiction-classifier";
+
+const llmConfig = {
+  endpoint: "http://llm.test/api/generate",
+  model: MODEL,
+  temperature: 0,
+  maxTokens: 200,
+  timeoutMs: 5000,
+};
+
+function stubVerdict(verdict: object) {
+  const fetchMock = vi.fn().mockResolvedValue({
+    ok: true,
+    status: 200,
+    statusText: "OK",
+    json: async () => ({ response: JSON.stringify(verdict) }),
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+function llmSettings(): ResolvedPipelineSettings {
+  const settings = resolveSettings(null, null, {} as DaemonConfig);
+  return {
+    ...settings,
+    contradictionClassifier: "llm",
+    llmProvider: { ...settings.llmProvider, ...llmConfig },
+  };
+}
+
+describe("parseVerdict", () => {
+  it("should normalize verdict spelling and clamp confidence", () => {
+    expect(
+      parseVerdict(
+        { verdict: "Temporal_Update", confidence: 1.4, explanation: " Moved. " },
+        llmConfig,
+      ),
+    ).toEqual({ verdict: "temporal-update", probability: 1, explanation: "Moved." });
+  });
+
+  it("should treat a missing confidence as unsure", () => {
+    expect(parseVerdict({ verdict: "contradicts" }, llmConfig).probability).toBe(0.5);
+  });
+
+  it("should reject answers that aren't a verdict", () => {
+    expect(() => parseVerdict({ verdict: "maybe" }, llmConfig)).toThrow(
+      /Unknown contradiction verdict/,
+    );
+  });
+});
+
+describe("resolveSettings — contradiction classifier", () => {
+  const doc = (fields: Partial<AgentSettings>) => fields as AgentSettings;
+
+  it("should default to the heuristic", () => {
+    expect(resolveSettings(null, null, {} as DaemonConfig).contradictionClassifier).toBe(
+      "heuristic",
+    );
+  });
+
+  it("should let the agent override the global setting", () => {
+    const global = doc({ contradictionClassifier: "llm" });
+
+    expect(resolveSettings(null, global, {} as DaemonConfig).contradictionClassifier).toBe("llm");
+    expect(
+      resolveSettings(doc({ contradictionClassifier: "heuristic" }), global, {} as DaemonConfig)
+        .contradictionClassifier,
+    ).toBe("heuristic");
+  });
+});
+
+describe("LLM contradiction classification", () => {
+  let db: Db;
+  const embedder = new LocalEmbedder();
+
+  /** Store an existing memory whose vector matches the new one exactly */
+  const seed = async (text: string) => {
+    await db.collection(COLLECTION_MEMORIES).insertOne({
+      agentId,
+      text,
+      tags: [],
+      embedding: hashEmbed(text),
+      createdAt: new Date(),
+    });
+    return hashEmbed(text);
+  };
+
+  beforeAll(async () => {
+    ({ db } = await connectDatabase({ mongoUri: process.env.MONGODB_URI! }));
+  });
+
+  beforeEach(async () => {
+    await db.collection(COLLECTION_MEMORIES).deleteMany({ agentId });
+    await db.collection(COLLECTION_CONTRADICTION_VERDICTS).deleteMany({ model: MODEL });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  afterAll(async () => {
+    await db.collection(COLLECTION_MEMORIES).deleteMany({ agentId });
+    await db.collection(COLLECTION_CONTRADICTION_VERDICTS).deleteMany({ model: MODEL });
+  });
+
+  it("should serve repeated pairs from the verdict cache", async () => {
+    const fetchMock = stubVerdict({
+      verdict: "contradicts",
+      confidence: 0.9,
+      explanation: "Opposite deploy days",
+    });
+
+    const first = await classifyPair(
+      db,
+      "Deploys are on Monday",
+      "Deploys are on Friday",
+      llmConfig,
+    );
+    expect(first).toMatchObject({ verdict: "contradicts", probability: 0.9, cached: false });
+
+    const verdicts = db.collection(COLLECTION_CONTRADICTION_VERDICTS);
+    const pairHash = hashPair("Deploys are on Monday", "Deploys are on Friday");
+    await vi.waitFor(async () => expect(await verdicts.findOne({ pairHash })).not.toBeNull());
+
+    const second = await classifyPair(
+      db,
+      "Deploys are on Monday",
+      "Deploys are on Friday",
+      llmConfig,
+    );
+    expect(second).toMatchObject({ verdict: "contradicts", cached: true });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // The reversed pair is a different question
+    await classifyPair(db, "Deploys are on Friday", "Deploys are on Monday", llmConfig);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should flag temporal updates and record the verdict", async () => {
+    const embedding = await seed("The team works from Lisbon");
+    stubVerdict({ verdict: "temporal-update", confidence: 0.85, explanation: "The team moved" });
+
+    const contradictions = await detectContradictions(
+      { agentId, text: "The team works from Porto now", tags: [] },
+      embedding,
+      db,
+      embedder,
+      llmSettings(),
+    );
+
+    expect(contradictions).toHaveLength(1);
+    expect(contradictions[0]).toMatchObject({
+      type: "temporal",
+      probability: 0.85,
+      explanation: "The team moved",
+      classifiedBy: "llm",
+      resolution: "unresolved",
+    });
+  });
+
+  it("should trust an entails verdict over the negation heuristic", async () => {
+    const embedding = await seed("We don't deploy on Fridays");
+    stubVerdict({ verdict: "entails", confidence: 0.95 });
+
+    const contradictions = await detectContradictions(
+      { agentId, text: "Friday deploys are off limits", tags: [] },
+      embedding,
+      db,
+      embedder,
+      llmSettings(),
+    );
+
+    expect(contradictions).toEqual([]);
+  });
+
+  it("should fall back to the heuristic when the LLM is unreachable", async () => {
+    const embedding = await seed("We don't deploy on Fridays");
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("connect ECONNREFUSED")));
+
+    const contradictions = await detectContradictions(
+      { agentId, text: "We deploy on Fridays", tags: [] },
+      embedding,
+      db,
+      embedder,
+      llmSettings(),
+    );
+
+    expect(contradictions).toHaveLength(1);
+    expect(contradictions[0]).toMatchObject({ type: "direct", classifiedBy: "heuristic" });
+  });
+});
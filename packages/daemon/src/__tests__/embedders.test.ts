@@ -0,0 +1,109 @@
+/**
+ * Tests for pluggable embedding providers (embedders/)
+ */
+
+import { describe, it, expect } from "vitest";
+import { EMBEDDING_DIMENSIONS } from "../constants";
+import { LocalEmbedder, OllamaEmbedder, OpenAiEmbedder, SwitchableEmbedder } from "../embedders";
+import { VoyageEmbedder } from "../embedding";
+import { estimateCost } from "../types/usage";
+
+describe("LocalEmbedder", () => {
+  const embedder = new LocalEmbedder();
+
+  it("should produce deterministic unit vectors of the configured dimension", async () => {
+    const [a, b] = await embedder.embed(["same text", "same text"]);
+
+    expect(a).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(a).toEqual(b);
+    const magnitude = Math.sqrt(a.reduce((sum, v) => sum + v * v, 0));
+    expect(magnitude).toBeCloseTo(1, 5);
+  });
+
+  it("should report mock mode and emit zero-token usage", async () => {
+    const events: Array<{ totalTokens: number; provider: string }> = [];
+    embedder.usageEmitter.on("usage", (e) => events.push(e));
+
+    await embedder.embedOne("hello");
+
+    expect(embedder.isMockMode()).toBe(true);
+    expect(events[0]).toMatchObject({ totalTokens: 0, provider: "local" });
+  });
+});
+
+describe("OpenAiEmbedder", () => {
+  it("should request EMBEDDING_DIMENSIONS from text-embedding-3 models", () => {
+    const embedder = new OpenAiEmbedder({ model: "text-embedding-3-large" });
+    expect(embedder.getDimensions()).toBe(EMBEDDING_DIMENSIONS);
+  });
+
+  it("should declare the native dimension of fixed-size models", () => {
+    const embedder = new OpenAiEmbedder({ model: "text-embedding-ada-002" });
+    expect(embedder.getDimensions()).toBe(1536);
+  });
+
+  it("should throw for unknown models without an explicit dimension", () => {
+    expect(() => new OpenAiEmbedder({ model: "my-custom-embedder" })).toThrow(
+      "EMBEDDING_MODEL_DIMENSIONS",
+    );
+    expect(
+      new OpenAiEmbedder({ model: "my-custom-embedder", dimensions: 1024 }).getDimensions(),
+    ).toBe(1024);
+  });
+});
+
+describe("OllamaEmbedder", () => {
+  it("should resolve dimensions from tagged model names", () => {
+    expect(new OllamaEmbedder({ model: "mxbai-embed-large:latest" }).getDimensions()).toBe(1024);
+    expect(new OllamaEmbedder({ model: "nomic-embed-text:v1.5" }).getDimensions()).toBe(768);
+  });
+
+  it("should throw for unknown models without an explicit dimension", () => {
+    expect(() => new OllamaEmbedder({ model: "mystery-embed" })).toThrow(
+      "EMBEDDING_MODEL_DIMENSIONS",
+    );
+  });
+});
+
+describe("VoyageEmbedder dimensions", () => {
+  it("should declare 512 dims for voyage-3-lite and 1024 otherwise", () => {
+    expect(new VoyageEmbedder("k", undefined, "voyage-3-lite", false).getDimensions()).toBe(512);
+    expect(new VoyageEmbedder("k", undefined, "voyage-4", false).getDimensions()).toBe(1024);
+  });
+
+  it("should always match EMBEDDING_DIMENSIONS in mock mode", () => {
+    const embedder = new VoyageEmbedder("k", undefined, "voyage-3-lite", true);
+    expect(embedder.getDimensions()).toBe(EMBEDDING_DIMENSIONS);
+  });
+});
+
+describe("SwitchableEmbedder", () => {
+  it("should route calls and usage events to the current embedder after a swap", async () => {
+    const before = new LocalEmbedder(8);
+    const after = new LocalEmbedder(16);
+    const live = new SwitchableEmbedder(before);
+    const events: unknown[] = [];
+    live.usageEmitter.on("usage", (e) => events.push(e));
+
+    await live.embedOne("hello");
+    expect(live.swap(after)).toBe(before);
+    const vector = await live.embedOne("hello");
+    await before.embedOne("not forwarded");
+
+    expect(vector).toHaveLength(16);
+    expect(live.getDimensions()).toBe(16);
+    expect(live.current).toBe(after);
+    expect(events).toHaveLength(2);
+  });
+});
+
+describe("estimateCost by provider", () => {
+  it("should be free for local and ollama providers", () => {
+    expect(estimateCost("mxbai-embed-large", 1_000_000, "ollama")).toBe(0);
+    expect(estimateCost("local-hash", 1_000_000, "local")).toBe(0);
+  });
+
+  it("should price OpenAI models", () => {
+    expect(estimateCost("text-embedding-3-small", 1_000_000, "openai")).toBeGreaterThan(0);
+  });
+});
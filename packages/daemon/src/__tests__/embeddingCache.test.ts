@@ -0,0 +1,115 @@
+/**
+ * Tests for the persistent embedding cache (embedders/cache.ts)
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from "vitest";
+import { Db } from "mongodb";
+import { connectDatabase } from "../db";
+import { COLLECTION_EMBEDDING_CACHE } from "../constants";
+import { BaseEmbedder, EmbeddingInputType, EmbeddingProvider } from "../embedders/base";
+import { CachingEmbedder, hashText } from "../embedders/cache";
+import { hashEmbed } from "../embedders/local";
+import type { EmbeddingCacheEvent } from "../types/usage";
+
+const MODEL = "test-cache-model";
+
+/** Real (non-mock) embedder that counts the texts it is asked to embed */
+class CountingEmbedder extends BaseEmbedder {
+  readonly provider: EmbeddingProvider = "openai";
+  embeddedTexts: string[] = [];
+
+  getModel(): string {
+    return MODEL;
+  }
+
+  getDimensions(): number {
+    return 1024;
+  }
+
+  async embed(texts: string[], _inputType?: EmbeddingInputType): Promise<number[][]> {
+    this.embeddedTexts.push(...texts);
+    return texts.map((t) => hashEmbed(t));
+  }
+}
+
+describe("CachingEmbedder", () => {
+  let db: Db;
+  let inner: CountingEmbedder;
+  let cache: CachingEmbedder;
+
+  const cachedCount = () =>
+    db.collection(COLLECTION_EMBEDDING_CACHE).countDocuments({ model: MODEL });
+
+  beforeAll(async () => {
+    ({ db } = await connectDatabase({ mongoUri: process.env.MONGODB_URI! }));
+  });
+
+  beforeEach(async () => {
+    await db.collection(COLLECTION_EMBEDDING_CACHE).deleteMany({ model: MODEL });
+    inner = new CountingEmbedder();
+    cache = new CachingEmbedder(inner, db);
+  });
+
+  afterAll(async () => {
+    await db.collection(COLLECTION_EMBEDDING_CACHE).deleteMany({ model: MODEL });
+  });
+
+  it("should only call the provider for texts it hasn't seen", async () => {
+    const first = await cache.embed(["alpha", "beta"], "document");
+    await vi.waitFor(async () => expect(await cachedCount()).toBe(2));
+
+    const second = await cache.embed(["beta", "gamma", "alpha"], "document");
+
+    expect(inner.embeddedTexts).toEqual(["alpha", "beta", "gamma"]);
+    expect(second[0]).toEqual(first[1]);
+    expect(second[2]).toEqual(first[0]);
+  });
+
+  it("should key entries by input type", async () => {
+    await cache.embedOne("same text", "document");
+    await vi.waitFor(async () => expect(await cachedCount()).toBe(1));
+
+    await cache.embedOne("same text", "query");
+
+    expect(inner.embeddedTexts).toEqual(["same text", "same text"]);
+  });
+
+  it("should embed duplicate texts in one batch only once", async () => {
+    const result = await cache.embed(["dup", "dup", "other"]);
+
+    expect(inner.embeddedTexts).toEqual(["dup", "other"]);
+    expect(result[0]).toEqual(result[1]);
+  });
+
+  it("should emit hit and miss counts", async () => {
+    const events: EmbeddingCacheEvent[] = [];
+    inner.usageEmitter.on("cache", (e: EmbeddingCacheEvent) => events.push(e));
+
+    await cache.embedOne("a fairly long sentence to cache", "query");
+    await vi.waitFor(async () => expect(await cachedCount()).toBe(1));
+    await cache.embedOne("a fairly long sentence to cache", "query");
+
+    expect(events.map((e) => [e.hits, e.misses])).toEqual([
+      [0, 1],
+      [1, 0],
+    ]);
+    expect(events[1].estimatedTokensSaved).toBeGreaterThan(0);
+  });
+
+  it("should evict least recently used entries past maxEntries", async () => {
+    await db.collection(COLLECTION_EMBEDDING_CACHE).deleteMany({});
+    const small = new CachingEmbedder(inner, db, { maxEntries: 2 });
+    await small.embed(["one", "two", "three"]);
+    await vi.waitFor(async () => expect(await cachedCount()).toBe(3));
+    await db
+      .collection(COLLECTION_EMBEDDING_CACHE)
+      .updateOne({ textHash: hashText("one") }, { $set: { lastUsedAt: new Date(0) } });
+
+    const removed = await small.prune();
+
+    expect(removed).toBe(1);
+    expect(
+      await db.collection(COLLECTION_EMBEDDING_CACHE).findOne({ textHash: hashText("one") }),
+    ).toBeNull();
+  });
+});
@@ -70,16 +70,27 @@ export async function cleanupTestData(agentId?: string): Promise<void> {
     );
   }
 
-  const collection = db.collection("memories");
+  const collections = [
+    db.collection("memories"),
+    db.collection("memory_versions"),
+    db.collection("audit_events"),
+    db.collection("trashed_memories"),
+    db.collection("snapshots"),
+    db.collection("sessions"),
+    db.collection("reflection_jobs"),
+    db.collection("scheduled_jobs"),
+  ];
 
   if (agentId) {
     // Delete specific agent's test data
-    await collection.deleteMany({ agentId });
+    for (const collection of collections) await collection.deleteMany({ agentId });
   } else {
     // Only delete test agents (those starting with "test-")
     // Never delete everything without explicit agentId
     console.warn("⚠️  cleanupTestData() called without agentId. Cleaning only test-* agents.");
-    await collection.deleteMany({ agentId: { $regex: /^test-/ } });
+    for (const collection of collections) {
+      await collection.deleteMany({ agentId: { $regex: /^test-/ } });
+    }
   }
 
   // Don't close the connection - it's shared across all tests
@@ -0,0 +1,55 @@
+/**
+ * Tests for reciprocal-rank fusion (services/hybridRecall.ts)
+ */
+
+import { describe, it, expect } from "vitest";
+import { reciprocalRankFusion, RecallCandidate, RRF_K } from "../services/hybridRecall";
+
+function candidate(id: string, score: number): RecallCandidate {
+  return {
+    id,
+    text: `memory ${id}`,
+    tags: [],
+    metadata: {},
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    score,
+    layer: null,
+    memoryType: null,
+    confidence: null,
+  };
+}
+
+describe("reciprocalRankFusion", () => {
+  it("should rank documents found by both sources first", () => {
+    const vector = [candidate("a", 0.9), candidate("b", 0.8), candidate("c", 0.7)];
+    const text = [candidate("c", 4.2), candidate("d", 3.1)];
+
+    const fused = reciprocalRankFusion(vector, text, 10);
+
+    expect(fused[0].id).toBe("c");
+    expect(fused[0].scores.vectorRank).toBe(3);
+    expect(fused[0].scores.textRank).toBe(1);
+    expect(fused[0].score).toBeCloseTo(1 / (RRF_K + 3) + 1 / (RRF_K + 1), 10);
+  });
+
+  it("should keep per-source scores and null out missing sources", () => {
+    const fused = reciprocalRankFusion([candidate("a", 0.9)], [candidate("b", 5)], 10);
+
+    const a = fused.find((r) => r.id === "a")!;
+    const b = fused.find((r) => r.id === "b")!;
+
+    expect(a.scores).toMatchObject({ vector: 0.9, vectorRank: 1, text: null, textRank: null });
+    expect(b.scores).toMatchObject({ vector: null, vectorRank: null, text: 5, textRank: 1 });
+    expect(a.scores.fused).toBe(a.score);
+  });
+
+  it("should respect limit", () => {
+    const vector = [candidate("a", 0.9), candidate("b", 0.8), candidate("c", 0.7)];
+
+    expect(reciprocalRankFusion(vector, [], 2)).toHaveLength(2);
+  });
+
+  it("should return empty results when both sources are empty", () => {
+    expect(reciprocalRankFusion([], [], 5)).toEqual([]);
+  });
+});
@@ -11,6 +11,7 @@ import { createTestApp, addErrorHandler, cleanupTestData } from "../helpers";
 import { triggerReflectRoute, getReflectStatusRoute, listReflectJobsRoute } from "../../routes/reflect";
 import { rememberRoute } from "../../routes/remember";
 import { getDatabase } from "../../db";
+import { startReflectionWorker, stopReflectionWorker } from "../../reflection/worker";
 
 describe("Reflection Pipeline API Integration", () => {
   let app: Express;
@@ -24,10 +25,16 @@ describe("Reflection Pipeline API Integration", () => {
     app.get("/reflect/jobs", listReflectJobsRoute);
     await addErrorHandler(app);
 
+    // POST /reflect only queues the job — run a worker like the daemon does
+    startReflectionWorker(app.locals.db, app.locals.embedder, app.locals.config, undefined, {
+      intervalMs: 500,
+    });
+
     await cleanupTestData(agentId);
   });
 
   afterAll(async () => {
+    stopReflectionWorker();
     await cleanupTestData(agentId);
   });
 
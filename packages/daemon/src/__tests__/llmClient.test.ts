@@ -0,0 +1,143 @@
+/**
+ * Tests for the shared LLM client (services/llmClient.ts)
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { callLlm, callLlmJson, llmUsageEmitter, LlmCallConfig } from "../services/llmClient";
+import { resolveSettings } from "../services/settingsService";
+import { estimateLlmCost, LlmUsageEvent } from "../types/usage";
+import type { DaemonConfig } from "../config";
+
+const baseConfig: LlmCallConfig = {
+  endpoint: "http://llm.test/endpoint",
+  model: "test-model",
+  temperature: 0.3,
+  maxTokens: 256,
+  timeoutMs: 5000,
+};
+
+function stubFetch(body: unknown) {
+  const fetchMock = vi.fn().mockResolvedValue({
+    ok: true,
+    status: 200,
+    statusText: "OK",
+    json: async () => body,
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+function sentRequest(fetchMock: ReturnType<typeof vi.fn>) {
+  const [url, init] = fetchMock.mock.calls[0];
+  return { url, headers: init.headers, body: JSON.parse(init.body) };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  llmUsageEmitter.removeAllListeners();
+});
+
+describe("callLlm — openai provider", () => {
+  const config: LlmCallConfig = { ...baseConfig, provider: "openai", apiKey: "sk-test" };
+
+  it("should send a chat completions request with bearer auth", async () => {
+    const fetchMock = stubFetch({ choices: [{ message: { content: " OK " } }] });
+
+    const result = await callLlm("Say OK", config);
+
+    const { url, headers, body } = sentRequest(fetchMock);
+    expect(url).toBe(config.endpoint);
+    expect(headers.Authorization).toBe("Bearer sk-test");
+    expect(body).toMatchObject({
+      model: "test-model",
+      messages: [{ role: "user", content: "Say OK" }],
+      max_tokens: 256,
+    });
+    expect(body.response_format).toBeUndefined();
+    expect(result.text).toBe("OK");
+  });
+
+  it("should request json_object output in JSON mode", async () => {
+    const fetchMock = stubFetch({ choices: [{ message: { content: '{"ok": true}' } }] });
+
+    const { data } = await callLlmJson<{ ok: boolean }>("Return JSON", {
+      ...config,
+      jsonMode: true,
+    });
+
+    expect(sentRequest(fetchMock).body.response_format).toEqual({ type: "json_object" });
+    expect(data.ok).toBe(true);
+  });
+
+  it("should emit token usage", async () => {
+    stubFetch({
+      choices: [{ message: { content: "OK" } }],
+      usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+    });
+    const events: LlmUsageEvent[] = [];
+    llmUsageEmitter.on("usage", (e: LlmUsageEvent) => events.push(e));
+
+    const result = await callLlm("Say OK", config);
+
+    expect(result.usage).toEqual({ promptTokens: 12, completionTokens: 3, totalTokens: 15 });
+    expect(events).toEqual([
+      {
+        provider: "openai",
+        model: "test-model",
+        promptTokens: 12,
+        completionTokens: 3,
+        totalTokens: 15,
+      },
+    ]);
+  });
+});
+
+describe("callLlm — ollama provider", () => {
+  it("should keep the /api/generate shape and add format: json in JSON mode", async () => {
+    const fetchMock = stubFetch({ response: "[]", prompt_eval_count: 20, eval_count: 2 });
+    const events: LlmUsageEvent[] = [];
+    llmUsageEmitter.on("usage", (e: LlmUsageEvent) => events.push(e));
+
+    await callLlmJson("Return JSON", { ...baseConfig, jsonMode: true });
+
+    const { headers, body } = sentRequest(fetchMock);
+    expect(headers.Authorization).toBeUndefined();
+    expect(body).toMatchObject({
+      prompt: "Return JSON",
+      format: "json",
+      options: { num_predict: 256 },
+    });
+    expect(events[0]).toMatchObject({ provider: "ollama", totalTokens: 22 });
+  });
+});
+
+describe("estimateLlmCost", () => {
+  it("should price known OpenAI models by input and output tokens", () => {
+    expect(estimateLlmCost("gpt-4o-mini", 1_000_000, 1_000_000, "openai")).toBeCloseTo(0.75);
+  });
+
+  it("should be free for ollama and unknown self-hosted models", () => {
+    expect(estimateLlmCost("gpt-4o-mini", 1_000_000, 0, "ollama")).toBe(0);
+    expect(estimateLlmCost("meta-llama/Llama-3.1-8B", 1_000_000, 0, "openai")).toBe(0);
+  });
+});
+
+describe("resolveSettings — llm provider", () => {
+  const daemonConfig = { llmProvider: "openai" } as DaemonConfig;
+
+  it("should default endpoint and model for the openai provider", () => {
+    const { llmProvider } = resolveSettings(null, null, daemonConfig);
+
+    expect(llmProvider.provider).toBe("openai");
+    expect(llmProvider.endpoint).toBe("https://api.openai.com/v1/chat/completions");
+    expect(llmProvider.model).toBe("gpt-4o-mini");
+    expect(llmProvider.jsonMode).toBe(false);
+  });
+
+  it("should default to ollama when nothing is configured", () => {
+    const { llmProvider } = resolveSettings(null, null, {} as DaemonConfig);
+
+    expect(llmProvider.provider).toBe("ollama");
+    expect(llmProvider.endpoint).toBe("http://localhost:11434/api/generate");
+  });
+});
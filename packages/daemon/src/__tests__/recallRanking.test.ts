@@ -0,0 +1,91 @@
+/**
+ * Tests for recall re-ranking (services/recallRanking.ts) and its settings resolution
+ */
+
+import { describe, it, expect } from "vitest";
+import { recencyScore, scoreRecallCandidate } from "../services/recallRanking";
+import { resolveRecallRanking } from "../services/settingsService";
+import { AgentSettingsSchema, DEFAULT_RECALL_RANKING } from "../types/settings";
+
+const NOW = new Date("2026-06-01T00:00:00Z").getTime();
+const DAY = 86400000;
+
+describe("scoreRecallCandidate", () => {
+  it("should equal raw similarity with default ranking", () => {
+    const breakdown = scoreRecallCandidate(
+      { similarity: 0.73, strength: 0.1, confidence: 0.9, layer: "semantic" },
+      DEFAULT_RECALL_RANKING,
+      NOW,
+    );
+
+    expect(breakdown.final).toBeCloseTo(0.73, 10);
+    expect(breakdown.layerBoost).toBe(1);
+  });
+
+  it("should let a vivid memory outrank a decayed one with a strength weight", () => {
+    const ranking = {
+      ...DEFAULT_RECALL_RANKING,
+      weights: { similarity: 1, strength: 0.5, confidence: 0, recency: 0 },
+    };
+
+    const decayed = scoreRecallCandidate({ similarity: 0.8, strength: 0.1 }, ranking, NOW);
+    const vivid = scoreRecallCandidate({ similarity: 0.75, strength: 1.0 }, ranking, NOW);
+
+    expect(vivid.final).toBeGreaterThan(decayed.final);
+  });
+
+  it("should apply per-layer boosts", () => {
+    const ranking = {
+      ...DEFAULT_RECALL_RANKING,
+      layerBoosts: { ...DEFAULT_RECALL_RANKING.layerBoosts, semantic: 1.5 },
+    };
+
+    const breakdown = scoreRecallCandidate({ similarity: 0.5, layer: "semantic" }, ranking, NOW);
+
+    expect(breakdown.layerBoost).toBe(1.5);
+    expect(breakdown.final).toBeCloseTo(0.75, 10);
+  });
+
+  it("should clamp strength and default missing signals", () => {
+    const breakdown = scoreRecallCandidate(
+      { similarity: 0.5, strength: 2.0 },
+      DEFAULT_RECALL_RANKING,
+      NOW,
+    );
+
+    expect(breakdown.strength).toBe(1);
+    expect(breakdown.confidence).toBe(0.5);
+    expect(breakdown.recency).toBe(0);
+  });
+});
+
+describe("recencyScore", () => {
+  it("should halve after one half-life", () => {
+    expect(recencyScore(new Date(NOW), 30, NOW)).toBe(1);
+    expect(recencyScore(new Date(NOW - 30 * DAY), 30, NOW)).toBeCloseTo(0.5, 10);
+    expect(recencyScore(new Date(NOW - 60 * DAY), 30, NOW)).toBeCloseTo(0.25, 10);
+  });
+});
+
+describe("resolveRecallRanking", () => {
+  it("should fall back field by field: agent > global > defaults", () => {
+    const agentDoc = AgentSettingsSchema.parse({
+      agentId: "a",
+      recallRanking: { weights: { strength: 0.4 } },
+    });
+    const globalDoc = AgentSettingsSchema.parse({
+      agentId: "_global",
+      recallRanking: { weights: { strength: 0.1, recency: 0.2 }, recencyHalfLifeDays: 7 },
+    });
+
+    const resolved = resolveRecallRanking(agentDoc, globalDoc);
+
+    expect(resolved.weights).toEqual({ similarity: 1, strength: 0.4, confidence: 0, recency: 0.2 });
+    expect(resolved.recencyHalfLifeDays).toBe(7);
+    expect(resolved.layerBoosts).toEqual(DEFAULT_RECALL_RANKING.layerBoosts);
+  });
+
+  it("should return defaults when no settings are stored", () => {
+    expect(resolveRecallRanking(null, null)).toEqual(DEFAULT_RECALL_RANKING);
+  });
+});
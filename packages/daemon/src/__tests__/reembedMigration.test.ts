@@ -0,0 +1,246 @@
+/**
+ * Tests for re-embed migrations (services/reembedMigration.ts): shadow
+ * vectors, cutover, abort and picking the migrated model at startup
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from "vitest";
+import { Db, MongoClient, ObjectId } from "mongodb";
+import { createTestApp } from "./helpers";
+import { EMBEDDING_DIMENSIONS } from "../constants";
+import { LocalEmbedder, SwitchableEmbedder } from "../embedders";
+import { hashEmbed, LOCAL_MODEL } from "../embedders/local";
+import { VoyageEmbedder } from "../embedding";
+import {
+  abortReembedJob,
+  createReembedJob,
+  cutoverReembedJob,
+  getReembedJob,
+  resolveMigratedEmbedder,
+  runReembedJob,
+} from "../services/reembedMigration";
+import type { DaemonConfig } from "../config";
+import type { EmbeddingInputType } from "../embedders";
+
+const agentId = "test-agent-reembed";
+const NEXT_MODEL = "local-hash-next";
+let client: MongoClient;
+let db: Db;
+
+/** A second "model": same provider, different vectors */
+class NextEmbedder extends LocalEmbedder {
+  /** Runs once, before the next embed call */
+  beforeEmbed?: () => Promise<void>;
+
+  getModel(): string {
+    return NEXT_MODEL;
+  }
+
+  async embed(texts: string[], _inputType?: EmbeddingInputType): Promise<number[][]> {
+    const hook = this.beforeEmbed;
+    this.beforeEmbed = undefined;
+    await hook?.();
+    return texts.map((text) => nextVector(text));
+  }
+}
+
+function nextVector(text: string): number[] {
+  return hashEmbed(`next:${text}`);
+}
+
+async function insertMemory(text: string, overrides: Record<string, unknown> = {}) {
+  const _id = new ObjectId();
+  await db.collection("memories").insertOne({
+    _id,
+    agentId,
+    text,
+    tags: [],
+    embedding: hashEmbed(text),
+    embeddingModel: LOCAL_MODEL,
+    createdAt: new Date(),
+    ...overrides,
+  });
+  return _id;
+}
+
+async function findMemory(id: ObjectId) {
+  return db.collection("memories").findOne({ _id: id });
+}
+
+async function startMigration(next: NextEmbedder) {
+  const job = await createReembedJob(db, LOCAL_MODEL, next);
+  await runReembedJob(db, job._id!, next);
+  return job._id!;
+}
+
+describe("Re-embed migrations", () => {
+  beforeAll(async () => {
+    const app = await createTestApp();
+    client = app.locals.mongoClient;
+    // Migrations walk every memory in the database, so keep them away from
+    // the memories of suites running alongside this one
+    db = client.db("openclaw_memory_test_reembed");
+  });
+
+  beforeEach(async () => {
+    await db.collection("memories").deleteMany({});
+    await db.collection("reembed_jobs").deleteMany({});
+  });
+
+  afterAll(async () => {
+    await db.dropDatabase();
+  });
+
+  it("should write shadow vectors, then swap them in at cutover", async () => {
+    const id = await insertMemory("We deploy on Fridays");
+    const pendingId = await insertMemory("Queued memory", {
+      embeddingStatus: "pending",
+    });
+    const next = new NextEmbedder();
+    const live = new SwitchableEmbedder(new LocalEmbedder());
+
+    const jobId = await startMigration(next);
+
+    expect(await getReembedJob(db, jobId.toString())).toMatchObject({
+      status: "ready",
+      total: 1,
+      processed: 1,
+    });
+    const shadowed = await findMemory(id);
+    expect(shadowed?.shadowEmbeddingModel).toBe(NEXT_MODEL);
+    expect(shadowed?.embeddingModel).toBe(LOCAL_MODEL);
+    expect((await findMemory(pendingId))?.shadowEmbedding).toBeUndefined();
+
+    const job = await cutoverReembedJob(db, jobId, live, next);
+
+    expect(job.status).toBe("complete");
+    expect(live.current).toBe(next);
+    const swapped = await findMemory(id);
+    expect(swapped?.embedding).toEqual(nextVector("We deploy on Fridays"));
+    expect(swapped?.embeddingModel).toBe(NEXT_MODEL);
+    expect(swapped?.embeddingDim).toBe(EMBEDDING_DIMENSIONS);
+    expect(swapped).not.toHaveProperty("shadowEmbedding");
+    expect(swapped).not.toHaveProperty("shadowEmbeddingModel");
+  });
+
+  it("should leave failed memories out and clear the error on swapped ones", async () => {
+    const failedId = await insertMemory("Bad input", {
+      embeddingStatus: "failed",
+      embeddingError: "400 Bad Request",
+    });
+    const id = await insertMemory("Retried after a timeout", {
+      embeddingStatus: "ready",
+      embeddingRetryAt: new Date(),
+    });
+    const next = new NextEmbedder();
+    const jobId = await startMigration(next);
+
+    await cutoverReembedJob(db, jobId, new SwitchableEmbedder(new LocalEmbedder()), next);
+
+    const failed = await findMemory(failedId);
+    expect(failed?.embeddingModel).toBe(LOCAL_MODEL);
+    expect(failed?.embeddingStatus).toBe("failed");
+    const swapped = await findMemory(id);
+    expect(swapped?.embeddingStatus).toBe("ready");
+    expect(swapped).not.toHaveProperty("embeddingRetryAt");
+  });
+
+  it("should remove shadow vectors when a migration is aborted", async () => {
+    const id = await insertMemory("Use pnpm, not npm");
+    const jobId = await startMigration(new NextEmbedder());
+    expect((await findMemory(id))?.shadowEmbedding).toBeDefined();
+
+    const job = await abortReembedJob(db, jobId);
+
+    expect(job.status).toBe("aborted");
+    const memory = await findMemory(id);
+    expect(memory).not.toHaveProperty("shadowEmbedding");
+    expect(memory).not.toHaveProperty("shadowEmbeddingModel");
+    expect(memory?.embeddingModel).toBe(LOCAL_MODEL);
+  });
+
+  it("should re-embed a memory edited between catch-up and the swap", async () => {
+    const editedId = await insertMemory("Staging runs on port 3000");
+    const next = new NextEmbedder();
+    const jobId = await startMigration(next);
+    // Stored after the job ran, so cutover catch-up has to embed it
+    await insertMemory("Written during the migration");
+
+    // An edit re-embeds with the live (old) model and drops the shadow vector
+    next.beforeEmbed = async () => {
+      await db.collection("memories").updateOne(
+        { _id: editedId },
+        {
+          $set: {
+            text: "Staging runs on port 4000",
+            embedding: hashEmbed("Staging runs on port 4000"),
+            embeddingModel: LOCAL_MODEL,
+          },
+          $unset: { shadowEmbedding: "", shadowEmbeddingModel: "" },
+        },
+      );
+    };
+    await cutoverReembedJob(db, jobId, new SwitchableEmbedder(new LocalEmbedder()), next);
+
+    const edited = await findMemory(editedId);
+    expect(edited?.embeddingModel).toBe(NEXT_MODEL);
+    expect(edited?.embedding).toEqual(nextVector("Staging runs on port 4000"));
+    const stale = await db
+      .collection("memories")
+      .countDocuments({ embeddingModel: { $ne: NEXT_MODEL } });
+    expect(stale).toBe(0);
+  });
+
+  describe("resolveMigratedEmbedder", () => {
+    const config = { embeddingProvider: "voyage", voyageMock: true } as DaemonConfig;
+    const configured = new VoyageEmbedder("mock-key", undefined, "voyage-3-lite", true);
+
+    async function insertCompletedJob(overrides: Record<string, unknown> = {}) {
+      await db.collection("reembed_jobs").insertOne({
+        fromModel: "voyage-3-lite",
+        targetModel: "voyage-3-large",
+        provider: "voyage",
+        dimensions: 1024,
+        status: "complete",
+        total: 0,
+        processed: 0,
+        errors: 0,
+        createdAt: new Date(),
+        completedAt: new Date(),
+        ...overrides,
+      });
+    }
+
+    it("should keep the configured embedder when nothing was migrated", async () => {
+      expect(await resolveMigratedEmbedder(db, config, configured)).toBe(configured);
+    });
+
+    it("should use the model of the last completed migration", async () => {
+      await insertCompletedJob({
+        targetModel: "voyage-3",
+        completedAt: new Date(Date.now() - 60_000),
+      });
+      await insertCompletedJob();
+      await insertCompletedJob({ targetModel: "voyage-code-3", status: "aborted" });
+
+      const embedder = await resolveMigratedEmbedder(db, config, configured);
+
+      expect(embedder.provider).toBe("voyage");
+      expect(embedder.getModel()).toBe("voyage-3-large");
+    });
+
+    it("should refuse to start when the migrated model needs another provider", async () => {
+      await insertCompletedJob({ provider: "openai", targetModel: "text-embedding-3-small" });
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const exit = vi.spyOn(process, "exit").mockImplementation(() => {
+        throw new Error("exit");
+      });
+
+      try {
+        await expect(resolveMigratedEmbedder(db, config, configured)).rejects.toThrow("exit");
+        expect(exit).toHaveBeenCalledWith(1);
+      } finally {
+        vi.restoreAllMocks();
+      }
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Tests for resuming reflection jobs: per-stage checkpoints, optional stages
+ * (reflection/pipeline.ts) and POST /reflect/jobs/:id/retry
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import request from "supertest";
+import { Express } from "express";
+import { Db, ObjectId } from "mongodb";
+import { createTestApp, addErrorHandler, cleanupTestData } from "./helpers";
+import { getDatabase } from "../db";
+import { retryReflectJobRoute } from "../routes/reflect";
+import {
+  PipelineStageError,
+  planResume,
+  restoreCheckpoint,
+  runPipeline,
+} from "../reflection/pipeline";
+import type { PipelineContext, PipelineStage, ReflectionJob } from "../reflection/types";
+
+const agentId = "test-agent-reflection-resume";
+let app: Express;
+let db: Db;
+
+function stage(name: string, run: (context: PipelineContext) => void, optional = false) {
+  return {
+    name,
+    optional,
+    execute: async (context: PipelineContext) => {
+      run(context);
+      return context;
+    },
+  } satisfies PipelineStage;
+}
+
+async function insertJob(overrides: Record<string, unknown> = {}): Promise<ObjectId> {
+  const _id = new ObjectId();
+  await db.collection("reflection_jobs").insertOne({
+    _id,
+    agentId,
+    status: "failed",
+    createdAt: new Date(),
+    stages: [],
+    attempts: 3,
+    maxAttempts: 3,
+    ...overrides,
+  });
+  return _id;
+}
+
+async function findJob(id: ObjectId): Promise<ReflectionJob> {
+  return (await db.collection("reflection_jobs").findOne({ _id: id })) as unknown as ReflectionJob;
+}
+
+function newContext(jobId: ObjectId): PipelineContext {
+  return { agentId, jobId: jobId.toString(), stats: {} };
+}
+
+describe("Resuming reflection jobs", () => {
+  beforeAll(async () => {
+    app = await createTestApp();
+    app.post("/reflect/jobs/:id/retry", retryReflectJobRoute);
+    await addErrorHandler(app);
+    db = getDatabase();
+    await cleanupTestData(agentId);
+  });
+
+  afterAll(async () => {
+    await cleanupTestData(agentId);
+  });
+
+  it("should checkpoint each stage and stop at a failing required stage", async () => {
+    const id = await insertJob({ status: "running" });
+    const stages = [
+      stage("extract", (c) => {
+        c.extractedAtoms = [{ text: "We use MongoDB", tags: [] }];
+        c.stats.extract_processed = 1;
+      }),
+      stage("dedupe", (c) => {
+        c.deduplicatedAtoms = c.extractedAtoms;
+      }),
+      stage("classify", () => {
+        throw new Error("Embedding provider unavailable");
+      }),
+      stage("never", () => {}),
+    ];
+
+    const error = await runPipeline(db, id.toString(), newContext(id), stages).catch((e) => e);
+    expect(error).toBeInstanceOf(PipelineStageError);
+    expect(error.stage).toBe("classify");
+    expect(error.message).toBe("Embedding provider unavailable");
+
+    const job = await findJob(id);
+    expect(Object.keys(job.checkpoints!)).toEqual(["extract", "dedupe"]);
+    expect(job.checkpoints!.dedupe.deduplicatedAtoms).toEqual([
+      { text: "We use MongoDB", tags: [] },
+    ]);
+    expect(job.stages.map((s) => s.status)).toEqual(["complete", "complete", "failed"]);
+
+    // Resuming at classify restores the context saved after dedupe
+    const plan = planResume(stages, "classify", job.checkpoints)!;
+    expect(plan.stages.map((s) => s.name)).toEqual(["classify", "never"]);
+    const restored = await restoreCheckpoint(db, newContext(id), plan.checkpoint!);
+    expect(restored.deduplicatedAtoms).toHaveLength(1);
+    expect(restored.stats.extract_processed).toBe(1);
+
+    // Nothing to resume from after a stage that never ran
+    expect(planResume(stages, "never", job.checkpoints)).toBeNull();
+    expect(planResume(stages, "unknown", job.checkpoints)).toBeNull();
+  });
+
+  it("should carry on past a failing optional stage", async () => {
+    const id = await insertJob({ status: "running" });
+    const ran: string[] = [];
+    const stages = [
+      stage("classify", () => ran.push("classify")),
+      stage(
+        "graph-link",
+        () => {
+          throw new Error("LLM timed out");
+        },
+        true,
+      ),
+      stage("graph-apply", () => ran.push("graph-apply")),
+    ];
+
+    await runPipeline(db, id.toString(), newContext(id), stages);
+    expect(ran).toEqual(["classify", "graph-apply"]);
+
+    const job = await findJob(id);
+    const graphLink = job.stages.find((s) => s.stage === "graph-link")!;
+    expect(graphLink.status).toBe("failed");
+    expect(graphLink.optional).toBe(true);
+    expect(graphLink.error).toBe("LLM timed out");
+    // Stages after it can still be resumed
+    expect(job.checkpoints!["graph-link"]).toBeDefined();
+  });
+
+  it("should start no further stage once the run is aborted", async () => {
+    const id = await insertJob({ status: "running" });
+    const lease = new AbortController();
+    const ran: string[] = [];
+    const stages = [
+      stage("extract", () => {
+        ran.push("extract");
+        lease.abort(new Error("Lost the lease"));
+      }),
+      stage("dedupe", () => ran.push("dedupe")),
+    ];
+
+    await expect(
+      runPipeline(db, id.toString(), newContext(id), stages, lease.signal),
+    ).rejects.toThrow("Lost the lease");
+    expect(ran).toEqual(["extract"]);
+    expect((await findJob(id)).stages.map((s) => s.stage)).toEqual(["extract"]);
+  });
+
+  it("should requeue a failed job from the stage that failed", async () => {
+    const checkpoint = { stats: { extract_processed: 2 }, savedAt: new Date() };
+    const id = await insertJob({
+      error: "Embedding provider unavailable",
+      resumeFromStage: "classify",
+      stages: [
+        { stage: "conflict-check", status: "complete" },
+        { stage: "classify", status: "failed", error: "Embedding provider unavailable" },
+      ],
+      checkpoints: { "conflict-check": checkpoint, classify: checkpoint },
+    });
+
+    const response = await request(app).post(`/reflect/jobs/${id}/retry`);
+    expect(response.status).toBe(200);
+    expect(response.body.fromStage).toBe("classify");
+
+    const job = await findJob(id);
+    expect(job.status).toBe("pending");
+    expect(job.attempts).toBe(0);
+    expect(job.error).toBeUndefined();
+    expect(job.resumeFromStage).toBe("classify");
+    // Results of the stages that rerun are dropped
+    expect(job.stages.map((s) => s.stage)).toEqual(["conflict-check"]);
+    expect(Object.keys(job.checkpoints!)).toEqual(["conflict-check"]);
+
+    // It's queued now, so it can't be retried again until it ends
+    const again = await request(app).post(`/reflect/jobs/${id}/retry`);
+    expect(again.status).toBe(409);
+  });
+
+  it("should reject stages it can't resume at", async () => {
+    const id = await insertJob({
+      status: "complete",
+      checkpoints: { extract: { stats: {}, savedAt: new Date() } },
+    });
+
+    const unknown = await request(app).post(`/reflect/jobs/${id}/retry?fromStage=reticulate`);
+    expect(unknown.status).toBe(400);
+    expect(unknown.body.error).toContain("graph-link");
+
+    const noCheckpoint = await request(app).post(`/reflect/jobs/${id}/retry?fromStage=classify`);
+    expect(noCheckpoint.status).toBe(409);
+    expect(noCheckpoint.body.error).toContain("conflict-check");
+
+    // A complete job has no failed stage to default to
+    const noStage = await request(app).post(`/reflect/jobs/${id}/retry`);
+    expect(noStage.status).toBe(400);
+
+    const fromStart = await request(app).post(`/reflect/jobs/${id}/retry?fromStage=extract`);
+    expect(fromStart.status).toBe(200);
+
+    const missing = await request(app).post(`/reflect/jobs/${new ObjectId()}/retry`);
+    expect(missing.status).toBe(404);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Tests for the reflection job queue the worker drains: atomic claiming,
+ * leases, crash recovery and retry with backoff (reflection/jobQueue.ts)
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { Db, ObjectId } from "mongodb";
+import { createTestApp, cleanupTestData } from "./helpers";
+import { getDatabase } from "../db";
+import {
+  claimJob,
+  completeJob,
+  failJobAttempt,
+  recoverStaleJobs,
+  renewJobLease,
+} from "../reflection/jobQueue";
+import type { ReflectionJob } from "../reflection/types";
+
+const agentId = "test-agent-reflection-worker";
+const LEASE_MS = 60_000;
+let db: Db;
+let sequence = 0;
+
+/**
+ * Insert a job dated just after the epoch, so it sorts ahead of jobs other
+ * suites leave pending and claimJob picks it first
+ */
+async function insertJob(overrides: Record<string, unknown> = {}): Promise<ObjectId> {
+  const _id = new ObjectId();
+  await db.collection("reflection_jobs").insertOne({
+    _id,
+    agentId,
+    status: "pending",
+    createdAt: new Date(++sequence),
+    stages: [],
+    input: { sessionTranscript: "User: hello" },
+    attempts: 0,
+    maxAttempts: 2,
+    runAfter: new Date(0),
+    ...overrides,
+  });
+  return _id;
+}
+
+async function findJob(id: ObjectId): Promise<ReflectionJob> {
+  return (await db.collection("reflection_jobs").findOne({ _id: id })) as unknown as ReflectionJob;
+}
+
+describe("Reflection job queue", () => {
+  beforeAll(async () => {
+    await createTestApp();
+    db = getDatabase();
+    await cleanupTestData(agentId);
+  });
+
+  afterAll(async () => {
+    await cleanupTestData(agentId);
+  });
+
+  it("should claim a due job once, under a lease", async () => {
+    const id = await insertJob();
+
+    const claimed = await claimJob(db, "worker-a", LEASE_MS);
+    expect(claimed!._id!.toString()).toBe(id.toString());
+    expect(claimed!.status).toBe("running");
+    expect(claimed!.workerId).toBe("worker-a");
+    expect(claimed!.attempts).toBe(1);
+    expect(claimed!.leaseExpiresAt!.getTime()).toBeGreaterThan(Date.now());
+
+    // Only the worker holding the lease can extend or finish the job
+    expect(await renewJobLease(db, id.toString(), "worker-b", LEASE_MS)).toBe(false);
+    expect(await renewJobLease(db, id.toString(), "worker-a", LEASE_MS)).toBe(true);
+
+    expect(await completeJob(db, id.toString(), "worker-b")).toBe(false);
+    expect(await completeJob(db, id.toString(), "worker-a")).toBe(true);
+    const job = await findJob(id);
+    expect(job.status).toBe("complete");
+    expect(job.workerId).toBeUndefined();
+  });
+
+  it("should not claim a job before its runAfter", async () => {
+    const waiting = await insertJob({ runAfter: new Date(Date.now() + 60_000) });
+    const due = await insertJob();
+
+    const claimed = await claimJob(db, "worker-a", LEASE_MS);
+    expect(claimed!._id!.toString()).toBe(due.toString());
+    expect((await findJob(waiting)).status).toBe("pending");
+
+    await completeJob(db, due.toString(), "worker-a");
+    await db.collection("reflection_jobs").deleteOne({ _id: waiting });
+  });
+
+  it("should retry a failed run with backoff, then fail it", async () => {
+    const id = await insertJob();
+
+    const first = await claimJob(db, "worker-a", LEASE_MS);
+    expect(await failJobAttempt(db, first!, "worker-a", "LLM timed out")).toBe("retrying");
+    let job = await findJob(id);
+    expect(job.status).toBe("pending");
+    expect(job.error).toBe("LLM timed out");
+    expect(job.runAfter!.getTime()).toBeGreaterThan(Date.now());
+
+    // Skip the backoff
+    await db
+      .collection("reflection_jobs")
+      .updateOne({ _id: id }, { $set: { runAfter: new Date(0) } });
+    const second = await claimJob(db, "worker-a", LEASE_MS);
+    expect(second!._id!.toString()).toBe(id.toString());
+    expect(second!.attempts).toBe(2);
+
+    expect(await failJobAttempt(db, second!, "worker-a", "LLM timed out")).toBe("failed");
+    job = await findJob(id);
+    expect(job.status).toBe("failed");
+    expect(job.completedAt).toBeDefined();
+  });
+
+  it("should requeue running jobs whose lease expired", async () => {
+    const expired = await insertJob({
+      status: "running",
+      attempts: 1,
+      workerId: "dead-worker",
+      leaseExpiresAt: new Date(Date.now() - 1000),
+    });
+    // Left running, without a lease or attempts, by a daemon that ran the pipeline inline
+    const legacy = await insertJob({ status: "running", attempts: null, maxAttempts: null });
+    const exhausted = await insertJob({
+      status: "running",
+      attempts: 2,
+      workerId: "dead-worker",
+      leaseExpiresAt: new Date(Date.now() - 1000),
+    });
+    const healthy = await insertJob({
+      status: "running",
+      attempts: 1,
+      workerId: "live-worker",
+      leaseExpiresAt: new Date(Date.now() + LEASE_MS),
+    });
+
+    const recovered = await recoverStaleJobs(db);
+    expect(recovered.requeued).toBeGreaterThanOrEqual(2);
+    expect(recovered.failed).toBeGreaterThanOrEqual(1);
+
+    expect((await findJob(expired)).status).toBe("pending");
+    expect((await findJob(expired)).workerId).toBeUndefined();
+    expect((await findJob(legacy)).status).toBe("pending");
+    expect((await findJob(exhausted)).status).toBe("failed");
+    expect((await findJob(healthy)).status).toBe("running");
+
+    // The dead worker can't complete a job it no longer holds
+    expect(await completeJob(db, expired.toString(), "dead-worker")).toBe(false);
+  });
+
+  it("should resume a recovered job after its last checkpoint", async () => {
+    const checkpoint = { stats: {}, savedAt: new Date() };
+    const stale = {
+      status: "running",
+      attempts: 1,
+      workerId: "dead-worker",
+      leaseExpiresAt: new Date(Date.now() - 1000),
+    };
+    const midRun = await insertJob({
+      ...stale,
+      checkpoints: { extract: checkpoint, deduplicate: checkpoint },
+    });
+    const resumed = await insertJob({
+      ...stale,
+      resumeFromStage: "graph-link",
+      checkpoints: { "layer-promote": checkpoint, "graph-link": checkpoint },
+    });
+    const notStarted = await insertJob(stale);
+
+    await recoverStaleJobs(db, [
+      "extract",
+      "deduplicate",
+      "classify",
+      "layer-promote",
+      "graph-link",
+      "graph-apply",
+    ]);
+
+    expect((await findJob(midRun)).resumeFromStage).toBe("classify");
+    expect((await findJob(resumed)).resumeFromStage).toBe("graph-apply");
+    expect((await findJob(notStarted)).resumeFromStage).toBeUndefined();
+    expect((await findJob(midRun)).status).toBe("pending");
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Tests for embedder request resilience (embedders/resilience.ts)
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { AxiosError, AxiosHeaders } from "axios";
+import {
+  chunkTexts,
+  CircuitBreaker,
+  CircuitOpenError,
+  ConcurrencyLimiter,
+  parseRetryAfter,
+  retryWithBackoff,
+} from "../embedders/resilience";
+
+function httpError(status: number, headers: Record<string, string> = {}): AxiosError {
+  const config = { headers: new AxiosHeaders() };
+  return new AxiosError(
+    `Request failed with status code ${status}`,
+    "ERR_BAD_RESPONSE",
+    config,
+    {},
+    {
+      status,
+      statusText: "",
+      headers,
+      config,
+      data: {},
+    },
+  );
+}
+
+describe("chunkTexts", () => {
+  const length = (text: string) => text.length;
+
+  it("should split on the item limit", () => {
+    const chunks = chunkTexts(["a", "b", "c", "d", "e"], { maxItems: 2, maxTokens: 100 }, length);
+
+    expect(chunks).toEqual([["a", "b"], ["c", "d"], ["e"]]);
+  });
+
+  it("should split on the token limit and give oversized texts their own chunk", () => {
+    const chunks = chunkTexts(
+      ["aaa", "bbb", "cccccccc", "d"],
+      { maxItems: 10, maxTokens: 6 },
+      length,
+    );
+
+    expect(chunks).toEqual([["aaa", "bbb"], ["cccccccc"], ["d"]]);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("should parse delta-seconds and HTTP dates", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+
+    expect(parseRetryAfter("3", now)).toBe(3000);
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:10 GMT", now)).toBe(10_000);
+    expect(parseRetryAfter(undefined, now)).toBeNull();
+    expect(parseRetryAfter("soon", now)).toBeNull();
+  });
+});
+
+describe("retryWithBackoff", () => {
+  const options = { maxRetries: 3, baseDelayMs: 100, maxDelayMs: 5000 };
+
+  it("should retry 429s, waiting for Retry-After", async () => {
+    const sleep = vi.fn().mockResolvedValue(undefined);
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(429, { "retry-after": "2" }))
+      .mockResolvedValueOnce("ok");
+
+    const result = await retryWithBackoff(fn, { ...options, sleep });
+
+    expect(result).toBe("ok");
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(sleep).toHaveBeenCalledWith(2000);
+  });
+
+  it("should cap backoff delays at maxDelayMs", async () => {
+    const sleep = vi.fn().mockResolvedValue(undefined);
+    const fn = vi.fn().mockRejectedValue(httpError(503));
+
+    await expect(retryWithBackoff(fn, { ...options, sleep })).rejects.toThrow("503");
+
+    expect(fn).toHaveBeenCalledTimes(4);
+    for (const [delay] of sleep.mock.calls) {
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(options.maxDelayMs);
+    }
+  });
+
+  it("should not retry client errors", async () => {
+    const sleep = vi.fn();
+    const fn = vi.fn().mockRejectedValue(httpError(400));
+
+    await expect(retryWithBackoff(fn, { ...options, sleep })).rejects.toThrow();
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+});
+
+describe("ConcurrencyLimiter", () => {
+  it("should never run more than max tasks at once", async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    let running = 0;
+    let peak = 0;
+    const task = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+    };
+
+    await Promise.all(Array.from({ length: 6 }, () => limiter.run(task)));
+
+    expect(peak).toBe(2);
+    expect(limiter.inFlight).toBe(0);
+    expect(limiter.waiting).toBe(0);
+  });
+});
+
+describe("CircuitBreaker", () => {
+  const fail = () => Promise.reject(new Error("boom"));
+  const succeed = () => Promise.resolve("ok");
+
+  it("should open after the threshold and fail fast until the cooldown ends", async () => {
+    let now = 0;
+    const breaker = new CircuitBreaker(2, 1000, () => now);
+
+    await expect(breaker.execute(fail)).rejects.toThrow("boom");
+    await expect(breaker.execute(fail)).rejects.toThrow("boom");
+    expect(breaker.getState()).toMatchObject({ state: "open", consecutiveFailures: 2 });
+
+    const probe = vi.fn(succeed);
+    await expect(breaker.execute(probe)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(probe).not.toHaveBeenCalled();
+
+    now = 1000;
+    expect(breaker.getState().state).toBe("half-open");
+    await expect(breaker.execute(probe)).resolves.toBe("ok");
+    expect(breaker.getState()).toMatchObject({ state: "closed", consecutiveFailures: 0 });
+  });
+
+  it("should re-open when the half-open probe fails", async () => {
+    let now = 0;
+    const breaker = new CircuitBreaker(1, 1000, () => now);
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    now = 1500;
+    await expect(breaker.execute(fail)).rejects.toThrow("boom");
+
+    expect(breaker.getState()).toMatchObject({
+      state: "open",
+      retryAt: new Date(2500).toISOString(),
+    });
+  });
+
+  it("should not count client errors towards opening", async () => {
+    const breaker = new CircuitBreaker(2, 1000, () => 0);
+    const badRequest = () => Promise.reject(httpError(400));
+
+    await expect(breaker.execute(badRequest)).rejects.toThrow("400");
+    await expect(breaker.execute(badRequest)).rejects.toThrow("400");
+    expect(breaker.getState()).toMatchObject({ state: "closed", consecutiveFailures: 0 });
+
+    await expect(breaker.execute(() => Promise.reject(httpError(503)))).rejects.toThrow("503");
+    await expect(breaker.execute(() => Promise.reject(httpError(429)))).rejects.toThrow("429");
+    expect(breaker.getState().state).toBe("open");
+  });
+});
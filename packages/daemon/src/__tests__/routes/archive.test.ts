@@ -0,0 +1,160 @@
+/**
+ * Tests for the NDJSON archive: GET /export?format=ndjson and POST /import
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import request from "supertest";
+import { Express } from "express";
+import { ObjectId } from "mongodb";
+import { exportRoute } from "../../routes/export";
+import { importRoute } from "../../routes/import";
+import { rememberRoute } from "../../routes/remember";
+import { createTestApp, addErrorHandler, cleanupTestData } from "../helpers";
+import { getDatabase } from "../../db";
+
+const agentId = "test-agent-archive";
+let app: Express;
+
+function parseLines(body: string): Array<Record<string, unknown>> {
+  return body
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+async function exportArchive(): Promise<string> {
+  const response = await request(app)
+    .get("/export")
+    .query({ agentId, format: "ndjson" })
+    .buffer(true)
+    .parse((res, callback) => {
+      let body = "";
+      res.on("data", (chunk: Buffer) => (body += chunk.toString()));
+      res.on("end", () => callback(null, body));
+    });
+  expect(response.status).toBe(200);
+  expect(response.headers["content-type"]).toContain("application/x-ndjson");
+  return response.body as string;
+}
+
+function importArchive(archive: string, query: Record<string, string> = {}) {
+  return request(app)
+    .post("/import")
+    .query(query)
+    .set("Content-Type", "application/x-ndjson")
+    .send(archive);
+}
+
+describe("NDJSON archive", () => {
+  beforeAll(async () => {
+    app = await createTestApp();
+    app.post("/remember", rememberRoute);
+    app.get("/export", exportRoute);
+    app.post("/import", importRoute);
+    await addErrorHandler(app);
+    await cleanupTestData(agentId);
+  });
+
+  afterAll(async () => {
+    await cleanupTestData(agentId);
+  });
+
+  it("should export a manifest, full memories and an end line", async () => {
+    await request(app)
+      .post("/remember")
+      .send({ agentId, text: "Archive me", tags: ["a"] });
+
+    const lines = parseLines(await exportArchive());
+    const [manifest] = lines;
+    const end = lines[lines.length - 1];
+
+    expect(manifest).toMatchObject({ type: "manifest", format: "openclaw-memory-archive" });
+    expect((manifest.embedding as { model: string }).model).toBeDefined();
+    expect(end).toMatchObject({ type: "end" });
+    expect((end.counts as Record<string, number>).memory).toBe(1);
+
+    const memory = lines.find((line) => line.type === "memory")!.doc as Record<string, unknown>;
+    expect(memory.text).toBe("Archive me");
+    expect(Array.isArray(memory.embedding)).toBe(true);
+    expect(memory._id).toHaveProperty("$oid");
+  });
+
+  it("should restore memories with their vectors and skip existing ones", async () => {
+    const archive = await exportArchive();
+    const db = getDatabase();
+    const original = await db.collection("memories").findOne({ agentId });
+    await db.collection("memories").deleteMany({ agentId });
+
+    const response = await importArchive(archive);
+    expect(response.status).toBe(200);
+    expect(response.body.complete).toBe(true);
+    expect(response.body.reusedEmbeddings).toBe(true);
+    expect(response.body.counts.memory.inserted).toBe(1);
+
+    const restored = await db.collection("memories").findOne({ _id: original!._id });
+    expect(restored!.embedding).toEqual(original!.embedding);
+    expect(restored!.createdAt).toEqual(original!.createdAt);
+
+    const again = await importArchive(archive);
+    expect(again.body.counts.memory).toMatchObject({ inserted: 0, skipped: 1 });
+  });
+
+  it("should queue memories for re-embedding when the model differs", async () => {
+    const lines = parseLines(await exportArchive());
+    (lines[0].embedding as { model: string }).model = "some-other-model";
+    const id = new ObjectId();
+    const memory = lines.find((line) => line.type === "memory")!;
+    memory.doc = { ...(memory.doc as object), _id: { $oid: id.toString() } };
+
+    const response = await importArchive(lines.map((line) => JSON.stringify(line)).join("\n"));
+    expect(response.body.reusedEmbeddings).toBe(false);
+
+    const imported = await getDatabase().collection("memories").findOne({ _id: id });
+    expect(imported!.embeddingStatus).toBe("pending");
+    expect(imported!.embedding).toBeUndefined();
+  });
+
+  it("should report a missing end line and reject non-archives", async () => {
+    const lines = (await exportArchive()).split("\n").filter(Boolean);
+    const truncated = await importArchive(lines.slice(0, -1).join("\n"));
+    expect(truncated.body.complete).toBe(false);
+    expect(truncated.body.success).toBe(false);
+
+    const invalid = await importArchive('{"hello":"world"}\n');
+    expect(invalid.status).toBe(400);
+  });
+
+  it("should leave the LLM API key out of exported settings", async () => {
+    const settings = getDatabase().collection("settings");
+    await settings.insertOne({ agentId, llmProvider: { model: "llama3", apiKey: "sk-secret" } });
+
+    try {
+      const lines = parseLines(await exportArchive());
+      const exported = lines.find((line) => line.type === "settings")!.doc as {
+        llmProvider: Record<string, unknown>;
+      };
+      expect(exported.llmProvider.model).toBe("llama3");
+      expect(exported.llmProvider).not.toHaveProperty("apiKey");
+    } finally {
+      await settings.deleteMany({ agentId });
+    }
+  });
+
+  it("should keep the current LLM API key when replacing settings", async () => {
+    const settings = getDatabase().collection("settings");
+    await settings.insertOne({ agentId, llmProvider: { model: "llama3", apiKey: "sk-secret" } });
+
+    try {
+      const archive = await exportArchive();
+      await settings.updateOne({ agentId }, { $set: { "llmProvider.model": "qwen3" } });
+
+      const response = await importArchive(archive, { replace: "true" });
+      expect(response.body.counts.settings.updated).toBe(1);
+
+      const replaced = await settings.findOne({ agentId });
+      expect(replaced!.llmProvider).toEqual({ model: "llama3", apiKey: "sk-secret" });
+    } finally {
+      await settings.deleteMany({ agentId });
+    }
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for the audit log written by destructive routes and GET /audit
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import request from "supertest";
+import { Express } from "express";
+import { auditRoute } from "../../routes/audit";
+import { forgetRoute } from "../../routes/forget";
+import { clearRoute } from "../../routes/clear";
+import { purgeRoute } from "../../routes/purge";
+import { rememberRoute } from "../../routes/remember";
+import { createTestApp, addErrorHandler, cleanupTestData } from "../helpers";
+
+const agentId = "test-agent-audit";
+let app: Express;
+
+async function remember(text: string): Promise<string> {
+  const response = await request(app).post("/remember").send({ agentId, text });
+  expect(response.status).toBe(200);
+  return response.body.id;
+}
+
+describe("Audit log", () => {
+  beforeAll(async () => {
+    app = await createTestApp();
+    app.post("/remember", rememberRoute);
+    app.delete("/forget/:id", forgetRoute);
+    app.delete("/clear", clearRoute);
+    app.post("/purge", purgeRoute);
+    app.get("/audit", auditRoute);
+    await addErrorHandler(app);
+    await cleanupTestData(agentId);
+  });
+
+  afterAll(async () => {
+    await cleanupTestData(agentId);
+  });
+
+  it("should record forget, purge and clear with counts", async () => {
+    const id = await remember("Audit me: the VPN config lives in vault");
+    await remember("Audit me too");
+    await remember("And me");
+
+    await request(app).delete(`/forget/${id}`).set("User-Agent", "audit-test");
+    await request(app)
+      .post("/purge")
+      .send({ agentId, olderThan: new Date(Date.now() + 60_000).toISOString() });
+    await request(app).delete("/clear").query({ agentId });
+
+    const response = await request(app).get("/audit").query({ agentId });
+
+    expect(response.status).toBe(200);
+    expect(response.body.events.map((e: { operation: string }) => e.operation)).toEqual([
+      "memory.clear",
+      "memory.purge",
+      "memory.forget",
+    ]);
+
+    const [clear, purge, forget] = response.body.events;
+    expect(clear.count).toBe(0);
+    expect(purge.count).toBe(2);
+    expect(purge.details.olderThan).toBeDefined();
+    expect(forget.targetIds).toEqual([id]);
+    expect(forget.request).toMatchObject({
+      method: "DELETE",
+      path: `/forget/${id}`,
+      userAgent: "audit-test",
+    });
+    expect(forget.actorKeyId).toBeNull();
+  });
+
+  it("should not record failed operations", async () => {
+    const before = await request(app).get("/audit").query({ agentId });
+    await request(app).delete("/forget/000000000000000000000000");
+    const after = await request(app).get("/audit").query({ agentId });
+
+    expect(after.body.count).toBe(before.body.count);
+  });
+
+  it("should filter by operation and paginate with a cursor", async () => {
+    const first = await request(app)
+      .get("/audit")
+      .query({ agentId, operation: "memory.purge,memory.forget", limit: 1 });
+
+    expect(first.body.count).toBe(1);
+    expect(first.body.events[0].operation).toBe("memory.purge");
+    expect(first.body.hasMore).toBe(true);
+
+    const second = await request(app)
+      .get("/audit")
+      .query({
+        agentId,
+        operation: "memory.purge,memory.forget",
+        limit: 1,
+        ...first.body.nextCursor,
+      });
+
+    expect(second.body.events[0].operation).toBe("memory.forget");
+    expect(second.body.hasMore).toBe(false);
+  });
+});
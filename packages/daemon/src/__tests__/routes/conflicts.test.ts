@@ -0,0 +1,145 @@
+/**
+ * Tests for PATCH /conflicts/:id/resolve
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import request from "supertest";
+import { Express } from "express";
+import { ObjectId } from "mongodb";
+import { resolveConflictRoute } from "../../routes/conflicts";
+import { recallRoute } from "../../routes/recall";
+import { rememberRoute } from "../../routes/remember";
+import { createTestApp, addErrorHandler, cleanupTestData } from "../helpers";
+import { getDatabase } from "../../db";
+
+const agentId = "test-agent-conflicts";
+let app: Express;
+
+/** Two remembered memories flagged as contradicting each other */
+async function seedConflict(older: string, newer: string): Promise<[string, string]> {
+  const a = await request(app).post("/remember").send({ agentId, text: older });
+  const b = await request(app).post("/remember").send({ agentId, text: newer });
+  const memories = getDatabase().collection("memories");
+  const contradiction = (memoryId: string) => ({
+    memoryId,
+    detectedAt: new Date(),
+    resolution: "unresolved",
+  });
+  await memories.updateOne(
+    { _id: new ObjectId(a.body.id) },
+    { $set: { contradictions: [contradiction(b.body.id)], confidence: 0.8 } },
+  );
+  await memories.updateOne(
+    { _id: new ObjectId(b.body.id) },
+    { $set: { contradictions: [contradiction(a.body.id)] } },
+  );
+  return [a.body.id, b.body.id];
+}
+
+describe("PATCH /conflicts/:id/resolve", () => {
+  beforeAll(async () => {
+    app = await createTestApp();
+    app.post("/remember", rememberRoute);
+    app.get("/recall", recallRoute);
+    app.patch("/conflicts/:id/resolve", resolveConflictRoute);
+    await addErrorHandler(app);
+    await cleanupTestData(agentId);
+  });
+
+  afterAll(async () => {
+    await cleanupTestData(agentId);
+  });
+
+  it("should make the newer memory supersede the older one", async () => {
+    const [olderId, newerId] = await seedConflict(
+      "The team deploys on Fridays",
+      "The team no longer deploys on Fridays",
+    );
+
+    const response = await request(app)
+      .patch(`/conflicts/${olderId}_${newerId}/resolve`)
+      .send({ resolution: "superseded", supersededMemoryId: olderId, archive: true });
+
+    expect(response.status).toBe(200);
+    expect(response.body.supersession).toMatchObject({
+      supersedingId: newerId,
+      supersededId: olderId,
+      edgeCreated: true,
+      layer: "archival",
+    });
+    expect(response.body.supersession.confidence).toBeCloseTo(0.6);
+
+    const memories = getDatabase().collection("memories");
+    const older = await memories.findOne({ _id: new ObjectId(olderId) });
+    expect(older!.layer).toBe("archival");
+    expect(older!.contradictions[0].resolution).toBe("superseded");
+
+    const newer = await memories.findOne({ _id: new ObjectId(newerId) });
+    expect(newer!.edges).toEqual([
+      expect.objectContaining({ type: "SUPERSEDES", targetId: olderId, weight: 1 }),
+    ]);
+    expect(newer!.contradictions[0].resolution).toBe("superseded");
+
+    // Resolving again doesn't stack edges or demote the older memory twice
+    const again = await request(app)
+      .patch(`/conflicts/${olderId}_${newerId}/resolve`)
+      .send({ resolution: "superseded", supersededMemoryId: olderId });
+    expect(again.body.supersession.edgeCreated).toBe(false);
+    expect(again.body.supersession.confidence).toBeCloseTo(0.6);
+    expect((await memories.findOne({ _id: new ObjectId(olderId) }))!.confidence).toBeCloseTo(0.6);
+
+    const recall = await request(app)
+      .get("/recall")
+      .query({ agentId, query: "The team deploys on Fridays", limit: 10 });
+    const ids = recall.body.results.map((r: { id: string }) => r.id);
+    expect(ids).toContain(newerId);
+    expect(ids).not.toContain(olderId);
+
+    const included = await request(app).get("/recall").query({
+      agentId,
+      query: "The team deploys on Fridays",
+      limit: 10,
+      includeSuperseded: "true",
+    });
+    expect(included.body.results.map((r: { id: string }) => r.id)).toContain(olderId);
+  });
+
+  it("should leave context-dependent resolutions unlinked", async () => {
+    const [aId, bId] = await seedConflict(
+      "Use tabs in the Go services",
+      "Use spaces in the web app",
+    );
+
+    const response = await request(app)
+      .patch(`/conflicts/${aId}_${bId}/resolve`)
+      .send({ resolution: "context-dependent" });
+
+    expect(response.status).toBe(200);
+    expect(response.body.supersession).toBeUndefined();
+
+    const b = await getDatabase()
+      .collection("memories")
+      .findOne({ _id: new ObjectId(bId) });
+    expect(b!.edges).toBeUndefined();
+    expect(b!.contradictions[0].resolution).toBe("context-dependent");
+  });
+
+  it("should require a superseded memory from the pair", async () => {
+    const [aId, bId] = await seedConflict("Lunch is at noon", "Lunch is at one");
+
+    const missing = await request(app)
+      .patch(`/conflicts/${aId}_${bId}/resolve`)
+      .send({ resolution: "superseded" });
+    expect(missing.status).toBe(400);
+
+    const outsider = await request(app)
+      .patch(`/conflicts/${aId}_${bId}/resolve`)
+      .send({ resolution: "superseded", supersededMemoryId: new ObjectId().toString() });
+    expect(outsider.status).toBe(400);
+
+    const badId = await request(app)
+      .patch("/conflicts/nope_nope/resolve")
+      .send({ resolution: "temporal" });
+    expect(badId.status).toBe(400);
+  });
+});
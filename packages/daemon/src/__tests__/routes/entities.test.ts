@@ -0,0 +1,407 @@
+/**
+ * Tests for GET /entities/:slug/profile, entity linking in /recall and entity
+ * curation (merge, aliases, split)
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import request from "supertest";
+import { Express } from "express";
+import { ObjectId } from "mongodb";
+import {
+  getEntityProfileRoute,
+  mergeEntitiesRoute,
+  splitEntityRoute,
+  updateEntityAliasesRoute,
+} from "../../routes/entities";
+import { recallRoute } from "../../routes/recall";
+import { EntityUpdateStage } from "../../reflection/stages/entityUpdate";
+import { createTestApp, addErrorHandler, cleanupTestData } from "../helpers";
+import { getDatabase } from "../../db";
+
+const agentId = "test-agent-entities";
+let app: Express;
+
+const ids = {
+  fact: new ObjectId(),
+  preference: new ObjectId(),
+  decision: new ObjectId(),
+  stale: new ObjectId(),
+  replacement: new ObjectId(),
+  unrelated: new ObjectId(),
+};
+
+function mentions(...slugs: string[]) {
+  return slugs.map((slug) => ({
+    type: "MENTIONS_ENTITY",
+    targetId: slug,
+    weight: 1,
+    createdAt: new Date(),
+  }));
+}
+
+describe("Entities", () => {
+  beforeAll(async () => {
+    app = await createTestApp();
+    app.get("/entities/:slug/profile", getEntityProfileRoute);
+    app.get("/recall", recallRoute);
+    await addErrorHandler(app);
+    await cleanupTestData(agentId);
+
+    const db = getDatabase();
+    const embedder = app.locals.embedder;
+    const embeddingModel = embedder.getModel();
+    const day = (n: number) => new Date(Date.UTC(2026, 2, n));
+
+    await db.collection("entities").deleteMany({ agentId });
+    await db.collection("entities").insertMany([
+      {
+        agentId,
+        slug: "dana-reyes",
+        type: "person",
+        displayName: "Dana Reyes",
+        aliases: ["Dana Reyes", "DR"],
+        summary: "Dana Reyes (person)",
+        summaryEmbedding: await embedder.embedOne("Dana Reyes (person)", "document"),
+        attributes: {},
+        memoryCount: 4,
+        lastSeenAt: day(9),
+        createdAt: day(1),
+      },
+      {
+        agentId,
+        slug: "atlas",
+        type: "system",
+        displayName: "Atlas",
+        aliases: ["Atlas"],
+        summary: "Atlas (system)",
+        summaryEmbedding: await embedder.embedOne("Atlas (system)", "document"),
+        attributes: {},
+        memoryCount: 2,
+        lastSeenAt: day(9),
+        createdAt: day(1),
+      },
+    ]);
+
+    const memory = async (
+      _id: ObjectId,
+      text: string,
+      memoryType: string,
+      createdAt: Date,
+      edges: object[],
+    ) => ({
+      _id,
+      agentId,
+      text,
+      memoryType,
+      confidence: 0.8,
+      tags: [],
+      metadata: {},
+      createdAt,
+      edges,
+      embedding: await embedder.embedOne(text, "document"),
+      embeddingModel,
+    });
+
+    await db
+      .collection("memories")
+      .insertMany([
+        await memory(
+          ids.fact,
+          "Dana leads the payments team",
+          "fact",
+          day(2),
+          mentions("dana-reyes"),
+        ),
+        await memory(
+          ids.preference,
+          "Dana prefers async standups",
+          "preference",
+          day(3),
+          mentions("dana-reyes"),
+        ),
+        await memory(
+          ids.decision,
+          "Dana decided to move billing to Atlas",
+          "decision",
+          day(4),
+          mentions("dana-reyes", "atlas"),
+        ),
+        await memory(ids.stale, "Dana works from Lisbon", "fact", day(5), mentions("dana-reyes")),
+        await memory(ids.replacement, "Dana works from Porto now", "fact", day(8), [
+          ...mentions("dana-reyes"),
+          { type: "SUPERSEDES", targetId: ids.stale.toString(), weight: 1, createdAt: day(8) },
+        ]),
+        await memory(ids.unrelated, "The office coffee machine is broken", "fact", day(6), []),
+      ]);
+
+    await db.collection("episodes").insertOne({
+      agentId,
+      sessionId: "s-entities",
+      startedAt: day(7),
+      endedAt: day(7),
+      title: "Planning the billing migration with Dana",
+      narrative: "",
+      participants: ["dana-reyes", "atlas"],
+      dominantTopics: [],
+      factIds: [],
+      embedding: [],
+      strength: 1,
+      layer: "episodic",
+    });
+  });
+
+  afterAll(async () => {
+    await cleanupTestData(agentId);
+    await getDatabase().collection("entities").deleteMany({ agentId });
+    await getDatabase().collection("episodes").deleteMany({ agentId });
+  });
+
+  it("should assemble an entity profile", async () => {
+    const response = await request(app).get("/entities/dana-reyes/profile").query({ agentId });
+
+    expect(response.status).toBe(200);
+    expect(response.body.entity.displayName).toBe("Dana Reyes");
+    expect(response.body.entity.summaryEmbedding).toBeUndefined();
+
+    const texts = (entries: Array<{ text: string }>) => entries.map((e) => e.text);
+    expect(texts(response.body.facts)).toEqual(
+      expect.arrayContaining(["Dana leads the payments team", "Dana works from Porto now"]),
+    );
+    expect(texts(response.body.facts)).not.toContain("Dana works from Lisbon");
+    expect(texts(response.body.preferences)).toEqual(["Dana prefers async standups"]);
+    expect(texts(response.body.decisions)).toEqual(["Dana decided to move billing to Atlas"]);
+    expect(response.body.counts).toEqual({ memories: 4, superseded: 1, episodes: 1 });
+
+    // Oldest first, episodes interleaved
+    const timeline = response.body.timeline;
+    expect(timeline[0].text).toBe("Dana leads the payments team");
+    expect(timeline.map((t: { kind: string }) => t.kind)).toContain("episode");
+    expect(timeline[timeline.length - 1].text).toBe("Dana works from Porto now");
+
+    expect(response.body.relatedEntities).toEqual([
+      { slug: "atlas", displayName: "Atlas", type: "system", mentions: 1 },
+    ]);
+  });
+
+  it("should 404 for unknown entities and require agentId", async () => {
+    const missing = await request(app).get("/entities/nobody/profile").query({ agentId });
+    expect(missing.status).toBe(404);
+
+    const noAgent = await request(app).get("/entities/dana-reyes/profile");
+    expect(noAgent.status).toBe(400);
+  });
+
+  it("should link entities named in the recall query", async () => {
+    const response = await request(app).get("/recall").query({
+      agentId,
+      query: "what does DR think about standups?",
+      entities: "boost",
+      limit: 10,
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.entities[0]).toMatchObject({
+      slug: "dana-reyes",
+      match: "alias",
+      matchedText: "DR",
+    });
+
+    const unrelated = response.body.results.find(
+      (r: { id: string }) => r.id === ids.unrelated.toString(),
+    );
+    expect(unrelated.linkedEntities).toBeUndefined();
+    const preference = response.body.results.find(
+      (r: { id: string }) => r.id === ids.preference.toString(),
+    );
+    expect(preference.linkedEntities).toEqual(["dana-reyes"]);
+  });
+
+  it("should only search memories mentioning linked entities in filter mode", async () => {
+    const response = await request(app).get("/recall").query({
+      agentId,
+      query: "Atlas",
+      entities: "filter",
+      limit: 10,
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.results.map((r: { id: string }) => r.id)).toEqual([
+      ids.decision.toString(),
+    ]);
+  });
+
+  it("should not link entities by default", async () => {
+    const response = await request(app).get("/recall").query({ agentId, query: "Atlas" });
+    expect(response.body.entities).toBeUndefined();
+  });
+});
+
+describe("Entity curation", () => {
+  const curationAgent = "test-agent-entity-curation";
+  const memoryIds = { mongo: new ObjectId(), atlas: new ObjectId(), jordan: new ObjectId() };
+
+  const entity = async (slug: string, displayName: string, aliases: string[]) => {
+    const embedder = app.locals.embedder;
+    return {
+      agentId: curationAgent,
+      slug,
+      type: "system",
+      displayName,
+      aliases,
+      summary: `${displayName} (system)`,
+      summaryEmbedding: await embedder.embedOne(`${displayName} (system)`, "document"),
+      attributes: {},
+      memoryCount: 1,
+      lastSeenAt: new Date(),
+      createdAt: new Date(),
+    };
+  };
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    app.post("/entities/merge", mergeEntitiesRoute);
+    app.post("/entities/:slug/aliases", updateEntityAliasesRoute);
+    app.post("/entities/:slug/split", splitEntityRoute);
+    await addErrorHandler(app);
+
+    const db = getDatabase();
+    await db.collection("entities").deleteMany({ agentId: curationAgent });
+    await db
+      .collection("entities")
+      .insertMany([
+        await entity("mongodb", "MongoDB", ["MongoDB"]),
+        await entity("mongo", "Mongo", ["Mongo"]),
+        await entity("jordan", "Jordan", ["Jordan"]),
+      ]);
+
+    const memory = (_id: ObjectId, text: string, edges: object[]) => ({
+      _id,
+      agentId: curationAgent,
+      text,
+      tags: [],
+      metadata: {},
+      createdAt: new Date(),
+      edges,
+    });
+    await db
+      .collection("memories")
+      .insertMany([
+        memory(memoryIds.mongo, "Mongo is the primary store", mentions("mongo")),
+        memory(memoryIds.atlas, "MongoDB runs on Atlas", mentions("mongodb", "mongo")),
+        memory(memoryIds.jordan, "Jordan (the country) hosts the offsite", mentions("jordan")),
+      ]);
+  });
+
+  afterAll(async () => {
+    await cleanupTestData(curationAgent);
+    await getDatabase().collection("entities").deleteMany({ agentId: curationAgent });
+  });
+
+  it("should merge duplicates into the target entity", async () => {
+    const response = await request(app)
+      .post("/entities/merge")
+      .send({ agentId: curationAgent, target: "mongodb", sources: ["mongo"] });
+
+    expect(response.status).toBe(200);
+    expect(response.body.merged).toEqual(["mongo"]);
+    expect(response.body.entity.aliases).toEqual(expect.arrayContaining(["MongoDB", "Mongo"]));
+    expect(response.body.entity.memoryCount).toBe(2);
+
+    const db = getDatabase();
+    expect(
+      await db.collection("entities").findOne({ agentId: curationAgent, slug: "mongo" }),
+    ).toBeNull();
+
+    // The memory that mentioned both keeps a single edge to the target
+    const both = await db.collection("memories").findOne({ _id: memoryIds.atlas });
+    expect(both!.edges.map((e: { targetId: string }) => e.targetId)).toEqual(["mongodb"]);
+  });
+
+  it("should link later mentions of a merged name to the target", async () => {
+    const db = getDatabase();
+    const atom = {
+      _id: new ObjectId().toString(),
+      agentId: curationAgent,
+      text: "Mongo failed over at noon",
+      tags: [],
+      metadata: {},
+      embedding: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const stage = new EntityUpdateStage(db, app.locals.embedder);
+    const context = await stage.execute({
+      agentId: curationAgent,
+      jobId: "test-entity-update",
+      classifiedAtoms: [atom],
+      stats: {},
+    });
+    const edges = await db.collection("pending_edges").find({ sourceId: atom._id }).toArray();
+    await db.collection("pending_edges").deleteMany({ sourceId: atom._id });
+
+    expect(context.stats.entity_update_created).toBe(0);
+    expect(edges.map((e) => e.targetId)).toEqual(["mongodb"]);
+    expect(
+      await db.collection("entities").findOne({ agentId: curationAgent, slug: "mongo" }),
+    ).toBeNull();
+    const target = await db
+      .collection("entities")
+      .findOne({ agentId: curationAgent, slug: "mongodb" });
+    expect(target!.memoryCount).toBe(3);
+  });
+
+  it("should reject merges with unknown or only-target slugs", async () => {
+    const unknown = await request(app)
+      .post("/entities/merge")
+      .send({ agentId: curationAgent, target: "mongodb", sources: ["postgres"] });
+    expect(unknown.status).toBe(404);
+
+    const self = await request(app)
+      .post("/entities/merge")
+      .send({ agentId: curationAgent, target: "mongodb", sources: ["mongodb"] });
+    expect(self.status).toBe(400);
+  });
+
+  it("should add and remove aliases", async () => {
+    const response = await request(app)
+      .post("/entities/mongodb/aliases")
+      .send({ agentId: curationAgent, add: ["mdb"], remove: ["Mongo"] });
+
+    expect(response.status).toBe(200);
+    expect(response.body.entity.aliases).toEqual(["MongoDB", "mdb"]);
+
+    const empty = await request(app)
+      .post("/entities/mongodb/aliases")
+      .send({ agentId: curationAgent });
+    expect(empty.status).toBe(400);
+  });
+
+  it("should split selected mentions into a new entity", async () => {
+    const response = await request(app)
+      .post("/entities/jordan/split")
+      .send({
+        agentId: curationAgent,
+        displayName: "Jordan (country)",
+        type: "place",
+        memoryIds: [memoryIds.jordan.toString()],
+      });
+
+    expect(response.status).toBe(200);
+    expect(response.body.created.slug).toBe("jordan-(country)");
+    expect(response.body.created.memoryCount).toBe(1);
+    expect(response.body.entity.memoryCount).toBe(0);
+
+    const moved = await getDatabase().collection("memories").findOne({ _id: memoryIds.jordan });
+    expect(moved!.edges[0].targetId).toBe("jordan-(country)");
+
+    const again = await request(app)
+      .post("/entities/jordan/split")
+      .send({
+        agentId: curationAgent,
+        displayName: "Jordan (country)",
+        memoryIds: [memoryIds.jordan.toString()],
+      });
+    expect(again.status).toBe(409);
+  });
+});
@@ -43,16 +43,22 @@ describe('DELETE /forget/:id', () => {
 
     expect(response.status).toBe(200);
     expect(response.body.success).toBe(true);
-    expect(response.body.message).toBe('Memory deleted');
+    expect(response.body.message).toBe('Memory moved to trash');
+    expect(response.body.operationId).toBeDefined();
   });
 
-  it('should verify memory is actually deleted from DB', async () => {
+  it('should move the memory from memories to the trash', async () => {
     await request(app).delete(`/forget/${testMemoryId}`);
 
     const db = getDatabase();
     const { ObjectId } = await import('mongodb');
     const memory = await db.collection('memories').findOne({ _id: new ObjectId(testMemoryId) });
     expect(memory).toBeNull();
+
+    const trashed = await db
+      .collection('trashed_memories')
+      .findOne({ _id: new ObjectId(testMemoryId) });
+    expect(trashed?.trash.operation).toBe('forget');
   });
 
   it('should return error for non-existent memory', async () => {
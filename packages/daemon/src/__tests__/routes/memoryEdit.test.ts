@@ -0,0 +1,156 @@
+/**
+ * Tests for PATCH /memories/:id, GET /memories/:id/history and
+ * POST /memories/:id/revert
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import request from "supertest";
+import { Express } from "express";
+import { ObjectId } from "mongodb";
+import { memoryHistoryRoute, revertMemoryRoute, updateMemoryRoute } from "../../routes/memories";
+import { rememberRoute } from "../../routes/remember";
+import { createTestApp, addErrorHandler, cleanupTestData } from "../helpers";
+import { getDatabase } from "../../db";
+
+const agentId = "test-agent-memory-edit";
+let app: Express;
+
+async function remember(text: string, tags: string[] = []): Promise<string> {
+  const response = await request(app).post("/remember").send({ agentId, text, tags });
+  expect(response.status).toBe(200);
+  return response.body.id;
+}
+
+describe("Memory editing", () => {
+  beforeAll(async () => {
+    app = await createTestApp();
+    app.post("/remember", rememberRoute);
+    app.patch("/memories/:id", updateMemoryRoute);
+    app.get("/memories/:id/history", memoryHistoryRoute);
+    app.post("/memories/:id/revert", revertMemoryRoute);
+    await addErrorHandler(app);
+    await cleanupTestData(agentId);
+  });
+
+  afterAll(async () => {
+    await cleanupTestData(agentId);
+  });
+
+  it("should update text, re-embed and record the previous version", async () => {
+    const id = await remember("Deploys happen on Fridays", ["ops"]);
+
+    const response = await request(app)
+      .patch(`/memories/${id}`)
+      .send({ text: "Deploys happen on Thursdays", changedBy: "tester", reason: "Moved" });
+
+    expect(response.status).toBe(200);
+    expect(response.body.version).toBe(2);
+    expect(response.body.changed).toEqual(["text"]);
+    expect(response.body.reembedded).toBe(true);
+
+    const memory = await getDatabase()
+      .collection("memories")
+      .findOne({ _id: new ObjectId(id) });
+    expect(memory?.text).toBe("Deploys happen on Thursdays");
+    expect(memory?.version).toBe(2);
+    expect(memory?.embedding).toHaveLength(memory?.embeddingDim);
+
+    const history = await request(app).get(`/memories/${id}/history`);
+    expect(history.status).toBe(200);
+    expect(history.body.currentVersion).toBe(2);
+    expect(history.body.versions).toHaveLength(1);
+    expect(history.body.versions[0]).toMatchObject({
+      version: 1,
+      text: "Deploys happen on Fridays",
+      tags: ["ops"],
+      changedBy: "tester",
+      reason: "Moved",
+      change: "edit",
+    });
+  });
+
+  it("should drop a re-embed migration's shadow vector when the text changes", async () => {
+    const id = await remember("Backups run at midnight");
+    const memories = getDatabase().collection("memories");
+    await memories.updateOne(
+      { _id: new ObjectId(id) },
+      { $set: { shadowEmbedding: [0.1, 0.2], shadowEmbeddingModel: "next-model" } },
+    );
+
+    await request(app)
+      .patch(`/memories/${id}`)
+      .send({ tags: ["ops"] });
+    expect((await memories.findOne({ _id: new ObjectId(id) }))?.shadowEmbeddingModel).toBe(
+      "next-model",
+    );
+
+    await request(app).patch(`/memories/${id}`).send({ text: "Backups run at 2am" });
+    const memory = await memories.findOne({ _id: new ObjectId(id) });
+    expect(memory?.shadowEmbedding).toBeUndefined();
+    expect(memory?.shadowEmbeddingModel).toBeUndefined();
+  });
+
+  it("should not re-embed for a tag-only edit", async () => {
+    const id = await remember("Staging database is in eu-west-1");
+
+    const response = await request(app)
+      .patch(`/memories/${id}`)
+      .send({ tags: ["infra"] });
+
+    expect(response.status).toBe(200);
+    expect(response.body.changed).toEqual(["tags"]);
+    expect(response.body.reembedded).toBe(false);
+  });
+
+  it("should revert to an earlier version as a new version", async () => {
+    const id = await remember("The API rate limit is 100 rpm");
+    await request(app).patch(`/memories/${id}`).send({ text: "The API rate limit is 500 rpm" });
+
+    const response = await request(app)
+      .post(`/memories/${id}/revert`)
+      .send({ version: 1, changedBy: "tester" });
+
+    expect(response.status).toBe(200);
+    expect(response.body.version).toBe(3);
+
+    const memory = await getDatabase()
+      .collection("memories")
+      .findOne({ _id: new ObjectId(id) });
+    expect(memory?.text).toBe("The API rate limit is 100 rpm");
+
+    const history = await request(app).get(`/memories/${id}/history`);
+    expect(history.body.versions.map((v: { version: number }) => v.version)).toEqual([2, 1]);
+    expect(history.body.versions[0].change).toBe("revert");
+  });
+
+  it("should reject a stale version with 409", async () => {
+    const id = await remember("On-call rotation is weekly");
+    await request(app).patch(`/memories/${id}`).send({ text: "On-call rotation is biweekly" });
+
+    const response = await request(app)
+      .patch(`/memories/${id}`)
+      .send({ text: "On-call rotation is monthly", version: 1 });
+
+    expect(response.status).toBe(409);
+    expect(response.body.currentVersion).toBe(2);
+  });
+
+  it("should return 400 when nothing is given to update", async () => {
+    const id = await remember("Nothing changes here");
+    const response = await request(app).patch(`/memories/${id}`).send({ reason: "noop" });
+    expect(response.status).toBe(400);
+  });
+
+  it("should return 404 for a missing memory", async () => {
+    const response = await request(app)
+      .patch(`/memories/${new ObjectId()}`)
+      .send({ text: "Does not exist" });
+    expect(response.status).toBe(404);
+  });
+
+  it("should return 404 when reverting to an unknown version", async () => {
+    const id = await remember("Only one version exists");
+    const response = await request(app).post(`/memories/${id}/revert`).send({ version: 7 });
+    expect(response.status).toBe(404);
+  });
+});
@@ -8,6 +8,7 @@ import { Express } from "express";
 import { recallRoute } from "../../routes/recall";
 import { rememberRoute } from "../../routes/remember";
 import { createTestApp, cleanupTestData } from "../helpers";
+import { getDatabase } from "../../db";
 
 let app: Express;
 
@@ -211,4 +212,180 @@ describe("GET /recall", () => {
       expect(result.metadata).toBeDefined();
     }
   });
+
+  it("should fuse lexical and vector hits in hybrid mode", async () => {
+    await request(app).post("/remember").send({
+      agentId: "test-agent-recall",
+      text: "Deploy failed with error ERR_QX_4471 on the staging cluster",
+      tags: ["incident"],
+    });
+
+    const response = await request(app).get("/recall").query({
+      agentId: "test-agent-recall",
+      query: "ERR_QX_4471",
+      mode: "hybrid",
+      limit: 5,
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.method).toBe("hybrid");
+    expect(response.body.results[0].text).toContain("ERR_QX_4471");
+
+    const top = response.body.results[0];
+    expect(top.scores.text).toBeGreaterThan(0);
+    expect(top.scores.textRank).toBe(1);
+    expect(top.scores.fused).toBe(top.score);
+  });
+
+  it("should skip memories embedded with another model", async () => {
+    const stored = await request(app).post("/remember").send({
+      agentId: "test-agent-recall",
+      text: "The staging database password rotates every Tuesday",
+    });
+    const { ObjectId } = await import("mongodb");
+    await getDatabase()
+      .collection("memories")
+      .updateOne(
+        { _id: new ObjectId(stored.body.id) },
+        { $set: { embeddingModel: "some-older-model" } },
+      );
+
+    const response = await request(app).get("/recall").query({
+      agentId: "test-agent-recall",
+      query: "The staging database password rotates every Tuesday",
+      limit: 20,
+    });
+
+    expect(response.status).toBe(200);
+    const ids = response.body.results.map((r: { id: string }) => r.id);
+    expect(ids).not.toContain(stored.body.id);
+  });
+
+  it("should expand hits along graph edges and drop superseded memories", async () => {
+    const agentId = "test-agent-recall";
+    const stored = await request(app).post("/remember").send({
+      agentId,
+      text: "The billing service retries webhooks three times",
+    });
+    const hitId = stored.body.id as string;
+
+    // Neither is embedded, so only the graph can reach them
+    const { ObjectId } = await import("mongodb");
+    const memories = getDatabase().collection("memories");
+    const now = new Date();
+    const { insertedId: supportedId } = await memories.insertOne({
+      agentId,
+      text: "Webhook retries back off exponentially",
+      tags: [],
+      createdAt: now,
+    });
+    const { insertedId: replacementId } = await memories.insertOne({
+      agentId,
+      text: "The billing service retries webhooks five times since v2",
+      tags: [],
+      createdAt: now,
+      edges: [{ type: "SUPERSEDES", targetId: hitId, weight: 1, createdAt: now }],
+    });
+    await memories.updateOne(
+      { _id: new ObjectId(hitId) },
+      {
+        $set: {
+          edges: [
+            { type: "SUPPORTS", targetId: supportedId.toString(), weight: 0.8, createdAt: now },
+          ],
+        },
+      },
+    );
+
+    const plain = await request(app).get("/recall").query({
+      agentId,
+      query: "The billing service retries webhooks three times",
+      limit: 20,
+      includeSuperseded: "true",
+    });
+    expect(plain.body.results[0].id).toBe(hitId);
+    expect(plain.body.graph).toBeUndefined();
+
+    const response = await request(app).get("/recall").query({
+      agentId,
+      query: "The billing service retries webhooks three times",
+      limit: 20,
+      graph: "true",
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.graph.suppressed).toBe(1);
+    const byId = Object.fromEntries(response.body.results.map((r: { id: string }) => [r.id, r]));
+    expect(byId[hitId]).toBeUndefined();
+
+    const replacement = byId[replacementId.toString()];
+    expect(replacement.graph.seedId).toBe(hitId);
+    expect(replacement.graph.path).toEqual([
+      {
+        from: hitId,
+        to: replacementId.toString(),
+        edgeType: "SUPERSEDES",
+        direction: "inbound",
+        weight: 1,
+      },
+    ]);
+
+    const supported = byId[supportedId.toString()];
+    expect(supported.graph.hops).toBe(1);
+    expect(supported.graph.path[0].edgeType).toBe("SUPPORTS");
+    expect(supported.score).toBeCloseTo(plain.body.results[0].score * 0.8 * 0.5);
+
+    // Only SUPPORTS edges: the replacement isn't reached, the hit is still dropped
+    const supportsOnly = await request(app).get("/recall").query({
+      agentId,
+      query: "The billing service retries webhooks three times",
+      limit: 20,
+      graph: "true",
+      graphEdgeTypes: "SUPPORTS",
+    });
+    const ids = supportsOnly.body.results.map((r: { id: string }) => r.id);
+    expect(ids).toContain(supportedId.toString());
+    expect(ids).not.toContain(replacementId.toString());
+    expect(ids).not.toContain(hitId);
+
+    // Hidden without the graph too, unless asked for
+    const hidden = await request(app).get("/recall").query({
+      agentId,
+      query: "The billing service retries webhooks three times",
+      limit: 20,
+    });
+    expect(hidden.body.superseded).toBe(1);
+    expect(hidden.body.results.map((r: { id: string }) => r.id)).not.toContain(hitId);
+
+    const withGraph = await request(app).get("/recall").query({
+      agentId,
+      query: "The billing service retries webhooks three times",
+      limit: 20,
+      graph: "true",
+      includeSuperseded: "true",
+    });
+    expect(withGraph.body.graph.suppressed).toBe(0);
+    expect(withGraph.body.results.map((r: { id: string }) => r.id)).toContain(hitId);
+  });
+
+  it("should reject unknown graph edge types", async () => {
+    const response = await request(app).get("/recall").query({
+      agentId: "test-agent-recall",
+      query: "anything",
+      graph: "true",
+      graphEdgeTypes: "MENTIONS_ENTITY",
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should reject unknown recall mode", async () => {
+    const response = await request(app).get("/recall").query({
+      agentId: "test-agent-recall",
+      query: "anything",
+      mode: "keyword",
+    });
+
+    expect(response.status).toBe(400);
+  });
 });
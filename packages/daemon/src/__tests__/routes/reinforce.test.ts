@@ -0,0 +1,91 @@
+/**
+ * Tests for POST /memories/:id/reinforce and /recall?reinforce=true
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import request from "supertest";
+import { Express } from "express";
+import { ObjectId } from "mongodb";
+import { reinforceMemoryRoute } from "../../routes/memories";
+import { recallRoute } from "../../routes/recall";
+import { rememberRoute } from "../../routes/remember";
+import { createTestApp, addErrorHandler, cleanupTestData } from "../helpers";
+import { getDatabase } from "../../db";
+
+const agentId = "test-agent-reinforce";
+let app: Express;
+
+async function seedDecayedMemory(text: string): Promise<string> {
+  const response = await request(app).post("/remember").send({ agentId, text });
+  expect(response.status).toBe(200);
+
+  // Simulate decay so reinforcement has something to restore
+  await getDatabase()
+    .collection("memories")
+    .updateOne(
+      { _id: new ObjectId(response.body.id) },
+      { $set: { strength: 0.3, confidence: 0.6, reinforcementCount: 0 } },
+    );
+  return response.body.id;
+}
+
+describe("POST /memories/:id/reinforce", () => {
+  beforeAll(async () => {
+    app = await createTestApp();
+    app.post("/remember", rememberRoute);
+    app.get("/recall", recallRoute);
+    app.post("/memories/:id/reinforce", reinforceMemoryRoute);
+    await addErrorHandler(app);
+    await cleanupTestData(agentId);
+  });
+
+  afterAll(async () => {
+    await cleanupTestData(agentId);
+  });
+
+  it("should restore strength and raise confidence", async () => {
+    const id = await seedDecayedMemory("Reinforce me: staging uses port 8443");
+
+    const response = await request(app).post(`/memories/${id}/reinforce`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.success).toBe(true);
+    expect(response.body.strength).toBe(1);
+    expect(response.body.confidence).toBeCloseTo(0.6 + 0.4 * 0.15, 10);
+    expect(response.body.reinforcementCount).toBe(1);
+    expect(response.body.lastReinforcedAt).toBeDefined();
+  });
+
+  it("should return 404 for a missing memory", async () => {
+    const response = await request(app).post(`/memories/${new ObjectId()}/reinforce`);
+    expect(response.status).toBe(404);
+  });
+
+  it("should return 400 for an invalid ID", async () => {
+    const response = await request(app).post("/memories/not-an-id/reinforce");
+    expect(response.status).toBe(400);
+  });
+
+  it("should only reinforce recall hits when reinforce=true", async () => {
+    const id = await seedDecayedMemory("Release train leaves every second Tuesday");
+
+    await request(app).get("/recall").query({ agentId, query: "release train" });
+    let memory = await getDatabase()
+      .collection("memories")
+      .findOne({ _id: new ObjectId(id) });
+    expect(memory?.reinforcementCount).toBe(0);
+
+    const response = await request(app)
+      .get("/recall")
+      .query({ agentId, query: "release train", reinforce: "true" });
+
+    expect(response.status).toBe(200);
+    expect(response.body.reinforced).toBe(response.body.count);
+
+    memory = await getDatabase()
+      .collection("memories")
+      .findOne({ _id: new ObjectId(id) });
+    expect(memory?.reinforcementCount).toBe(1);
+    expect(memory?.strength).toBe(1);
+  });
+});
@@ -8,6 +8,8 @@ import { Express } from 'express';
 import { rememberRoute } from '../../routes/remember';
 import { createTestApp, cleanupTestData } from '../helpers';
 import { getDatabase } from '../../db';
+import { processPendingEmbeddings } from '../../services/embeddingQueue';
+import { requeueEmbeddingsRoute } from '../../routes/embeddings';
 
 let app: Express;
 
@@ -15,6 +17,7 @@ describe('POST /remember', () => {
   beforeAll(async () => {
     app = await createTestApp();
     app.post('/remember', rememberRoute);
+    app.post('/embeddings/requeue', requeueEmbeddingsRoute);
     const { addErrorHandler } = await import('../helpers');
     await addErrorHandler(app);
   });
@@ -118,6 +121,81 @@ describe('POST /remember', () => {
     expect(memory?.embedding).toBeDefined();
     expect(Array.isArray(memory?.embedding)).toBe(true);
     expect(memory?.embedding.length).toBeGreaterThan(0);
+    expect(memory?.embeddingModel).toBeDefined();
+    expect(memory?.embeddingDim).toBe(memory?.embedding.length);
+  });
+
+  it('should store async writes as pending and embed them in the background', async () => {
+    const response = await request(app)
+      .post('/remember')
+      .send({
+        agentId: 'test-agent-async',
+        text: 'Async memory waiting for its vector',
+        async: true,
+      });
+
+    expect(response.status).toBe(202);
+    expect(response.body.embeddingStatus).toBe('pending');
+
+    const db = getDatabase();
+    const { ObjectId } = await import('mongodb');
+    const _id = new ObjectId(response.body.id);
+    expect(await db.collection('memories').findOne({ _id })).toMatchObject({
+      embeddingStatus: 'pending',
+    });
+    expect((await db.collection('memories').findOne({ _id }))?.embedding).toBeUndefined();
+
+    const stats = await processPendingEmbeddings(db, app.locals.embedder);
+
+    expect(stats.embedded).toBeGreaterThanOrEqual(1);
+    const memory = await db.collection('memories').findOne({ _id });
+    expect(memory?.embeddingStatus).toBe('ready');
+    expect(memory?.embedding.length).toBeGreaterThan(0);
+    await cleanupTestData('test-agent-async');
+  });
+
+  it('should queue the write instead of failing when the embedder is down', async () => {
+    const embedder = app.locals.embedder;
+    app.locals.embedder = {
+      ...embedder,
+      embedOne: () => Promise.reject(new Error('provider unavailable')),
+    };
+    try {
+      const response = await request(app)
+        .post('/remember')
+        .send({ agentId: 'test-agent-async', text: 'Stored during an outage' });
+
+      expect(response.status).toBe(202);
+      expect(response.body.success).toBe(true);
+      expect(response.body.embeddingStatus).toBe('pending');
+    } finally {
+      app.locals.embedder = embedder;
+      await cleanupTestData('test-agent-async');
+    }
+  });
+
+  it('should requeue memories whose embedding failed', async () => {
+    const response = await request(app)
+      .post('/remember')
+      .send({ agentId: 'test-agent-async', text: 'Failed during an outage', async: true });
+
+    const db = getDatabase();
+    const { ObjectId } = await import('mongodb');
+    const _id = new ObjectId(response.body.id);
+    await db
+      .collection('memories')
+      .updateOne({ _id }, { $set: { embeddingStatus: 'failed', embeddingAttempts: 20 } });
+
+    const requeue = await request(app)
+      .post('/embeddings/requeue')
+      .send({ agentId: 'test-agent-async' });
+    expect(requeue.status).toBe(200);
+    expect(requeue.body.requeued).toBe(1);
+
+    const memory = await db.collection('memories').findOne({ _id });
+    expect(memory?.embeddingStatus).toBe('pending');
+    expect(memory?.embeddingAttempts).toBeUndefined();
+    await cleanupTestData('test-agent-async');
   });
 
   it('should handle concurrent requests', async () => {
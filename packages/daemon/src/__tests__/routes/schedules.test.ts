@@ -0,0 +1,109 @@
+/**
+ * Tests for GET /schedules/:agentId and POST /schedules/:agentId/:jobType/run
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import request from "supertest";
+import { Express } from "express";
+import { getSchedulesRoute, runScheduledJobRoute } from "../../routes/schedules";
+import { createTestApp, addErrorHandler, cleanupTestData } from "../helpers";
+import { getDatabase } from "../../db";
+
+const agentId = "test-agent-schedules";
+let app: Express;
+
+describe("Schedules", () => {
+  beforeAll(async () => {
+    app = await createTestApp();
+    app.locals.config.reflectionJobMaxAttempts = 3;
+    app.get("/schedules/:agentId", getSchedulesRoute);
+    app.post("/schedules/:agentId/:jobType/run", runScheduledJobRoute);
+    await addErrorHandler(app);
+    await cleanupTestData(agentId);
+    await getDatabase().collection("settings").deleteMany({ agentId });
+  });
+
+  afterAll(async () => {
+    await cleanupTestData(agentId);
+    await getDatabase().collection("settings").deleteMany({ agentId });
+  });
+
+  it("should list resolved schedules with next runs", async () => {
+    await getDatabase()
+      .collection("settings")
+      .insertOne({ agentId, schedules: { clustering: { enabled: true, cron: "0 5 * * 1" } } });
+
+    const response = await request(app).get(`/schedules/${agentId}`);
+    expect(response.status).toBe(200);
+
+    const byType = Object.fromEntries(
+      response.body.schedules.map((s: { jobType: string }) => [s.jobType, s]),
+    );
+    expect(byType.decay.enabled).toBe(true);
+    expect(byType.decay.cron).toBe("0 2 * * *");
+    expect(new Date(byType.decay.nextRunAt).getHours()).toBe(2);
+    expect(byType.clustering.cron).toBe("0 5 * * 1");
+    expect(byType.clustering.options).toEqual({ k: 20 });
+    expect(new Date(byType.clustering.nextRunAt).getDay()).toBe(1);
+    expect(byType.reflection.nextRunAt).toBeNull();
+    expect(byType.jobCleanup.lastRunAt).toBeNull();
+  });
+
+  it("should queue scheduled reflection over memories reflection hasn't seen", async () => {
+    const db = getDatabase();
+    const now = new Date();
+    await db.collection("memories").insertMany([
+      { agentId, text: "Remembered directly", embedding: [0.1, 0.2], tags: [], createdAt: now },
+      { agentId, text: "Still embedding", embeddingStatus: "pending", tags: [], createdAt: now },
+      {
+        agentId,
+        text: "From a session",
+        embedding: [0.3, 0.1],
+        tags: [],
+        createdAt: now,
+        reflectedAt: now,
+      },
+    ]);
+
+    const response = await request(app).post(`/schedules/${agentId}/reflection/run`);
+    expect(response.status).toBe(200);
+    expect(response.body.success).toBe(true);
+    expect(response.body.result.memories).toBe(1);
+
+    const job = await db
+      .collection("reflection_jobs")
+      .findOne({ agentId, "metadata.triggeredBy": "schedule" });
+    expect(job!.resumeFromStage).toBe("graph-link");
+    expect(job!.checkpoints["layer-promote"].classifiedMemoryIds).toHaveLength(1);
+
+    const remembered = await db.collection("memories").findOne({ text: "Remembered directly" });
+    expect(remembered!.reflectedAt).toBeInstanceOf(Date);
+
+    // Nothing left to reflect on
+    const again = await request(app).post(`/schedules/${agentId}/reflection/run`);
+    expect(again.body.result.memories).toBe(0);
+
+    const status = await request(app).get(`/schedules/${agentId}`);
+    const reflection = status.body.schedules.find(
+      (s: { jobType: string }) => s.jobType === "reflection",
+    );
+    expect(reflection.lastStatus).toBe("success");
+    expect(reflection.lastRunAt).toBeDefined();
+  });
+
+  it("should clean up the agent's old reflection jobs", async () => {
+    const old = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
+    await getDatabase()
+      .collection("reflection_jobs")
+      .insertOne({ agentId, status: "complete", createdAt: old, completedAt: old, stages: [] });
+
+    const response = await request(app).post(`/schedules/${agentId}/jobCleanup/run`);
+    expect(response.status).toBe(200);
+    expect(response.body.result.deleted).toBe(1);
+  });
+
+  it("should reject unknown job types", async () => {
+    const response = await request(app).post(`/schedules/${agentId}/vacuum/run`);
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Tests for the session lifecycle: POST /sessions, POST /sessions/:id/turns,
+ * POST /sessions/:id/close and GET /sessions/:id
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import request from "supertest";
+import { Express } from "express";
+import { ObjectId } from "mongodb";
+import {
+  appendSessionTurnsRoute,
+  closeSessionRoute,
+  getSessionRoute,
+  startSessionRoute,
+} from "../../routes/sessions";
+import { createTestApp, addErrorHandler, cleanupTestData } from "../helpers";
+import { getDatabase } from "../../db";
+
+const agentId = "test-agent-sessions";
+let app: Express;
+
+async function startSession(): Promise<string> {
+  const response = await request(app)
+    .post("/sessions")
+    .send({ agentId, sessionKey: "chat-1", metadata: { channel: "cli" } });
+  expect(response.status).toBe(200);
+  expect(response.body.session.status).toBe("open");
+  return response.body.session.id;
+}
+
+describe("Sessions", () => {
+  beforeAll(async () => {
+    app = await createTestApp();
+    app.post("/sessions", startSessionRoute);
+    app.post("/sessions/:id/turns", appendSessionTurnsRoute);
+    app.post("/sessions/:id/close", closeSessionRoute);
+    app.get("/sessions/:id", getSessionRoute);
+    await addErrorHandler(app);
+    await cleanupTestData(agentId);
+  });
+
+  afterAll(async () => {
+    await cleanupTestData(agentId);
+  });
+
+  it("should accumulate turns and start reflection on close", async () => {
+    const id = await startSession();
+
+    const append = await request(app)
+      .post(`/sessions/${id}/turns`)
+      .send({
+        turns: [
+          { role: "user", content: "Which database should we use?" },
+          { role: "assistant", content: "We decided to use MongoDB for the memory store." },
+        ],
+      });
+    expect(append.status).toBe(200);
+    expect(append.body.session.turnCount).toBe(2);
+
+    const close = await request(app).post(`/sessions/${id}/close`).send({});
+    expect(close.status).toBe(200);
+    expect(close.body.session.status).toBe("closed");
+    expect(close.body.reflectionJobId).toBeTruthy();
+
+    const job = await getDatabase()
+      .collection("reflection_jobs")
+      .findOne({ _id: new ObjectId(close.body.reflectionJobId) });
+    expect(job!.sessionId).toBe(id);
+    expect(job!.metadata.triggeredBy).toBe("session-close");
+    // The worker runs the job from the stored transcript
+    expect(job!.status).toBe("pending");
+    expect(job!.input.sessionTranscript).toBe(
+      "User: Which database should we use?\n\n" +
+        "Assistant: We decided to use MongoDB for the memory store.",
+    );
+
+    const session = await request(app).get(`/sessions/${id}`);
+    expect(session.status).toBe(200);
+    expect(session.body.session.turns).toHaveLength(2);
+    expect(session.body.session.reflectionJobId).toBe(close.body.reflectionJobId);
+    expect(session.body.jobs.map((j: { id: string }) => j.id)).toContain(
+      close.body.reflectionJobId,
+    );
+  });
+
+  it("should list memories and the episode linked to the session", async () => {
+    const id = await startSession();
+    const db = getDatabase();
+    await db.collection("memories").insertOne({
+      agentId,
+      text: "Deploys go out on Tuesdays",
+      tags: [],
+      metadata: {},
+      sourceSessionId: id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    await db.collection("episodes").insertOne({
+      agentId,
+      sessionId: id,
+      title: "Release planning",
+      narrative: "The team agreed on a weekly release cadence.",
+      startedAt: new Date(),
+      endedAt: new Date(),
+    });
+
+    try {
+      const session = await request(app).get(`/sessions/${id}`);
+      expect(session.body.memories.map((m: { text: string }) => m.text)).toEqual([
+        "Deploys go out on Tuesdays",
+      ]);
+      expect(session.body.episode.title).toBe("Release planning");
+    } finally {
+      await db.collection("episodes").deleteMany({ agentId });
+    }
+  });
+
+  it("should close without reflection and reject turns afterwards", async () => {
+    const id = await startSession();
+
+    const close = await request(app).post(`/sessions/${id}/close`).send({ reflect: false });
+    expect(close.body.reflectionJobId).toBeNull();
+
+    const append = await request(app)
+      .post(`/sessions/${id}/turns`)
+      .send({ turns: [{ role: "user", content: "Too late" }] });
+    expect(append.status).toBe(409);
+
+    const again = await request(app).post(`/sessions/${id}/close`).send({});
+    expect(again.status).toBe(409);
+  });
+
+  it("should reopen the session when reflection can't be started", async () => {
+    const id = await startSession();
+    await request(app)
+      .post(`/sessions/${id}/turns`)
+      .send({ turns: [{ role: "user", content: "Deploys go out on Tuesdays" }] });
+
+    // startReflectionJob reads the daemon config before queueing the job
+    const config = app.locals.config;
+    app.locals.config = undefined;
+    try {
+      const failed = await request(app).post(`/sessions/${id}/close`).send({});
+      expect(failed.status).toBe(500);
+    } finally {
+      app.locals.config = config;
+    }
+
+    const reopened = await request(app).get(`/sessions/${id}`);
+    expect(reopened.body.session.status).toBe("open");
+    expect(reopened.body.session.endedAt).toBeNull();
+
+    const retry = await request(app).post(`/sessions/${id}/close`).send({});
+    expect(retry.status).toBe(200);
+    expect(retry.body.reflectionJobId).toBeTruthy();
+  });
+
+  it("should reject unknown and malformed session IDs", async () => {
+    expect((await request(app).get(`/sessions/${new ObjectId()}`)).status).toBe(404);
+    expect((await request(app).get("/sessions/nope")).status).toBe(400);
+  });
+});
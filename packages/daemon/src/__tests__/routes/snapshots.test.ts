@@ -0,0 +1,150 @@
+/**
+ * Tests for snapshots: POST /snapshots, GET /snapshots, GET /snapshots/:id/diff,
+ * POST /snapshots/:id/restore and DELETE /snapshots/:id
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import request from "supertest";
+import { Express } from "express";
+import { ObjectId } from "mongodb";
+import { rememberRoute } from "../../routes/remember";
+import { forgetRoute } from "../../routes/forget";
+import { memoriesRoute, memoryHistoryRoute, updateMemoryRoute } from "../../routes/memories";
+import {
+  createSnapshotRoute,
+  deleteSnapshotRoute,
+  diffSnapshotRoute,
+  listSnapshotsRoute,
+  restoreSnapshotRoute,
+} from "../../routes/snapshots";
+import { createTestApp, addErrorHandler, cleanupTestData } from "../helpers";
+import { getDatabase } from "../../db";
+
+const agentId = "test-agent-snapshots";
+let app: Express;
+
+async function remember(text: string): Promise<string> {
+  const response = await request(app).post("/remember").send({ agentId, text });
+  expect(response.status).toBe(200);
+  return response.body.id;
+}
+
+async function liveTexts(): Promise<string[]> {
+  const response = await request(app).get("/memories").query({ agentId });
+  return response.body.memories.map((m: { text: string }) => m.text).sort();
+}
+
+describe("Snapshots", () => {
+  beforeAll(async () => {
+    app = await createTestApp();
+    app.post("/remember", rememberRoute);
+    app.delete("/forget/:id", forgetRoute);
+    app.get("/memories", memoriesRoute);
+    app.patch("/memories/:id", updateMemoryRoute);
+    app.get("/memories/:id/history", memoryHistoryRoute);
+    app.post("/snapshots", createSnapshotRoute);
+    app.get("/snapshots", listSnapshotsRoute);
+    app.get("/snapshots/:id/diff", diffSnapshotRoute);
+    app.post("/snapshots/:id/restore", restoreSnapshotRoute);
+    app.delete("/snapshots/:id", deleteSnapshotRoute);
+    await addErrorHandler(app);
+    await cleanupTestData(agentId);
+  });
+
+  afterAll(async () => {
+    const snapshots = await getDatabase().collection("snapshots").find({ agentId }).toArray();
+    await getDatabase()
+      .collection("snapshot_documents")
+      .deleteMany({ snapshotId: { $in: snapshots.map((s) => s._id) } });
+    await cleanupTestData(agentId);
+  });
+
+  it("should capture, diff and restore an agent's memories", async () => {
+    const keptId = await remember("Kept: deploys go out on Tuesdays");
+    const forgottenId = await remember("Forgotten: the cache TTL is 5 minutes");
+
+    const create = await request(app)
+      .post("/snapshots")
+      .send({ agentId, name: "before experiment" });
+    expect(create.status).toBe(200);
+    expect(create.body.snapshot.counts.memory).toBe(2);
+    const snapshotId = create.body.snapshot.id;
+
+    await request(app).delete(`/forget/${forgottenId}`);
+    await remember("Added later: reflection runs hourly");
+    await getDatabase()
+      .collection("memories")
+      .updateOne({ _id: new ObjectId(keptId) }, { $set: { text: "Kept: deploys go out daily" } });
+
+    const diff = await request(app).get(`/snapshots/${snapshotId}/diff`);
+    expect(diff.status).toBe(200);
+    expect(diff.body.types.memory).toMatchObject({
+      snapshot: 2,
+      live: 2,
+      added: 1,
+      removed: 1,
+      changed: 1,
+    });
+    expect(diff.body.memories.removed[0].id).toBe(forgottenId);
+
+    const restore = await request(app).post(`/snapshots/${snapshotId}/restore`).send({});
+    expect(restore.status).toBe(200);
+    expect(restore.body.restored.memory).toBe(2);
+    expect(restore.body.deleted.memory).toBe(1);
+    expect(restore.body.backupSnapshotId).toBeDefined();
+
+    expect(await liveTexts()).toEqual([
+      "Forgotten: the cache TTL is 5 minutes",
+      "Kept: deploys go out on Tuesdays",
+    ]);
+
+    const after = await request(app).get(`/snapshots/${snapshotId}/diff`);
+    expect(after.body.types.memory).toMatchObject({ added: 0, removed: 0, changed: 0 });
+  });
+
+  it("should list snapshots newest first, including the restore backup", async () => {
+    const response = await request(app).get("/snapshots").query({ agentId });
+    expect(response.status).toBe(200);
+    expect(response.body.snapshots.map((s: { name: string }) => s.name)).toEqual([
+      'Before restoring "before experiment"',
+      "before experiment",
+    ]);
+  });
+
+  it("should delete snapshots and reject unknown IDs", async () => {
+    const list = await request(app).get("/snapshots").query({ agentId });
+    const id = list.body.snapshots[0].id;
+
+    expect((await request(app).delete(`/snapshots/${id}`)).status).toBe(200);
+    expect((await request(app).get(`/snapshots/${id}/diff`)).status).toBe(404);
+    expect((await request(app).get("/snapshots/nope/diff")).status).toBe(400);
+  });
+
+  it("should drop edit history written after the snapshot so restored memories stay editable", async () => {
+    const editedId = await remember("Edited: the staging cluster has 3 nodes");
+    await request(app).patch(`/memories/${editedId}`).send({ text: "Edited: 4 nodes" });
+
+    const create = await request(app).post("/snapshots").send({ agentId });
+    const snapshotId = create.body.snapshot.id;
+
+    await request(app).patch(`/memories/${editedId}`).send({ text: "Edited: 5 nodes" });
+    const laterId = await remember("Added after the snapshot");
+    await request(app).patch(`/memories/${laterId}`).send({ text: "Added after, then edited" });
+
+    const restore = await request(app).post(`/snapshots/${snapshotId}/restore`).send({});
+    expect(restore.status).toBe(200);
+
+    const history = await request(app).get(`/memories/${editedId}/history`);
+    expect(history.body.versions.map((v: { version: number }) => v.version)).toEqual([1]);
+    const orphaned = await getDatabase()
+      .collection("memory_versions")
+      .countDocuments({ memoryId: new ObjectId(laterId) });
+    expect(orphaned).toBe(0);
+
+    const edit = await request(app)
+      .patch(`/memories/${editedId}`)
+      .send({ text: "Edited: 6 nodes" });
+    expect(edit.status).toBe(200);
+    expect(edit.body.version).toBe(3);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Tests for the trash: soft delete via /forget, /purge and /clear, GET /trash,
+ * POST /memories/:id/undelete, POST /trash/restore and the scheduled purge
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import request from "supertest";
+import { Express } from "express";
+import { ObjectId } from "mongodb";
+import { forgetRoute } from "../../routes/forget";
+import { clearRoute } from "../../routes/clear";
+import { purgeRoute } from "../../routes/purge";
+import { memoriesRoute } from "../../routes/memories";
+import { rememberRoute } from "../../routes/remember";
+import { listTrashRoute, restoreTrashRoute, undeleteMemoryRoute } from "../../routes/trash";
+import { purgeExpiredTrash } from "../../services/trashService";
+import { createTestApp, addErrorHandler, cleanupTestData } from "../helpers";
+import { getDatabase } from "../../db";
+
+const agentId = "test-agent-trash";
+let app: Express;
+
+async function remember(text: string): Promise<string> {
+  const response = await request(app).post("/remember").send({ agentId, text });
+  expect(response.status).toBe(200);
+  return response.body.id;
+}
+
+async function listedIds(): Promise<string[]> {
+  const response = await request(app).get("/memories").query({ agentId });
+  return response.body.memories.map((m: { id: string }) => m.id);
+}
+
+describe("Trash", () => {
+  beforeAll(async () => {
+    app = await createTestApp();
+    app.post("/remember", rememberRoute);
+    app.delete("/forget/:id", forgetRoute);
+    app.delete("/clear", clearRoute);
+    app.post("/purge", purgeRoute);
+    app.get("/memories", memoriesRoute);
+    app.get("/trash", listTrashRoute);
+    app.post("/trash/restore", restoreTrashRoute);
+    app.post("/memories/:id/undelete", undeleteMemoryRoute);
+    await addErrorHandler(app);
+    await cleanupTestData(agentId);
+  });
+
+  afterAll(async () => {
+    await cleanupTestData(agentId);
+  });
+
+  it("should hide forgotten memories and undelete them", async () => {
+    const id = await remember("Trash me: the staging DB password rotates monthly");
+
+    const forget = await request(app).delete(`/forget/${id}`);
+    expect(forget.status).toBe(200);
+    expect(await listedIds()).not.toContain(id);
+
+    const trash = await request(app).get("/trash").query({ agentId });
+    expect(trash.body.items.map((m: { id: string }) => m.id)).toContain(id);
+    expect(trash.body.items[0].operation).toBe("forget");
+
+    const undelete = await request(app).post(`/memories/${id}/undelete`);
+    expect(undelete.status).toBe(200);
+    expect(await listedIds()).toContain(id);
+
+    const again = await request(app).post(`/memories/${id}/undelete`);
+    expect(again.status).toBe(404);
+  });
+
+  it("should restore a whole clear by operation ID", async () => {
+    await remember("Cleared one");
+    await remember("Cleared two");
+    const before = (await listedIds()).length;
+
+    const clear = await request(app).delete("/clear").query({ agentId });
+    expect(clear.body.deleted).toBe(before);
+    expect(clear.body.operationId).toBeDefined();
+    expect(await listedIds()).toHaveLength(0);
+
+    const trash = await request(app).get("/trash").query({ agentId });
+    expect(trash.body.operations[0]).toMatchObject({
+      operationId: clear.body.operationId,
+      operation: "clear",
+      count: before,
+    });
+
+    const restore = await request(app)
+      .post("/trash/restore")
+      .send({ operationId: clear.body.operationId, agentId });
+    expect(restore.status).toBe(200);
+    expect(restore.body.restored).toBe(before);
+    expect(await listedIds()).toHaveLength(before);
+  });
+
+  it("should leave trashed memories whose ID is live again in the trash", async () => {
+    const id = await remember("Trash me, then bring me back another way");
+    const forget = await request(app).delete(`/forget/${id}`);
+
+    const db = getDatabase();
+    const trashed = db.collection("trashed_memories");
+    const live = (await trashed.findOne({ _id: new ObjectId(id) }))!;
+    delete live.trash;
+    await db.collection("memories").insertOne({ ...live, text: "Brought back by a snapshot" });
+
+    const undelete = await request(app).post(`/memories/${id}/undelete`);
+    expect(undelete.status).toBe(409);
+
+    const restore = await request(app)
+      .post("/trash/restore")
+      .send({ operationId: forget.body.operationId, agentId });
+    expect(restore.body).toMatchObject({ restored: 0, skipped: 1 });
+
+    const memory = await db.collection("memories").findOne({ _id: new ObjectId(id) });
+    expect(memory!.text).toBe("Brought back by a snapshot");
+    expect(await trashed.countDocuments({ _id: new ObjectId(id) })).toBe(1);
+  });
+
+  it("should reject unknown or malformed operation IDs", async () => {
+    const unknown = await request(app)
+      .post("/trash/restore")
+      .send({ operationId: new ObjectId().toString() });
+    expect(unknown.status).toBe(404);
+
+    const malformed = await request(app).post("/trash/restore").send({ operationId: "nope" });
+    expect(malformed.status).toBe(400);
+  });
+
+  it("should delete trash past its retention window", async () => {
+    const purge = await request(app)
+      .post("/purge")
+      .send({ agentId, olderThan: new Date(Date.now() + 60_000).toISOString() });
+    expect(purge.body.deleted).toBeGreaterThan(0);
+
+    const db = getDatabase();
+    expect(await purgeExpiredTrash(db)).toBe(0);
+
+    const later = new Date(new Date(purge.body.purgeAfter).getTime() + 1000);
+    expect(await purgeExpiredTrash(db, later)).toBeGreaterThanOrEqual(purge.body.deleted);
+
+    const trash = await request(app).get("/trash").query({ agentId });
+    expect(trash.body.count).toBe(0);
+  });
+
+  it("should delete immediately when retention is 0", async () => {
+    app.locals.config.trashRetentionDays = 0;
+    try {
+      const id = await remember("Gone for good");
+      const versions = getDatabase().collection("memory_versions");
+      await versions.insertOne({ memoryId: new ObjectId(id), version: 1, text: "Gone" });
+      const forget = await request(app).delete(`/forget/${id}`);
+
+      expect(forget.body.message).toBe("Memory deleted");
+      expect(forget.body.operationId).toBeNull();
+      expect((await request(app).post(`/memories/${id}/undelete`)).status).toBe(404);
+      expect(await versions.countDocuments({ memoryId: new ObjectId(id) })).toBe(0);
+    } finally {
+      delete app.locals.config.trashRetentionDays;
+    }
+  });
+});
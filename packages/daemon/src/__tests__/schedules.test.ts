@@ -0,0 +1,89 @@
+/**
+ * Tests for cron expressions (utils/cron.ts) and per-agent schedule
+ * resolution (settings.schedules)
+ */
+
+import { describe, it, expect } from "vitest";
+import { nextCronRun, parseCron, validateCron } from "../utils/cron";
+import { resolveSchedules } from "../services/settingsService";
+import { AgentSettingsSchema, DEFAULT_SCHEDULES } from "../types/settings";
+
+/** Local time, like the scheduler */
+function at(year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  return new Date(year, month - 1, day, hour, minute);
+}
+
+describe("nextCronRun", () => {
+  it("should find the next daily run, today or tomorrow", () => {
+    expect(nextCronRun("0 2 * * *", at(2026, 3, 10, 1, 30))).toEqual(at(2026, 3, 10, 2, 0));
+    expect(nextCronRun("0 2 * * *", at(2026, 3, 10, 2, 0))).toEqual(at(2026, 3, 11, 2, 0));
+  });
+
+  it("should handle steps, ranges and lists", () => {
+    expect(nextCronRun("*/15 * * * *", at(2026, 3, 10, 9, 7))).toEqual(at(2026, 3, 10, 9, 15));
+    expect(nextCronRun("0 9-17/4 * * *", at(2026, 3, 10, 14, 0))).toEqual(at(2026, 3, 10, 17, 0));
+    expect(nextCronRun("30 6,18 * * *", at(2026, 3, 10, 7, 0))).toEqual(at(2026, 3, 10, 18, 30));
+  });
+
+  it("should roll over months and years", () => {
+    expect(nextCronRun("0 0 1 * *", at(2026, 12, 15))).toEqual(at(2027, 1, 1));
+    expect(nextCronRun("0 0 29 2 *", at(2026, 3, 1))).toEqual(at(2028, 2, 29));
+  });
+
+  it("should treat day-of-week 7 as Sunday", () => {
+    // 2026-03-10 is a Tuesday
+    expect(nextCronRun("0 4 * * 7", at(2026, 3, 10))).toEqual(at(2026, 3, 15, 4, 0));
+    expect(nextCronRun("0 4 * * 0", at(2026, 3, 10))).toEqual(at(2026, 3, 15, 4, 0));
+  });
+
+  it("should match either day field when both are restricted", () => {
+    // The 20th, or any Monday — Monday the 16th comes first
+    expect(nextCronRun("0 0 20 * 1", at(2026, 3, 10, 12))).toEqual(at(2026, 3, 16));
+  });
+
+  it("should accept shorthands", () => {
+    expect(parseCron("@daily")).toEqual(parseCron("0 0 * * *"));
+    expect(nextCronRun("@hourly", at(2026, 3, 10, 9, 1))).toEqual(at(2026, 3, 10, 10, 0));
+  });
+});
+
+describe("validateCron", () => {
+  it("should explain invalid expressions", () => {
+    expect(validateCron("0 2 * * *")).toBeNull();
+    expect(validateCron("0 2 * *")).toContain("5 fields");
+    expect(validateCron("61 * * * *")).toContain("minute");
+    expect(validateCron("0 0 * * mon")).toContain("day-of-week");
+    expect(validateCron("0 0 31 2 *")).toContain("never matches");
+  });
+
+  it("should reject invalid expressions in settings", () => {
+    const parse = (cron: string) =>
+      AgentSettingsSchema.safeParse({ agentId: "a", schedules: { decay: { cron } } }).success;
+
+    expect(parse("0 3 * * *")).toBe(true);
+    expect(parse("every day")).toBe(false);
+  });
+});
+
+describe("resolveSchedules", () => {
+  it("should use the defaults without settings", () => {
+    expect(resolveSchedules(null, null)).toEqual(DEFAULT_SCHEDULES);
+  });
+
+  it("should fall back field by field: agent > global > defaults", () => {
+    const global = AgentSettingsSchema.parse({
+      agentId: "_global",
+      schedules: { clustering: { enabled: true, k: 12 }, decay: { cron: "0 1 * * *" } },
+    });
+    const agent = AgentSettingsSchema.parse({
+      agentId: "openclaw",
+      schedules: { clustering: { cron: "0 5 * * 1" }, decay: { enabled: false } },
+    });
+
+    const resolved = resolveSchedules(agent, global);
+
+    expect(resolved.clustering).toEqual({ enabled: true, cron: "0 5 * * 1", k: 12 });
+    expect(resolved.decay).toEqual({ enabled: false, cron: "0 1 * * *" });
+    expect(resolved.jobCleanup).toEqual(DEFAULT_SCHEDULES.jobCleanup);
+  });
+});
@@ -9,7 +9,7 @@ import { z } from "zod";
 import os from "os";
 import path from "path";
 import { startupError } from "./utils/startupError";
-import { DEFAULT_PORT, DEFAULT_MONGO_URI } from "./constants";
+import { DEFAULT_PORT, DEFAULT_MONGO_URI, DEFAULT_TRASH_RETENTION_DAYS } from "./constants";
 
 /** Expand ~ to the user's home directory (dotenv doesn't do this). */
 function expandHome(filePath: string): string {
@@ -26,8 +26,31 @@ const configSchema = z.object({
   voyageBaseUrl: z.string().url().optional(),
   voyageModel: z.string().optional(),
   voyageMock: z.boolean().default(false),
+  embeddingProvider: z.enum(["voyage", "openai", "ollama", "local"]).default("voyage"),
+  embeddingBaseUrl: z.string().url().optional(),
+  embeddingModel: z.string().optional(),
+  embeddingApiKey: z.string().optional(),
+  embeddingModelDimensions: z.coerce.number().int().positive().optional(),
+  embeddingCacheEnabled: z.boolean().default(true),
+  embeddingCacheTtlDays: z.coerce.number().positive().default(30),
+  embeddingCacheMaxEntries: z.coerce.number().int().positive().default(100_000),
+  embeddingMaxConcurrency: z.coerce.number().int().positive().default(4),
+  embeddingMaxRetries: z.coerce.number().int().min(0).default(4),
+  embeddingBreakerThreshold: z.coerce.number().int().positive().default(5),
+  embeddingBreakerCooldownMs: z.coerce.number().int().positive().default(30_000),
+  rememberAsync: z.boolean().default(false),
+  embeddingQueueIntervalMs: z.coerce.number().int().positive().default(2000),
+  embeddingQueueBatchSize: z.coerce.number().int().positive().default(32),
+  embeddingQueueMaxAttempts: z.coerce.number().int().positive().default(20),
+  reflectionWorkerEnabled: z.boolean().default(true),
+  reflectionWorkerConcurrency: z.coerce.number().int().positive().default(1),
+  reflectionWorkerIntervalMs: z.coerce.number().int().positive().default(2000),
+  reflectionJobLeaseMs: z.coerce.number().int().min(5000).default(60_000),
+  reflectionJobMaxAttempts: z.coerce.number().int().positive().default(3),
   memoryApiKey: z.string().optional(),
+  trashRetentionDays: z.coerce.number().min(0).default(DEFAULT_TRASH_RETENTION_DAYS),
   memoryFilePath: z.string().optional(),
+  llmProvider: z.enum(["ollama", "openai"]).optional(),
   llmEndpoint: z.string().optional(),
   llmModel: z.string().optional(),
   llmApiKey: z.string().optional(),
@@ -43,10 +66,33 @@ export function loadConfig(): DaemonConfig {
     voyageBaseUrl: process.env.VOYAGE_BASE_URL || undefined,
     voyageModel: process.env.VOYAGE_MODEL || undefined,
     voyageMock: process.env.VOYAGE_MOCK === "true",
+    embeddingProvider: process.env.EMBEDDING_PROVIDER || undefined,
+    embeddingBaseUrl: process.env.EMBEDDING_BASE_URL || undefined,
+    embeddingModel: process.env.EMBEDDING_MODEL || undefined,
+    embeddingApiKey: process.env.EMBEDDING_API_KEY || undefined,
+    embeddingModelDimensions: process.env.EMBEDDING_MODEL_DIMENSIONS || undefined,
+    embeddingCacheEnabled: process.env.EMBEDDING_CACHE !== "false",
+    embeddingCacheTtlDays: process.env.EMBEDDING_CACHE_TTL_DAYS || undefined,
+    embeddingCacheMaxEntries: process.env.EMBEDDING_CACHE_MAX_ENTRIES || undefined,
+    embeddingMaxConcurrency: process.env.EMBEDDING_MAX_CONCURRENCY || undefined,
+    embeddingMaxRetries: process.env.EMBEDDING_MAX_RETRIES || undefined,
+    embeddingBreakerThreshold: process.env.EMBEDDING_BREAKER_THRESHOLD || undefined,
+    embeddingBreakerCooldownMs: process.env.EMBEDDING_BREAKER_COOLDOWN_MS || undefined,
+    rememberAsync: process.env.REMEMBER_ASYNC === "true",
+    embeddingQueueIntervalMs: process.env.EMBEDDING_QUEUE_INTERVAL_MS || undefined,
+    embeddingQueueBatchSize: process.env.EMBEDDING_QUEUE_BATCH_SIZE || undefined,
+    embeddingQueueMaxAttempts: process.env.EMBEDDING_QUEUE_MAX_ATTEMPTS || undefined,
+    reflectionWorkerEnabled: process.env.REFLECTION_WORKER !== "false",
+    reflectionWorkerConcurrency: process.env.REFLECTION_WORKER_CONCURRENCY || undefined,
+    reflectionWorkerIntervalMs: process.env.REFLECTION_WORKER_INTERVAL_MS || undefined,
+    reflectionJobLeaseMs: process.env.REFLECTION_JOB_LEASE_MS || undefined,
+    reflectionJobMaxAttempts: process.env.REFLECTION_JOB_MAX_ATTEMPTS || undefined,
     memoryApiKey: process.env.MEMORY_API_KEY || undefined,
+    trashRetentionDays: process.env.TRASH_RETENTION_DAYS || undefined,
     memoryFilePath: process.env.MEMORY_FILE_PATH
       ? expandHome(process.env.MEMORY_FILE_PATH)
       : undefined,
+    llmProvider: process.env.LLM_PROVIDER || undefined,
     llmEndpoint: process.env.LLM_ENDPOINT || undefined,
     llmModel: process.env.LLM_MODEL || undefined,
     llmApiKey: process.env.LLM_API_KEY || undefined,
@@ -68,8 +114,8 @@ export function loadConfig(): DaemonConfig {
 
   const config = result.data;
 
-  // Require VOYAGE_API_KEY only when NOT in mock mode
-  if (!config.voyageMock && !config.voyageApiKey) {
+  // Require VOYAGE_API_KEY only for the Voyage provider when NOT in mock mode
+  if (config.embeddingProvider === "voyage" && !config.voyageMock && !config.voyageApiKey) {
     startupError({
       title: "Missing VOYAGE_API_KEY",
       description:
@@ -78,6 +124,7 @@ export function loadConfig(): DaemonConfig {
       fix: [
         "Get a key from https://dash.voyageai.com/ and set VOYAGE_API_KEY in .env.local",
         "OR set VOYAGE_MOCK=true in .env.local for development without an API key",
+        "OR choose another provider: EMBEDDING_PROVIDER=openai | ollama | local",
       ],
     });
   }
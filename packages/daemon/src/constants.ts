@@ -11,3 +11,20 @@ export const MAX_REQUEST_BODY = "50kb";
 export const EMBEDDING_DIMENSIONS = 1024;
 export const COLLECTION_USAGE_EVENTS = "usage_events";
 export const COLLECTION_SETTINGS = "settings";
+export const COLLECTION_EMBEDDING_CACHE = "embedding_cache";
+export const COLLECTION_CONTRADICTION_VERDICTS = "contradiction_verdicts";
+export const COLLECTION_REEMBED_JOBS = "reembed_jobs";
+export const COLLECTION_MEMORY_VERSIONS = "memory_versions";
+export const COLLECTION_API_KEYS = "api_keys";
+export const COLLECTION_EPISODES = "episodes";
+export const COLLECTION_AUDIT_EVENTS = "audit_events";
+export const COLLECTION_TRASHED_MEMORIES = "trashed_memories";
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const COLLECTION_ENTITIES = "entities";
+export const COLLECTION_PENDING_EDGES = "pending_edges";
+export const COLLECTION_CLUSTERS = "clusters";
+export const COLLECTION_SNAPSHOTS = "snapshots";
+export const COLLECTION_SNAPSHOT_DOCUMENTS = "snapshot_documents";
+export const MAX_SESSION_TURNS = 1000;
+export const COLLECTION_REFLECTION_JOBS = "reflection_jobs";
+export const COLLECTION_SCHEDULED_JOBS = "scheduled_jobs";
@@ -1,5 +1,22 @@
 import { Db } from "mongodb";
-import { COLLECTION_MEMORIES, COLLECTION_SESSIONS, COLLECTION_USAGE_EVENTS } from "../constants";
+import {
+  COLLECTION_API_KEYS,
+  COLLECTION_AUDIT_EVENTS,
+  COLLECTION_CONTRADICTION_VERDICTS,
+  COLLECTION_EMBEDDING_CACHE,
+  COLLECTION_ENTITIES,
+  COLLECTION_EPISODES,
+  COLLECTION_MEMORIES,
+  COLLECTION_MEMORY_VERSIONS,
+  COLLECTION_REEMBED_JOBS,
+  COLLECTION_REFLECTION_JOBS,
+  COLLECTION_SCHEDULED_JOBS,
+  COLLECTION_SESSIONS,
+  COLLECTION_SNAPSHOT_DOCUMENTS,
+  COLLECTION_SNAPSHOTS,
+  COLLECTION_TRASHED_MEMORIES,
+  COLLECTION_USAGE_EVENTS,
+} from "../constants";
 
 export async function initializeSchema(db: Db): Promise<void> {
   const memoriesCollection = db.collection(COLLECTION_MEMORIES);
@@ -10,6 +27,18 @@ export async function initializeSchema(db: Db): Promise<void> {
   await memoriesCollection.createIndex({ agentId: 1, projectId: 1, createdAt: -1 });
   await memoriesCollection.createIndex({ agentId: 1, tags: 1 });
   await memoriesCollection.createIndex({ text: "text", tags: "text" });
+  // Embedding queue: oldest pending memories first
+  await memoriesCollection.createIndex({ embeddingStatus: 1, createdAt: 1 });
+  // Re-embed migration: cutover and abort select by shadow model
+  await memoriesCollection.createIndex({ shadowEmbeddingModel: 1 }, { sparse: true });
+  // Trash: forget / purge / clear tag memories before moving them
+  await memoriesCollection.createIndex({ trashOperationId: 1 }, { sparse: true });
+  // GET /sessions/:id lists the memories reflection derived from a session
+  await memoriesCollection.createIndex({ sourceSessionId: 1 }, { sparse: true });
+  // Scheduled reflection picks up memories reflection hasn't processed
+  await memoriesCollection.createIndex({ agentId: 1, reflectedAt: 1, createdAt: 1 });
+  // Graph recall follows edges backwards and looks for SUPERSEDES edges
+  await memoriesCollection.createIndex({ agentId: 1, "edges.targetId": 1 });
 
   console.log("✓ Memories collection schema initialized");
 
@@ -28,6 +57,92 @@ export async function initializeSchema(db: Db): Promise<void> {
   await usageCollection.createIndex({ pipelineStage: 1, timestamp: -1 });
 
   console.log("✓ Usage events collection schema initialized");
+
+  // Embedding cache — (model, dimensions, inputType, sha256(text)) → vector
+  const cacheCollection = db.collection(COLLECTION_EMBEDDING_CACHE);
+  await cacheCollection.createIndex(
+    { model: 1, dimensions: 1, inputType: 1, textHash: 1 },
+    { unique: true },
+  );
+  await cacheCollection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+  await cacheCollection.createIndex({ lastUsedAt: 1 });
+
+  console.log("✓ Embedding cache collection schema initialized");
+
+  // LLM contradiction verdicts — (model, sha256(pair)) → verdict
+  const verdictsCollection = db.collection(COLLECTION_CONTRADICTION_VERDICTS);
+  await verdictsCollection.createIndex({ model: 1, pairHash: 1 }, { unique: true });
+  await verdictsCollection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+  console.log("✓ Contradiction verdicts collection schema initialized");
+
+  // Re-embed migration jobs
+  const reembedJobsCollection = db.collection(COLLECTION_REEMBED_JOBS);
+  await reembedJobsCollection.createIndex({ status: 1, createdAt: -1 });
+
+  console.log("✓ Re-embed jobs collection schema initialized");
+
+  // Reflection jobs — workers claim the oldest due pending job and recover
+  // running jobs whose lease expired
+  const reflectionJobsCollection = db.collection(COLLECTION_REFLECTION_JOBS);
+  await reflectionJobsCollection.createIndex({ status: 1, runAfter: 1, createdAt: 1 });
+  await reflectionJobsCollection.createIndex({ status: 1, leaseExpiresAt: 1 });
+  await reflectionJobsCollection.createIndex({ agentId: 1, createdAt: -1 });
+  await reflectionJobsCollection.createIndex({ sessionId: 1 }, { sparse: true });
+
+  console.log("✓ Reflection jobs collection schema initialized");
+
+  // Memory versions — prior states of edited memories
+  const versionsCollection = db.collection(COLLECTION_MEMORY_VERSIONS);
+  await versionsCollection.createIndex({ memoryId: 1, version: -1 }, { unique: true });
+
+  console.log("✓ Memory versions collection schema initialized");
+
+  // Scoped API keys — looked up by hash on every authenticated request
+  const apiKeysCollection = db.collection(COLLECTION_API_KEYS);
+  await apiKeysCollection.createIndex({ keyHash: 1 }, { unique: true });
+
+  console.log("✓ API keys collection schema initialized");
+
+  // Audit log — GET /audit pages by timestamp, optionally per agent or operation
+  const auditCollection = db.collection(COLLECTION_AUDIT_EVENTS);
+  await auditCollection.createIndex({ timestamp: -1, _id: -1 });
+  await auditCollection.createIndex({ agentId: 1, timestamp: -1 });
+  await auditCollection.createIndex({ operation: 1, timestamp: -1 });
+
+  console.log("✓ Audit events collection schema initialized");
+
+  // Trash — soft-deleted memories, restorable until trash.purgeAfter
+  const trashCollection = db.collection(COLLECTION_TRASHED_MEMORIES);
+  await trashCollection.createIndex({ agentId: 1, "trash.deletedAt": -1 });
+  await trashCollection.createIndex({ "trash.operationId": 1 });
+  await trashCollection.createIndex({ "trash.purgeAfter": 1 });
+
+  console.log("✓ Trashed memories collection schema initialized");
+
+  // Snapshots — listed per agent; diff and restore join documents by original _id
+  const snapshotsCollection = db.collection(COLLECTION_SNAPSHOTS);
+  await snapshotsCollection.createIndex({ agentId: 1, createdAt: -1 });
+  const snapshotDocsCollection = db.collection(COLLECTION_SNAPSHOT_DOCUMENTS);
+  await snapshotDocsCollection.createIndex({ snapshotId: 1, type: 1 });
+  await snapshotDocsCollection.createIndex({ "doc._id": 1, snapshotId: 1 });
+
+  console.log("✓ Snapshot collections schema initialized");
+
+  // Scheduled jobs — one run-state document per agent and job type
+  const scheduledJobsCollection = db.collection(COLLECTION_SCHEDULED_JOBS);
+  await scheduledJobsCollection.createIndex({ agentId: 1, jobType: 1 }, { unique: true });
+
+  console.log("✓ Scheduled jobs collection schema initialized");
+
+  // Entities — looked up by slug; recall links query entities by memoryCount
+  const entitiesCollection = db.collection(COLLECTION_ENTITIES);
+  await entitiesCollection.createIndex({ agentId: 1, slug: 1 });
+  await entitiesCollection.createIndex({ agentId: 1, memoryCount: -1 });
+  // Entity profiles list the episodes an entity took part in
+  await db.collection(COLLECTION_EPISODES).createIndex({ agentId: 1, participants: 1 });
+
+  console.log("✓ Entities collection schema initialized");
 }
 
 /**
@@ -41,7 +156,9 @@ export async function initializeSchema(db: Db): Promise<void> {
  *     { "type": "vector", "path": "embedding", "numDimensions": 1024, "similarity": "cosine" },
  *     { "type": "filter", "path": "agentId" },
  *     { "type": "filter", "path": "projectId" },
- *     { "type": "filter", "path": "tags" }
+ *     { "type": "filter", "path": "tags" },
+ *     { "type": "filter", "path": "embeddingModel" },
+ *     { "type": "filter", "path": "edges.targetId" }
  *   ]
  * }
  *
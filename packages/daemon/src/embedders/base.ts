@@ -0,0 +1,98 @@
+/**
+ * Embedder interface + shared base class for all embedding providers.
+ *
+ * Every provider declares the dimension of the vectors it produces so the
+ * daemon can refuse to start (and refuse individual responses) when that
+ * doesn't match EMBEDDING_DIMENSIONS / the Atlas vector index. Mixing
+ * dimensions in one collection silently breaks recall.
+ */
+
+import axios from "axios";
+import { EventEmitter } from "events";
+import type { EmbedderUsageEvent } from "../types/usage";
+import type { ResilienceState } from "./resilience";
+
+export type EmbeddingProvider = "voyage" | "openai" | "ollama" | "local";
+export type EmbeddingInputType = "document" | "query";
+
+export interface Embedder {
+  /** Provider name (recorded on usage events) */
+  readonly provider: EmbeddingProvider;
+  /** Emits "usage" events (EmbedderUsageEvent) after every embed call */
+  readonly usageEmitter: EventEmitter;
+
+  getModel(): string;
+  /** Declared output dimension for the configured model */
+  getDimensions(): number;
+  /** True when embeddings are deterministic hashes (no semantic meaning) */
+  isMockMode(): boolean;
+  /** Circuit breaker + limiter state, or null for providers without network calls */
+  getResilienceState(): ResilienceState | null;
+
+  embed(texts: string[], inputType?: EmbeddingInputType): Promise<number[][]>;
+  embedOne(text: string, inputType?: EmbeddingInputType): Promise<number[]>;
+}
+
+export abstract class BaseEmbedder implements Embedder {
+  abstract readonly provider: EmbeddingProvider;
+
+  /** EventEmitter for usage tracking — listeners get token counts after every API call */
+  public readonly usageEmitter = new EventEmitter();
+
+  abstract getModel(): string;
+  abstract getDimensions(): number;
+  abstract embed(texts: string[], inputType?: EmbeddingInputType): Promise<number[][]>;
+
+  isMockMode(): boolean {
+    return false;
+  }
+
+  getResilienceState(): ResilienceState | null {
+    return null;
+  }
+
+  async embedOne(text: string, inputType?: EmbeddingInputType): Promise<number[]> {
+    const [embedding] = await this.embed([text], inputType);
+    return embedding;
+  }
+
+  /**
+   * Reject vectors whose length differs from the declared dimension —
+   * storing them would corrupt the collection for every later recall.
+   */
+  protected assertDimensions(embeddings: number[][]): void {
+    const expected = this.getDimensions();
+    const bad = embeddings.find((e) => e.length !== expected);
+    if (bad) {
+      throw new Error(
+        `${this.provider} model "${this.getModel()}" returned ${bad.length}-dim embedding, expected ${expected}`,
+      );
+    }
+  }
+
+  /** Safely emit a usage event (swallows errors from listeners) */
+  protected emitUsage(event: EmbedderUsageEvent): void {
+    try {
+      this.usageEmitter.emit("usage", event);
+    } catch (err) {
+      console.error(`[Embedder:${this.provider}] Usage event listener error:`, err);
+    }
+  }
+}
+
+/** Cheap token estimate (~4 chars per token for English) */
+export function estimateTokens(text: string): number {
+  return Math.max(1, Math.ceil(text.length / 4));
+}
+
+/** Format an axios error as "status statusText - detail" */
+export function describeAxiosError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status || 0;
+    const data = error.response?.data as { error?: { message?: string } | string } | undefined;
+    const detail =
+      typeof data?.error === "string" ? data.error : (data?.error?.message ?? error.message);
+    return `${status} ${error.response?.statusText ?? ""} - ${detail}`.trim();
+  }
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,248 @@
+/**
+ * Persistent embedding cache — wraps any Embedder.
+ *
+ * Entries are keyed on (model, dimensions, inputType, sha256(text)) in the
+ * embedding_cache collection, so re-running reflection, /restore, reembed
+ * and repeated /recall queries only pay for text the model hasn't seen.
+ *
+ * - expiresAt slides forward on every hit (TTL index removes stale entries)
+ * - the collection is trimmed to maxEntries, least recently used first
+ * - cache failures never fail an embed call — they degrade to misses
+ * - mock/hash embedders are not cached (they cost nothing)
+ *
+ * After every call a "cache" event (EmbeddingCacheEvent) is emitted on the
+ * wrapped embedder's usageEmitter so UsageTracker can report hit rate and
+ * dollars saved.
+ */
+
+import { createHash } from "crypto";
+import { AnyBulkWriteOperation, Db } from "mongodb";
+import { COLLECTION_EMBEDDING_CACHE } from "../constants";
+import type { EmbeddingCacheEvent } from "../types/usage";
+import { estimateTokens } from "./base";
+import type { Embedder, EmbeddingInputType, EmbeddingProvider } from "./base";
+import type { ResilienceState } from "./resilience";
+
+export const DEFAULT_CACHE_TTL_DAYS = 30;
+export const DEFAULT_CACHE_MAX_ENTRIES = 100_000;
+
+/** Check the size limit after this many new entries (keeps count queries rare) */
+const PRUNE_EVERY_INSERTS = 500;
+
+export interface EmbeddingCacheOptions {
+  ttlDays?: number;
+  maxEntries?: number;
+}
+
+export interface EmbeddingCacheEntry {
+  model: string;
+  dimensions: number;
+  inputType: EmbeddingInputType | "none";
+  textHash: string;
+  embedding: number[];
+  /** Rough token estimate (chars / 4) — used to price hits */
+  estimatedTokens: number;
+  hits: number;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+}
+
+/** sha256 of the exact input text */
+export function hashText(text: string): string {
+  return createHash("sha256").update(text, "utf8").digest("hex");
+}
+
+export class CachingEmbedder implements Embedder {
+  private insertsSincePrune = 0;
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+
+  constructor(
+    private readonly inner: Embedder,
+    private readonly db: Db,
+    options: EmbeddingCacheOptions = {},
+  ) {
+    this.ttlMs = (options.ttlDays ?? DEFAULT_CACHE_TTL_DAYS) * 24 * 60 * 60 * 1000;
+    this.maxEntries = options.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES;
+  }
+
+  get provider(): EmbeddingProvider {
+    return this.inner.provider;
+  }
+
+  get usageEmitter() {
+    return this.inner.usageEmitter;
+  }
+
+  getModel(): string {
+    return this.inner.getModel();
+  }
+
+  getDimensions(): number {
+    return this.inner.getDimensions();
+  }
+
+  isMockMode(): boolean {
+    return this.inner.isMockMode();
+  }
+
+  getResilienceState(): ResilienceState | null {
+    return this.inner.getResilienceState();
+  }
+
+  async embedOne(text: string, inputType?: EmbeddingInputType): Promise<number[]> {
+    const [embedding] = await this.embed([text], inputType);
+    return embedding;
+  }
+
+  async embed(texts: string[], inputType?: EmbeddingInputType): Promise<number[][]> {
+    if (this.inner.isMockMode() || texts.length === 0) {
+      return this.inner.embed(texts, inputType);
+    }
+
+    const keyBase = {
+      model: this.inner.getModel(),
+      dimensions: this.inner.getDimensions(),
+      inputType: inputType ?? ("none" as const),
+    };
+    const hashes = texts.map(hashText);
+    const results = new Map<string, number[]>();
+
+    // 1. Look up every distinct text
+    let hitTokens = 0;
+    try {
+      const cached = await this.collection()
+        .find(
+          { ...keyBase, textHash: { $in: [...new Set(hashes)] } },
+          { projection: { textHash: 1, embedding: 1, estimatedTokens: 1 } },
+        )
+        .toArray();
+      for (const entry of cached) {
+        if (entry.embedding?.length === keyBase.dimensions) {
+          results.set(entry.textHash, entry.embedding);
+          hitTokens += entry.estimatedTokens ?? 0;
+        }
+      }
+    } catch (err) {
+      console.warn("[EmbeddingCache] Lookup failed, embedding without cache:", err);
+    }
+
+    const hitHashes = [...results.keys()];
+    if (hitHashes.length > 0) {
+      this.touch(keyBase, hitHashes);
+    }
+
+    // 2. Embed the misses (deduplicated) in one call
+    const missIndexes: number[] = [];
+    const seen = new Set<string>(hitHashes);
+    hashes.forEach((hash, i) => {
+      if (!seen.has(hash)) {
+        seen.add(hash);
+        missIndexes.push(i);
+      }
+    });
+
+    if (missIndexes.length > 0) {
+      const missTexts = missIndexes.map((i) => texts[i]);
+      const embeddings = await this.inner.embed(missTexts, inputType);
+      missIndexes.forEach((textIndex, j) => results.set(hashes[textIndex], embeddings[j]));
+      this.store(
+        keyBase,
+        missTexts,
+        missIndexes.map((i) => hashes[i]),
+        embeddings,
+      );
+    }
+
+    this.emitCacheEvent({
+      model: keyBase.model,
+      provider: this.inner.provider,
+      hits: hitHashes.length,
+      misses: missIndexes.length,
+      estimatedTokensSaved: hitTokens,
+    });
+
+    return hashes.map((hash) => results.get(hash) as number[]);
+  }
+
+  private collection() {
+    return this.db.collection<EmbeddingCacheEntry>(COLLECTION_EMBEDDING_CACHE);
+  }
+
+  /** Slide expiry forward for hits (fire-and-forget) */
+  private touch(
+    keyBase: Pick<EmbeddingCacheEntry, "model" | "dimensions" | "inputType">,
+    hashes: string[],
+  ) {
+    const now = new Date();
+    this.collection()
+      .updateMany(
+        { ...keyBase, textHash: { $in: hashes } },
+        {
+          $set: { lastUsedAt: now, expiresAt: new Date(now.getTime() + this.ttlMs) },
+          $inc: { hits: 1 },
+        },
+      )
+      .catch((err) => console.warn("[EmbeddingCache] Failed to refresh entries:", err));
+  }
+
+  /** Upsert freshly embedded texts (fire-and-forget) */
+  private store(
+    keyBase: Pick<EmbeddingCacheEntry, "model" | "dimensions" | "inputType">,
+    texts: string[],
+    hashes: string[],
+    embeddings: number[][],
+  ) {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + this.ttlMs);
+    const ops: AnyBulkWriteOperation<EmbeddingCacheEntry>[] = hashes.map((textHash, i) => ({
+      updateOne: {
+        filter: { ...keyBase, textHash },
+        update: {
+          $setOnInsert: {
+            embedding: embeddings[i],
+            estimatedTokens: estimateTokens(texts[i]),
+            hits: 0,
+            createdAt: now,
+          },
+          $set: { lastUsedAt: now, expiresAt },
+        },
+        upsert: true,
+      },
+    }));
+
+    this.collection()
+      .bulkWrite(ops, { ordered: false })
+      .then((result) => {
+        this.insertsSincePrune += result.upsertedCount;
+        if (this.insertsSincePrune >= PRUNE_EVERY_INSERTS) {
+          this.insertsSincePrune = 0;
+          return this.prune();
+        }
+      })
+      .catch((err) => console.warn("[EmbeddingCache] Failed to store entries:", err));
+  }
+
+  /** Trim the collection to maxEntries, evicting least recently used entries */
+  async prune(): Promise<number> {
+    const collection = this.collection();
+    const count = await collection.estimatedDocumentCount();
+    const overflow = count - this.maxEntries;
+    if (overflow <= 0) return 0;
+
+    const oldest = await collection
+      .find({}, { projection: { _id: 1 }, sort: { lastUsedAt: 1 }, limit: overflow })
+      .toArray();
+    const result = await collection.deleteMany({ _id: { $in: oldest.map((d) => d._id) } });
+    return result.deletedCount;
+  }
+
+  private emitCacheEvent(event: EmbeddingCacheEvent): void {
+    try {
+      this.inner.usageEmitter.emit("cache", event);
+    } catch (err) {
+      console.error("[EmbeddingCache] Cache event listener error:", err);
+    }
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Embedding provider selection + startup dimension validation.
+ *
+ * EMBEDDING_PROVIDER picks the implementation:
+ *   voyage (default) — Voyage AI / MongoDB Atlas AI (VOYAGE_* env vars)
+ *   openai           — any OpenAI-compatible /v1/embeddings endpoint
+ *   ollama           — local Ollama /api/embed
+ *   local            — deterministic hash vectors, no network
+ *
+ * A provider whose declared dimension differs from EMBEDDING_DIMENSIONS, or
+ * from the Atlas vector index, refuses to start.
+ */
+
+import { Db } from "mongodb";
+import { DaemonConfig } from "../config";
+import { COLLECTION_MEMORIES, EMBEDDING_DIMENSIONS } from "../constants";
+import { VoyageEmbedder } from "../embedding";
+import { startupError } from "../utils/startupError";
+import type { Embedder } from "./base";
+import { CachingEmbedder } from "./cache";
+import type { ResilienceOptions } from "./resilience";
+import { LocalEmbedder } from "./local";
+import { OllamaEmbedder } from "./ollama";
+import { OpenAiEmbedder } from "./openai";
+
+export type { Embedder, EmbeddingProvider, EmbeddingInputType } from "./base";
+export { CachingEmbedder } from "./cache";
+export { SwitchableEmbedder } from "./switchable";
+export { LocalEmbedder } from "./local";
+export { OllamaEmbedder } from "./ollama";
+export { OpenAiEmbedder } from "./openai";
+export type { ResilienceOptions, ResilienceState } from "./resilience";
+
+export const VECTOR_INDEX_NAME = "memory_vector_index";
+
+interface VectorIndexField {
+  type?: string;
+  path?: string;
+  numDimensions?: number;
+}
+
+/**
+ * Build the configured embedder. Throws if the provider can't determine
+ * its output dimension.
+ */
+export function createEmbedder(config: DaemonConfig): Embedder {
+  const resilience: ResilienceOptions = {
+    maxConcurrency: config.embeddingMaxConcurrency,
+    maxRetries: config.embeddingMaxRetries,
+    breakerThreshold: config.embeddingBreakerThreshold,
+    breakerCooldownMs: config.embeddingBreakerCooldownMs,
+  };
+
+  switch (config.embeddingProvider) {
+    case "openai":
+      return new OpenAiEmbedder({
+        baseUrl: config.embeddingBaseUrl,
+        apiKey: config.embeddingApiKey,
+        model: config.embeddingModel,
+        dimensions: config.embeddingModelDimensions,
+        resilience,
+      });
+    case "ollama":
+      return new OllamaEmbedder({
+        baseUrl: config.embeddingBaseUrl,
+        model: config.embeddingModel,
+        dimensions: config.embeddingModelDimensions,
+      });
+    case "local":
+      return new LocalEmbedder();
+    case "voyage":
+    default:
+      return new VoyageEmbedder(
+        config.voyageApiKey || "mock-key",
+        config.voyageBaseUrl,
+        config.voyageModel,
+        config.voyageMock,
+        config.embeddingModelDimensions,
+        resilience,
+      );
+  }
+}
+
+/**
+ * Build the configured provider with a different model — the target of a
+ * re-embed migration. Dimensions default to whatever the provider knows
+ * about the new model (EMBEDDING_MODEL_DIMENSIONS applies to the old one).
+ */
+export function createEmbedderForModel(
+  config: DaemonConfig,
+  model: string,
+  dimensions?: number,
+): Embedder {
+  const usesEmbeddingModel =
+    config.embeddingProvider === "openai" || config.embeddingProvider === "ollama";
+  return createEmbedder({
+    ...config,
+    ...(usesEmbeddingModel ? { embeddingModel: model } : { voyageModel: model }),
+    embeddingModelDimensions: dimensions,
+  });
+}
+
+/**
+ * Wrap in the persistent embedding cache when enabled (mock/hash embedders
+ * are never cached).
+ */
+export function withEmbeddingCache(embedder: Embedder, db: Db, config: DaemonConfig): Embedder {
+  if (!config.embeddingCacheEnabled || embedder.isMockMode()) {
+    return embedder;
+  }
+  return new CachingEmbedder(embedder, db, {
+    ttlDays: config.embeddingCacheTtlDays,
+    maxEntries: config.embeddingCacheMaxEntries,
+  });
+}
+
+/**
+ * Fields of the Atlas vector index, or null when not on Atlas or the index
+ * doesn't exist.
+ */
+async function getVectorIndexFields(db: Db): Promise<VectorIndexField[] | null> {
+  try {
+    const indexes = await db.collection(COLLECTION_MEMORIES).listSearchIndexes().toArray();
+    const index = indexes.find((idx) => idx.name === VECTOR_INDEX_NAME) as
+      | { latestDefinition?: { fields?: VectorIndexField[] } }
+      | undefined;
+    return index ? (index.latestDefinition?.fields ?? []) : null;
+  } catch {
+    // Not Atlas (listSearchIndexes unsupported) — nothing to validate
+    return null;
+  }
+}
+
+/**
+ * Read numDimensions of the "embedding" vector field from the Atlas
+ * search index. Returns null when not on Atlas or the index doesn't exist.
+ */
+export async function getVectorIndexDimensions(db: Db): Promise<number | null> {
+  const fields = await getVectorIndexFields(db);
+  const vectorField = fields?.find((f) => f.type === "vector" && f.path === "embedding");
+  return vectorField?.numDimensions ?? null;
+}
+
+/**
+ * Warn when the Atlas vector index can't pre-filter on embeddingModel —
+ * recall would fall back to the in-memory scan on every query.
+ */
+export async function checkVectorIndexFilters(db: Db): Promise<void> {
+  const fields = await getVectorIndexFields(db);
+  if (fields && !fields.some((f) => f.type === "filter" && f.path === "embeddingModel")) {
+    console.warn(
+      `  ⚠️  Atlas index "${VECTOR_INDEX_NAME}" has no "embeddingModel" filter field — ` +
+        "recall will use the in-memory fallback. Run db:setup to update the index.",
+    );
+  }
+}
+
+/**
+ * Tag memories written before embeddingModel was recorded. Their vectors are
+ * assumed to come from the configured model, which was the only thing recall
+ * could use for them anyway. Returns how many were tagged.
+ */
+export async function tagLegacyEmbeddings(db: Db, embedder: Embedder): Promise<number> {
+  const result = await db
+    .collection(COLLECTION_MEMORIES)
+    .updateMany({ embedding: { $type: "array" }, embeddingModel: { $exists: false } }, [
+      {
+        $set: {
+          embeddingModel: embedder.getModel(),
+          embeddingDim: { $size: "$embedding" },
+        },
+      },
+    ]);
+  return result.modifiedCount;
+}
+
+/**
+ * Count embedded memories per model. Anything not on the live model is
+ * invisible to recall until it is re-embedded.
+ */
+export async function countEmbeddingsByModel(db: Db): Promise<Record<string, number>> {
+  const groups = await db
+    .collection(COLLECTION_MEMORIES)
+    .aggregate<{ _id: string | null; count: number }>([
+      { $match: { embedding: { $exists: true } } },
+      { $group: { _id: "$embeddingModel", count: { $sum: 1 } } },
+    ])
+    .toArray();
+  return Object.fromEntries(groups.map((g) => [g._id ?? "unknown", g.count]));
+}
+
+/**
+ * Refuse to start when the embedder's declared dimension doesn't match
+ * EMBEDDING_DIMENSIONS.
+ */
+export function validateEmbedderDimensions(embedder: Embedder): void {
+  const declared = embedder.getDimensions();
+  if (declared !== EMBEDDING_DIMENSIONS) {
+    startupError({
+      title: "Embedding dimension mismatch",
+      description:
+        `${embedder.provider} model "${embedder.getModel()}" produces ${declared}-dim vectors, ` +
+        `but memories are stored as ${EMBEDDING_DIMENSIONS}-dim. Mixing them corrupts recall.`,
+      fix: [
+        `Pick a ${EMBEDDING_DIMENSIONS}-dim model via EMBEDDING_MODEL (or VOYAGE_MODEL)`,
+        "If the model supports it, request truncated output (OpenAI text-embedding-3-* does this automatically)",
+        "See docs/configuration.md#embedding-providers",
+      ],
+    });
+  }
+}
+
+/**
+ * Refuse to start when the Atlas vector index was built for a different
+ * dimension than the embedder produces.
+ */
+export async function validateVectorIndexDimensions(db: Db, embedder: Embedder): Promise<void> {
+  const indexDimensions = await getVectorIndexDimensions(db);
+  if (indexDimensions !== null && indexDimensions !== embedder.getDimensions()) {
+    startupError({
+      title: "Vector index dimension mismatch",
+      description:
+        `Atlas index "${VECTOR_INDEX_NAME}" expects ${indexDimensions}-dim vectors, ` +
+        `but ${embedder.provider} model "${embedder.getModel()}" produces ${embedder.getDimensions()}-dim.`,
+      fix: [
+        "Switch back to the model the index was built for",
+        `OR drop and recreate "${VECTOR_INDEX_NAME}" with numDimensions=${embedder.getDimensions()} and re-embed all memories`,
+      ],
+    });
+  }
+}
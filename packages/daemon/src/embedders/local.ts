@@ -0,0 +1,84 @@
+/**
+ * Local deterministic embedder — no network, no API key.
+ *
+ * Vectors are derived from a hash of the text, so identical text always maps
+ * to the identical unit vector. Useful for offline development, CI and demos;
+ * the vectors carry no semantic meaning.
+ */
+
+import { EMBEDDING_DIMENSIONS } from "../constants";
+import { BaseEmbedder, EmbeddingInputType, EmbeddingProvider } from "./base";
+
+export const LOCAL_MODEL = "local-hash";
+
+/**
+ * Generate a deterministic unit vector from a text hash.
+ * Shared with VoyageEmbedder's mock mode.
+ */
+export function hashEmbed(text: string, dim: number = EMBEDDING_DIMENSIONS): number[] {
+  // Hash the text to get a seed
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    hash = (hash << 5) - hash + char;
+    hash = hash & hash; // Convert to 32bit integer
+  }
+
+  // Use seed to generate deterministic "random" embedding
+  const embedding: number[] = [];
+  for (let i = 0; i < dim; i++) {
+    const seed = hash + i;
+    const x = Math.sin(seed) * 10000;
+    const value = x - Math.floor(x); // Normalize to 0-1
+    embedding.push(value * 2 - 1); // Scale to -1 to 1
+  }
+
+  // Normalize to unit vector
+  let magnitude = 0;
+  for (const v of embedding) {
+    magnitude += v * v;
+  }
+  magnitude = Math.sqrt(magnitude);
+  for (let i = 0; i < embedding.length; i++) {
+    embedding[i] /= magnitude;
+  }
+
+  return embedding;
+}
+
+export class LocalEmbedder extends BaseEmbedder {
+  readonly provider: EmbeddingProvider = "local";
+  private dimensions: number;
+
+  constructor(dimensions: number = EMBEDDING_DIMENSIONS) {
+    super();
+    this.dimensions = dimensions;
+  }
+
+  getModel(): string {
+    return LOCAL_MODEL;
+  }
+
+  getDimensions(): number {
+    return this.dimensions;
+  }
+
+  isMockMode(): boolean {
+    return true;
+  }
+
+  async embed(texts: string[], inputType?: EmbeddingInputType): Promise<number[][]> {
+    const embeddings = texts.map((text) => hashEmbed(text, this.dimensions));
+
+    this.emitUsage({
+      totalTokens: 0,
+      model: LOCAL_MODEL,
+      inputTexts: texts.length,
+      inputType,
+      isMock: true,
+      provider: this.provider,
+    });
+
+    return embeddings;
+  }
+}
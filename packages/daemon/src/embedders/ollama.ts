@@ -0,0 +1,99 @@
+/**
+ * Ollama embedder (`POST {baseUrl}/api/embed`).
+ *
+ * Runs fully local; token usage is recorded (from prompt_eval_count) but
+ * costs nothing. Only models whose native dimension matches
+ * EMBEDDING_DIMENSIONS can be used without recreating the vector index.
+ */
+
+import axios, { AxiosInstance } from "axios";
+import { BaseEmbedder, EmbeddingInputType, EmbeddingProvider, describeAxiosError } from "./base";
+
+export const OLLAMA_DEFAULT_BASE_URL = "http://localhost:11434";
+export const OLLAMA_DEFAULT_MODEL = "mxbai-embed-large";
+
+/** Native output dimensions of common Ollama embedding models */
+export const OLLAMA_MODEL_DIMENSIONS: Record<string, number> = {
+  "mxbai-embed-large": 1024,
+  "bge-m3": 1024,
+  "snowflake-arctic-embed": 1024,
+  "snowflake-arctic-embed2": 1024,
+  "bge-large": 1024,
+  "nomic-embed-text": 768,
+  "all-minilm": 384,
+};
+
+interface OllamaEmbedResponse {
+  model: string;
+  embeddings: number[][];
+  prompt_eval_count?: number;
+}
+
+export interface OllamaEmbedderOptions {
+  baseUrl?: string;
+  model?: string;
+  /** Output dimension. Required for models not in OLLAMA_MODEL_DIMENSIONS. */
+  dimensions?: number;
+}
+
+export class OllamaEmbedder extends BaseEmbedder {
+  readonly provider: EmbeddingProvider = "ollama";
+  private client: AxiosInstance;
+  private model: string;
+  private dimensions: number;
+
+  constructor(options: OllamaEmbedderOptions = {}) {
+    super();
+    this.model = options.model || OLLAMA_DEFAULT_MODEL;
+
+    // Ollama tags ("bge-m3:latest", "nomic-embed-text:v1.5") share the base model's dimension
+    const baseName = this.model.split(":")[0];
+    const declared = options.dimensions ?? OLLAMA_MODEL_DIMENSIONS[baseName];
+    if (!declared) {
+      throw new Error(
+        `Unknown embedding dimension for Ollama model "${this.model}" — set EMBEDDING_MODEL_DIMENSIONS`,
+      );
+    }
+    this.dimensions = declared;
+
+    this.client = axios.create({
+      baseURL: options.baseUrl || OLLAMA_DEFAULT_BASE_URL,
+      headers: { "Content-Type": "application/json" },
+      timeout: 60000, // local models can be slow on first load
+    });
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  getDimensions(): number {
+    return this.dimensions;
+  }
+
+  async embed(texts: string[], inputType?: EmbeddingInputType): Promise<number[][]> {
+    let data: OllamaEmbedResponse;
+    try {
+      const response = await this.client.post<OllamaEmbedResponse>("/api/embed", {
+        model: this.model,
+        input: texts,
+      });
+      data = response.data;
+    } catch (error) {
+      throw new Error(`Ollama embeddings error: ${describeAxiosError(error)}`);
+    }
+
+    this.assertDimensions(data.embeddings);
+
+    this.emitUsage({
+      totalTokens: data.prompt_eval_count ?? 0,
+      model: this.model,
+      inputTexts: texts.length,
+      inputType,
+      isMock: false,
+      provider: this.provider,
+    });
+
+    return data.embeddings;
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * OpenAI-compatible embedder (`POST {baseUrl}/embeddings`).
+ *
+ * Works with OpenAI, Azure-style gateways, vLLM, LiteLLM, LM Studio and
+ * anything else speaking the /v1/embeddings shape. For text-embedding-3-*
+ * models the `dimensions` parameter is sent so the output matches
+ * EMBEDDING_DIMENSIONS.
+ */
+
+import axios, { AxiosInstance } from "axios";
+import { EMBEDDING_DIMENSIONS } from "../constants";
+import {
+  BaseEmbedder,
+  EmbeddingInputType,
+  EmbeddingProvider,
+  describeAxiosError,
+  estimateTokens,
+} from "./base";
+import { chunkTexts, ResilienceOptions, ResilienceState, ResilientCaller } from "./resilience";
+
+export const OPENAI_DEFAULT_BASE_URL = "https://api.openai.com/v1";
+export const OPENAI_DEFAULT_MODEL = "text-embedding-3-small";
+
+/** Native output dimensions of well-known OpenAI embedding models */
+export const OPENAI_MODEL_DIMENSIONS: Record<string, number> = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+};
+
+/** OpenAI per-request limits (2048 inputs, 300K tokens), with headroom for the estimate */
+const OPENAI_CHUNK_LIMITS = { maxItems: 2048, maxTokens: 240_000 };
+
+/** Models that accept the `dimensions` request parameter (Matryoshka truncation) */
+const SUPPORTS_DIMENSIONS_PARAM = /^text-embedding-3-/;
+
+interface OpenAiEmbedResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+  model: string;
+  usage?: { prompt_tokens?: number; total_tokens?: number };
+}
+
+export interface OpenAiEmbedderOptions {
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  /** Output dimension. Required for models not in OPENAI_MODEL_DIMENSIONS (and not text-embedding-3-*). */
+  dimensions?: number;
+  /** Retry / concurrency / circuit breaker tuning */
+  resilience?: ResilienceOptions;
+}
+
+export class OpenAiEmbedder extends BaseEmbedder {
+  readonly provider: EmbeddingProvider = "openai";
+  private client: AxiosInstance;
+  private model: string;
+  private dimensions: number;
+  private sendDimensions: boolean;
+  private caller: ResilientCaller;
+
+  constructor(options: OpenAiEmbedderOptions = {}) {
+    super();
+    this.model = options.model || OPENAI_DEFAULT_MODEL;
+    this.sendDimensions = SUPPORTS_DIMENSIONS_PARAM.test(this.model);
+
+    const declared =
+      options.dimensions ??
+      (this.sendDimensions ? EMBEDDING_DIMENSIONS : OPENAI_MODEL_DIMENSIONS[this.model]);
+    if (!declared) {
+      throw new Error(
+        `Unknown embedding dimension for OpenAI-compatible model "${this.model}" — set EMBEDDING_MODEL_DIMENSIONS`,
+      );
+    }
+    this.dimensions = declared;
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (options.apiKey) {
+      headers.Authorization = `Bearer ${options.apiKey}`;
+    }
+
+    this.client = axios.create({
+      baseURL: options.baseUrl || OPENAI_DEFAULT_BASE_URL,
+      headers,
+      timeout: 30000,
+    });
+    this.caller = new ResilientCaller(options.resilience);
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  getDimensions(): number {
+    return this.dimensions;
+  }
+
+  getResilienceState(): ResilienceState {
+    return this.caller.getState();
+  }
+
+  /**
+   * OpenAI embeddings are symmetric — inputType is only recorded for usage.
+   */
+  async embed(texts: string[], inputType?: EmbeddingInputType): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    for (const chunk of chunkTexts(texts, OPENAI_CHUNK_LIMITS, estimateTokens)) {
+      embeddings.push(...(await this.embedChunk(chunk, inputType)));
+    }
+    return embeddings;
+  }
+
+  private async embedChunk(texts: string[], inputType?: EmbeddingInputType): Promise<number[][]> {
+    const payload: Record<string, unknown> = { input: texts, model: this.model };
+    if (this.sendDimensions) {
+      payload.dimensions = this.dimensions;
+    }
+
+    let data: OpenAiEmbedResponse;
+    try {
+      const response = await this.caller.call(() =>
+        this.client.post<OpenAiEmbedResponse>("/embeddings", payload),
+      );
+      data = response.data;
+    } catch (error) {
+      throw new Error(`OpenAI-compatible embeddings error: ${describeAxiosError(error)}`);
+    }
+
+    const embeddings = [...data.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+    this.assertDimensions(embeddings);
+
+    this.emitUsage({
+      totalTokens: data.usage?.total_tokens ?? data.usage?.prompt_tokens ?? 0,
+      model: data.model || this.model,
+      inputTexts: texts.length,
+      inputType,
+      isMock: false,
+      provider: this.provider,
+    });
+
+    return embeddings;
+  }
+}
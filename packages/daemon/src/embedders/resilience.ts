@@ -0,0 +1,333 @@
+/**
+ * Request resilience for embedding providers.
+ *
+ *   chunkTexts          — split a batch to the provider's per-request item/token limits
+ *   ConcurrencyLimiter  — cap in-flight requests (one per embedder, shared by every route)
+ *   CircuitBreaker      — fail fast after repeated provider failures, probe again after a cooldown
+ *   retryWithBackoff    — exponential backoff with full jitter, honoring Retry-After
+ *
+ * ResilientCaller composes the last three; embedders wrap each HTTP call in
+ * `caller.call(() => ...)`.
+ */
+
+import axios from "axios";
+
+export interface ResilienceOptions {
+  /** Max in-flight requests per embedder (default 4) */
+  maxConcurrency?: number;
+  /** Retries after the first attempt for 429 / 5xx / network errors (default 4) */
+  maxRetries?: number;
+  /** First backoff delay; doubles every retry (default 500ms) */
+  baseDelayMs?: number;
+  /** Upper bound for any single wait, including Retry-After (default 30s) */
+  maxDelayMs?: number;
+  /**
+   * Consecutive failed calls before the breaker opens (default 5). Client
+   * errors (4xx other than 429) don't count: the provider is up.
+   */
+  breakerThreshold?: number;
+  /** How long the breaker stays open before a probe is allowed (default 30s) */
+  breakerCooldownMs?: number;
+}
+
+export const DEFAULT_RESILIENCE: Required<ResilienceOptions> = {
+  maxConcurrency: 4,
+  maxRetries: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  breakerThreshold: 5,
+  breakerCooldownMs: 30_000,
+};
+
+// ---- Chunking ----
+
+export interface ChunkLimits {
+  maxItems: number;
+  maxTokens: number;
+}
+
+/**
+ * Split texts into consecutive chunks that respect both limits. A single
+ * text over maxTokens gets a chunk of its own (the provider truncates it).
+ */
+export function chunkTexts(
+  texts: string[],
+  limits: ChunkLimits,
+  estimateTokens: (text: string) => number,
+): string[][] {
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  for (const text of texts) {
+    const tokens = estimateTokens(text);
+    const full =
+      current.length >= limits.maxItems ||
+      (current.length > 0 && currentTokens + tokens > limits.maxTokens);
+    if (full) {
+      chunks.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(text);
+    currentTokens += tokens;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+// ---- Concurrency limiter ----
+
+export class ConcurrencyLimiter {
+  private active = 0;
+  private queue: Array<() => void> = [];
+
+  constructor(private readonly max: number) {}
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.active >= this.max) {
+      // The finishing caller hands its slot straight to us (active stays the same)
+      await new Promise<void>((resolve) => this.queue.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      return await fn();
+    } finally {
+      const next = this.queue.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+
+  get inFlight(): number {
+    return this.active;
+  }
+
+  get waiting(): number {
+    return this.queue.length;
+  }
+}
+
+// ---- Circuit breaker ----
+
+export type CircuitStatus = "closed" | "open" | "half-open";
+
+export interface CircuitState {
+  state: CircuitStatus;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  /** When an open breaker will let the next probe through */
+  retryAt: string | null;
+  lastError: string | null;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(public readonly retryAt: Date) {
+    super(`Circuit open — embedding provider unavailable until ${retryAt.toISOString()}`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+export class CircuitBreaker {
+  private status: CircuitStatus = "closed";
+  private failures = 0;
+  private openedAt: number | null = null;
+  private lastError: string | null = null;
+  private probeInFlight = false;
+
+  constructor(
+    private readonly threshold: number,
+    private readonly cooldownMs: number,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    this.beforeCall();
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      this.onFailure(error);
+      throw error;
+    }
+  }
+
+  getState(): CircuitState {
+    this.refresh();
+    return {
+      state: this.status,
+      consecutiveFailures: this.failures,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      retryAt:
+        this.status === "open" && this.openedAt !== null
+          ? new Date(this.openedAt + this.cooldownMs).toISOString()
+          : null,
+      lastError: this.lastError,
+    };
+  }
+
+  /** Move open → half-open once the cooldown has elapsed */
+  private refresh(): void {
+    if (
+      this.status === "open" &&
+      this.openedAt !== null &&
+      this.now() >= this.openedAt + this.cooldownMs
+    ) {
+      this.status = "half-open";
+    }
+  }
+
+  private beforeCall(): void {
+    this.refresh();
+    if (this.status === "open") {
+      throw new CircuitOpenError(new Date((this.openedAt ?? this.now()) + this.cooldownMs));
+    }
+    if (this.status === "half-open") {
+      // Only one probe at a time; everyone else keeps failing fast
+      if (this.probeInFlight) {
+        throw new CircuitOpenError(new Date(this.now() + this.cooldownMs));
+      }
+      this.probeInFlight = true;
+    }
+  }
+
+  private onSuccess(): void {
+    this.status = "closed";
+    this.failures = 0;
+    this.openedAt = null;
+    this.probeInFlight = false;
+  }
+
+  private onFailure(error: unknown): void {
+    this.probeInFlight = false;
+    // A rejected request (bad input, bad key) says nothing about the provider's health
+    if (isClientError(error)) return;
+
+    this.failures++;
+    this.lastError = error instanceof Error ? error.message : String(error);
+    if (this.status === "half-open" || this.failures >= this.threshold) {
+      this.status = "open";
+      this.openedAt = this.now();
+    }
+  }
+}
+
+// ---- Retry with backoff ----
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Test hook — defaults to setTimeout */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/** 429, 5xx and network-level failures (timeouts, resets) are worth retrying */
+export function isRetryableError(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  if (status === undefined) return true; // no response: timeout / connection error
+  return status === 429 || status >= 500;
+}
+
+/** 4xx responses other than 429: the request was at fault, not the provider */
+export function isClientError(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  return status !== undefined && status >= 400 && status < 500 && status !== 429;
+}
+
+/** Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | null {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/** Full-jitter exponential delay: random in [0, min(max, base * 2^attempt)] */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export async function retryWithBackoff<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const sleep = options.sleep ?? defaultSleep;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= options.maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+      const retryAfter = axios.isAxiosError(error)
+        ? parseRetryAfter(error.response?.headers?.["retry-after"])
+        : null;
+      const delay = Math.min(
+        options.maxDelayMs,
+        retryAfter ?? backoffDelay(attempt, options.baseDelayMs, options.maxDelayMs),
+      );
+      console.warn(
+        `[Embedder] Request failed (${describeStatus(error)}), retry ${attempt + 1}/${options.maxRetries} in ${Math.round(delay)}ms`,
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+function describeStatus(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    return error.response?.status ? String(error.response.status) : (error.code ?? "network");
+  }
+  return "error";
+}
+
+// ---- Composition ----
+
+export interface ResilienceState {
+  circuit: CircuitState;
+  inFlight: number;
+  queued: number;
+}
+
+/**
+ * Limiter + breaker + retry for one embedder. The breaker sees a whole
+ * retry sequence as one call; each individual attempt holds a limiter slot.
+ */
+export class ResilientCaller {
+  private readonly limiter: ConcurrencyLimiter;
+  private readonly breaker: CircuitBreaker;
+  private readonly retry: RetryOptions;
+
+  constructor(options: ResilienceOptions = {}) {
+    const opts = { ...DEFAULT_RESILIENCE, ...stripUndefined(options) };
+    this.limiter = new ConcurrencyLimiter(opts.maxConcurrency);
+    this.breaker = new CircuitBreaker(opts.breakerThreshold, opts.breakerCooldownMs);
+    this.retry = {
+      maxRetries: opts.maxRetries,
+      baseDelayMs: opts.baseDelayMs,
+      maxDelayMs: opts.maxDelayMs,
+    };
+  }
+
+  call<T>(fn: () => Promise<T>): Promise<T> {
+    return this.breaker.execute(() => retryWithBackoff(() => this.limiter.run(fn), this.retry));
+  }
+
+  getState(): ResilienceState {
+    return {
+      circuit: this.breaker.getState(),
+      inFlight: this.limiter.inFlight,
+      queued: this.limiter.waiting,
+    };
+  }
+}
+
+function stripUndefined<T extends object>(obj: T): Partial<T> {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
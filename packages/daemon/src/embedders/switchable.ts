@@ -0,0 +1,78 @@
+/**
+ * Embedder whose implementation can be replaced at runtime.
+ *
+ * The daemon hands this single instance to every route, the embedding queue
+ * and UsageTracker, so a re-embed cutover can switch models without anyone
+ * holding a stale reference. Usage and cache events from the current inner
+ * embedder are re-emitted on a stable usageEmitter.
+ */
+
+import { EventEmitter } from "events";
+import type { EmbedderUsageEvent, EmbeddingCacheEvent } from "../types/usage";
+import type { Embedder, EmbeddingInputType, EmbeddingProvider } from "./base";
+import type { ResilienceState } from "./resilience";
+
+export class SwitchableEmbedder implements Embedder {
+  readonly usageEmitter = new EventEmitter();
+
+  private readonly forwardUsage = (event: EmbedderUsageEvent) =>
+    this.usageEmitter.emit("usage", event);
+  private readonly forwardCache = (event: EmbeddingCacheEvent) =>
+    this.usageEmitter.emit("cache", event);
+
+  constructor(private inner: Embedder) {
+    this.attach(inner);
+  }
+
+  get provider(): EmbeddingProvider {
+    return this.inner.provider;
+  }
+
+  /** The embedder currently doing the work */
+  get current(): Embedder {
+    return this.inner;
+  }
+
+  getModel(): string {
+    return this.inner.getModel();
+  }
+
+  getDimensions(): number {
+    return this.inner.getDimensions();
+  }
+
+  isMockMode(): boolean {
+    return this.inner.isMockMode();
+  }
+
+  getResilienceState(): ResilienceState | null {
+    return this.inner.getResilienceState();
+  }
+
+  embed(texts: string[], inputType?: EmbeddingInputType): Promise<number[][]> {
+    return this.inner.embed(texts, inputType);
+  }
+
+  embedOne(text: string, inputType?: EmbeddingInputType): Promise<number[]> {
+    return this.inner.embedOne(text, inputType);
+  }
+
+  /** Route all further calls to `next`; returns the embedder it replaced */
+  swap(next: Embedder): Embedder {
+    const previous = this.inner;
+    this.detach(previous);
+    this.attach(next);
+    this.inner = next;
+    return previous;
+  }
+
+  private attach(embedder: Embedder): void {
+    embedder.usageEmitter.on("usage", this.forwardUsage);
+    embedder.usageEmitter.on("cache", this.forwardCache);
+  }
+
+  private detach(embedder: Embedder): void {
+    embedder.usageEmitter.off("usage", this.forwardUsage);
+    embedder.usageEmitter.off("cache", this.forwardCache);
+  }
+}
@@ -1,6 +1,21 @@
 import axios, { AxiosInstance } from "axios";
-import { EventEmitter } from "events";
-import type { EmbedderUsageEvent } from "./types/usage";
+import { EMBEDDING_DIMENSIONS } from "./constants";
+import {
+  BaseEmbedder,
+  EmbeddingInputType,
+  EmbeddingProvider,
+  estimateTokens,
+} from "./embedders/base";
+import { hashEmbed } from "./embedders/local";
+import {
+  chunkTexts,
+  ChunkLimits,
+  ResilienceOptions,
+  ResilienceState,
+  ResilientCaller,
+} from "./embedders/resilience";
+
+export type { Embedder, EmbeddingProvider, EmbeddingInputType } from "./embedders/base";
 
 export interface VoyageEmbedResponse {
   object: string;
@@ -15,14 +30,42 @@ export interface VoyageEmbedResponse {
   };
 }
 
-export class VoyageEmbedder {
+/** Default output dimensions of Voyage models (voyage-3-lite is the odd one out) */
+export const VOYAGE_MODEL_DIMENSIONS: Record<string, number> = {
+  "voyage-4": 1024,
+  "voyage-4-lite": 1024,
+  "voyage-4-large": 1024,
+  "voyage-3": 1024,
+  "voyage-3-large": 1024,
+  "voyage-3-lite": 512,
+  "voyage-code-3": 1024,
+  "voyage-2": 1024,
+  "voyage-finance-2": 1024,
+  "voyage-law-2": 1024,
+};
+
+/** Voyage caps every request at 1000 inputs */
+const VOYAGE_MAX_BATCH_ITEMS = 1000;
+
+/** Per-request token limits by model family (https://docs.voyageai.com/docs/embeddings) */
+function voyageTokenLimit(model: string): number {
+  if (model.includes("lite")) return 1_000_000;
+  if (/large|code|finance|law|voyage-2/.test(model)) return 120_000;
+  return 320_000;
+}
+
+/** Token counts are estimated (chars / 4) — leave headroom under the real limit */
+const TOKEN_LIMIT_SAFETY = 0.8;
+
+export class VoyageEmbedder extends BaseEmbedder {
+  readonly provider: EmbeddingProvider = "voyage";
   private client: AxiosInstance;
   private apiKey: string;
   private model: string;
   private useMock: boolean;
-
-  /** EventEmitter for usage tracking — listeners get token counts after every API call */
-  public readonly usageEmitter = new EventEmitter();
+  private dimensions: number;
+  private caller: ResilientCaller;
+  private chunkLimits: ChunkLimits;
 
   // Default models by endpoint, with fallback list
   private static readonly DEFAULT_MODELS = {
@@ -40,7 +83,15 @@ export class VoyageEmbedder {
     "voyage-code-3",
   ];
 
-  constructor(apiKey: string, baseUrl?: string, model?: string, mock?: boolean) {
+  constructor(
+    apiKey: string,
+    baseUrl?: string,
+    model?: string,
+    mock?: boolean,
+    dimensions?: number,
+    resilience?: ResilienceOptions,
+  ) {
+    super();
     this.apiKey = apiKey;
 
     // Use custom base URL (e.g., MongoDB AI endpoint) or default to Voyage API
@@ -56,6 +107,11 @@ export class VoyageEmbedder {
       VoyageEmbedder.DEFAULT_MODELS[hostname as keyof typeof VoyageEmbedder.DEFAULT_MODELS] ||
       "voyage-4";
 
+    // Mock vectors always match the index; unknown models must declare their dimension
+    this.dimensions = this.useMock
+      ? EMBEDDING_DIMENSIONS
+      : (dimensions ?? VOYAGE_MODEL_DIMENSIONS[this.model] ?? EMBEDDING_DIMENSIONS);
+
     // Both MongoDB Atlas AI (al-*) and Voyage.com public API use Bearer tokens
     this.client = axios.create({
       baseURL: url,
@@ -65,6 +121,12 @@ export class VoyageEmbedder {
       },
       timeout: 30000,
     });
+
+    this.caller = new ResilientCaller(resilience);
+    this.chunkLimits = {
+      maxItems: VOYAGE_MAX_BATCH_ITEMS,
+      maxTokens: Math.floor(voyageTokenLimit(this.model) * TOKEN_LIMIT_SAFETY),
+    };
   }
 
   /** Get the model name (for cost calculation and display) */
@@ -72,45 +134,19 @@ export class VoyageEmbedder {
     return this.model;
   }
 
+  /** Declared output dimension for the configured model */
+  public getDimensions(): number {
+    return this.dimensions;
+  }
+
   /** Check if running in mock mode */
   public isMockMode(): boolean {
     return this.useMock;
   }
 
-  /**
-   * Generate a mock embedding (deterministic based on text hash)
-   * Useful for testing without API credentials
-   */
-  private mockEmbed(text: string): number[] {
-    // Hash the text to get a seed
-    let hash = 0;
-    for (let i = 0; i < text.length; i++) {
-      const char = text.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32bit integer
-    }
-
-    // Use seed to generate deterministic "random" embedding
-    const embedding: number[] = [];
-    const dim = 1024; // Voyage embedding dimension
-    for (let i = 0; i < dim; i++) {
-      const seed = hash + i;
-      const x = Math.sin(seed) * 10000;
-      const value = x - Math.floor(x); // Normalize to 0-1
-      embedding.push(value * 2 - 1); // Scale to -1 to 1
-    }
-
-    // Normalize to unit vector
-    let magnitude = 0;
-    for (const v of embedding) {
-      magnitude += v * v;
-    }
-    magnitude = Math.sqrt(magnitude);
-    for (let i = 0; i < embedding.length; i++) {
-      embedding[i] /= magnitude;
-    }
-
-    return embedding;
+  /** Circuit breaker + concurrency state (reported by /health/detailed) */
+  public getResilienceState(): ResilienceState {
+    return this.caller.getState();
   }
 
   /**
@@ -120,7 +156,7 @@ export class VoyageEmbedder {
    *   - "query": for search queries at recall time
    * This asymmetry improves retrieval accuracy significantly.
    */
-  async embed(texts: string[], inputType?: "document" | "query"): Promise<number[][]> {
+  async embed(texts: string[], inputType?: EmbeddingInputType): Promise<number[][]> {
     try {
       console.log(
         `[Voyage] Embedding ${texts.length} text(s)${inputType ? ` (input_type=${inputType})` : ""}...`,
@@ -129,7 +165,7 @@ export class VoyageEmbedder {
       // Use mock embeddings if enabled
       if (this.useMock) {
         console.log(`[Voyage] Using MOCK embeddings (VOYAGE_MOCK=true)`);
-        const embeddings = texts.map((text) => this.mockEmbed(text));
+        const embeddings = texts.map((text) => hashEmbed(text, this.dimensions));
         console.log(`[Voyage] Generated ${embeddings.length} mock embedding(s)`);
 
         // Emit mock usage event (zero tokens, but track the call)
@@ -139,44 +175,25 @@ export class VoyageEmbedder {
           inputTexts: texts.length,
           inputType,
           isMock: true,
+          provider: this.provider,
         });
 
         return embeddings;
       }
 
-      // Real Voyage API call
+      // Real Voyage API call — split to per-request limits, one chunk at a time
       console.log(`[Voyage] Using model: ${this.model}`);
-      const payload: Record<string, unknown> = {
-        input: texts,
-        model: this.model,
-      };
-      if (inputType) {
-        payload.input_type = inputType;
+      const chunks = chunkTexts(texts, this.chunkLimits, estimateTokens);
+      if (chunks.length > 1) {
+        console.log(`[Voyage] Splitting ${texts.length} text(s) into ${chunks.length} requests`);
       }
-      const response = await this.client.post<VoyageEmbedResponse>("/embeddings", payload);
-
-      // Capture usage data that was previously discarded
-      const usageTokens = response.data.usage?.total_tokens || 0;
-      const responseModel = response.data.model || this.model;
-
-      console.log(
-        `[Voyage] Got ${response.data.data.length} embedding(s) (${usageTokens} tokens)`,
-      );
 
-      // Emit usage event for tracking
-      this.emitUsage({
-        totalTokens: usageTokens,
-        model: responseModel,
-        inputTexts: texts.length,
-        inputType,
-        isMock: false,
-      });
-
-      // Sort by index to ensure correct order
-      const embeddings = response.data.data
-        .sort((a, b) => a.index - b.index)
-        .map((item) => item.embedding);
+      const embeddings: number[][] = [];
+      for (const chunk of chunks) {
+        embeddings.push(...(await this.embedChunk(chunk, inputType)));
+      }
 
+      this.assertDimensions(embeddings);
       return embeddings;
     } catch (error) {
       let errorMsg = "Unknown error";
@@ -212,18 +229,37 @@ export class VoyageEmbedder {
     }
   }
 
-  async embedOne(text: string, inputType?: "document" | "query"): Promise<number[]> {
-    const [embedding] = await this.embed([text], inputType);
-    return embedding;
-  }
-
-  /** Safely emit a usage event (swallows errors from listeners) */
-  private emitUsage(event: EmbedderUsageEvent): void {
-    try {
-      this.usageEmitter.emit("usage", event);
-    } catch (err) {
-      console.error("[Voyage] Usage event listener error:", err);
+  /** One /embeddings request, wrapped in retry + concurrency limit + circuit breaker */
+  private async embedChunk(texts: string[], inputType?: EmbeddingInputType): Promise<number[][]> {
+    const payload: Record<string, unknown> = {
+      input: texts,
+      model: this.model,
+    };
+    if (inputType) {
+      payload.input_type = inputType;
     }
+    const response = await this.caller.call(() =>
+      this.client.post<VoyageEmbedResponse>("/embeddings", payload),
+    );
+
+    // Capture usage data that was previously discarded
+    const usageTokens = response.data.usage?.total_tokens || 0;
+    const responseModel = response.data.model || this.model;
+
+    console.log(`[Voyage] Got ${response.data.data.length} embedding(s) (${usageTokens} tokens)`);
+
+    // Emit usage event for tracking
+    this.emitUsage({
+      totalTokens: usageTokens,
+      model: responseModel,
+      inputTexts: texts.length,
+      inputType,
+      isMock: false,
+      provider: this.provider,
+    });
+
+    // Sort by index to ensure correct order
+    return response.data.data.sort((a, b) => a.index - b.index).map((item) => item.embedding);
   }
 
   /**
@@ -0,0 +1,218 @@
+/**
+ * API key authentication and per-route authorization
+ *
+ * `authenticate` identifies the caller once per request. Each route then
+ * declares the capability it needs and where its target agent comes from
+ * with `authorize`. Without MEMORY_API_KEY and without scoped keys the
+ * daemon stays open and both are no-ops.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { Db, ObjectId } from "mongodb";
+import { asyncHandler } from "./asyncHandler";
+import {
+  COLLECTION_EPISODES,
+  COLLECTION_MEMORIES,
+  COLLECTION_REFLECTION_JOBS,
+  COLLECTION_SESSIONS,
+  COLLECTION_SNAPSHOTS,
+  COLLECTION_TRASHED_MEMORIES,
+} from "../constants";
+import type { ApiKeyCapability } from "../types/index";
+import {
+  allowsAgent,
+  allowsProject,
+  authenticateApiKey,
+  coversAllAgents,
+  coversAllProjects,
+  currentApiKey,
+  isAuthRequired,
+  ROOT_PRINCIPAL,
+  runAsApiKey,
+  type ApiKeyPrincipal,
+} from "../services/apiKeyService";
+
+/**
+ * Where a route's target agent comes from:
+ *
+ *   request  — agentId in the path, body or query (absent = all agents); when
+ *              more than one carries it they must agree, since routes read
+ *              from different places
+ *   project  — like request, and keys limited to some projects must pass projectId
+ *   memory   — the agent that owns the memory in :id / :memoryId
+ *   episode  — the agent that owns the episode in :id
+ *   trash    — the agent that owned the trashed memory in :id
+ *   session  — the agent whose session is in :id
+ *   snapshot — the agent whose snapshot is in :id
+ *   job      — the agent whose reflection job is in :id
+ *   global   — not agent-specific; needs a key that covers all agents and projects
+ *   none     — capability check only
+ */
+export type AgentScope =
+  | "request"
+  | "project"
+  | "memory"
+  | "episode"
+  | "trash"
+  | "session"
+  | "snapshot"
+  | "job"
+  | "global"
+  | "none";
+
+type OwnedResource = "memory" | "episode" | "trash" | "session" | "snapshot" | "job";
+
+const OWNER_COLLECTIONS: Record<OwnedResource, string> = {
+  memory: COLLECTION_MEMORIES,
+  episode: COLLECTION_EPISODES,
+  trash: COLLECTION_TRASHED_MEMORIES,
+  session: COLLECTION_SESSIONS,
+  snapshot: COLLECTION_SNAPSHOTS,
+  job: COLLECTION_REFLECTION_JOBS,
+};
+
+function unauthorized(res: Response) {
+  res
+    .status(401)
+    .json({ success: false, error: "Unauthorized: invalid or missing X-API-Key header" });
+}
+
+function forbidden(res: Response, error: string) {
+  res.status(403).json({ success: false, error });
+}
+
+/**
+ * Resolve X-API-Key to a principal. MEMORY_API_KEY is the root key;
+ * anything else is looked up in api_keys.
+ */
+export function authenticate(rootKey?: string): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.path === "/health") return next();
+
+    const provided = req.headers["x-api-key"] as string | undefined;
+    if (!provided) {
+      if (isAuthRequired(rootKey)) return unauthorized(res);
+      return next();
+    }
+    if (rootKey && provided === rootKey) return runAsApiKey(ROOT_PRINCIPAL, next);
+
+    const db: Db = req.app.locals.db;
+    authenticateApiKey(db, provided)
+      .then((principal) => {
+        if (!principal) return unauthorized(res);
+        runAsApiKey(principal, next);
+      })
+      .catch(next);
+  };
+}
+
+/**
+ * Require `capability` and access to the agent the route targets
+ */
+export function authorize(
+  capability: ApiKeyCapability,
+  scope: AgentScope = "request",
+): RequestHandler {
+  return asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const principal = currentApiKey();
+    if (!principal) return next();
+
+    if (!principal.capabilities.includes(capability)) {
+      return forbidden(res, `API key "${principal.name}" lacks the ${capability} capability`);
+    }
+
+    const denied =
+      scope in OWNER_COLLECTIONS
+        ? await checkOwnedResource(req, principal, scope as OwnedResource)
+        : checkRequest(req, principal, scope);
+    if (denied) return forbidden(res, denied);
+
+    next();
+  });
+}
+
+/** Returns why the request is denied, or null */
+function checkRequest(req: Request, principal: ApiKeyPrincipal, scope: AgentScope): string | null {
+  if (scope === "none") return null;
+
+  if (scope === "global") {
+    if (coversAllAgents(principal) && coversAllProjects(principal)) return null;
+    return `API key "${principal.name}" is limited to specific agents or projects and can't use this route`;
+  }
+
+  const agentId = stringParam(req, "agentId");
+  if (agentId === null) return `Conflicting agentId values in path, body and query`;
+  if (agentId === undefined) {
+    if (coversAllAgents(principal)) return null;
+    return `API key "${principal.name}" is limited to specific agents — pass agentId`;
+  }
+  if (!allowsAgent(principal, agentId)) {
+    return `API key "${principal.name}" can't access agent "${agentId}"`;
+  }
+
+  const projectId = stringParam(req, "projectId");
+  if (projectId === null) return `Conflicting projectId values in path, body and query`;
+  if (projectId !== undefined) {
+    if (!allowsProject(principal, projectId)) {
+      return `API key "${principal.name}" can't access project "${projectId}"`;
+    }
+  } else if (scope === "project" && !coversAllProjects(principal)) {
+    return `API key "${principal.name}" is limited to specific projects — pass projectId`;
+  }
+  return null;
+}
+
+/**
+ * Check the owner of the memory, episode, trashed memory, session, snapshot or job in the path
+ * (jobs also by ?jobId=). Unknown or malformed IDs pass through so the route can answer 400/404 as usual.
+ */
+async function checkOwnedResource(
+  req: Request,
+  principal: ApiKeyPrincipal,
+  scope: OwnedResource,
+): Promise<string | null> {
+  if (coversAllAgents(principal) && coversAllProjects(principal)) return null;
+
+  const jobId = scope === "job" ? stringParam(req, "jobId") : undefined;
+  if (jobId === null) return `Conflicting jobId values in path, body and query`;
+
+  // Conflict IDs join two memory IDs: <memoryA>_<memoryB>
+  const ids = String(req.params.memoryId ?? req.params.id ?? jobId ?? "")
+    .split("_")
+    .filter((id) => ObjectId.isValid(id))
+    .map((id) => new ObjectId(id));
+  if (ids.length === 0) return null;
+
+  const db: Db = req.app.locals.db;
+  const owners = await db
+    .collection(OWNER_COLLECTIONS[scope])
+    .find({ _id: { $in: ids } }, { projection: { agentId: 1, projectId: 1 } })
+    .toArray();
+
+  for (const owner of owners) {
+    if (!allowsAgent(principal, owner.agentId)) {
+      return `API key "${principal.name}" can't access agent "${owner.agentId}"`;
+    }
+    if (!coversAllProjects(principal) && !allowsProject(principal, owner.projectId ?? "")) {
+      return `API key "${principal.name}" can't access project "${owner.projectId ?? "(none)"}"`;
+    }
+  }
+  return null;
+}
+
+/**
+ * The value of `name` from the path, body and query. Undefined when none
+ * carries it, null when they disagree or a value isn't a single string
+ * (?agentId=a&agentId=b) — a route may read a different source than the
+ * one that was checked.
+ */
+function stringParam(req: Request, name: string): string | undefined | null {
+  const values = new Set<string>();
+  for (const value of [req.params[name], req.body?.[name], req.query[name]]) {
+    if (value === undefined || value === null || value === "") continue;
+    if (typeof value !== "string") return null;
+    values.add(value);
+  }
+  if (values.size > 1) return null;
+  return values.size === 1 ? [...values][0] : undefined;
+}
@@ -1,32 +1,62 @@
 /**
  * Reflection Job Queue
  *
- * MongoDB-backed job queue for reflection pipeline runs.
+ * MongoDB-backed job queue for reflection pipeline runs. Jobs are created
+ * "pending" and run by a worker (reflection/worker.ts), which claims one at a
+ * time under a lease: a running job whose lease expired belongs to a worker
+ * that died, and recoverStaleJobs() puts it back in the queue.
  */
 
 import { Db, ObjectId } from "mongodb";
-import { ReflectionJob, JobStatus, StageResult } from "./types.js";
+import {
+  ReflectionJob,
+  ReflectionJobInput,
+  JobStatus,
+  PipelineCheckpoint,
+  StageResult,
+} from "./types.js";
+import { COLLECTION_REFLECTION_JOBS } from "../constants.js";
 
-const COLLECTION_JOBS = "reflection_jobs";
+const COLLECTION_JOBS = COLLECTION_REFLECTION_JOBS;
+
+/** Runs per job before it is marked "failed" when the caller doesn't say */
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+/** Retry delay grows 30s, 1m, 2m ... capped at 30 minutes */
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+/** Listings leave out the stored transcript and checkpoints */
+const LISTING_PROJECTION = { "input.sessionTranscript": 0, checkpoints: 0 };
 
 /**
- * Create a new reflection job
+ * Create a new reflection job. `resume` starts it part-way through the
+ * pipeline, at resumeFromStage from the checkpoint before it.
  */
 export async function createJob(
   db: Db,
   agentId: string,
   sessionId?: string,
   metadata?: Record<string, unknown>,
+  input?: ReflectionJobInput,
+  maxAttempts: number = DEFAULT_MAX_ATTEMPTS,
+  resume?: Pick<ReflectionJob, "resumeFromStage" | "checkpoints">,
 ): Promise<string> {
   const collection = db.collection<ReflectionJob>(COLLECTION_JOBS);
+  const now = new Date();
 
   const job: Omit<ReflectionJob, "_id"> = {
     agentId,
     sessionId,
     status: "pending",
-    createdAt: new Date(),
+    createdAt: now,
     stages: [],
     metadata,
+    input,
+    attempts: 0,
+    maxAttempts,
+    runAfter: now,
+    ...resume,
   };
 
   const result = await collection.insertOne(job as any);
@@ -94,6 +124,55 @@ export async function updateStageResult(
   }
 }
 
+/**
+ * Save the pipeline context after a stage, replacing an earlier run's
+ */
+export async function saveCheckpoint(
+  db: Db,
+  jobId: string,
+  stage: string,
+  checkpoint: PipelineCheckpoint,
+): Promise<void> {
+  const collection = db.collection(COLLECTION_JOBS);
+
+  await collection.updateOne(
+    { _id: new ObjectId(jobId) },
+    { $set: { [`checkpoints.${stage}`]: checkpoint } },
+  );
+}
+
+/**
+ * Put a finished job back in the queue to run again from `fromStage`.
+ * Results and checkpoints of that stage and the ones after it (`laterStages`)
+ * are dropped, and the job gets a fresh set of attempts. Returns false if the
+ * job isn't in `status` any more.
+ */
+export async function retryJob(
+  db: Db,
+  jobId: string,
+  status: JobStatus,
+  fromStage: string,
+  laterStages: string[],
+): Promise<boolean> {
+  // Typed for $pull; _id stays an ObjectId
+  const collection = db.collection<Pick<ReflectionJob, "stages">>(COLLECTION_JOBS);
+  const dropped = [fromStage, ...laterStages];
+
+  const result = await collection.updateOne(
+    { _id: new ObjectId(jobId), status },
+    {
+      $set: { status: "pending", runAfter: new Date(), attempts: 0, resumeFromStage: fromStage },
+      $unset: {
+        error: "",
+        completedAt: "",
+        ...Object.fromEntries(dropped.map((stage) => [`checkpoints.${stage}`, ""])),
+      },
+      $pull: { stages: { stage: { $in: dropped } } },
+    },
+  );
+  return result.matchedCount > 0;
+}
+
 /**
  * List recent jobs for an agent
  */
@@ -104,28 +183,225 @@ export async function listJobs(
 ): Promise<ReflectionJob[]> {
   const collection = db.collection<ReflectionJob>(COLLECTION_JOBS);
 
-  return collection.find({ agentId }).sort({ createdAt: -1 }).limit(limit).toArray();
+  return collection
+    .find({ agentId }, { projection: LISTING_PROJECTION })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .toArray();
 }
 
 /**
- * Get pending jobs (for worker polling)
+ * List jobs started for a session, newest first
+ */
+export async function listSessionJobs(db: Db, sessionId: string): Promise<ReflectionJob[]> {
+  const collection = db.collection<ReflectionJob>(COLLECTION_JOBS);
+
+  return collection
+    .find({ sessionId }, { projection: LISTING_PROJECTION })
+    .sort({ createdAt: -1 })
+    .toArray();
+}
+
+/**
+ * Claim the oldest due pending job for a worker.
+ *
+ * The claim is a single findOneAndUpdate, so two workers polling at once
+ * never get the same job. Returns null when nothing is due.
  */
-export async function getPendingJobs(db: Db, limit: number = 10): Promise<ReflectionJob[]> {
+export async function claimJob(
+  db: Db,
+  workerId: string,
+  leaseMs: number,
+): Promise<ReflectionJob | null> {
   const collection = db.collection<ReflectionJob>(COLLECTION_JOBS);
+  const now = new Date();
 
-  return collection.find({ status: "pending" }).sort({ createdAt: 1 }).limit(limit).toArray();
+  return collection.findOneAndUpdate(
+    {
+      status: "pending",
+      $or: [{ runAfter: { $exists: false } }, { runAfter: { $lte: now } }],
+    },
+    {
+      $set: {
+        status: "running",
+        startedAt: now,
+        workerId,
+        heartbeatAt: now,
+        leaseExpiresAt: new Date(now.getTime() + leaseMs),
+      },
+      $inc: { attempts: 1 },
+    },
+    { sort: { createdAt: 1 }, returnDocument: "after" },
+  );
 }
 
 /**
- * Delete old completed jobs (cleanup)
+ * Extend a running job's lease. Returns false if the worker no longer holds
+ * it (the lease expired and the job was recovered).
  */
-export async function cleanupOldJobs(db: Db, olderThanDays: number = 30): Promise<number> {
+export async function renewJobLease(
+  db: Db,
+  jobId: string,
+  workerId: string,
+  leaseMs: number,
+): Promise<boolean> {
+  const collection = db.collection(COLLECTION_JOBS);
+  const now = new Date();
+
+  const result = await collection.updateOne(
+    { _id: new ObjectId(jobId), status: "running", workerId },
+    { $set: { heartbeatAt: now, leaseExpiresAt: new Date(now.getTime() + leaseMs) } },
+  );
+  return result.matchedCount > 0;
+}
+
+/**
+ * Mark a job the worker holds as complete. Returns false if it lost the lease.
+ */
+export async function completeJob(db: Db, jobId: string, workerId: string): Promise<boolean> {
+  const collection = db.collection(COLLECTION_JOBS);
+
+  const result = await collection.updateOne(
+    { _id: new ObjectId(jobId), status: "running", workerId },
+    {
+      $set: { status: "complete", completedAt: new Date() },
+      $unset: { error: "", workerId: "", leaseExpiresAt: "", resumeFromStage: "" },
+    },
+  );
+  return result.matchedCount > 0;
+}
+
+/**
+ * Record a failed run of a job the worker holds. The job goes back to
+ * "pending" with a backoff until it has used its attempts, then it is
+ * marked "failed". The next run resumes at `failedStage` when given.
+ * Returns null if the worker lost the lease.
+ */
+export async function failJobAttempt(
+  db: Db,
+  job: ReflectionJob,
+  workerId: string,
+  error: string,
+  failedStage?: string,
+): Promise<"retrying" | "failed" | null> {
+  const collection = db.collection(COLLECTION_JOBS);
+  const attempts = job.attempts ?? 1;
+  const exhausted = attempts >= (job.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempts - 1));
+
+  const result = await collection.updateOne(
+    { _id: new ObjectId(job._id!.toString()), status: "running", workerId },
+    {
+      $set: {
+        ...(exhausted
+          ? { status: "failed", completedAt: new Date(), error }
+          : { status: "pending", runAfter: new Date(Date.now() + delay), error }),
+        ...(failedStage && { resumeFromStage: failedStage }),
+      },
+      $unset: { workerId: "", leaseExpiresAt: "" },
+    },
+  );
+  if (result.matchedCount === 0) return null;
+  return exhausted ? "failed" : "retrying";
+}
+
+/**
+ * Put running jobs whose lease expired back in the queue, or fail them if
+ * they have used their attempts. Jobs left "running" without a lease by
+ * daemons that ran the pipeline inline are recovered the same way.
+ *
+ * Given the pipeline's stage names in order, each job resumes at the stage
+ * after the last checkpoint its dead worker saved instead of starting over.
+ */
+export async function recoverStaleJobs(
+  db: Db,
+  stageOrder: string[] = [],
+): Promise<{ requeued: number; failed: number }> {
+  const collection = db.collection<ReflectionJob>(COLLECTION_JOBS);
+  const now = new Date();
+
+  const stale = {
+    status: "running" as const,
+    $or: [{ leaseExpiresAt: { $exists: false } }, { leaseExpiresAt: { $lt: now } }],
+  };
+
+  if (stageOrder.length > 0) {
+    const checkpointed = await collection
+      .aggregate<{ _id: ObjectId; resumeFromStage?: string; stages: string[] }>([
+        { $match: { ...stale, checkpoints: { $exists: true } } },
+        {
+          $project: {
+            resumeFromStage: 1,
+            stages: { $map: { input: { $objectToArray: "$checkpoints" }, in: "$$this.k" } },
+          },
+        },
+      ])
+      .toArray();
+    for (const job of checkpointed) {
+      const resumeFromStage = stageAfterCheckpoints(stageOrder, job);
+      if (resumeFromStage && resumeFromStage !== job.resumeFromStage) {
+        await db
+          .collection(COLLECTION_JOBS)
+          .updateOne({ _id: job._id, ...stale }, { $set: { resumeFromStage } });
+      }
+    }
+  }
+
+  const exhausted = {
+    $expr: {
+      $gte: [{ $ifNull: ["$attempts", 1] }, { $ifNull: ["$maxAttempts", DEFAULT_MAX_ATTEMPTS] }],
+    },
+  };
+
+  const failed = await collection.updateMany(
+    { ...stale, ...exhausted },
+    {
+      $set: {
+        status: "failed",
+        completedAt: now,
+        error: "Worker stopped while running the job (lease expired)",
+      },
+      $unset: { workerId: "", leaseExpiresAt: "" },
+    },
+  );
+  const requeued = await collection.updateMany(stale, {
+    $set: { status: "pending", runAfter: now },
+    $unset: { workerId: "", leaseExpiresAt: "" },
+  });
+
+  return { requeued: requeued.modifiedCount, failed: failed.modifiedCount };
+}
+
+/**
+ * The first stage from where the job last resumed whose checkpoint is
+ * missing. A worker that died after the last stage's checkpoint reruns
+ * that stage.
+ */
+function stageAfterCheckpoints(
+  stageOrder: string[],
+  job: { resumeFromStage?: string; stages: string[] },
+): string | undefined {
+  let index = job.resumeFromStage ? stageOrder.indexOf(job.resumeFromStage) : 0;
+  if (index < 0) return undefined;
+  while (index < stageOrder.length - 1 && job.stages.includes(stageOrder[index])) index++;
+  return stageOrder[index];
+}
+
+/**
+ * Delete old completed jobs (cleanup), for one agent or all of them
+ */
+export async function cleanupOldJobs(
+  db: Db,
+  olderThanDays: number = 30,
+  agentId?: string,
+): Promise<number> {
   const collection = db.collection<ReflectionJob>(COLLECTION_JOBS);
 
   const cutoff = new Date();
   cutoff.setDate(cutoff.getDate() - olderThanDays);
 
   const result = await collection.deleteMany({
+    ...(agentId && { agentId }),
     status: { $in: ["complete", "failed"] },
     completedAt: { $lt: cutoff },
   });
@@ -1,28 +1,51 @@
 /**
  * Reflection Pipeline Orchestrator
  *
- * Runs stages in sequence, updates job status, handles errors.
+ * Runs stages in sequence and records each stage's result on the job.
+ * The job's own status belongs to the worker running it (worker.ts).
+ *
+ * After every stage the context is saved as a checkpoint on the job, so a
+ * failed run can resume at the stage that failed instead of extracting the
+ * session again (planResume / restoreCheckpoint).
  */
 
-import { Db } from "mongodb";
-import { PipelineStage, PipelineContext, StageResult } from "./types.js";
-import { updateJobStatus, updateStageResult } from "./jobQueue.js";
+import { Db, ObjectId } from "mongodb";
+import { PipelineCheckpoint, PipelineStage, PipelineContext, StageResult } from "./types.js";
+import { saveCheckpoint, updateStageResult } from "./jobQueue.js";
+import { COLLECTION_MEMORIES } from "../constants.js";
+import { Memory } from "../types/index.js";
 
 /**
- * Run the full reflection pipeline
+ * A required stage failed; the message is the stage's own error
+ */
+export class PipelineStageError extends Error {
+  constructor(
+    message: string,
+    public stage: string,
+  ) {
+    super(message);
+    this.name = "PipelineStageError";
+  }
+}
+
+/**
+ * Run the pipeline. Throws a PipelineStageError for the first required
+ * stage that fails; optional stages are marked failed and skipped over.
+ * Once `signal` is aborted no further stage starts, and the abort reason
+ * is thrown.
  */
 export async function runPipeline(
   db: Db,
   jobId: string,
   context: PipelineContext,
   stages: PipelineStage[],
+  signal?: AbortSignal,
 ): Promise<PipelineContext> {
-  // Mark job as running
-  await updateJobStatus(db, jobId, "running");
-
   let currentContext = context;
 
   for (const stage of stages) {
+    signal?.throwIfAborted();
+
     const stageResult: StageResult = {
       stage: stage.name,
       status: "running",
@@ -54,26 +77,87 @@ export async function runPipeline(
       stageResult.status = "failed";
       stageResult.completedAt = new Date();
       stageResult.error = error instanceof Error ? error.message : String(error);
+      if (stage.optional) stageResult.optional = true;
 
       await updateStageResult(db, jobId, stageResult);
 
-      // Mark entire job as failed
-      await updateJobStatus(db, jobId, "failed", stageResult.error);
-
-      console.error(`[Pipeline ${jobId}] Stage "${stage.name}" failed:`, error);
-
-      throw error; // Propagate error
+      if (!stage.optional) {
+        console.error(`[Pipeline ${jobId}] Stage "${stage.name}" failed:`, error);
+        throw new PipelineStageError(stageResult.error, stage.name);
+      }
+      console.warn(`[Pipeline ${jobId}] Optional stage "${stage.name}" failed, continuing:`, error);
     }
-  }
 
-  // All stages complete
-  await updateJobStatus(db, jobId, "complete");
+    // Also after a failed optional stage, so the stages after it can resume
+    await saveCheckpoint(db, jobId, stage.name, toCheckpoint(currentContext));
+  }
 
   console.log(`[Pipeline ${jobId}] Complete — ${stages.length} stages executed`);
 
   return currentContext;
 }
 
+function toCheckpoint(context: PipelineContext): PipelineCheckpoint {
+  return {
+    extractedAtoms: context.extractedAtoms,
+    deduplicatedAtoms: context.deduplicatedAtoms,
+    classifiedMemoryIds: context.classifiedAtoms
+      ?.filter((memory) => memory._id)
+      .map((memory) => new ObjectId(memory._id!.toString())),
+    stats: { ...context.stats },
+    savedAt: new Date(),
+  };
+}
+
+/**
+ * The stages a run resuming at `fromStage` executes, and the checkpoint of
+ * the stage before it (none when resuming at the first stage). Returns null
+ * for an unknown stage, or when the stage before it never finished.
+ */
+export function planResume(
+  stages: PipelineStage[],
+  fromStage: string,
+  checkpoints: Record<string, PipelineCheckpoint> = {},
+): { stages: PipelineStage[]; checkpoint?: PipelineCheckpoint } | null {
+  const index = stages.findIndex((stage) => stage.name === fromStage);
+  if (index < 0) return null;
+  if (index === 0) return { stages };
+
+  const checkpoint = checkpoints[stages[index - 1].name];
+  if (!checkpoint) return null;
+  return { stages: stages.slice(index), checkpoint };
+}
+
+/**
+ * Load a checkpoint into a fresh context. Classified memories are read back
+ * from the store in their original order; ones deleted since are left out.
+ */
+export async function restoreCheckpoint(
+  db: Db,
+  context: PipelineContext,
+  checkpoint: PipelineCheckpoint,
+): Promise<PipelineContext> {
+  let classifiedAtoms: Memory[] | undefined;
+  if (checkpoint.classifiedMemoryIds) {
+    const memories = (await db
+      .collection(COLLECTION_MEMORIES)
+      .find({ _id: { $in: checkpoint.classifiedMemoryIds } })
+      .toArray()) as unknown as Memory[];
+    const byId = new Map(memories.map((memory) => [memory._id!.toString(), memory]));
+    classifiedAtoms = checkpoint.classifiedMemoryIds
+      .map((id) => byId.get(id.toString()))
+      .filter((memory): memory is Memory => memory !== undefined);
+  }
+
+  return {
+    ...context,
+    extractedAtoms: checkpoint.extractedAtoms,
+    deduplicatedAtoms: checkpoint.deduplicatedAtoms,
+    classifiedAtoms,
+    stats: { ...checkpoint.stats },
+  };
+}
+
 /**
  * Create a pipeline with Phase 2 Week 4 stages (1-5)
  */
@@ -11,7 +11,7 @@
 
 import { Db } from "mongodb";
 import { PipelineStage, PipelineContext, CandidateMemory } from "../types.js";
-import { VoyageEmbedder } from "../../embedding.js";
+import type { Embedder } from "../../embedding.js";
 import { Memory, MemoryType, MemoryLayer } from "../../types/index.js";
 import { getInitialConfidence, DEFAULT_STRENGTH } from "../../types/confidence.js";
 import { COLLECTION_MEMORIES } from "../../constants.js";
@@ -33,7 +33,7 @@ export class ClassifyStage implements PipelineStage {
 
   constructor(
     private db: Db,
-    private embedder: VoyageEmbedder,
+    private embedder: Embedder,
   ) {}
 
   async execute(context: PipelineContext): Promise<PipelineContext> {
@@ -100,6 +100,8 @@ export class ClassifyStage implements PipelineStage {
         agentId,
         text: atom.text,
         embedding,
+        embeddingModel: this.embedder.getModel(),
+        embeddingDim: embedding.length,
         tags,
         metadata: atom.metadata || {},
         createdAt: now,
@@ -113,6 +115,7 @@ export class ClassifyStage implements PipelineStage {
         layer,
         memoryType,
         ...(sessionId && { sourceSessionId: sessionId }),
+        reflectedAt: now,
 
         // Contradictions from conflict-check stage
         contradictions: (atom.metadata?.contradictions as any) || [],
@@ -171,7 +174,18 @@ Atoms:
 ${atomList}`;
 
       try {
-        const { data } = await callLlmJson<Record<string, LlmClassification>>(prompt, config);
+        context.usageTracker?.pushContext({
+          operation: "reflect:classify",
+          agentId: context.agentId,
+          pipelineJobId: context.jobId,
+          pipelineStage: "classify",
+        });
+        let data: Record<string, LlmClassification>;
+        try {
+          ({ data } = await callLlmJson<Record<string, LlmClassification>>(prompt, config));
+        } finally {
+          context.usageTracker?.popContext();
+        }
 
         for (const [indexStr, classification] of Object.entries(data)) {
           const index = parseInt(indexStr, 10);
@@ -7,7 +7,7 @@
 
 import { Db } from "mongodb";
 import { PipelineStage, PipelineContext, CandidateMemory } from "../types.js";
-import { VoyageEmbedder } from "../../embedding.js";
+import type { Embedder } from "../../embedding.js";
 import { detectContradictions } from "../../services/contradictionDetector.js";
 
 /**
@@ -18,7 +18,7 @@ export class ConflictCheckStage implements PipelineStage {
 
   constructor(
     private db: Db,
-    private embedder: VoyageEmbedder
+    private embedder: Embedder
   ) {}
 
   async execute(context: PipelineContext): Promise<PipelineContext> {
@@ -47,17 +47,30 @@ export class ConflictCheckStage implements PipelineStage {
         context.usageTracker?.popContext();
       }
 
-      // Run contradiction detection (reuse Phase 1 service)
-      const contradictions = await detectContradictions(
-        {
-          agentId,
-          text: atom.text,
-          tags: atom.tags,
-        },
-        embedding,
-        this.db,
-        this.embedder
-      );
+      // Run contradiction detection (reuse Phase 1 service); LLM verdicts
+      // are billed to this stage too
+      context.usageTracker?.pushContext({
+        operation: "reflect:conflict-check",
+        agentId,
+        pipelineJobId: context.jobId,
+        pipelineStage: "conflict-check",
+      });
+      let contradictions: Awaited<ReturnType<typeof detectContradictions>>;
+      try {
+        contradictions = await detectContradictions(
+          {
+            agentId,
+            text: atom.text,
+            tags: atom.tags,
+          },
+          embedding,
+          this.db,
+          this.embedder,
+          context.resolvedSettings
+        );
+      } finally {
+        context.usageTracker?.popContext();
+      }
 
       // Store contradictions in atom metadata
       if (contradictions.length > 0) {
@@ -14,6 +14,7 @@ import { runDecayPass } from "../../services/decayService.js";
  */
 export class DecayPassStage implements PipelineStage {
   name = "decay-pass";
+  optional = true;
 
   constructor(private db: Db) {}
 
@@ -7,7 +7,7 @@
 
 import { Db } from "mongodb";
 import { PipelineStage, PipelineContext, CandidateMemory } from "../types.js";
-import { VoyageEmbedder } from "../../embedding.js";
+import type { Embedder } from "../../embedding.js";
 import { COLLECTION_MEMORIES } from "../../constants.js";
 import { Memory } from "../../types/index.js";
 
@@ -30,7 +30,7 @@ export class DeduplicateStage implements PipelineStage {
 
   constructor(
     private db: Db,
-    private embedder: VoyageEmbedder
+    private embedder: Embedder
   ) {}
 
   async execute(context: PipelineContext): Promise<PipelineContext> {
@@ -7,39 +7,24 @@
  * Two modes:
  *   - Heuristic (default): Capitalized-word extraction + tag-based hints.
  *   - LLM-enhanced: LLM performs NER with alias detection and entity summaries.
+ *
+ * Mentions resolve to an existing hub by slug or alias, so a name merged into
+ * another hub (services/entityService.ts) doesn't bring its old hub back.
  */
 
 import { Db } from "mongodb";
 import { PipelineStage, PipelineContext } from "../types.js";
-import { VoyageEmbedder } from "../../embedding.js";
-import { Memory } from "../../types/index.js";
+import type { Embedder } from "../../embedding.js";
+import { Entity, EntityType, Memory } from "../../types/index.js";
 import { callLlmJson, getLlmConfig } from "../../services/llmClient.js";
 
 const COLLECTION_ENTITIES = "entities";
 const COLLECTION_PENDING_EDGES = "pending_edges";
 
-/**
- * Entity document (Phase 3 schema)
- */
-interface Entity {
-  _id?: string;
-  agentId: string;
-  slug: string;
-  type: "person" | "project" | "system" | "concept" | "place";
-  displayName: string;
-  aliases: string[];
-  summary: string;
-  summaryEmbedding: number[];
-  attributes: Record<string, any>;
-  memoryCount: number;
-  lastSeenAt: Date;
-  createdAt: Date;
-}
-
 interface EntityMention {
   slug: string;
   displayName: string;
-  type: "person" | "project" | "system" | "concept" | "place";
+  type: EntityType;
   aliases: string[];
 }
 
@@ -47,7 +32,7 @@ interface EntityMention {
 interface LlmEntityResult {
   entities: Array<{
     displayName: string;
-    type: "person" | "project" | "system" | "concept" | "place";
+    type: EntityType;
     aliases?: string[];
     summary?: string;
   }>;
@@ -58,10 +43,11 @@ interface LlmEntityResult {
  */
 export class EntityUpdateStage implements PipelineStage {
   name = "entity-update";
+  optional = true;
 
   constructor(
     private db: Db,
-    private embedder: VoyageEmbedder,
+    private embedder: Embedder,
   ) {}
 
   async execute(context: PipelineContext): Promise<PipelineContext> {
@@ -97,12 +83,13 @@ export class EntityUpdateStage implements PipelineStage {
         mentions = this.extractEntityMentions(atom.text, atom.tags);
       }
 
+      const linked = new Set<string>();
       for (const mention of mentions) {
         // Find or create entity
-        const existingEntity = await entitiesCollection.findOne({
-          agentId,
-          slug: mention.slug,
-        });
+        const existingEntity = await this.findEntity(agentId, mention);
+        const slug = existingEntity?.slug ?? mention.slug;
+        if (linked.has(slug)) continue;
+        linked.add(slug);
 
         if (existingEntity) {
           await entitiesCollection.updateOne(
@@ -152,7 +139,7 @@ export class EntityUpdateStage implements PipelineStage {
         // Create MENTIONS_ENTITY edge
         await pendingEdgesCollection.insertOne({
           sourceId: atom._id!.toString(),
-          targetId: mention.slug,
+          targetId: slug,
           edgeType: "MENTIONS_ENTITY",
           weight: 1.0,
           probability: 0.95,
@@ -179,6 +166,22 @@ export class EntityUpdateStage implements PipelineStage {
     return context;
   }
 
+  /**
+   * The hub a mention refers to: the one with its slug, else one that lists
+   * its name or an alias (case-insensitively), so a name merged into another
+   * hub keeps resolving to that hub.
+   */
+  private async findEntity(agentId: string, mention: EntityMention): Promise<Entity | null> {
+    const entitiesCollection = this.db.collection<Entity>(COLLECTION_ENTITIES);
+    const bySlug = await entitiesCollection.findOne({ agentId, slug: mention.slug });
+    if (bySlug) return bySlug;
+
+    return entitiesCollection.findOne(
+      { agentId, aliases: { $in: [mention.displayName, ...mention.aliases] } },
+      { collation: { locale: "en", strength: 2 } },
+    );
+  }
+
   /**
    * LLM-enhanced NER — identifies entities with types and aliases.
    */
@@ -215,7 +218,18 @@ ${existingList}
 Memory text: "${atom.text}"
 Tags: ${atom.tags.join(", ")}`;
 
-    const { data } = await callLlmJson<LlmEntityResult>(prompt, config);
+    context.usageTracker?.pushContext({
+      operation: "reflect:entity-update",
+      agentId: context.agentId,
+      pipelineJobId: context.jobId,
+      pipelineStage: "entity-update",
+    });
+    let data: LlmEntityResult;
+    try {
+      ({ data } = await callLlmJson<LlmEntityResult>(prompt, config));
+    } finally {
+      context.usageTracker?.popContext();
+    }
 
     if (!data.entities || !Array.isArray(data.entities)) {
       return [];
@@ -250,7 +264,7 @@ Tags: ${atom.tags.join(", ")}`;
       if (["The", "This", "That", "I", "You", "We"].includes(noun)) continue;
 
       const slug = noun.toLowerCase().replace(/\s+/g, "-");
-      let type: "person" | "project" | "system" | "concept" | "place" = "concept";
+      let type: EntityType = "concept";
 
       if (noun.split(" ").length === 2) {
         type = "person";
@@ -100,7 +100,22 @@ ${truncated}
 
 Extract up to 20 memories. Return [] if nothing worth remembering.`;
 
-    const { data } = await callLlmJson<LlmExtractedAtom[]>(prompt, config);
+    context.usageTracker?.pushContext({
+      operation: "reflect:extract",
+      agentId: context.agentId,
+      pipelineJobId: context.jobId,
+      pipelineStage: "extract",
+    });
+    let raw: LlmExtractedAtom[] | Record<string, LlmExtractedAtom[]>;
+    try {
+      ({ data: raw } = await callLlmJson<typeof raw>(prompt, config));
+    } finally {
+      context.usageTracker?.popContext();
+    }
+
+    // JSON mode (response_format: json_object) can only return objects, so
+    // accept an array wrapped in an object ({"memories": [...]}) as well
+    const data = Array.isArray(raw) ? raw : Object.values(raw ?? {}).find(Array.isArray);
 
     // Validate and normalize
     if (!Array.isArray(data)) {
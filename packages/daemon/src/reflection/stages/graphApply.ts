@@ -37,6 +37,7 @@ interface PendingEdge {
 
 export class GraphApplyStage implements PipelineStage {
   name = "graph-apply";
+  optional = true;
 
   constructor(private db: Db) {}
 
@@ -13,7 +13,7 @@
 import { Db } from "mongodb";
 import { PipelineStage, PipelineContext } from "../types.js";
 import { Memory, GraphEdgeType } from "../../types/index.js";
-import { VoyageEmbedder } from "../../embedding.js";
+import type { Embedder } from "../../embedding.js";
 import { COLLECTION_MEMORIES } from "../../constants.js";
 import { callLlmJson, getLlmConfig } from "../../services/llmClient.js";
 
@@ -48,10 +48,11 @@ interface LlmEdgeResult {
  */
 export class GraphLinkStage implements PipelineStage {
   name = "graph-link";
+  optional = true;
 
   constructor(
     private db: Db,
-    private embedder: VoyageEmbedder,
+    private embedder: Embedder,
   ) {}
 
   async execute(context: PipelineContext): Promise<PipelineContext> {
@@ -211,7 +212,18 @@ Return ONLY JSON: {"edges": [...]}. Return {"edges": []} if no semantic relation
 Atoms:
 ${atomList}`;
 
-    const { data } = await callLlmJson<LlmEdgeResult>(prompt, config);
+    context.usageTracker?.pushContext({
+      operation: "reflect:graph-link",
+      agentId: context.agentId,
+      pipelineJobId: context.jobId,
+      pipelineStage: "graph-link",
+    });
+    let data: LlmEdgeResult;
+    try {
+      ({ data } = await callLlmJson<LlmEdgeResult>(prompt, config));
+    } finally {
+      context.usageTracker?.popContext();
+    }
 
     if (!data.edges || !Array.isArray(data.edges)) {
       return [];
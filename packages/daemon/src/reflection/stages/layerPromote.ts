@@ -43,6 +43,7 @@ interface LlmPromotionResult {
  */
 export class LayerPromoteStage implements PipelineStage {
   name = "layer-promote";
+  optional = true;
 
   constructor(private db: Db) {}
 
@@ -207,7 +208,18 @@ Consider: Is this memory ephemeral (e.g., "meeting at 3pm") or durable knowledge
 
 Return ONLY JSON: {"shouldPromote": true/false, "reason": "brief explanation"}`;
 
-    const { data } = await callLlmJson<LlmPromotionResult>(prompt, config);
+    context.usageTracker?.pushContext({
+      operation: "reflect:layer-promote",
+      agentId: context.agentId,
+      pipelineJobId: context.jobId,
+      pipelineStage: "layer-promote",
+    });
+    let data: LlmPromotionResult;
+    try {
+      ({ data } = await callLlmJson<LlmPromotionResult>(prompt, config));
+    } finally {
+      context.usageTracker?.popContext();
+    }
     return {
       shouldPromote: data.shouldPromote === true,
       reason: data.reason || "No reason provided",
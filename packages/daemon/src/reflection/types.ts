@@ -5,6 +5,7 @@
  * raw session output into structured, layered, reliable memory.
  */
 
+import { ObjectId } from "mongodb";
 import { Memory } from "../types/index.js";
 import { ResolvedPipelineSettings } from "../types/settings.js";
 
@@ -27,6 +28,45 @@ export interface ReflectionJob {
   stages: StageResult[];
   error?: string;
   metadata?: Record<string, unknown>;
+
+  /** Pipeline input, stored so any worker can run the job */
+  input?: ReflectionJobInput;
+  /** Runs started so far, including the current one */
+  attempts?: number;
+  maxAttempts?: number;
+  /** Not claimed before this — set when a failed run is retried */
+  runAfter?: Date;
+
+  // Lease held by the worker running the job
+  workerId?: string;
+  leaseExpiresAt?: Date;
+  heartbeatAt?: Date;
+
+  /** Context saved after each stage that ran, keyed by stage name */
+  checkpoints?: Record<string, PipelineCheckpoint>;
+  /** The next run starts at this stage, from the checkpoint before it */
+  resumeFromStage?: string;
+}
+
+/**
+ * Pipeline context saved after a stage, so a run can resume at the next one.
+ * Classified memories are stored already, so only their IDs are kept.
+ */
+export interface PipelineCheckpoint {
+  extractedAtoms?: CandidateMemory[];
+  deduplicatedAtoms?: CandidateMemory[];
+  classifiedMemoryIds?: ObjectId[];
+  stats: Record<string, number>;
+  savedAt: Date;
+}
+
+/**
+ * Session data a job runs the pipeline over
+ */
+export interface ReflectionJobInput {
+  sessionTranscript?: string;
+  sessionStartedAt?: Date;
+  sessionEndedAt?: Date;
 }
 
 /**
@@ -42,6 +82,8 @@ export interface StageResult {
   itemsCreated?: number;
   itemsUpdated?: number;
   error?: string;
+  /** The stage failed but the pipeline carried on without it */
+  optional?: boolean;
   metadata?: Record<string, unknown>;
 }
 
@@ -101,5 +143,7 @@ export interface CandidateMemory {
  */
 export interface PipelineStage {
   name: string;
+  /** A failure is recorded on the job but doesn't stop the pipeline */
+  optional?: boolean;
   execute(context: PipelineContext): Promise<PipelineContext>;
 }
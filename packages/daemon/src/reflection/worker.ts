@@ -0,0 +1,237 @@
+/**
+ * Reflection Worker
+ *
+ * Drains the reflection_jobs queue. Each job is claimed atomically under a
+ * lease that a heartbeat renews while the pipeline runs. If the worker dies
+ * mid-run the lease expires, and the next poll (on any worker) puts the job
+ * back in the queue to resume after the last stage it checkpointed.
+ *
+ * A failed run goes back to "pending" with an exponential backoff until the
+ * job has used its maxAttempts, then it is marked "failed". The retry resumes
+ * at the stage that failed, from the checkpoint saved before it.
+ *
+ * The daemon runs a worker in-process unless REFLECTION_WORKER=false;
+ * `ocmem worker` (src/worker.ts) runs one as a separate process against the
+ * same database. Any number of workers can share a queue.
+ */
+
+import os from "os";
+import { randomUUID } from "crypto";
+import { Db } from "mongodb";
+import type { Embedder } from "../embedding.js";
+import type { DaemonConfig } from "../config.js";
+import type { UsageTracker } from "../services/usageTracker.js";
+import { getResolvedSettings } from "../services/settingsService.js";
+import {
+  claimJob,
+  completeJob,
+  failJobAttempt,
+  recoverStaleJobs,
+  renewJobLease,
+} from "./jobQueue.js";
+import {
+  createFullPipeline,
+  planResume,
+  PipelineStageError,
+  restoreCheckpoint,
+  runPipeline,
+} from "./pipeline.js";
+import { PipelineContext, ReflectionJob } from "./types.js";
+
+export interface ReflectionWorkerOptions {
+  /** Poll interval when idle (default 2s) */
+  intervalMs: number;
+  /** Jobs this worker runs at the same time (default 1) */
+  concurrency: number;
+  /** How long a claim holds without a heartbeat (default 60s) */
+  leaseMs: number;
+  /** Written on claimed jobs (default host:pid:random) */
+  workerId: string;
+}
+
+const DEFAULT_OPTIONS: Omit<ReflectionWorkerOptions, "workerId"> = {
+  intervalMs: 2000,
+  concurrency: 1,
+  leaseMs: 60_000,
+};
+
+let intervalId: NodeJS.Timeout | null = null;
+let claiming = false;
+let wakeRequested = false;
+let tick: (() => void) | null = null;
+const activeRuns = new Set<Promise<void>>();
+
+/**
+ * Run one claimed job through the full pipeline (or the rest of it, when the
+ * job resumes at a stage) and record the outcome. Exported for tests; the
+ * worker calls it for every job it claims.
+ */
+export async function runReflectionJob(
+  db: Db,
+  embedder: Embedder,
+  config: DaemonConfig,
+  usageTracker: UsageTracker | undefined,
+  job: ReflectionJob,
+  options: Pick<ReflectionWorkerOptions, "leaseMs" | "workerId">,
+): Promise<"complete" | "retrying" | "failed" | "lost"> {
+  const jobId = job._id!.toString();
+
+  // Renew the lease three times per period so one slow write can't lose it.
+  // Once it's lost another worker may have the job, so no further stage runs.
+  const lease = new AbortController();
+  const heartbeat = setInterval(
+    () => {
+      renewJobLease(db, jobId, options.workerId, options.leaseMs)
+        .then((held) => {
+          if (!held && !lease.signal.aborted) {
+            lease.abort(new Error(`Lost the lease on job ${jobId}`));
+            console.warn(`[ReflectionWorker] Lost the lease on job ${jobId}`);
+          }
+        })
+        .catch((error) =>
+          console.error(`[ReflectionWorker] Heartbeat failed for ${jobId}:`, error),
+        );
+    },
+    Math.max(1000, Math.floor(options.leaseMs / 3)),
+  );
+
+  try {
+    let context: PipelineContext = {
+      agentId: job.agentId,
+      sessionId: job.sessionId,
+      jobId,
+      sessionTranscript: job.input?.sessionTranscript,
+      sessionStartedAt: job.input?.sessionStartedAt,
+      sessionEndedAt: job.input?.sessionEndedAt,
+      resolvedSettings: await getResolvedSettings(db, job.agentId, config),
+      usageTracker,
+      stats: {},
+    };
+    let stages = await createFullPipeline(db, embedder);
+
+    if (job.resumeFromStage) {
+      const plan = planResume(stages, job.resumeFromStage, job.checkpoints);
+      if (!plan) {
+        throw new Error(`No checkpoint to resume stage "${job.resumeFromStage}" from`);
+      }
+      stages = plan.stages;
+      if (plan.checkpoint) context = await restoreCheckpoint(db, context, plan.checkpoint);
+      console.log(`[ReflectionWorker] Job ${jobId} resuming at stage "${job.resumeFromStage}"`);
+    }
+
+    await runPipeline(db, jobId, context, stages, lease.signal);
+    return (await completeJob(db, jobId, options.workerId)) ? "complete" : "lost";
+  } catch (error) {
+    if (lease.signal.aborted) return "lost";
+    const message = error instanceof Error ? error.message : String(error);
+    const failedStage = error instanceof PipelineStageError ? error.stage : undefined;
+    const outcome = await failJobAttempt(db, job, options.workerId, message, failedStage);
+    if (outcome === "retrying") {
+      console.warn(
+        `[ReflectionWorker] Job ${jobId} failed (attempt ${job.attempts}), will retry: ${message}`,
+      );
+    }
+    return outcome ?? "lost";
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Start the reflection worker
+ */
+export function startReflectionWorker(
+  db: Db,
+  embedder: Embedder,
+  config: DaemonConfig,
+  usageTracker?: UsageTracker,
+  options: Partial<ReflectionWorkerOptions> = {},
+): void {
+  if (intervalId) return;
+  const finalOptions: ReflectionWorkerOptions = {
+    ...DEFAULT_OPTIONS,
+    workerId: `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`,
+    ...options,
+  };
+
+  let stageOrder: string[] | null = null;
+
+  // Claim jobs until every slot is busy or nothing is due
+  const fillSlots = async () => {
+    stageOrder ??= (await createFullPipeline(db, embedder)).map((stage) => stage.name);
+    const recovered = await recoverStaleJobs(db, stageOrder);
+    if (recovered.requeued + recovered.failed > 0) {
+      console.log(
+        `[ReflectionWorker] Recovered stale jobs: ${recovered.requeued} requeued, ${recovered.failed} failed`,
+      );
+    }
+
+    while (activeRuns.size < finalOptions.concurrency) {
+      const job = await claimJob(db, finalOptions.workerId, finalOptions.leaseMs);
+      if (!job) return;
+
+      const run = runReflectionJob(db, embedder, config, usageTracker, job, finalOptions)
+        .then((outcome) => {
+          console.log(`[ReflectionWorker] Job ${job._id} ${outcome}`);
+        })
+        .catch((error) => console.error(`[ReflectionWorker] Job ${job._id} errored:`, error))
+        .finally(() => {
+          activeRuns.delete(run);
+          // A slot opened up — look for more work right away
+          tick?.();
+        });
+      activeRuns.add(run);
+    }
+  };
+
+  tick = () => {
+    if (claiming) {
+      wakeRequested = true;
+      return;
+    }
+    claiming = true;
+    fillSlots()
+      .catch((error) => console.error("[ReflectionWorker] Worker pass failed:", error))
+      .finally(() => {
+        claiming = false;
+        if (wakeRequested) {
+          wakeRequested = false;
+          setImmediate(() => tick?.());
+        }
+      });
+  };
+
+  intervalId = setInterval(() => tick?.(), finalOptions.intervalMs);
+  console.log(
+    `  Reflection worker: ${finalOptions.workerId}, concurrency ${finalOptions.concurrency}, polling every ${finalOptions.intervalMs}ms`,
+  );
+  tick();
+}
+
+/**
+ * Stop polling for new jobs. Runs in progress finish in the background; if
+ * the process exits first, their leases expire and another worker picks
+ * them up.
+ */
+export function stopReflectionWorker(): void {
+  if (intervalId) {
+    clearInterval(intervalId);
+    intervalId = null;
+  }
+  tick = null;
+}
+
+/**
+ * Resolve once the runs in progress have finished (for a graceful shutdown)
+ */
+export async function drainReflectionWorker(): Promise<void> {
+  await Promise.allSettled([...activeRuns]);
+}
+
+/**
+ * Claim new jobs now instead of waiting for the next poll (no-op when the
+ * worker isn't running in this process)
+ */
+export function wakeReflectionWorker(): void {
+  tick?.();
+}
@@ -0,0 +1,101 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import { Db, Filter, ObjectId } from "mongodb";
+import { asyncHandler } from "../middleware/asyncHandler";
+import { COLLECTION_AUDIT_EVENTS } from "../constants";
+import type { AuditEvent } from "../types/index";
+
+const AuditSchema = z.object({
+  agentId: z.string().min(1).optional(),
+  /** Comma-separated, e.g. memory.clear,memory.purge */
+  operation: z.string().optional(),
+  actorKeyId: z.string().optional(),
+  since: z.string().datetime().optional(),
+  until: z.string().datetime().optional(),
+  limit: z.coerce.number().int().positive().max(100).default(50),
+  cursor: z.string().optional(),
+  cursorId: z.string().optional(),
+  sort: z.enum(["desc", "asc"]).default("desc"),
+});
+
+/**
+ * GET /audit
+ *
+ * Audit events, newest first, with the same cursor pagination as /memories
+ */
+export const auditRoute = asyncHandler(async (req: Request, res: Response) => {
+  const data = AuditSchema.parse(req.query);
+
+  const db: Db = req.app.locals.db;
+  const collection = db.collection<AuditEvent>(COLLECTION_AUDIT_EVENTS);
+
+  const filter: Filter<AuditEvent> = {};
+  if (data.agentId) filter.agentId = data.agentId;
+  if (data.operation) {
+    filter.operation = {
+      $in: data.operation.split(",").map((op) => op.trim()) as AuditEvent["operation"][],
+    };
+  }
+  if (data.actorKeyId) filter.actorKeyId = data.actorKeyId;
+  if (data.since || data.until) {
+    filter.timestamp = {
+      ...(data.since && { $gte: new Date(data.since) }),
+      ...(data.until && { $lt: new Date(data.until) }),
+    };
+  }
+
+  // Cursor-based pagination using timestamp + _id as composite cursor
+  if (data.cursor && data.cursorId) {
+    const cursorDate = new Date(data.cursor);
+    const cursorOid = new ObjectId(data.cursorId);
+    if (data.sort === "desc") {
+      filter.$or = [
+        { timestamp: { $lt: cursorDate } },
+        { timestamp: cursorDate, _id: { $lt: cursorOid } },
+      ];
+    } else {
+      filter.$or = [
+        { timestamp: { $gt: cursorDate } },
+        { timestamp: cursorDate, _id: { $gt: cursorOid } },
+      ];
+    }
+  }
+
+  const sortDir = data.sort === "desc" ? -1 : 1;
+  const events = await collection
+    .find(filter)
+    .sort({ timestamp: sortDir, _id: sortDir })
+    .limit(data.limit + 1)
+    .toArray();
+
+  const hasMore = events.length > data.limit;
+  if (hasMore) events.pop();
+
+  const lastItem = events[events.length - 1];
+  const nextCursor =
+    hasMore && lastItem
+      ? {
+          cursor: lastItem.timestamp.toISOString(),
+          cursorId: lastItem._id.toString(),
+        }
+      : null;
+
+  res.json({
+    success: true,
+    count: events.length,
+    hasMore,
+    nextCursor,
+    events: events.map((event) => ({
+      id: event._id.toString(),
+      timestamp: event.timestamp,
+      operation: event.operation,
+      actorKeyId: event.actorKeyId,
+      actorKeyName: event.actorKeyName,
+      agentId: event.agentId,
+      targetIds: event.targetIds,
+      count: event.count,
+      details: event.details ?? {},
+      request: event.request,
+    })),
+  });
+});
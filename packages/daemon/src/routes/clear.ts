@@ -2,7 +2,8 @@ import { Request, Response } from "express";
 import { z } from "zod";
 import { Db } from "mongodb";
 import { asyncHandler } from "../middleware/asyncHandler";
-import { COLLECTION_MEMORIES } from "../constants";
+import { recordAuditEvent } from "../services/auditLog";
+import { trashMemories } from "../services/trashService";
 
 const ClearSchema = z.object({
   agentId: z.string().min(1),
@@ -12,13 +13,25 @@ export const clearRoute = asyncHandler(async (req: Request, res: Response) => {
   const data = ClearSchema.parse(req.query);
 
   const db: Db = req.app.locals.db;
-  const collection = db.collection(COLLECTION_MEMORIES);
+  const trashed = await trashMemories(
+    db,
+    { agentId: data.agentId },
+    "clear",
+    req.app.locals.config?.trashRetentionDays,
+  );
 
-  const result = await collection.deleteMany({ agentId: data.agentId });
+  await recordAuditEvent(req, {
+    operation: "memory.clear",
+    agentId: data.agentId,
+    count: trashed.count,
+    details: { trashOperationId: trashed.operationId },
+  });
 
   res.json({
     success: true,
     agentId: data.agentId,
-    deleted: result.deletedCount,
+    deleted: trashed.count,
+    operationId: trashed.operationId,
+    purgeAfter: trashed.purgeAfter,
   });
 });
@@ -10,6 +10,8 @@ import { Db, ObjectId } from "mongodb";
 import { asyncHandler } from "../middleware/asyncHandler.js";
 import { COLLECTION_MEMORIES } from "../constants.js";
 import { Memory, ContradictionResolution } from "../types/index.js";
+import { recordAuditEvent } from "../services/auditLog.js";
+import { supersedeMemory, type SupersessionResult } from "../services/supersessionService.js";
 
 /**
  * GET /conflicts
@@ -83,13 +85,23 @@ export const getConflictsRoute = asyncHandler(async (req: Request, res: Response
 /**
  * PATCH /conflicts/:id/resolve
  * 
- * Resolve a contradiction
+ * Resolve a contradiction. "superseded" makes the other memory SUPERSEDE
+ * supersededMemoryId, which demotes its confidence, hides it from recall and
+ * (with archive) moves it to the archival layer.
  */
-const ResolveConflictSchema = z.object({
-  resolution: z.enum(["superseded", "context-dependent", "temporal"]),
-  resolutionNote: z.string().optional(),
-  supersededMemoryId: z.string().optional(), // Which memory is superseded
-});
+const ResolveConflictSchema = z
+  .object({
+    resolution: z.enum(["superseded", "context-dependent", "temporal"]),
+    resolutionNote: z.string().optional(),
+    supersededMemoryId: z.string().optional(), // Which memory is superseded
+    archive: z.boolean().default(false), // Move the superseded memory to the archival layer
+  })
+  .refine((data) => data.resolution !== "superseded" || !!data.supersededMemoryId, {
+    message: "supersededMemoryId is required for superseded resolutions",
+    path: ["supersededMemoryId"],
+  });
+
+const OBJECT_ID_PATTERN = /^[0-9a-fA-F]{24}$/;
 
 export const resolveConflictRoute = asyncHandler(async (req: Request, res: Response): Promise<void> => {
   const conflictId = req.params.id;
@@ -98,21 +110,46 @@ export const resolveConflictRoute = asyncHandler(async (req: Request, res: Respo
   // Parse conflict ID (format: memoryA_memoryB)
   const [memoryAId, memoryBId] = conflictId.split("_");
 
-  if (!memoryAId || !memoryBId) {
+  if (!OBJECT_ID_PATTERN.test(memoryAId ?? "") || !OBJECT_ID_PATTERN.test(memoryBId ?? "")) {
     res.status(400).json({ error: "Invalid conflict ID format" });
     return;
   }
 
+  if (
+    data.resolution === "superseded" &&
+    data.supersededMemoryId !== memoryAId &&
+    data.supersededMemoryId !== memoryBId
+  ) {
+    res.status(400).json({ error: "supersededMemoryId must be one of the conflicting memories" });
+    return;
+  }
+
   const db: Db = req.app.locals.db;
   const collection = db.collection<Memory>(COLLECTION_MEMORIES);
 
   const now = new Date();
 
-  // Update both memories with the resolution
+  // The winner SUPERSEDES the loser; its confidence drops (and layer, with archive)
+  let supersession: SupersessionResult | null = null;
+  if (data.resolution === "superseded") {
+    const supersededId = data.supersededMemoryId!;
+    const supersedingId = supersededId === memoryAId ? memoryBId : memoryAId;
+    supersession = await supersedeMemory(db, supersedingId, supersededId, {
+      archive: data.archive,
+      note: data.resolutionNote,
+    });
+
+    if (!supersession) {
+      res.status(404).json({ error: "Conflicting memories not found" });
+      return;
+    }
+  }
+
+  // Update both memories with the resolution (memoryId may be stored as string or ObjectId)
   await collection.updateOne(
     {
       _id: new ObjectId(memoryAId) as any,
-      "contradictions.targetId": memoryBId,
+      "contradictions.memoryId": { $in: [memoryBId, new ObjectId(memoryBId)] },
     },
     {
       $set: {
@@ -127,7 +164,7 @@ export const resolveConflictRoute = asyncHandler(async (req: Request, res: Respo
   await collection.updateOne(
     {
       _id: new ObjectId(memoryBId) as any,
-      "contradictions.targetId": memoryAId,
+      "contradictions.memoryId": { $in: [memoryAId, new ObjectId(memoryAId)] },
     },
     {
       $set: {
@@ -139,30 +176,27 @@ export const resolveConflictRoute = asyncHandler(async (req: Request, res: Respo
     }
   );
 
-  // If resolution is "superseded", reduce confidence of the superseded memory
-  if (data.resolution === "superseded" && data.supersededMemoryId) {
-    const supersededMemory = await collection.findOne<Memory>({
-      _id: new ObjectId(data.supersededMemoryId) as any,
-    });
-
-    if (supersededMemory && supersededMemory.confidence) {
-      const newConfidence = Math.max(0.02, supersededMemory.confidence * 0.6); // 40% reduction
-
-      await collection.updateOne(
-        { _id: new ObjectId(data.supersededMemoryId) as any },
-        {
-          $set: {
-            confidence: newConfidence,
-            updatedAt: now,
-          },
-        }
-      );
-    }
-  }
+  const memoryA = await db
+    .collection(COLLECTION_MEMORIES)
+    .findOne({ _id: new ObjectId(memoryAId) }, { projection: { agentId: 1 } });
+  await recordAuditEvent(req, {
+    operation: "conflict.resolve",
+    agentId: memoryA?.agentId,
+    targetIds: [memoryAId, memoryBId],
+    details: {
+      resolution: data.resolution,
+      ...(data.resolutionNote && { resolutionNote: data.resolutionNote }),
+      ...(supersession && {
+        supersededMemoryId: supersession.supersededId,
+        archived: data.archive,
+      }),
+    },
+  });
 
   res.json({
     success: true,
     message: "Contradiction resolved",
     resolution: data.resolution,
+    supersession: supersession ?? undefined,
   });
 });
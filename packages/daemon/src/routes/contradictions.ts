@@ -9,6 +9,9 @@ import { z } from "zod";
 import { Db } from "mongodb";
 import { asyncHandler } from "../middleware/asyncHandler.js";
 import { enhanceContradictionExplanations } from "../services/contradictionExplainer.js";
+import { getResolvedSettings } from "../services/settingsService.js";
+import type { UsageTracker } from "../services/usageTracker.js";
+import type { DaemonConfig } from "../config.js";
 
 /**
  * POST /contradictions/enhance
@@ -23,8 +26,22 @@ const EnhanceSchema = z.object({
 export const enhanceContradictionsRoute = asyncHandler(async (req: Request, res: Response): Promise<void> => {
   const data = EnhanceSchema.parse(req.body);
   const db: Db = req.app.locals.db;
+  const config: DaemonConfig = req.app.locals.config;
+  const usageTracker: UsageTracker | undefined = req.app.locals.usageTracker;
 
-  const enhanced = await enhanceContradictionExplanations(db, data.agentId, data.limit);
+  // Use the agent's configured LLM provider (settings > env vars)
+  const { llmProvider } = await getResolvedSettings(db, data.agentId, config);
+
+  usageTracker?.pushContext({ operation: "contradiction-explain", agentId: data.agentId });
+  let enhanced: number;
+  try {
+    enhanced = await enhanceContradictionExplanations(db, data.agentId, data.limit, {
+      ...llmProvider,
+      maxTokens: 200,
+    });
+  } finally {
+    usageTracker?.popContext();
+  }
 
   res.json({
     success: true,
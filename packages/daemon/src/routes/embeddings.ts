@@ -4,6 +4,7 @@ import { Db } from "mongodb";
 import { asyncHandler } from "../middleware/asyncHandler";
 import { COLLECTION_MEMORIES } from "../constants";
 import { projectTo2D, projectTo3D } from "../pca";
+import { requeueFailedEmbeddings } from "../services/embeddingQueue";
 
 const EmbeddingsSchema = z.object({
   agentId: z.string().min(1),
@@ -11,6 +12,10 @@ const EmbeddingsSchema = z.object({
   dimensions: z.coerce.number().int().min(2).max(3).default(2),
 });
 
+const RequeueSchema = z.object({
+  agentId: z.string().min(1).optional(),
+});
+
 /**
  * GET /embeddings?agentId=X&limit=200
  *
@@ -129,3 +134,18 @@ export const embeddingsRoute = asyncHandler(
     });
   },
 );
+
+/**
+ * POST /embeddings/requeue
+ *
+ * Give memories the embedding queue marked "failed" a fresh set of attempts,
+ * e.g. once a provider outage or a bad API key is fixed
+ */
+export const requeueEmbeddingsRoute = asyncHandler(async (req: Request, res: Response) => {
+  const data = RequeueSchema.parse(req.body ?? {});
+  const db: Db = req.app.locals.db;
+
+  const requeued = await requeueFailedEmbeddings(db, data.agentId);
+
+  res.json({ success: true, agentId: data.agentId ?? null, requeued });
+});
@@ -2,15 +2,85 @@
  * Entities API Routes
  * 
  * Endpoints for managing entity hub documents (people, projects, systems, concepts).
+ * Curation (merge, aliases, split) fixes the duplicates heuristic extraction
+ * produces ("Mongo", "MongoDB", "mongodb atlas").
  */
 
 import { Request, Response } from "express";
+import { z } from "zod";
 import { Db } from "mongodb";
 import { asyncHandler } from "../middleware/asyncHandler.js";
+import type { Embedder } from "../embedding.js";
+import type { UsageTracker } from "../services/usageTracker.js";
+import { recordAuditEvent } from "../services/auditLog.js";
+import {
+  EntityCurationError,
+  getEntityProfile,
+  mergeEntities,
+  splitEntity,
+  updateEntityAliases,
+} from "../services/entityService.js";
 
 const COLLECTION_ENTITIES = "entities";
 const COLLECTION_MEMORIES = "memories";
 
+const EntityTypeSchema = z.enum(["person", "project", "system", "concept", "place"]);
+const AliasListSchema = z.array(z.string().trim().min(1).max(200)).max(100);
+
+const MergeEntitiesSchema = z
+  .object({
+    agentId: z.string().min(1),
+    target: z.string().min(1),
+    sources: z.array(z.string().min(1)).min(1).max(50),
+  })
+  .refine((data) => data.sources.some((slug) => slug !== data.target), {
+    message: "sources must name an entity other than target",
+    path: ["sources"],
+  });
+
+const EntityAliasesSchema = z
+  .object({
+    agentId: z.string().min(1),
+    add: AliasListSchema.optional(),
+    remove: AliasListSchema.optional(),
+  })
+  .refine((data) => (data.add?.length ?? 0) + (data.remove?.length ?? 0) > 0, {
+    message: "add or remove at least one alias",
+  });
+
+const SplitEntitySchema = z.object({
+  agentId: z.string().min(1),
+  displayName: z.string().trim().min(1).max(200),
+  type: EntityTypeSchema.optional(),
+  aliases: AliasListSchema.optional(),
+  memoryIds: z
+    .array(z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid memory ID"))
+    .min(1)
+    .max(1000),
+});
+
+/** Run a curation change with its embedding calls attributed, answering curation errors */
+async function curate<T>(
+  req: Request,
+  res: Response,
+  agentId: string,
+  change: (db: Db, embedder: Embedder) => Promise<T>,
+): Promise<T | null> {
+  const usageTracker: UsageTracker | undefined = req.app.locals.usageTracker;
+  usageTracker?.pushContext({ operation: "entity-curation", agentId });
+  try {
+    return await change(req.app.locals.db, req.app.locals.embedder);
+  } catch (error) {
+    if (error instanceof EntityCurationError) {
+      res.status(error.status).json({ success: false, error: error.message });
+      return null;
+    }
+    throw error;
+  } finally {
+    usageTracker?.popContext();
+  }
+}
+
 /**
  * GET /entities
  * 
@@ -124,6 +194,34 @@ export const getEntityRoute = asyncHandler(async (req: Request, res: Response):
   });
 });
 
+/**
+ * GET /entities/:slug/profile
+ * 
+ * Dossier of what the agent's memories say about an entity: facts,
+ * preferences, decisions, other memories, a timeline with its episodes
+ * and the entities mentioned alongside it
+ */
+export const getEntityProfileRoute = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const slug = req.params.slug;
+  const agentId = req.query.agentId as string;
+  const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+  if (!agentId) {
+    res.status(400).json({ error: "agentId query parameter required" });
+    return;
+  }
+
+  const db: Db = req.app.locals.db;
+  const profile = await getEntityProfile(db, agentId, slug, limit);
+
+  if (!profile) {
+    res.status(404).json({ error: "Entity not found" });
+    return;
+  }
+
+  res.json({ success: true, ...profile });
+});
+
 /**
  * GET /entities/search
  * 
@@ -172,3 +270,80 @@ export const searchEntitiesRoute = asyncHandler(async (req: Request, res: Respon
     })),
   });
 });
+
+/**
+ * POST /entities/merge
+ * 
+ * Merge duplicate entities (sources) into target: mentions move to target,
+ * source names become its aliases, sources are deleted
+ */
+export const mergeEntitiesRoute = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const data = MergeEntitiesSchema.parse(req.body);
+
+  const result = await curate(req, res, data.agentId, (db, embedder) =>
+    mergeEntities(db, embedder, data.agentId, data.target, data.sources),
+  );
+  if (!result) return;
+
+  await recordAuditEvent(req, {
+    operation: "entity.merge",
+    agentId: data.agentId,
+    targetIds: [result.entity.slug, ...result.merged],
+    count: result.memoriesUpdated,
+  });
+
+  res.json({ success: true, ...result });
+});
+
+/**
+ * POST /entities/:slug/aliases
+ * 
+ * Add and/or remove aliases; the summary embedding is recomputed
+ */
+export const updateEntityAliasesRoute = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const data = EntityAliasesSchema.parse(req.body);
+  const slug = req.params.slug;
+
+  const entity = await curate(req, res, data.agentId, (db, embedder) =>
+    updateEntityAliases(db, embedder, data.agentId, slug, { add: data.add, remove: data.remove }),
+  );
+  if (!entity) return;
+
+  await recordAuditEvent(req, {
+    operation: "entity.aliases",
+    agentId: data.agentId,
+    targetIds: [slug],
+    details: { add: data.add ?? [], remove: data.remove ?? [] },
+  });
+
+  res.json({ success: true, entity });
+});
+
+/**
+ * POST /entities/:slug/split
+ * 
+ * Move the mentions in memoryIds to a new entity named displayName
+ */
+export const splitEntityRoute = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const data = SplitEntitySchema.parse(req.body);
+  const slug = req.params.slug;
+
+  const result = await curate(req, res, data.agentId, (db, embedder) =>
+    splitEntity(db, embedder, data.agentId, slug, {
+      displayName: data.displayName,
+      type: data.type,
+      aliases: data.aliases,
+      memoryIds: data.memoryIds,
+    }),
+  );
+  if (!result) return;
+
+  await recordAuditEvent(req, {
+    operation: "entity.split",
+    agentId: data.agentId,
+    targetIds: [slug, result.created.slug],
+    count: result.memoriesUpdated,
+  });
+
+  res.json({ success: true, ...result });
+});
@@ -8,10 +8,9 @@ import { Request, Response } from "express";
 import { z } from "zod";
 import { Db, ObjectId } from "mongodb";
 import { asyncHandler } from "../middleware/asyncHandler.js";
-import { VoyageEmbedder } from "../embedding.js";
+import type { Embedder } from "../embedding.js";
 import { Episode } from "../types/index.js";
-
-const COLLECTION_EPISODES = "episodes";
+import { COLLECTION_EPISODES } from "../constants.js";
 
 /**
  * POST /episodes
@@ -32,7 +31,7 @@ export const createEpisodeRoute = asyncHandler(async (req: Request, res: Respons
   const data = CreateEpisodeSchema.parse(req.body);
 
   const db: Db = req.app.locals.db;
-  const embedder: VoyageEmbedder = req.app.locals.embedder;
+  const embedder: Embedder = req.app.locals.embedder;
   const collection = db.collection<Episode>(COLLECTION_EPISODES);
 
   // Embed the narrative
@@ -51,6 +50,8 @@ export const createEpisodeRoute = asyncHandler(async (req: Request, res: Respons
     dominantTopics: data.dominantTopics,
     factIds: data.factIds,
     embedding,
+    embeddingModel: embedder.getModel(),
+    embeddingDim: embedding.length,
     strength: 1.0, // Start at max strength
     layer: "episodic",
   };
@@ -1,18 +1,44 @@
 import { Request, Response } from "express";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
 import { z } from "zod";
 import { Db } from "mongodb";
 import { asyncHandler } from "../middleware/asyncHandler";
 import { COLLECTION_MEMORIES } from "../constants";
+import type { Embedder } from "../embedders";
+import { exportArchive } from "../services/archiveService";
 
 const ExportSchema = z.object({
   agentId: z.string().min(1).optional(),
   projectId: z.string().optional(),
+  /** ndjson streams the full-fidelity archive that POST /import reads */
+  format: z.enum(["json", "ndjson"]).default("json"),
 });
 
 export const exportRoute = asyncHandler(async (req: Request, res: Response) => {
   const data = ExportSchema.parse(req.query);
 
   const db: Db = req.app.locals.db;
+
+  if (data.format === "ndjson") {
+    const embedder: Embedder = req.app.locals.embedder;
+    const filename = `openclaw-memory-${data.agentId || "all"}-${Date.now()}.ndjson`;
+    res.setHeader("Content-Type", "application/x-ndjson");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    try {
+      await pipeline(
+        Readable.from(
+          exportArchive(db, embedder, { agentId: data.agentId, projectId: data.projectId }),
+        ),
+        res,
+      );
+    } catch (error) {
+      // Headers are sent; the archive just ends without its "end" line
+      console.error("[Export] Archive stream failed:", error);
+    }
+    return;
+  }
+
   const collection = db.collection(COLLECTION_MEMORIES);
 
   const filter: Record<string, unknown> = {};
@@ -20,7 +46,7 @@ export const exportRoute = asyncHandler(async (req: Request, res: Response) => {
   if (data.projectId) filter.projectId = data.projectId;
 
   const memories = await collection
-    .find(filter, { projection: { embedding: 0 } })
+    .find(filter, { projection: { embedding: 0, shadowEmbedding: 0 } })
     .sort({ createdAt: -1 })
     .toArray();
 
@@ -2,6 +2,8 @@ import { Request, Response } from "express";
 import { Db, ObjectId } from "mongodb";
 import { asyncHandler } from "../middleware/asyncHandler";
 import { COLLECTION_MEMORIES } from "../constants";
+import { recordAuditEvent } from "../services/auditLog";
+import { trashMemories } from "../services/trashService";
 
 export const forgetRoute = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -14,12 +16,39 @@ export const forgetRoute = asyncHandler(async (req: Request, res: Response) => {
   const db: Db = req.app.locals.db;
   const collection = db.collection(COLLECTION_MEMORIES);
 
-  const result = await collection.deleteOne({ _id: new ObjectId(id) });
+  const memory = await collection.findOne(
+    { _id: new ObjectId(id) },
+    { projection: { agentId: 1 } },
+  );
+  if (!memory) {
+    res.status(404).json({ success: false, error: "Memory not found" });
+    return;
+  }
 
-  if (result.deletedCount === 0) {
+  const trashed = await trashMemories(
+    db,
+    { _id: memory._id },
+    "forget",
+    req.app.locals.config?.trashRetentionDays,
+  );
+  if (trashed.count === 0) {
+    // Forgotten concurrently
     res.status(404).json({ success: false, error: "Memory not found" });
     return;
   }
 
-  res.json({ success: true, id, message: "Memory deleted" });
+  await recordAuditEvent(req, {
+    operation: "memory.forget",
+    agentId: memory.agentId,
+    targetIds: [id],
+    details: { trashOperationId: trashed.operationId },
+  });
+
+  res.json({
+    success: true,
+    id,
+    message: trashed.operationId ? "Memory moved to trash" : "Memory deleted",
+    operationId: trashed.operationId,
+    purgeAfter: trashed.purgeAfter,
+  });
 });
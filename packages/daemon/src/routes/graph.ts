@@ -17,6 +17,7 @@ import {
 } from "../services/graphService.js";
 import { GraphEdge, GraphEdgeType } from "../types/index.js";
 import { COLLECTION_MEMORIES } from "../constants.js";
+import { recordAuditEvent } from "../services/auditLog.js";
 
 /**
  * GET /graph/pending-edges
@@ -66,6 +67,7 @@ export const approvePendingEdgeRoute = asyncHandler(async (req: Request, res: Re
   const result = await applyPendingEdge(db, edgeId);
 
   if (result.success) {
+    await recordAuditEvent(req, { operation: "graph.edge.approve", targetIds: [edgeId] });
     res.json({
       success: true,
       message: "Pending edge approved and applied",
@@ -90,6 +92,7 @@ export const rejectPendingEdgeRoute = asyncHandler(async (req: Request, res: Res
   const success = await rejectPendingEdge(db, edgeId);
 
   if (success) {
+    await recordAuditEvent(req, { operation: "graph.edge.reject", targetIds: [edgeId] });
     res.json({
       success: true,
       message: "Pending edge rejected",
@@ -117,6 +120,13 @@ export const approveBatchRoute = asyncHandler(async (req: Request, res: Response
 
   const result = await approvePendingEdges(db, data.edgeIds);
 
+  await recordAuditEvent(req, {
+    operation: "graph.edge.approve",
+    targetIds: data.edgeIds,
+    count: result.applied,
+    details: { failed: result.failed },
+  });
+
   res.json({
     success: true,
     message: `${result.applied} edges approved, ${result.failed} failed`,
@@ -228,7 +238,7 @@ export const createEdgeRoute = asyncHandler(async (req: Request, res: Response):
   const collection = db.collection(COLLECTION_MEMORIES);
 
   // Verify both memories exist
-  const source = await collection.findOne({ _id: new ObjectId(data.sourceId) as any }, { projection: { _id: 1 } });
+  const source = await collection.findOne({ _id: new ObjectId(data.sourceId) as any }, { projection: { agentId: 1 } });
   const target = await collection.findOne({ _id: new ObjectId(data.targetId) as any }, { projection: { _id: 1 } });
 
   if (!source) {
@@ -273,6 +283,13 @@ export const createEdgeRoute = asyncHandler(async (req: Request, res: Response):
     bidirectional = true;
   }
 
+  await recordAuditEvent(req, {
+    operation: "graph.edge.create",
+    agentId: source.agentId,
+    targetIds: [data.sourceId, data.targetId],
+    details: { edgeType: data.edgeType, weight: data.weight, bidirectional },
+  });
+
   res.json({
     success: true,
     message: `Edge ${data.edgeType} created${bidirectional ? " (bidirectional)" : ""}`,
@@ -1,5 +1,9 @@
 import { Request, Response } from "express";
 import { MongoClient } from "mongodb";
+import type { Embedder } from "../embedders/base";
+import { countEmbeddingsByModel } from "../embedders";
+import type { CircuitState } from "../embedders/resilience";
+import { getEmbeddingQueueCounts } from "../services/embeddingQueue";
 
 export interface HealthStatus {
   status: "healthy" | "degraded" | "unhealthy";
@@ -21,6 +25,23 @@ export interface HealthStatus {
     mode: "mock" | "real";
     endpoint: string;
   };
+  embedder?: {
+    provider: string;
+    model: string;
+    dimensions: number;
+    mode: "mock" | "real";
+    /** null for providers without network calls (local) */
+    circuit: CircuitState | null;
+    inFlight: number;
+    queued: number;
+    /** Memories waiting for the background embedding queue */
+    pendingEmbeddings?: number;
+    failedEmbeddings?: number;
+    /** Embedded memories per embeddingModel */
+    embeddingModels?: Record<string, number>;
+    /** Memories embedded with another model — excluded from recall until re-embedded */
+    staleEmbeddings?: number;
+  };
   system: {
     nodeVersion: string;
     platform: string;
@@ -30,6 +51,7 @@ export interface HealthStatus {
     mongodb: boolean;
     voyage: boolean;
     memory: boolean;
+    embedderCircuit: boolean;
   };
 }
 
@@ -41,12 +63,15 @@ export const healthRoute = async (req: Request, res: Response) => {
     const voyageApiKey: string = req.app.locals.voyageApiKey;
     const voyageBaseUrl: string | undefined = req.app.locals.voyageBaseUrl;
     const useMock = process.env.VOYAGE_MOCK === "true";
+    const embedder: Embedder | undefined = req.app.locals.embedder;
 
     // 1. Check MongoDB
     let mongoHealthy = false;
     let mongoResponseTime = 0;
     let memoriesCount = 0;
     let mongoError: string | undefined;
+    let embeddingQueue: { pending: number; failed: number } | undefined;
+    let embeddingModels: Record<string, number> | undefined;
 
     try {
       const checkStart = Date.now();
@@ -59,6 +84,8 @@ export const healthRoute = async (req: Request, res: Response) => {
 
       // Get memory count
       memoriesCount = await collection.countDocuments();
+      embeddingQueue = await getEmbeddingQueueCounts(db);
+      embeddingModels = await countEmbeddingsByModel(db);
       mongoHealthy = true;
     } catch (error) {
       mongoError = `MongoDB check failed: ${String(error)}`;
@@ -70,14 +97,25 @@ export const healthRoute = async (req: Request, res: Response) => {
     const voyageMode = useMock ? "mock" : "real";
     const voyageEndpoint = voyageBaseUrl || "https://api.voyageai.com/v1";
 
-    // 3. Get memory stats
+    // 3. Embedder circuit breaker (open = provider is failing, writes/recall will fail fast)
+    const resilience = embedder?.getResilienceState() ?? null;
+    const circuitClosed = resilience?.circuit.state !== "open";
+
+    const staleEmbeddings =
+      embedder && embeddingModels
+        ? Object.entries(embeddingModels)
+            .filter(([model]) => model !== embedder.getModel())
+            .reduce((sum, [, count]) => sum + count, 0)
+        : undefined;
+
+    // 4. Get memory stats
     const memUsage = process.memoryUsage();
 
-    // 4. Determine overall status
-    const allChecksPass = mongoHealthy && voyageConfigured;
+    // 5. Determine overall status
+    const allChecksPass = mongoHealthy && voyageConfigured && circuitClosed;
     const overallStatus: HealthStatus["status"] = allChecksPass
       ? "healthy"
-      : mongoHealthy && !voyageConfigured
+      : mongoHealthy
         ? "degraded"
         : "unhealthy";
 
@@ -101,6 +139,21 @@ export const healthRoute = async (req: Request, res: Response) => {
         mode: voyageMode,
         endpoint: voyageEndpoint,
       },
+      embedder: embedder
+        ? {
+            provider: embedder.provider,
+            model: embedder.getModel(),
+            dimensions: embedder.getDimensions(),
+            mode: embedder.isMockMode() ? "mock" : "real",
+            circuit: resilience?.circuit ?? null,
+            inFlight: resilience?.inFlight ?? 0,
+            queued: resilience?.queued ?? 0,
+            pendingEmbeddings: embeddingQueue?.pending,
+            failedEmbeddings: embeddingQueue?.failed,
+            embeddingModels,
+            staleEmbeddings,
+          }
+        : undefined,
       system: {
         nodeVersion: process.version,
         platform: process.platform,
@@ -110,6 +163,7 @@ export const healthRoute = async (req: Request, res: Response) => {
         mongodb: mongoHealthy,
         voyage: voyageConfigured,
         memory: memUsage.heapUsed / memUsage.heapTotal < 0.9, // Healthy if <90% heap used
+        embedderCircuit: circuitClosed,
       },
     };
 
@@ -0,0 +1,73 @@
+import { Request, Response } from "express";
+import readline from "readline";
+import { z } from "zod";
+import { Db } from "mongodb";
+import { asyncHandler } from "../middleware/asyncHandler";
+import type { Embedder } from "../embedders";
+import { recordAuditEvent } from "../services/auditLog";
+import { ArchiveFormatError, importArchive, type ImportResult } from "../services/archiveService";
+
+const ImportSchema = z.object({
+  replace: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+/**
+ * POST /import
+ *
+ * Import an NDJSON archive from GET /export?format=ndjson. The body is read
+ * as a stream (Content-Type: application/x-ndjson), so archives aren't
+ * limited by the JSON body size.
+ */
+export const importRoute = asyncHandler(async (req: Request, res: Response) => {
+  const data = ImportSchema.parse(req.query);
+
+  const db: Db = req.app.locals.db;
+  const embedder: Embedder = req.app.locals.embedder;
+
+  const lines = readline.createInterface({ input: req, crlfDelay: Infinity });
+
+  let result: ImportResult;
+  try {
+    result = await importArchive(db, embedder, lines, { replace: data.replace });
+  } catch (error) {
+    if (error instanceof ArchiveFormatError) {
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+    throw error;
+  } finally {
+    lines.close();
+  }
+
+  const written = Object.values(result.counts).reduce(
+    (sum, count) => sum + count.inserted + count.updated,
+    0,
+  );
+  await recordAuditEvent(req, {
+    operation: "archive.import",
+    agentId: result.manifest.agentId,
+    count: written,
+    details: {
+      replace: data.replace,
+      complete: result.complete,
+      exportedAt: result.manifest.exportedAt,
+    },
+  });
+
+  res.json({
+    success: result.complete && result.errors.length === 0,
+    complete: result.complete,
+    reusedEmbeddings: result.reusedEmbeddings,
+    archive: {
+      exportedAt: result.manifest.exportedAt,
+      agentId: result.manifest.agentId,
+      projectId: result.manifest.projectId,
+      embedding: result.manifest.embedding,
+    },
+    counts: result.counts,
+    errors: result.errors,
+  });
+});
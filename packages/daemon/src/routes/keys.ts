@@ -0,0 +1,143 @@
+/**
+ * API Key Routes
+ *
+ * Create, list and revoke scoped API keys. All routes need an admin key
+ * that covers every agent (or MEMORY_API_KEY).
+ */
+
+import { Request, Response } from "express";
+import { z } from "zod";
+import { Db, ObjectId } from "mongodb";
+import { asyncHandler } from "../middleware/asyncHandler";
+import type { ApiKey } from "../types/index";
+import {
+  createApiKey,
+  currentApiKey,
+  exceedsScope,
+  listApiKeys,
+  revokeApiKey,
+} from "../services/apiKeyService";
+import { recordAuditEvent } from "../services/auditLog";
+
+const CreateKeySchema = z.object({
+  name: z.string().min(1).max(200),
+  agents: z.array(z.string().min(1).max(200)).min(1).default(["*"]),
+  projects: z.array(z.string().min(1).max(200)).min(1).default(["*"]),
+  capabilities: z
+    .array(z.enum(["read", "write", "admin", "reflect"]))
+    .min(1)
+    .default(["read", "write"]),
+});
+
+const ListKeysSchema = z.object({
+  includeRevoked: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+function formatKey(key: ApiKey) {
+  return {
+    id: key._id!.toString(),
+    name: key.name,
+    prefix: key.prefix,
+    agents: key.agents,
+    projects: key.projects,
+    capabilities: key.capabilities,
+    createdAt: key.createdAt,
+    createdBy: key.createdBy,
+    lastUsedAt: key.lastUsedAt ?? null,
+    revokedAt: key.revokedAt ?? null,
+  };
+}
+
+/**
+ * POST /keys
+ *
+ * Create a key. The plaintext key is only ever returned here. A key can't
+ * grant more than the key that creates it.
+ */
+export const createKeyRoute = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const data = CreateKeySchema.parse(req.body);
+  const db: Db = req.app.locals.db;
+
+  const caller = currentApiKey();
+  const excess = caller ? exceedsScope(caller, data) : null;
+  if (excess) {
+    res.status(403).json({
+      success: false,
+      error: `API key "${caller!.name}" can't create a key with ${excess}`,
+    });
+    return;
+  }
+
+  const { key, record } = await createApiKey(db, {
+    name: data.name,
+    agents: data.agents,
+    projects: data.projects,
+    capabilities: data.capabilities,
+    createdBy: currentApiKey()?.name ?? "anonymous",
+  });
+
+  await recordAuditEvent(req, {
+    operation: "key.create",
+    targetIds: [record._id!.toString()],
+    details: {
+      name: record.name,
+      agents: record.agents,
+      projects: record.projects,
+      capabilities: record.capabilities,
+    },
+  });
+
+  res.status(201).json({
+    success: true,
+    message: "Store this key now — it can't be shown again",
+    key,
+    apiKey: formatKey(record),
+  });
+});
+
+/**
+ * GET /keys
+ *
+ * List keys (never the key itself). Revoked keys with ?includeRevoked=true.
+ */
+export const listKeysRoute = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { includeRevoked } = ListKeysSchema.parse(req.query);
+  const db: Db = req.app.locals.db;
+
+  const keys = await listApiKeys(db, includeRevoked);
+
+  res.json({ success: true, count: keys.length, keys: keys.map(formatKey) });
+});
+
+/**
+ * DELETE /keys/:id
+ *
+ * Revoke a key. It stops working immediately on this daemon.
+ */
+export const revokeKeyRoute = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  if (!ObjectId.isValid(id)) {
+    res.status(400).json({ success: false, error: "Invalid key ID" });
+    return;
+  }
+
+  const db: Db = req.app.locals.db;
+  const revoked = await revokeApiKey(db, id);
+
+  if (!revoked) {
+    res.status(404).json({ success: false, error: "Key not found or already revoked" });
+    return;
+  }
+
+  await recordAuditEvent(req, {
+    operation: "key.revoke",
+    targetIds: [id],
+    details: { name: revoked.name },
+  });
+
+  res.json({ success: true, apiKey: formatKey(revoked) });
+});
@@ -3,6 +3,15 @@ import { z } from "zod";
 import { Db, ObjectId } from "mongodb";
 import { asyncHandler } from "../middleware/asyncHandler";
 import { COLLECTION_MEMORIES } from "../constants";
+import type { Embedder } from "../embedders";
+import { reinforceMemory } from "../services/reinforcementService";
+import {
+  getMemoryHistory,
+  MemoryVersionConflictError,
+  revertMemory,
+  updateMemory,
+  type MemoryEditResult,
+} from "../services/memoryEditService";
 
 const MemoriesSchema = z.object({
   agentId: z.string().min(1),
@@ -44,7 +53,7 @@ export const memoriesRoute = asyncHandler(async (req: Request, res: Response) =>
 
   const sortDir = data.sort === "desc" ? -1 : 1;
   const memories = await collection
-    .find(filter, { projection: { embedding: 0 } })
+    .find(filter, { projection: { embedding: 0, shadowEmbedding: 0 } })
     .sort({ createdAt: sortDir, _id: sortDir })
     .limit(data.limit + 1)
     .toArray();
@@ -78,6 +87,204 @@ export const memoriesRoute = asyncHandler(async (req: Request, res: Response) =>
       layer: doc.layer || null,
       memoryType: doc.memoryType || null,
       confidence: doc.confidence ?? null,
+      embeddingStatus: doc.embeddingStatus ?? "ready",
+      version: doc.version ?? 1,
     })),
   });
 });
+
+/**
+ * POST /memories/:id/reinforce
+ *
+ * Mark a memory as recalled and used: restores strength, raises confidence
+ * and bumps reinforcementCount / lastReinforcedAt.
+ */
+export const reinforceMemoryRoute = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!ObjectId.isValid(id)) {
+    res.status(400).json({ success: false, error: "Invalid memory ID" });
+    return;
+  }
+
+  const db: Db = req.app.locals.db;
+  const result = await reinforceMemory(db, id);
+
+  if (!result) {
+    res.status(404).json({ success: false, error: "Memory not found" });
+    return;
+  }
+
+  res.json({ success: true, ...result });
+});
+
+const EditAuthorSchema = z.object({
+  /** Who is making the change (defaults to "api") */
+  changedBy: z.string().min(1).max(200).default("api"),
+  reason: z.string().max(1000).optional(),
+});
+
+const UpdateMemorySchema = EditAuthorSchema.extend({
+  text: z.string().min(1).max(50000).optional(),
+  tags: z.array(z.string().max(100)).max(50).optional(),
+  metadata: z.record(z.unknown()).optional(),
+  memoryType: z
+    .enum(["fact", "preference", "decision", "observation", "episode", "opinion"])
+    .optional(),
+  layer: z.enum(["working", "episodic", "semantic", "archival"]).optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  /** Only apply if the memory is still at this version */
+  version: z.number().int().positive().optional(),
+});
+
+const RevertMemorySchema = EditAuthorSchema.extend({
+  version: z.number().int().positive(),
+});
+
+function sendEditResult(res: Response, result: MemoryEditResult) {
+  res.json({
+    success: true,
+    ...result,
+    contradictions: result.contradictions.map((c) => ({
+      ...c,
+      memoryId: c.memoryId.toString(),
+    })),
+  });
+}
+
+function sendConflict(res: Response, error: MemoryVersionConflictError) {
+  res.status(409).json({
+    success: false,
+    error: error.message,
+    currentVersion: error.currentVersion,
+  });
+}
+
+/**
+ * PATCH /memories/:id
+ *
+ * Edit a memory. A text change re-embeds it and reruns contradiction
+ * detection; the previous state is kept in memory_versions.
+ */
+export const updateMemoryRoute = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!ObjectId.isValid(id)) {
+    res.status(400).json({ success: false, error: "Invalid memory ID" });
+    return;
+  }
+
+  const { changedBy, reason, version, ...changes } = UpdateMemorySchema.parse(req.body);
+  if (Object.values(changes).every((value) => value === undefined)) {
+    res.status(400).json({ success: false, error: "Nothing to update" });
+    return;
+  }
+
+  const db: Db = req.app.locals.db;
+  const embedder: Embedder = req.app.locals.embedder;
+
+  try {
+    const result = await updateMemory(db, embedder, id, changes, {
+      changedBy,
+      reason,
+      expectedVersion: version,
+      usageTracker: req.app.locals.usageTracker,
+      daemonConfig: req.app.locals.config,
+    });
+    if (!result) {
+      res.status(404).json({ success: false, error: "Memory not found" });
+      return;
+    }
+    sendEditResult(res, result);
+  } catch (error) {
+    if (error instanceof MemoryVersionConflictError) {
+      sendConflict(res, error);
+      return;
+    }
+    throw error;
+  }
+});
+
+/**
+ * GET /memories/:id/history
+ *
+ * Prior versions of a memory, newest first. The current state is
+ * version `currentVersion` and is not included.
+ */
+export const memoryHistoryRoute = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!ObjectId.isValid(id)) {
+    res.status(400).json({ success: false, error: "Invalid memory ID" });
+    return;
+  }
+
+  const db: Db = req.app.locals.db;
+  const memory = await db
+    .collection(COLLECTION_MEMORIES)
+    .findOne({ _id: new ObjectId(id) }, { projection: { version: 1 } });
+  if (!memory) {
+    res.status(404).json({ success: false, error: "Memory not found" });
+    return;
+  }
+
+  const versions = await getMemoryHistory(db, id);
+
+  res.json({
+    success: true,
+    id,
+    currentVersion: memory.version ?? 1,
+    count: versions.length,
+    versions: versions.map((v) => ({
+      version: v.version,
+      text: v.text,
+      tags: v.tags,
+      metadata: v.metadata,
+      memoryType: v.memoryType ?? null,
+      layer: v.layer ?? null,
+      confidence: v.confidence ?? null,
+      supersededAt: v.supersededAt,
+      changedBy: v.changedBy,
+      reason: v.reason ?? null,
+      change: v.change,
+    })),
+  });
+});
+
+/**
+ * POST /memories/:id/revert
+ *
+ * Restore an earlier version's content (recorded as a new version)
+ */
+export const revertMemoryRoute = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!ObjectId.isValid(id)) {
+    res.status(400).json({ success: false, error: "Invalid memory ID" });
+    return;
+  }
+
+  const { changedBy, reason, version } = RevertMemorySchema.parse(req.body);
+  const db: Db = req.app.locals.db;
+  const embedder: Embedder = req.app.locals.embedder;
+
+  try {
+    const result = await revertMemory(db, embedder, id, version, {
+      changedBy,
+      reason,
+      usageTracker: req.app.locals.usageTracker,
+      daemonConfig: req.app.locals.config,
+    });
+    if (!result) {
+      res.status(404).json({ success: false, error: "Memory or version not found" });
+      return;
+    }
+    sendEditResult(res, result);
+  } catch (error) {
+    if (error instanceof MemoryVersionConflictError) {
+      sendConflict(res, error);
+      return;
+    }
+    throw error;
+  }
+});
@@ -2,7 +2,8 @@ import { Request, Response } from "express";
 import { z } from "zod";
 import { Db } from "mongodb";
 import { asyncHandler } from "../middleware/asyncHandler";
-import { COLLECTION_MEMORIES } from "../constants";
+import { recordAuditEvent } from "../services/auditLog";
+import { trashMemories } from "../services/trashService";
 
 const PurgeSchema = z.object({
   agentId: z.string().min(1),
@@ -13,17 +14,26 @@ export const purgeRoute = asyncHandler(async (req: Request, res: Response) => {
   const data = PurgeSchema.parse(req.body);
 
   const db: Db = req.app.locals.db;
-  const collection = db.collection(COLLECTION_MEMORIES);
+  const trashed = await trashMemories(
+    db,
+    { agentId: data.agentId, createdAt: { $lt: new Date(data.olderThan) } },
+    "purge",
+    req.app.locals.config?.trashRetentionDays,
+  );
 
-  const result = await collection.deleteMany({
+  await recordAuditEvent(req, {
+    operation: "memory.purge",
     agentId: data.agentId,
-    createdAt: { $lt: new Date(data.olderThan) },
+    count: trashed.count,
+    details: { olderThan: data.olderThan, trashOperationId: trashed.operationId },
   });
 
   res.json({
     success: true,
     agentId: data.agentId,
     olderThan: data.olderThan,
-    deleted: result.deletedCount,
+    deleted: trashed.count,
+    operationId: trashed.operationId,
+    purgeAfter: trashed.purgeAfter,
   });
 });
@@ -1,10 +1,21 @@
 import { Request, Response } from "express";
 import { z } from "zod";
-import { Collection, Db } from "mongodb";
-import { VoyageEmbedder } from "../embedding";
+import { Collection, Db, Document } from "mongodb";
+import { VoyageEmbedder, type Embedder } from "../embedding";
 import { asyncHandler } from "../middleware/asyncHandler";
 import { COLLECTION_MEMORIES, MAX_RECALL_LIMIT } from "../constants";
 import type { UsageTracker } from "../services/usageTracker";
+import { RecallCandidate, reciprocalRankFusion, textSearchRecall } from "../services/hybridRecall";
+import { scoreRecallCandidate } from "../services/recallRanking";
+import { getRecallRanking } from "../services/settingsService";
+import { reinforceMemories } from "../services/reinforcementService";
+import {
+  GRAPH_RECALL_EDGE_TYPES,
+  dropSuperseded,
+  expandRecallAlongGraph,
+} from "../services/graphRecall";
+import { boostEntityMentions, linkQueryEntities } from "../services/entityService";
+import type { ResolvedRecallRanking } from "../types/settings";
 
 const RecallSchema = z.object({
   agentId: z.string().min(1),
@@ -12,22 +23,79 @@ const RecallSchema = z.object({
   query: z.string().min(1),
   limit: z.coerce.number().int().positive().max(MAX_RECALL_LIMIT).default(10),
   tags: z.string().optional(), // comma-separated
+  mode: z.enum(["vector", "hybrid"]).default("vector"),
+  reinforce: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((v) => v === "true"),
+  graph: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((v) => v === "true"),
+  graphHops: z.coerce.number().int().min(1).max(2).default(1),
+  graphEdgeTypes: z
+    .string()
+    .default(GRAPH_RECALL_EDGE_TYPES.join(","))
+    .transform((v) => v.split(",").map((t) => t.trim()))
+    .pipe(z.array(z.enum(GRAPH_RECALL_EDGE_TYPES)).min(1)),
+  entities: z.enum(["off", "boost", "filter"]).default("off"),
+  includeSuperseded: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((v) => v === "true"),
 });
 
+const IN_MEMORY_CAP = 10000;
+
+/** Each source contributes this many candidates per requested result in hybrid mode */
+const HYBRID_CANDIDATE_MULTIPLIER = 4;
+const HYBRID_MIN_CANDIDATES = 50;
+
+/** Over-fetch from $vectorSearch so re-ranking can promote hits beyond the raw top-k */
+const RERANK_CANDIDATE_MULTIPLIER = 3;
+
+/** Over-fetch so hiding superseded memories still fills `limit` */
+const SUPERSEDED_CANDIDATE_MULTIPLIER = 2;
+
 /**
  * Recall uses MongoDB Atlas Vector Search ($vectorSearch aggregation)
  * when the index exists, otherwise falls back to in-memory cosine similarity
  * with a hard cap to prevent OOM.
+ *
+ * With mode=hybrid, vector hits are fused with $text hits from the memories
+ * text index via reciprocal-rank fusion (see services/hybridRecall.ts).
+ *
+ * Vector hits are re-ranked by the agent's recallRanking settings (strength,
+ * confidence, recency, layer boosts); each result carries a scoreBreakdown.
+ *
+ * Memories another memory SUPERSEDES (e.g. the losing side of a resolved
+ * conflict) are hidden unless includeSuperseded=true.
+ *
+ * With graph=true, hits are expanded graphHops (1-2) hops along
+ * graphEdgeTypes (see services/graphRecall.ts); expanded results carry the
+ * path that reached them.
+ *
+ * With entities=boost|filter, entities the query names (or whose summary it
+ * is close to) are linked, and hits that mention them via MENTIONS_ENTITY
+ * edges are boosted, or are the only ones searched (see
+ * services/entityService.ts).
+ *
+ * With reinforce=true, returned hits are reinforced after scoring (opt-in,
+ * since a plain search doesn't mean the memory was actually used).
+ *
+ * Vector hits are limited to memories embedded with the live model
+ * (embeddingModel) — cosine scores across models are meaningless.
  */
 export const recallRoute = asyncHandler(async (req: Request, res: Response) => {
   const data = RecallSchema.parse(req.query);
 
   const db: Db = req.app.locals.db;
-  const embedder: VoyageEmbedder = req.app.locals.embedder;
+  const embedder: Embedder = req.app.locals.embedder;
   const usageTracker: UsageTracker | undefined = req.app.locals.usageTracker;
   const collection = db.collection(COLLECTION_MEMORIES);
 
   // Track token usage for the query embedding
+  const embeddingModel = embedder.getModel();
   usageTracker?.pushContext({ operation: "recall", agentId: data.agentId });
   let queryEmbedding: number[];
   try {
@@ -36,29 +104,162 @@ export const recallRoute = asyncHandler(async (req: Request, res: Response) => {
     usageTracker?.popContext();
   }
 
+  const ranking = await getRecallRanking(db, data.agentId);
+
   // Build pre-filter
   const filter: Record<string, unknown> = { agentId: data.agentId };
   if (data.projectId) filter.projectId = data.projectId;
+  // Graph expansion may leave the tag filter, not the agent or project
+  const graphScope = { ...filter };
   if (data.tags) {
     const tagArray = data.tags.split(",").map((t) => t.trim());
     filter.tags = { $in: tagArray };
   }
 
+  const linkedEntities =
+    data.entities === "off"
+      ? undefined
+      : await linkQueryEntities(db, data.agentId, data.query, queryEmbedding);
+  const entitySlugs = linkedEntities?.map((e) => e.slug) ?? [];
+  // Without linked entities, filter mode is plain recall
+  if (data.entities === "filter" && entitySlugs.length > 0) {
+    filter["edges.targetId"] = { $in: entitySlugs };
+  }
+
+  // Graph expansion hides superseded memories itself
+  const hideSuperseded = !data.includeSuperseded && !data.graph;
+  const resultLimit = hideSuperseded ? data.limit * SUPERSEDED_CANDIDATE_MULTIPLIER : data.limit;
+
+  if (data.mode === "hybrid") {
+    const candidateLimit = Math.max(
+      data.limit * HYBRID_CANDIDATE_MULTIPLIER,
+      HYBRID_MIN_CANDIDATES,
+    );
+    const [vector, textHits] = await Promise.all([
+      vectorRecall(
+        collection,
+        queryEmbedding,
+        { ...filter, embeddingModel },
+        candidateLimit,
+        ranking,
+        embedder.isMockMode(),
+      ),
+      textSearchRecall(collection, data.query, filter, candidateLimit),
+    ]);
+    let fused = reciprocalRankFusion(vector.results, textHits, resultLimit);
+    if (data.entities === "boost") {
+      fused = await boostEntityMentions(db, fused, entitySlugs);
+    }
+    const graph = data.graph
+      ? await expandRecallAlongGraph(collection, fused, {
+          edgeTypes: data.graphEdgeTypes,
+          hops: data.graphHops,
+          scope: graphScope,
+          limit: data.limit,
+          includeSuperseded: data.includeSuperseded,
+        })
+      : null;
+    const visible = hideSuperseded
+      ? await dropSuperseded(collection, fused, graphScope, data.limit)
+      : null;
+    const results = graph ? graph.results : (visible?.results ?? fused);
+    const reinforced = data.reinforce
+      ? await reinforceMemories(
+          db,
+          results.map((r) => r.id),
+        )
+      : undefined;
+
+    res.json({
+      success: true,
+      query: data.query,
+      results,
+      count: results.length,
+      method: "hybrid",
+      vectorMethod: vector.method,
+      graph: graph ? { expanded: graph.expanded, suppressed: graph.suppressed } : undefined,
+      superseded: data.includeSuperseded ? undefined : (graph?.suppressed ?? visible?.suppressed),
+      entities: linkedEntities,
+      reinforced,
+    });
+    return;
+  }
+
+  const vector = await vectorRecall(
+    collection,
+    queryEmbedding,
+    { ...filter, embeddingModel },
+    resultLimit,
+    ranking,
+    embedder.isMockMode(),
+  );
+  const hits =
+    data.entities === "boost"
+      ? await boostEntityMentions(db, vector.results, entitySlugs)
+      : vector.results;
+  const graph = data.graph
+    ? await expandRecallAlongGraph(collection, hits, {
+        edgeTypes: data.graphEdgeTypes,
+        hops: data.graphHops,
+        scope: graphScope,
+        limit: data.limit,
+        includeSuperseded: data.includeSuperseded,
+      })
+    : null;
+  const visible = hideSuperseded
+    ? await dropSuperseded(collection, hits, graphScope, data.limit)
+    : null;
+  const results = graph ? graph.results : (visible?.results ?? hits);
+  const reinforced = data.reinforce
+    ? await reinforceMemories(
+        db,
+        results.map((r) => r.id),
+      )
+    : undefined;
+
+  res.json({
+    success: true,
+    query: data.query,
+    results,
+    count: results.length,
+    method: vector.method,
+    graph: graph ? { expanded: graph.expanded, suppressed: graph.suppressed } : undefined,
+    superseded: data.includeSuperseded ? undefined : (graph?.suppressed ?? visible?.suppressed),
+    entities: linkedEntities,
+    reinforced,
+  });
+});
+
+/**
+ * Rank memories by embedding similarity, re-ranked by recallRanking.
+ * Tries Atlas Vector Search first, then the capped in-memory scan.
+ */
+async function vectorRecall(
+  collection: Collection,
+  queryEmbedding: number[],
+  filter: Record<string, unknown>,
+  limit: number,
+  ranking: ResolvedRecallRanking,
+  isMock: boolean,
+): Promise<{ results: RecallCandidate[]; method: "vector_search" | "in_memory" }> {
+  const now = Date.now();
+
   // Try Atlas Vector Search first (skip in mock mode — mock embeddings
   // don't produce meaningful results through ANN indexes)
-  const isMock = process.env.VOYAGE_MOCK === "true";
   if (!isMock) {
     try {
-      const results = await vectorSearchRecall(collection, queryEmbedding, filter, data.limit);
-      if (results.length > 0) {
-        res.json({
-          success: true,
-          query: data.query,
-          results,
-          count: results.length,
-          method: "vector_search",
-        });
-        return;
+      const candidates = await vectorSearchRecall(
+        collection,
+        queryEmbedding,
+        filter,
+        limit * RERANK_CANDIDATE_MULTIPLIER,
+      );
+      if (candidates.length > 0) {
+        const results = candidates
+          .map((doc) => toCandidate(doc, doc.score as number, ranking, now))
+          .sort((a, b) => b.score - a.score)
+          .slice(0, limit);
+        return { results, method: "vector_search" };
       }
       // 0 results from vector search — fall through to in-memory
     } catch {
@@ -67,61 +268,74 @@ export const recallRoute = asyncHandler(async (req: Request, res: Response) => {
     }
   }
 
-  // Fallback: in-memory cosine similarity with streaming cursor + hard cap
-  const IN_MEMORY_CAP = 10000;
-  const cursor = collection.find(filter, {
-    projection: {
-      embedding: 1,
-      text: 1,
-      tags: 1,
-      metadata: 1,
-      createdAt: 1,
-      layer: 1,
-      memoryType: 1,
-      confidence: 1,
+  // Fallback: in-memory cosine similarity with streaming cursor + hard cap.
+  // Pending memories (async /remember) have no vector yet and are skipped.
+  const cursor = collection.find(
+    { ...filter, embedding: { $exists: true } },
+    {
+      projection: {
+        embedding: 1,
+        text: 1,
+        tags: 1,
+        metadata: 1,
+        createdAt: 1,
+        layer: 1,
+        memoryType: 1,
+        confidence: 1,
+        strength: 1,
+        lastReinforcedAt: 1,
+      },
+      sort: { createdAt: -1 },
+      limit: IN_MEMORY_CAP,
     },
-    sort: { createdAt: -1 },
-    limit: IN_MEMORY_CAP,
-  });
+  );
 
-  const scored: Array<{
-    id: string;
-    text: string;
-    score: number;
-    tags: string[];
-    metadata: Record<string, unknown>;
-    createdAt: Date;
-    layer: string | null;
-    memoryType: string | null;
-    confidence: number | null;
-  }> = [];
+  const scored: RecallCandidate[] = [];
 
   for await (const doc of cursor) {
-    const score = VoyageEmbedder.cosineSimilarity(queryEmbedding, doc.embedding as number[]);
-    scored.push({
-      id: doc._id.toString(),
-      text: doc.text,
-      tags: doc.tags,
-      metadata: doc.metadata,
-      createdAt: doc.createdAt,
-      score,
-      layer: doc.layer || null,
-      memoryType: doc.memoryType || null,
-      confidence: doc.confidence ?? null,
-    });
+    const similarity = VoyageEmbedder.cosineSimilarity(queryEmbedding, doc.embedding as number[]);
+    scored.push(toCandidate(doc, similarity, ranking, now));
   }
 
   scored.sort((a, b) => b.score - a.score);
-  const results = scored.slice(0, data.limit);
+  return { results: scored.slice(0, limit), method: "in_memory" };
+}
 
-  res.json({
-    success: true,
-    query: data.query,
-    results,
-    count: results.length,
-    method: "in_memory",
-  });
-});
+/**
+ * Build a recall result from a memory document, scored by recallRanking.
+ */
+function toCandidate(
+  doc: Document,
+  similarity: number,
+  ranking: ResolvedRecallRanking,
+  now: number,
+): RecallCandidate {
+  const scoreBreakdown = scoreRecallCandidate(
+    {
+      similarity,
+      strength: doc.strength,
+      confidence: doc.confidence,
+      layer: doc.layer,
+      createdAt: doc.createdAt,
+      lastReinforcedAt: doc.lastReinforcedAt,
+    },
+    ranking,
+    now,
+  );
+
+  return {
+    id: doc._id.toString(),
+    text: doc.text,
+    tags: doc.tags,
+    metadata: doc.metadata,
+    createdAt: doc.createdAt,
+    score: scoreBreakdown.final,
+    layer: doc.layer || null,
+    memoryType: doc.memoryType || null,
+    confidence: doc.confidence ?? null,
+    scoreBreakdown,
+  };
+}
 
 /**
  * Atlas Vector Search via $vectorSearch aggregation.
@@ -132,7 +346,7 @@ async function vectorSearchRecall(
   queryEmbedding: number[],
   filter: Record<string, unknown>,
   limit: number,
-) {
+): Promise<Document[]> {
   const pipeline = [
     {
       $vectorSearch: {
@@ -154,22 +368,12 @@ async function vectorSearchRecall(
         layer: 1,
         memoryType: 1,
         confidence: 1,
+        strength: 1,
+        lastReinforcedAt: 1,
         score: { $meta: "vectorSearchScore" },
       },
     },
   ];
 
-  const docs = await collection.aggregate(pipeline).toArray();
-
-  return docs.map((doc) => ({
-    id: doc._id.toString(),
-    text: doc.text,
-    tags: doc.tags,
-    metadata: doc.metadata,
-    createdAt: doc.createdAt,
-    score: doc.score as number,
-    layer: doc.layer || null,
-    memoryType: doc.memoryType || null,
-    confidence: doc.confidence ?? null,
-  }));
+  return collection.aggregate(pipeline).toArray();
 }
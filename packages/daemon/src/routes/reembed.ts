@@ -0,0 +1,248 @@
+/**
+ * Re-embed Migration Routes
+ *
+ * Switch the embedding model while the daemon keeps serving recall.
+ * See services/reembedMigration.ts for the job lifecycle.
+ */
+
+import { Request, Response } from "express";
+import { z } from "zod";
+import { Db } from "mongodb";
+import { asyncHandler } from "../middleware/asyncHandler";
+import { DaemonConfig } from "../config";
+import {
+  createEmbedderForModel,
+  SwitchableEmbedder,
+  withEmbeddingCache,
+  type Embedder,
+} from "../embedders";
+import {
+  abortReembedJob,
+  createReembedJob,
+  cutoverReembedJob,
+  getReembedJob,
+  runReembedJob,
+  type ReembedJob,
+} from "../services/reembedMigration";
+import { recordAuditEvent } from "../services/auditLog";
+
+const StartReembedSchema = z.object({
+  model: z.string().min(1),
+  dimensions: z.coerce.number().int().positive().optional(),
+});
+
+const JobSchema = z.object({
+  jobId: z.string().optional(),
+});
+
+function formatJob(job: ReembedJob) {
+  return {
+    id: job._id!.toString(),
+    fromModel: job.fromModel,
+    targetModel: job.targetModel,
+    provider: job.provider,
+    dimensions: job.dimensions,
+    status: job.status,
+    total: job.total,
+    processed: job.processed,
+    errors: job.errors,
+    progress: job.total > 0 ? Math.min(100, Math.round((job.processed / job.total) * 100)) : 100,
+    createdAt: job.createdAt,
+    readyAt: job.readyAt,
+    completedAt: job.completedAt,
+    error: job.error,
+  };
+}
+
+/**
+ * POST /reembed/start
+ *
+ * Start embedding every memory with `model` into the shadow field
+ */
+export const startReembedRoute = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const data = StartReembedSchema.parse(req.body);
+
+    const db: Db = req.app.locals.db;
+    const config: DaemonConfig = req.app.locals.config;
+    const live: Embedder = req.app.locals.embedder;
+
+    if (data.model === live.getModel()) {
+      res.status(400).json({ success: false, error: `Already using ${data.model}` });
+      return;
+    }
+
+    let target: Embedder;
+    try {
+      target = createEmbedderForModel(config, data.model, data.dimensions);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    // The vector index is built for one dimension — changing it needs a rebuild
+    if (target.getDimensions() !== live.getDimensions()) {
+      res.status(400).json({
+        success: false,
+        error:
+          `${data.model} produces ${target.getDimensions()}-dim vectors but the vector index ` +
+          `expects ${live.getDimensions()}. Pass dimensions=${live.getDimensions()} if the model ` +
+          `supports it, or rebuild the index and use scripts/reembed.ts.`,
+      });
+      return;
+    }
+
+    let job: ReembedJob;
+    try {
+      job = await createReembedJob(db, live.getModel(), target);
+    } catch (error) {
+      res.status(409).json({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    // Runs in the background; progress is on the job document
+    runReembedJob(
+      db,
+      job._id!,
+      withEmbeddingCache(target, db, config),
+      req.app.locals.usageTracker,
+    ).catch((error) => console.error(`[Reembed] Job ${job._id} failed:`, error));
+
+    await recordAuditEvent(req, {
+      operation: "reembed.start",
+      targetIds: [job._id!.toString()],
+      count: job.total,
+      details: { fromModel: job.fromModel, targetModel: job.targetModel },
+    });
+
+    res.status(202).json({
+      success: true,
+      message: `Re-embedding ${job.total} memories with ${job.targetModel}`,
+      job: formatJob(job),
+    });
+  },
+);
+
+/**
+ * GET /reembed/status
+ *
+ * Progress of a job (default: the most recent one)
+ */
+export const reembedStatusRoute = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { jobId } = JobSchema.parse(req.query);
+
+    const db: Db = req.app.locals.db;
+    const job = await getReembedJob(db, jobId);
+
+    if (!job) {
+      res.status(404).json({ success: false, error: "Job not found" });
+      return;
+    }
+
+    res.json({ success: true, job: formatJob(job) });
+  },
+);
+
+/**
+ * POST /reembed/cutover
+ *
+ * Switch recall and writes to a ready job's model and drop the old vectors
+ */
+export const cutoverReembedRoute = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { jobId } = JobSchema.parse(req.body ?? {});
+
+    const db: Db = req.app.locals.db;
+    const config: DaemonConfig = req.app.locals.config;
+    const live = req.app.locals.embedder;
+
+    if (!(live instanceof SwitchableEmbedder)) {
+      res.status(409).json({ success: false, error: "The live embedder can't be switched" });
+      return;
+    }
+
+    const job = await getReembedJob(db, jobId);
+    if (!job) {
+      res.status(404).json({ success: false, error: "Job not found" });
+      return;
+    }
+    if (job.status !== "ready") {
+      res.status(409).json({
+        success: false,
+        error: `Job is ${job.status} — only ready jobs can be cut over`,
+      });
+      return;
+    }
+
+    const next = withEmbeddingCache(
+      createEmbedderForModel(config, job.targetModel, job.dimensions),
+      db,
+      config,
+    );
+    const completed = await cutoverReembedJob(
+      db,
+      job._id!,
+      live,
+      next,
+      req.app.locals.usageTracker,
+    );
+
+    await recordAuditEvent(req, {
+      operation: "reembed.cutover",
+      targetIds: [completed._id!.toString()],
+      count: completed.processed,
+      details: { fromModel: completed.fromModel, targetModel: completed.targetModel },
+    });
+
+    const envVar =
+      config.embeddingProvider === "openai" || config.embeddingProvider === "ollama"
+        ? "EMBEDDING_MODEL"
+        : "VOYAGE_MODEL";
+    res.json({
+      success: true,
+      message: `Now embedding with ${completed.targetModel}`,
+      hint: `The daemon keeps using ${completed.targetModel} after restarts; set ${envVar}=${completed.targetModel} to match`,
+      job: formatJob(completed),
+    });
+  },
+);
+
+/**
+ * POST /reembed/abort
+ *
+ * Stop a running or ready job and remove its shadow vectors
+ */
+export const abortReembedRoute = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { jobId } = JobSchema.parse(req.body ?? {});
+
+    const db: Db = req.app.locals.db;
+    const job = await getReembedJob(db, jobId);
+    if (!job) {
+      res.status(404).json({ success: false, error: "Job not found" });
+      return;
+    }
+
+    try {
+      const aborted = await abortReembedJob(db, job._id!);
+      await recordAuditEvent(req, {
+        operation: "reembed.abort",
+        targetIds: [job._id!.toString()],
+        details: { targetModel: aborted.targetModel },
+      });
+      res.json({ success: true, job: formatJob(aborted) });
+    } catch (error) {
+      res.status(409).json({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  },
+);
@@ -8,12 +8,10 @@ import { Request, Response } from "express";
 import { z } from "zod";
 import { Db } from "mongodb";
 import { asyncHandler } from "../middleware/asyncHandler.js";
-import { VoyageEmbedder } from "../embedding.js";
 import { DaemonConfig } from "../config.js";
-import { createJob, getJob, listJobs } from "../reflection/jobQueue.js";
-import { runPipeline, createWeek4Pipeline } from "../reflection/pipeline.js";
-import { PipelineContext } from "../reflection/types.js";
-import { getResolvedSettings } from "../services/settingsService.js";
+import { createJob, getJob, listJobs, retryJob } from "../reflection/jobQueue.js";
+import { createFullPipeline, planResume } from "../reflection/pipeline.js";
+import { wakeReflectionWorker } from "../reflection/worker.js";
 
 /**
  * POST /reflect
@@ -30,47 +28,60 @@ export const triggerReflectRoute = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
     const data = TriggerReflectSchema.parse(req.body);
 
-    const db: Db = req.app.locals.db;
-    const embedder: VoyageEmbedder = req.app.locals.embedder;
-
-    // Create job
-    const jobId = await createJob(db, data.agentId, data.sessionId, {
-      triggeredBy: "manual",
-      triggeredAt: new Date().toISOString(),
-    });
-
-    // Resolve semantic/LLM settings for this agent
-    const daemonConfig: DaemonConfig = req.app.locals.config;
-    const resolvedSettings = await getResolvedSettings(db, data.agentId, daemonConfig);
-
-    // Build pipeline context (include usageTracker for cost attribution)
-    const context: PipelineContext = {
+    const jobId = await startReflectionJob(req, {
       agentId: data.agentId,
       sessionId: data.sessionId,
-      jobId,
       sessionTranscript: data.sessionTranscript,
-      resolvedSettings,
-      usageTracker: req.app.locals.usageTracker,
-      stats: {},
-    };
-
-    // Run pipeline asynchronously (don't block response)
-    // Use full pipeline (all 9 stages)
-    const { createFullPipeline } = await import("../reflection/pipeline.js");
-    const stages = await createFullPipeline(db, embedder);
-
-    runPipeline(db, jobId, context, stages).catch((error) => {
-      console.error(`[Reflect] Pipeline ${jobId} failed:`, error);
+      triggeredBy: "manual",
     });
 
     res.json({
       success: true,
-      message: "Reflection pipeline started",
+      message: "Reflection job queued",
       jobId,
     });
   },
 );
 
+/**
+ * Queue a reflection job over the session data and wake the worker.
+ * Returns the job ID; the worker (reflection/worker.ts) runs the pipeline.
+ */
+export async function startReflectionJob(
+  req: Request,
+  options: {
+    agentId: string;
+    sessionId?: string;
+    sessionTranscript?: string;
+    sessionStartedAt?: Date;
+    sessionEndedAt?: Date;
+    triggeredBy: string;
+  },
+): Promise<string> {
+  const db: Db = req.app.locals.db;
+  const daemonConfig: DaemonConfig = req.app.locals.config;
+
+  const jobId = await createJob(
+    db,
+    options.agentId,
+    options.sessionId,
+    {
+      triggeredBy: options.triggeredBy,
+      triggeredAt: new Date().toISOString(),
+    },
+    {
+      sessionTranscript: options.sessionTranscript,
+      sessionStartedAt: options.sessionStartedAt,
+      sessionEndedAt: options.sessionEndedAt,
+    },
+    daemonConfig.reflectionJobMaxAttempts,
+  );
+
+  wakeReflectionWorker();
+
+  return jobId;
+}
+
 /**
  * GET /reflect/status
  *
@@ -103,6 +114,11 @@ export const getReflectStatusRoute = asyncHandler(
         createdAt: job.createdAt,
         startedAt: job.startedAt,
         completedAt: job.completedAt,
+        attempts: job.attempts ?? 0,
+        maxAttempts: job.maxAttempts,
+        runAfter: job.runAfter,
+        workerId: job.workerId,
+        resumeFromStage: job.resumeFromStage,
         stages: job.stages,
         error: job.error,
       },
@@ -139,6 +155,7 @@ export const listReflectJobsRoute = asyncHandler(
         createdAt: j.createdAt,
         startedAt: j.startedAt,
         completedAt: j.completedAt,
+        attempts: j.attempts ?? 0,
         stageCount: j.stages.length,
         completedStages: j.stages.filter((s) => s.status === "complete").length,
         error: j.error,
@@ -146,3 +163,81 @@ export const listReflectJobsRoute = asyncHandler(
     });
   },
 );
+
+/**
+ * POST /reflect/jobs/:id/retry?fromStage=classify
+ *
+ * Run a finished job again from one stage, starting from the context saved
+ * after the stage before it. Without fromStage the job resumes at the stage
+ * that failed.
+ */
+const RetryJobQuerySchema = z.object({
+  fromStage: z.string().min(1).optional(),
+});
+
+export const retryReflectJobRoute = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { fromStage: requestedStage } = RetryJobQuerySchema.parse(req.query);
+    const db: Db = req.app.locals.db;
+    const job = await getJob(db, req.params.id);
+
+    if (!job) {
+      res.status(404).json({ success: false, error: "Job not found" });
+      return;
+    }
+    if (job.status === "pending" || job.status === "running") {
+      res
+        .status(409)
+        .json({ success: false, error: `Job is ${job.status}; retry it once it ends` });
+      return;
+    }
+
+    const fromStage =
+      requestedStage ??
+      job.resumeFromStage ??
+      job.stages.find((s) => s.status === "failed" && !s.optional)?.stage;
+    if (!fromStage) {
+      res.status(400).json({
+        success: false,
+        error: "No failed stage to resume at; pass fromStage to rerun a stage",
+      });
+      return;
+    }
+
+    const stages = await createFullPipeline(db, req.app.locals.embedder);
+    const stageNames = stages.map((stage) => stage.name);
+    if (!stageNames.includes(fromStage)) {
+      res.status(400).json({
+        success: false,
+        error: `Unknown stage "${fromStage}". Stages: ${stageNames.join(", ")}`,
+      });
+      return;
+    }
+
+    const plan = planResume(stages, fromStage, job.checkpoints);
+    if (!plan) {
+      const previous = stageNames[stageNames.indexOf(fromStage) - 1];
+      res.status(409).json({
+        success: false,
+        error: `Stage "${previous}" has no checkpoint; retry from an earlier stage`,
+      });
+      return;
+    }
+
+    const laterStages = plan.stages.slice(1).map((stage) => stage.name);
+    const requeued = await retryJob(db, req.params.id, job.status, fromStage, laterStages);
+    if (!requeued) {
+      res.status(409).json({ success: false, error: "Job changed while retrying; try again" });
+      return;
+    }
+
+    wakeReflectionWorker();
+
+    res.json({
+      success: true,
+      message: `Reflection job queued from stage "${fromStage}"`,
+      jobId: req.params.id,
+      fromStage,
+    });
+  },
+);
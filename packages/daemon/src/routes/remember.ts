@@ -1,7 +1,7 @@
 import { Request, Response } from "express";
 import { z } from "zod";
 import { Db } from "mongodb";
-import { VoyageEmbedder } from "../embedding.js";
+import type { Embedder } from "../embedding.js";
 import { asyncHandler } from "../middleware/asyncHandler.js";
 import { COLLECTION_MEMORIES } from "../constants.js";
 import { MemoryType, MemoryLayer } from "../types/index.js";
@@ -10,7 +10,10 @@ import {
   detectContradictions,
   markMemoryAsContradicting,
 } from "../services/contradictionDetector.js";
+import { getResolvedSettings } from "../services/settingsService.js";
 import type { UsageTracker } from "../services/usageTracker.js";
+import { wakeEmbeddingWorker } from "../services/embeddingQueue.js";
+import type { DaemonConfig } from "../config.js";
 
 const RememberSchema = z.object({
   agentId: z.string().min(1),
@@ -28,23 +31,45 @@ const RememberSchema = z.object({
   confidence: z.number().min(0).max(1).optional(),
   sourceSessionId: z.string().optional(),
   sourceEpisodeId: z.string().optional(),
+
+  // Store now, embed + contradiction-check in the background (default: REMEMBER_ASYNC)
+  async: z.boolean().optional(),
 });
 
+/**
+ * POST /remember
+ *
+ * Sync mode embeds and runs the contradiction scan before responding.
+ * Async mode (body `async: true` or REMEMBER_ASYNC=true) persists the memory
+ * with embeddingStatus "pending" and responds 202; the embedding queue
+ * (services/embeddingQueue.ts) finishes the job. A sync write whose embedding
+ * call fails is downgraded to pending instead of failing, so writes keep
+ * succeeding while the provider is down.
+ */
+
 export const rememberRoute = asyncHandler(async (req: Request, res: Response) => {
   const data = RememberSchema.parse(req.body);
 
   const db: Db = req.app.locals.db;
-  const embedder: VoyageEmbedder = req.app.locals.embedder;
+  const embedder: Embedder = req.app.locals.embedder;
   const usageTracker: UsageTracker | undefined = req.app.locals.usageTracker;
+  const config: DaemonConfig | undefined = req.app.locals.config;
   const collection = db.collection(COLLECTION_MEMORIES);
+  const asyncMode = data.async ?? config?.rememberAsync ?? false;
 
   // Track token usage for the embedding call
-  usageTracker?.pushContext({ operation: "remember", agentId: data.agentId });
-  let embedding: number[];
-  try {
-    embedding = await embedder.embedOne(data.text, "document");
-  } finally {
-    usageTracker?.popContext();
+  let embedding: number[] | null = null;
+  let embeddingError: string | undefined;
+  if (!asyncMode) {
+    usageTracker?.pushContext({ operation: "remember", agentId: data.agentId });
+    try {
+      embedding = await embedder.embedOne(data.text, "document");
+    } catch (error) {
+      embeddingError = error instanceof Error ? error.message : String(error);
+      console.warn(`[Remember] Embedding failed, queueing for background retry: ${embeddingError}`);
+    } finally {
+      usageTracker?.popContext();
+    }
   }
 
   const now = new Date();
@@ -54,19 +79,24 @@ export const rememberRoute = asyncHandler(async (req: Request, res: Response) =>
   const confidence = data.confidence ?? getInitialConfidence(memoryType);
   const layer = (data.layer as MemoryLayer | undefined) ?? "episodic";
 
-  // Phase 1: Detect contradictions with existing memories
-  usageTracker?.pushContext({ operation: "contradiction-check", agentId: data.agentId });
-  const contradictions = await detectContradictions(
-    {
-      agentId: data.agentId,
-      text: data.text,
-      tags: data.tags,
-    },
-    embedding,
-    db,
-    embedder,
-  );
-  usageTracker?.popContext();
+  // Phase 1: Detect contradictions with existing memories (pending: done by the queue)
+  let contradictions: Awaited<ReturnType<typeof detectContradictions>> = [];
+  if (embedding) {
+    const settings = config ? await getResolvedSettings(db, data.agentId, config) : undefined;
+    usageTracker?.pushContext({ operation: "contradiction-check", agentId: data.agentId });
+    contradictions = await detectContradictions(
+      {
+        agentId: data.agentId,
+        text: data.text,
+        tags: data.tags,
+      },
+      embedding,
+      db,
+      embedder,
+      settings,
+    );
+    usageTracker?.popContext();
+  }
 
   // Deduplication: Check if identical memory already exists
   const existingMemory = await collection.findOne({
@@ -100,6 +130,7 @@ export const rememberRoute = asyncHandler(async (req: Request, res: Response) =>
       strength: existingMemory.strength ?? DEFAULT_STRENGTH,
       layer: existingMemory.layer ?? layer,
       memoryType: existingMemory.memoryType ?? memoryType ?? "fact",
+      embeddingStatus: existingMemory.embeddingStatus ?? "ready",
       deduplication: true,
       message: "Memory already exists - updated timestamp and merged tags",
     });
@@ -111,7 +142,18 @@ export const rememberRoute = asyncHandler(async (req: Request, res: Response) =>
     agentId: data.agentId,
     projectId: data.projectId || null,
     text: data.text,
-    embedding,
+    ...(embedding
+      ? {
+          embedding,
+          embeddingModel: embedder.getModel(),
+          embeddingDim: embedding.length,
+          embeddingStatus: "ready" as const,
+        }
+      : {
+          embeddingStatus: "pending" as const,
+          embeddingAttempts: 0,
+          ...(embeddingError && { embeddingError }),
+        }),
     tags: data.tags,
     metadata: data.metadata,
     createdAt: now,
@@ -147,7 +189,11 @@ export const rememberRoute = asyncHandler(async (req: Request, res: Response) =>
     await markMemoryAsContradicting(contradiction.memoryId.toString(), newMemoryId, db);
   }
 
-  res.json({
+  if (!embedding) {
+    wakeEmbeddingWorker();
+  }
+
+  res.status(embedding ? 200 : 202).json({
     success: true,
     id: newMemoryId,
     text: data.text,
@@ -157,6 +203,7 @@ export const rememberRoute = asyncHandler(async (req: Request, res: Response) =>
     strength: DEFAULT_STRENGTH,
     layer,
     memoryType: memoryType || "fact",
+    embeddingStatus: doc.embeddingStatus,
     contradictions: contradictions.length > 0 ? contradictions : undefined,
   });
 });
@@ -1,7 +1,7 @@
 import { Request, Response } from "express";
 import { z } from "zod";
 import { Db } from "mongodb";
-import { VoyageEmbedder } from "../embedding";
+import type { Embedder } from "../embedding";
 import { asyncHandler } from "../middleware/asyncHandler";
 import { COLLECTION_MEMORIES } from "../constants";
 import type { UsageTracker } from "../services/usageTracker";
@@ -27,7 +27,7 @@ export const restoreRoute = asyncHandler(async (req: Request, res: Response) =>
   const data = RestoreSchema.parse(req.body);
 
   const db: Db = req.app.locals.db;
-  const embedder: VoyageEmbedder = req.app.locals.embedder;
+  const embedder: Embedder = req.app.locals.embedder;
   const usageTracker: UsageTracker | undefined = req.app.locals.usageTracker;
   const collection = db.collection(COLLECTION_MEMORIES);
 
@@ -52,6 +52,8 @@ export const restoreRoute = asyncHandler(async (req: Request, res: Response) =>
         projectId: data.projectId || null,
         text: memory.text,
         embedding: embeddings[j],
+        embeddingModel: embedder.getModel(),
+        embeddingDim: embeddings[j].length,
         tags: memory.tags,
         metadata: memory.metadata,
         createdAt: memory.createdAt ? new Date(memory.createdAt) : new Date(),
@@ -0,0 +1,56 @@
+/**
+ * Schedule API Routes
+ *
+ * Last and next run times of each agent's scheduled jobs, and running one
+ * now. Schedules themselves are edited through the settings document
+ * (PATCH /settings/:agentId with `schedules`).
+ */
+
+import { Request, Response } from "express";
+import { Db } from "mongodb";
+import { asyncHandler } from "../middleware/asyncHandler";
+import { DaemonConfig } from "../config";
+import { getScheduleStatus, runScheduledJobNow } from "../services/scheduler";
+import { ScheduledJobTypeSchema } from "../types/settings";
+
+/**
+ * GET /schedules/:agentId
+ *
+ * Resolved schedules (agent > _global > defaults) with last and next runs
+ */
+export const getSchedulesRoute = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { agentId } = req.params;
+    const db: Db = req.app.locals.db;
+
+    const schedules = await getScheduleStatus(db, agentId);
+
+    res.json({ success: true, agentId, schedules });
+  },
+);
+
+/**
+ * POST /schedules/:agentId/:jobType/run
+ *
+ * Run a scheduled job now. Its next scheduled run stays as it was.
+ */
+export const runScheduledJobRoute = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { agentId } = req.params;
+    const jobType = ScheduledJobTypeSchema.parse(req.params.jobType);
+    const db: Db = req.app.locals.db;
+    const config: DaemonConfig = req.app.locals.config;
+
+    const state = await runScheduledJobNow(db, config, agentId, jobType);
+
+    res.json({
+      success: state.lastStatus === "success",
+      agentId,
+      jobType,
+      lastRunAt: state.lastRunAt,
+      lastDurationMs: state.lastDurationMs,
+      result: state.lastResult ?? null,
+      error: state.lastError,
+    });
+  },
+);
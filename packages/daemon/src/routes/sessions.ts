@@ -0,0 +1,292 @@
+/**
+ * Session Routes
+ *
+ * Start a session, append transcript turns as the conversation goes, and
+ * close it to run reflection over the whole transcript. GET /sessions/:id
+ * shows what came out of it: memories, episode and reflection jobs.
+ */
+
+import { Request, Response } from "express";
+import { z } from "zod";
+import { Db, ObjectId } from "mongodb";
+import { asyncHandler } from "../middleware/asyncHandler";
+import {
+  COLLECTION_EPISODES,
+  COLLECTION_MEMORIES,
+  COLLECTION_SESSIONS,
+  MAX_SESSION_TURNS,
+} from "../constants";
+import type { Episode, Memory, Session, SessionTurn } from "../types/index";
+import { listSessionJobs } from "../reflection/jobQueue";
+import { startReflectionJob } from "./reflect";
+
+const MAX_TURN_LENGTH = 20000;
+/** The job stores the transcript, so keep it well under the 16MB document limit */
+const MAX_TRANSCRIPT_LENGTH = 2_000_000;
+/** Linked memories returned by GET /sessions/:id */
+const LINKED_MEMORY_LIMIT = 100;
+
+const TurnSchema = z.object({
+  role: z.enum(["user", "assistant", "system", "tool"]),
+  content: z.string().min(1).max(MAX_TURN_LENGTH),
+  timestamp: z.string().datetime({ offset: true }).optional(),
+});
+
+const StartSessionSchema = z.object({
+  agentId: z.string().min(1),
+  projectId: z.string().optional(),
+  sessionKey: z.string().min(1).max(200).optional(),
+  startedAt: z.string().datetime({ offset: true }).optional(),
+  metadata: z.record(z.unknown()).optional().default({}),
+});
+
+const AppendTurnsSchema = z.object({
+  turns: z.array(TurnSchema).min(1).max(200),
+});
+
+const CloseSessionSchema = z.object({
+  endedAt: z.string().datetime({ offset: true }).optional(),
+  /** Set false to close without running reflection */
+  reflect: z.boolean().default(true),
+});
+
+type StoredSession = Session & { _id: ObjectId };
+
+const ROLE_LABELS: Record<SessionTurn["role"], string> = {
+  user: "User",
+  assistant: "Assistant",
+  system: "System",
+  tool: "Tool",
+};
+
+function formatSession(session: StoredSession) {
+  return {
+    id: session._id.toString(),
+    agentId: session.agentId,
+    projectId: session.projectId ?? null,
+    sessionKey: session.sessionKey ?? null,
+    status: session.status,
+    startedAt: session.startedAt,
+    lastActivityAt: session.lastActivityAt,
+    endedAt: session.endedAt ?? null,
+    turnCount: session.turnCount,
+    metadata: session.metadata,
+    reflectionJobId: session.reflectionJobId ?? null,
+  };
+}
+
+function toTurns(turns: z.infer<typeof TurnSchema>[]): SessionTurn[] {
+  const now = new Date();
+  return turns.map((turn) => ({
+    role: turn.role,
+    content: turn.content,
+    timestamp: turn.timestamp ? new Date(turn.timestamp) : now,
+  }));
+}
+
+/** The transcript the extract stage reads: one "Role: content" block per turn, latest kept */
+function buildTranscript(turns: SessionTurn[]): string {
+  const transcript = turns
+    .map((turn) => `${ROLE_LABELS[turn.role]}: ${turn.content.trim()}`)
+    .join("\n\n");
+  return transcript.slice(-MAX_TRANSCRIPT_LENGTH);
+}
+
+/** Load the session in :id, or answer 400/404 and return null */
+async function findSession(req: Request, res: Response): Promise<StoredSession | null> {
+  const { id } = req.params;
+  if (!ObjectId.isValid(id)) {
+    res.status(400).json({ success: false, error: "Invalid session ID" });
+    return null;
+  }
+
+  const db: Db = req.app.locals.db;
+  const session = await db
+    .collection<StoredSession>(COLLECTION_SESSIONS)
+    .findOne({ _id: new ObjectId(id) });
+  if (!session) {
+    res.status(404).json({ success: false, error: "Session not found" });
+    return null;
+  }
+  return session;
+}
+
+/**
+ * POST /sessions
+ *
+ * Start a session
+ */
+export const startSessionRoute = asyncHandler(async (req: Request, res: Response) => {
+  const data = StartSessionSchema.parse(req.body);
+
+  const db: Db = req.app.locals.db;
+  const startedAt = data.startedAt ? new Date(data.startedAt) : new Date();
+
+  const session: StoredSession = {
+    _id: new ObjectId(),
+    agentId: data.agentId,
+    ...(data.projectId && { projectId: data.projectId }),
+    ...(data.sessionKey && { sessionKey: data.sessionKey }),
+    status: "open",
+    startedAt,
+    lastActivityAt: startedAt,
+    turns: [],
+    turnCount: 0,
+    metadata: data.metadata,
+  };
+  await db.collection<StoredSession>(COLLECTION_SESSIONS).insertOne(session);
+
+  res.json({ success: true, session: formatSession(session) });
+});
+
+/**
+ * POST /sessions/:id/turns
+ *
+ * Append transcript turns to an open session. Only the most recent
+ * MAX_SESSION_TURNS are kept.
+ */
+export const appendSessionTurnsRoute = asyncHandler(async (req: Request, res: Response) => {
+  const data = AppendTurnsSchema.parse(req.body);
+  const session = await findSession(req, res);
+  if (!session) return;
+
+  const db: Db = req.app.locals.db;
+  const turns = toTurns(data.turns);
+
+  const updated = await db.collection<StoredSession>(COLLECTION_SESSIONS).findOneAndUpdate(
+    { _id: session._id, status: "open" },
+    {
+      $push: { turns: { $each: turns, $slice: -MAX_SESSION_TURNS } },
+      $inc: { turnCount: turns.length },
+      $set: { lastActivityAt: new Date() },
+    },
+    { returnDocument: "after", projection: { turns: 0 } },
+  );
+  if (!updated) {
+    res.status(409).json({ success: false, error: "Session is closed" });
+    return;
+  }
+
+  res.json({ success: true, appended: turns.length, session: formatSession(updated) });
+});
+
+/**
+ * POST /sessions/:id/close
+ *
+ * Close the session and start reflection over its transcript
+ */
+export const closeSessionRoute = asyncHandler(async (req: Request, res: Response) => {
+  const data = CloseSessionSchema.parse(req.body ?? {});
+  const session = await findSession(req, res);
+  if (!session) return;
+
+  const db: Db = req.app.locals.db;
+  const collection = db.collection<StoredSession>(COLLECTION_SESSIONS);
+  const endedAt = data.endedAt ? new Date(data.endedAt) : new Date();
+
+  // Claim the close first so two concurrent closes can't both reflect
+  const closed = await collection.findOneAndUpdate(
+    { _id: session._id, status: "open" },
+    { $set: { status: "closed", endedAt, lastActivityAt: endedAt } },
+    { returnDocument: "after" },
+  );
+  if (!closed) {
+    res.status(409).json({ success: false, error: "Session is already closed" });
+    return;
+  }
+
+  let reflectionJobId: string | null = null;
+  if (data.reflect && closed.turns.length > 0) {
+    try {
+      reflectionJobId = await startReflectionJob(req, {
+        agentId: closed.agentId,
+        sessionId: closed._id.toString(),
+        sessionTranscript: buildTranscript(closed.turns),
+        sessionStartedAt: closed.startedAt,
+        sessionEndedAt: endedAt,
+        triggeredBy: "session-close",
+      });
+    } catch (error) {
+      // Reopen so the client can retry the close instead of getting 409
+      await collection.updateOne(
+        { _id: closed._id, status: "closed" },
+        {
+          $set: { status: "open", lastActivityAt: session.lastActivityAt },
+          $unset: { endedAt: "" },
+        },
+      );
+      throw error;
+    }
+    await collection.updateOne({ _id: closed._id }, { $set: { reflectionJobId } });
+    closed.reflectionJobId = reflectionJobId;
+  }
+
+  res.json({
+    success: true,
+    session: formatSession(closed),
+    reflectionJobId,
+    message: reflectionJobId ? "Session closed, reflection started" : "Session closed",
+  });
+});
+
+/**
+ * GET /sessions/:id
+ *
+ * The session with its transcript, the memories reflection derived from it,
+ * its episode and its reflection jobs
+ */
+export const getSessionRoute = asyncHandler(async (req: Request, res: Response) => {
+  const session = await findSession(req, res);
+  if (!session) return;
+
+  const db: Db = req.app.locals.db;
+  const sessionId = session._id.toString();
+
+  const [memories, episode, jobs] = await Promise.all([
+    db
+      .collection<Memory>(COLLECTION_MEMORIES)
+      .find(
+        { agentId: session.agentId, sourceSessionId: sessionId },
+        { projection: { embedding: 0, shadowEmbedding: 0 } },
+      )
+      .sort({ createdAt: 1 })
+      .limit(LINKED_MEMORY_LIMIT)
+      .toArray(),
+    db
+      .collection<Episode>(COLLECTION_EPISODES)
+      .findOne({ agentId: session.agentId, sessionId }, { projection: { embedding: 0 } }),
+    listSessionJobs(db, sessionId),
+  ]);
+
+  res.json({
+    success: true,
+    session: {
+      ...formatSession(session),
+      turns: session.turns,
+    },
+    memories: memories.map((m) => ({
+      id: m._id!.toString(),
+      text: m.text,
+      tags: m.tags,
+      memoryType: m.memoryType ?? null,
+      createdAt: m.createdAt,
+    })),
+    episode: episode
+      ? {
+          id: episode._id!.toString(),
+          title: episode.title,
+          narrative: episode.narrative,
+          startedAt: episode.startedAt,
+          endedAt: episode.endedAt,
+        }
+      : null,
+    jobs: jobs.map((j) => ({
+      id: j._id!.toString(),
+      status: j.status,
+      createdAt: j.createdAt,
+      completedAt: j.completedAt,
+      completedStages: j.stages.filter((s) => s.status === "complete").length,
+      error: j.error,
+    })),
+  });
+});
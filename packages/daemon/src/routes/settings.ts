@@ -15,6 +15,9 @@ import {
   upsertSettings,
   deleteSettings,
 } from "../services/settingsService.js";
+import { callLlm } from "../services/llmClient.js";
+import type { UsageTracker } from "../services/usageTracker.js";
+import { recordAuditEvent } from "../services/auditLog.js";
 import { AgentSettingsInputSchema, GLOBAL_SETTINGS_ID } from "../types/settings.js";
 
 /**
@@ -51,6 +54,13 @@ export const upsertSettingsRoute = asyncHandler(
     const input = AgentSettingsInputSchema.parse(req.body);
     const settings = await upsertSettings(db, agentId, input);
 
+    // Field names only — settings can hold LLM credentials
+    await recordAuditEvent(req, {
+      operation: "settings.update",
+      agentId,
+      details: { fields: Object.keys(input) },
+    });
+
     res.json({ success: true, settings });
   },
 );
@@ -68,6 +78,12 @@ export const patchSettingsRoute = asyncHandler(
     const input = AgentSettingsInputSchema.parse(req.body);
     const settings = await upsertSettings(db, agentId, input);
 
+    await recordAuditEvent(req, {
+      operation: "settings.update",
+      agentId,
+      details: { fields: Object.keys(input) },
+    });
+
     res.json({ success: true, settings });
   },
 );
@@ -94,6 +110,8 @@ export const deleteSettingsRoute = asyncHandler(
       return;
     }
 
+    await recordAuditEvent(req, { operation: "settings.delete", agentId });
+
     res.json({ success: true, message: "Agent settings deleted, reverted to global defaults" });
   },
 );
@@ -107,47 +125,40 @@ export const testLlmRoute = asyncHandler(async (req: Request, res: Response): Pr
   const { agentId } = req.params;
   const db: Db = req.app.locals.db;
   const config: DaemonConfig = req.app.locals.config;
+  const usageTracker: UsageTracker | undefined = req.app.locals.usageTracker;
 
   const resolved = await getResolvedSettings(db, agentId, config);
-  const { endpoint, model, timeoutMs } = resolved.llmProvider;
+  const { provider, endpoint, model } = resolved.llmProvider;
 
   const startTime = Date.now();
 
+  usageTracker?.pushContext({ operation: "llm-test", agentId });
   try {
-    const response = await fetch(endpoint, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        model,
-        prompt: "Respond with exactly: OK",
-        stream: false,
-        options: { temperature: 0, num_predict: 10 },
-      }),
-      signal: AbortSignal.timeout(timeoutMs),
+    const { text } = await callLlm("Respond with exactly: OK", {
+      ...resolved.llmProvider,
+      temperature: 0,
+      maxTokens: 10,
     });
 
-    if (!response.ok) {
-      throw new Error(`LLM returned ${response.status}: ${response.statusText}`);
-    }
-
-    const data = (await response.json()) as { response?: string };
-    const responseTime = Date.now() - startTime;
-
     res.json({
       success: true,
-      responseTime,
+      responseTime: Date.now() - startTime,
+      provider,
       model,
       endpoint,
-      sampleOutput: data.response?.trim().slice(0, 100) || "(empty)",
+      sampleOutput: text.slice(0, 100),
     });
   } catch (error) {
     const responseTime = Date.now() - startTime;
     res.json({
       success: false,
       responseTime,
+      provider,
       model,
       endpoint,
       error: error instanceof Error ? error.message : String(error),
     });
+  } finally {
+    usageTracker?.popContext();
   }
 });
@@ -3,6 +3,7 @@ import { Db } from "mongodb";
 import { COLLECTION_MEMORIES } from "../constants";
 import { getTier } from "../utils/tier";
 import { DaemonConfig } from "../config";
+import type { Embedder } from "../embedding";
 
 export interface SetupCheckItem {
   id: string;
@@ -15,6 +16,7 @@ export interface SetupCheckItem {
 export const setupCheckRoute = async (req: Request, res: Response) => {
   const checks: SetupCheckItem[] = [];
   const config: DaemonConfig | undefined = req.app.locals.config;
+  const embedder: Embedder | undefined = req.app.locals.embedder;
 
   // 1. MongoDB connection
   try {
@@ -36,22 +38,24 @@ export const setupCheckRoute = async (req: Request, res: Response) => {
     });
   }
 
-  // 2. Embedding mode — use validated config, not raw env vars
-  const isMock = config?.voyageMock ?? process.env.VOYAGE_MOCK === "true";
+  // 2. Embedding mode — ask the active embedder, fall back to validated config
+  const isMock = embedder?.isMockMode() ?? config?.voyageMock ?? process.env.VOYAGE_MOCK === "true";
   if (isMock) {
     checks.push({
       id: "embeddings",
       label: "Mock embeddings active",
       status: "warning",
       detail: "Using deterministic mock embeddings (development mode)",
-      fix: "Set VOYAGE_API_KEY and VOYAGE_MOCK=false in .env.local for production-quality search",
+      fix: "Set VOYAGE_API_KEY and VOYAGE_MOCK=false (or EMBEDDING_PROVIDER=openai|ollama) in .env.local for production-quality search",
     });
   } else {
     checks.push({
       id: "embeddings",
-      label: "Voyage AI embeddings configured",
+      label: `${embedder?.provider ?? "voyage"} embeddings configured`,
       status: "ok",
-      detail: "Real semantic embeddings active",
+      detail: embedder
+        ? `Real semantic embeddings active (${embedder.getModel()}, ${embedder.getDimensions()} dims)`
+        : "Real semantic embeddings active",
     });
   }
 
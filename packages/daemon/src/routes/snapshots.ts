@@ -0,0 +1,191 @@
+/**
+ * Snapshot Routes
+ *
+ * Capture an agent's memory before a risky change (new reflection settings,
+ * a bulk import), see what changed since, and roll back.
+ */
+
+import { Request, Response } from "express";
+import { z } from "zod";
+import { Db, Document, Filter, ObjectId } from "mongodb";
+import { asyncHandler } from "../middleware/asyncHandler";
+import { COLLECTION_SNAPSHOTS } from "../constants";
+import type { Embedder } from "../embedders";
+import type { Snapshot } from "../types/index";
+import { recordAuditEvent } from "../services/auditLog";
+import {
+  createSnapshot,
+  deleteSnapshot,
+  diffSnapshot,
+  restoreSnapshot,
+} from "../services/snapshotService";
+
+const CreateSnapshotSchema = z.object({
+  agentId: z.string().min(1),
+  name: z.string().min(1).max(200).optional(),
+});
+
+const ListSnapshotsSchema = z.object({
+  agentId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().positive().max(200).default(50),
+});
+
+const DiffSchema = z.object({
+  sample: z.coerce.number().int().min(0).max(100).default(20),
+});
+
+const RestoreSnapshotSchema = z.object({
+  /** Snapshot the current state first so the restore can be undone */
+  backup: z.boolean().default(true),
+});
+
+type StoredSnapshot = Snapshot & { _id: ObjectId };
+
+function formatSnapshot(snapshot: StoredSnapshot) {
+  return {
+    id: snapshot._id.toString(),
+    agentId: snapshot.agentId,
+    name: snapshot.name,
+    createdAt: snapshot.createdAt,
+    createdBy: snapshot.createdBy,
+    embeddingModel: snapshot.embeddingModel,
+    counts: snapshot.counts,
+  };
+}
+
+/** Load the snapshot in :id, or answer 400/404 and return null */
+async function findSnapshot(req: Request, res: Response): Promise<StoredSnapshot | null> {
+  const { id } = req.params;
+  if (!ObjectId.isValid(id)) {
+    res.status(400).json({ success: false, error: "Invalid snapshot ID" });
+    return null;
+  }
+
+  const db: Db = req.app.locals.db;
+  const snapshot = await db
+    .collection<StoredSnapshot>(COLLECTION_SNAPSHOTS)
+    .findOne({ _id: new ObjectId(id) });
+  if (!snapshot) {
+    res.status(404).json({ success: false, error: "Snapshot not found" });
+    return null;
+  }
+  return snapshot;
+}
+
+/**
+ * POST /snapshots
+ *
+ * Capture the agent's memories, episodes, entities, pending edges and clusters
+ */
+export const createSnapshotRoute = asyncHandler(async (req: Request, res: Response) => {
+  const data = CreateSnapshotSchema.parse(req.body);
+
+  const db: Db = req.app.locals.db;
+  const embedder: Embedder = req.app.locals.embedder;
+
+  const snapshot = await createSnapshot(db, embedder, data.agentId, data.name);
+
+  await recordAuditEvent(req, {
+    operation: "snapshot.create",
+    agentId: data.agentId,
+    targetIds: [snapshot._id.toString()],
+    count: snapshot.counts.memory ?? 0,
+  });
+
+  res.json({ success: true, snapshot: formatSnapshot(snapshot) });
+});
+
+/**
+ * GET /snapshots
+ *
+ * Newest first, optionally for one agent
+ */
+export const listSnapshotsRoute = asyncHandler(async (req: Request, res: Response) => {
+  const data = ListSnapshotsSchema.parse(req.query);
+
+  const db: Db = req.app.locals.db;
+  const filter: Filter<Document> = {};
+  if (data.agentId) filter.agentId = data.agentId;
+
+  const snapshots = await db
+    .collection<StoredSnapshot>(COLLECTION_SNAPSHOTS)
+    .find(filter)
+    .sort({ createdAt: -1 })
+    .limit(data.limit)
+    .toArray();
+
+  res.json({ success: true, count: snapshots.length, snapshots: snapshots.map(formatSnapshot) });
+});
+
+/**
+ * GET /snapshots/:id/diff
+ *
+ * What changed between the snapshot and the agent's live state
+ */
+export const diffSnapshotRoute = asyncHandler(async (req: Request, res: Response) => {
+  const data = DiffSchema.parse(req.query);
+  const snapshot = await findSnapshot(req, res);
+  if (!snapshot) return;
+
+  const db: Db = req.app.locals.db;
+  const diff = await diffSnapshot(db, snapshot, data.sample);
+
+  res.json({ success: true, snapshot: formatSnapshot(snapshot), ...diff });
+});
+
+/**
+ * POST /snapshots/:id/restore
+ *
+ * Roll the agent back to the snapshot. Unless `backup` is false, the current
+ * state is snapshotted first.
+ */
+export const restoreSnapshotRoute = asyncHandler(async (req: Request, res: Response) => {
+  const data = RestoreSnapshotSchema.parse(req.body ?? {});
+  const snapshot = await findSnapshot(req, res);
+  if (!snapshot) return;
+
+  const db: Db = req.app.locals.db;
+  const embedder: Embedder = req.app.locals.embedder;
+
+  const backup = data.backup
+    ? await createSnapshot(db, embedder, snapshot.agentId, `Before restoring "${snapshot.name}"`)
+    : null;
+  const result = await restoreSnapshot(db, snapshot, embedder?.getModel());
+
+  await recordAuditEvent(req, {
+    operation: "snapshot.restore",
+    agentId: snapshot.agentId,
+    targetIds: [snapshot._id.toString()],
+    count: result.restored.memory,
+    details: {
+      backupSnapshotId: backup?._id.toString() ?? null,
+      deleted: result.deleted,
+    },
+  });
+
+  res.json({
+    success: true,
+    snapshot: formatSnapshot(snapshot),
+    backupSnapshotId: backup?._id.toString() ?? null,
+    ...result,
+  });
+});
+
+/**
+ * DELETE /snapshots/:id
+ */
+export const deleteSnapshotRoute = asyncHandler(async (req: Request, res: Response) => {
+  const snapshot = await findSnapshot(req, res);
+  if (!snapshot) return;
+
+  const db: Db = req.app.locals.db;
+  await deleteSnapshot(db, snapshot._id);
+
+  await recordAuditEvent(req, {
+    operation: "snapshot.delete",
+    agentId: snapshot.agentId,
+    targetIds: [snapshot._id.toString()],
+  });
+
+  res.json({ success: true, id: snapshot._id.toString(), message: "Snapshot deleted" });
+});
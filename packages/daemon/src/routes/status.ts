@@ -1,16 +1,14 @@
 import { Request, Response } from "express";
 import { Db } from "mongodb";
-import { VoyageEmbedder } from "../embedding";
+import type { Embedder } from "../embedding";
 import { asyncHandler } from "../middleware/asyncHandler";
 import { COLLECTION_MEMORIES } from "../constants";
 import { getTier } from "../utils/tier";
-import { DaemonConfig } from "../config";
 import type { UsageTracker } from "../services/usageTracker";
 
 export const statusRoute = asyncHandler(async (req: Request, res: Response) => {
   const db: Db = req.app.locals.db;
-  const embedder: VoyageEmbedder = req.app.locals.embedder;
-  const config: DaemonConfig | undefined = req.app.locals.config;
+  const embedder: Embedder = req.app.locals.embedder;
   const usageTracker: UsageTracker | undefined = req.app.locals.usageTracker;
   const collection = db.collection(COLLECTION_MEMORIES);
 
@@ -35,8 +33,8 @@ export const statusRoute = asyncHandler(async (req: Request, res: Response) => {
     voyageStatus = "error";
   }
 
-  // Determine tier — use validated config, not raw env vars
-  const isMock = config?.voyageMock ?? process.env.VOYAGE_MOCK === "true";
+  // Determine tier — ask the active embedder, not raw env vars
+  const isMock = embedder.isMockMode();
   let hasVectorIndex = false;
   try {
     const searchIndexes = await collection.listSearchIndexes().toArray();
@@ -72,6 +70,7 @@ export const statusRoute = asyncHandler(async (req: Request, res: Response) => {
           model: embedder.getModel(),
           isMock: embedder.isMockMode(),
           byOperation: usageTotals.byOperation,
+          embeddingCache: usageTotals.cache,
         }
       : null,
   });
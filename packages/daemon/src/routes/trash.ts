@@ -0,0 +1,184 @@
+/**
+ * Trash Routes
+ *
+ * List memories removed by forget / purge / clear and restore them, one at
+ * a time or a whole operation at once, until the scheduler deletes them
+ * for good.
+ */
+
+import { Request, Response } from "express";
+import { z } from "zod";
+import { Db, Document, Filter, ObjectId } from "mongodb";
+import { asyncHandler } from "../middleware/asyncHandler";
+import { COLLECTION_TRASHED_MEMORIES } from "../constants";
+import type { Embedder } from "../embedders";
+import type { TrashedMemory } from "../types/index";
+import { recordAuditEvent } from "../services/auditLog";
+import { restoreFromTrash } from "../services/trashService";
+
+const TrashSchema = z.object({
+  agentId: z.string().min(1).optional(),
+  operationId: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(200).default(50),
+});
+
+const RestoreSchema = z.object({
+  operationId: z.string().min(1),
+  agentId: z.string().min(1).optional(),
+});
+
+/** Most recent operations summarized in GET /trash */
+const OPERATIONS_LIMIT = 20;
+
+/**
+ * GET /trash
+ *
+ * Trashed memories, most recently deleted first, plus a per-operation
+ * summary for bulk restore
+ */
+export const listTrashRoute = asyncHandler(async (req: Request, res: Response) => {
+  const data = TrashSchema.parse(req.query);
+
+  if (data.operationId && !ObjectId.isValid(data.operationId)) {
+    res.status(400).json({ success: false, error: "Invalid operation ID" });
+    return;
+  }
+
+  const db: Db = req.app.locals.db;
+  const collection = db.collection(COLLECTION_TRASHED_MEMORIES);
+
+  const filter: Filter<Document> = {};
+  if (data.agentId) filter.agentId = data.agentId;
+  if (data.operationId) filter["trash.operationId"] = new ObjectId(data.operationId);
+
+  const [trashed, operations] = await Promise.all([
+    collection
+      .find(filter, { projection: { embedding: 0, shadowEmbedding: 0 } })
+      .sort({ "trash.deletedAt": -1, _id: -1 })
+      .limit(data.limit)
+      .toArray(),
+    collection
+      .aggregate([
+        { $match: filter },
+        {
+          $group: {
+            _id: "$trash.operationId",
+            operation: { $first: "$trash.operation" },
+            agentId: { $first: "$agentId" },
+            deletedAt: { $first: "$trash.deletedAt" },
+            purgeAfter: { $first: "$trash.purgeAfter" },
+            deletedBy: { $first: "$trash.deletedBy" },
+            count: { $sum: 1 },
+          },
+        },
+        { $sort: { deletedAt: -1 } },
+        { $limit: OPERATIONS_LIMIT },
+      ])
+      .toArray(),
+  ]);
+
+  const items = trashed as unknown as TrashedMemory[];
+
+  res.json({
+    success: true,
+    count: items.length,
+    items: items.map((memory) => ({
+      id: memory._id!.toString(),
+      agentId: memory.agentId,
+      projectId: memory.projectId ?? null,
+      text: memory.text,
+      tags: memory.tags,
+      createdAt: memory.createdAt,
+      deletedAt: memory.trash.deletedAt,
+      purgeAfter: memory.trash.purgeAfter,
+      operationId: memory.trash.operationId.toString(),
+      operation: memory.trash.operation,
+      deletedBy: memory.trash.deletedBy,
+    })),
+    operations: operations.map((op) => ({
+      operationId: op._id.toString(),
+      operation: op.operation,
+      agentId: op.agentId,
+      deletedAt: op.deletedAt,
+      purgeAfter: op.purgeAfter,
+      deletedBy: op.deletedBy,
+      count: op.count,
+    })),
+  });
+});
+
+/**
+ * POST /memories/:id/undelete
+ *
+ * Restore a single trashed memory
+ */
+export const undeleteMemoryRoute = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!ObjectId.isValid(id)) {
+    res.status(400).json({ success: false, error: "Invalid memory ID" });
+    return;
+  }
+
+  const db: Db = req.app.locals.db;
+  const embedder: Embedder = req.app.locals.embedder;
+
+  const restored = await restoreFromTrash(db, { _id: new ObjectId(id) }, embedder?.getModel());
+  if (!restored) {
+    res.status(404).json({ success: false, error: "Memory not found in trash" });
+    return;
+  }
+  if (restored.count === 0) {
+    res.status(409).json({ success: false, error: "A live memory already has this ID" });
+    return;
+  }
+
+  await recordAuditEvent(req, {
+    operation: "memory.restore",
+    agentId: restored.agentId,
+    targetIds: [id],
+  });
+
+  res.json({ success: true, id, message: "Memory restored" });
+});
+
+/**
+ * POST /trash/restore
+ *
+ * Restore everything one forget / purge / clear call moved to the trash
+ */
+export const restoreTrashRoute = asyncHandler(async (req: Request, res: Response) => {
+  const data = RestoreSchema.parse(req.body);
+
+  if (!ObjectId.isValid(data.operationId)) {
+    res.status(400).json({ success: false, error: "Invalid operation ID" });
+    return;
+  }
+
+  const db: Db = req.app.locals.db;
+  const embedder: Embedder = req.app.locals.embedder;
+
+  const filter: Filter<Document> = { "trash.operationId": new ObjectId(data.operationId) };
+  if (data.agentId) filter.agentId = data.agentId;
+
+  const restored = await restoreFromTrash(db, filter, embedder?.getModel());
+  if (!restored) {
+    res.status(404).json({ success: false, error: "Trash operation not found" });
+    return;
+  }
+
+  await recordAuditEvent(req, {
+    operation: "memory.restore",
+    agentId: restored.agentId,
+    count: restored.count,
+    details: { trashOperationId: data.operationId },
+  });
+
+  res.json({
+    success: true,
+    operationId: data.operationId,
+    agentId: restored.agentId,
+    restored: restored.count,
+    skipped: restored.skipped,
+  });
+});
@@ -2,13 +2,15 @@
  * Usage & Cost API Routes
  *
  * Endpoints for querying token usage, cost breakdowns,
- * and projected spending. All data comes from the usage_events collection.
+ * and projected spending. All data comes from the usage_events collection,
+ * which holds both embedding and LLM calls.
  */
 
 import { Request, Response } from "express";
 import { Db } from "mongodb";
 import { asyncHandler } from "../middleware/asyncHandler";
 import { COLLECTION_USAGE_EVENTS, COLLECTION_MEMORIES } from "../constants";
+import { BILLABLE_USAGE_FILTER } from "../types/usage";
 
 /**
  * GET /usage/summary
@@ -22,7 +24,10 @@ export const usageSummaryRoute = asyncHandler(async (req: Request, res: Response
   const agentId = req.query.agentId as string | undefined;
 
   const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
-  const match: Record<string, unknown> = { timestamp: { $gte: since } };
+  const match: Record<string, unknown> = {
+    timestamp: { $gte: since },
+    ...BILLABLE_USAGE_FILTER,
+  };
   if (agentId) match.agentId = agentId;
 
   const collection = db.collection(COLLECTION_USAGE_EVENTS);
@@ -75,6 +80,44 @@ export const usageSummaryRoute = asyncHandler(async (req: Request, res: Response
     ])
     .toArray();
 
+  // Embedding vs LLM (events written before LLM tracking have no kind)
+  const byKind = await collection
+    .aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: { $ifNull: ["$kind", "embedding"] },
+          tokens: { $sum: "$totalTokens" },
+          cost: { $sum: "$estimatedCostUsd" },
+          calls: { $sum: 1 },
+        },
+      },
+    ])
+    .toArray();
+
+  // Embedding cache effectiveness
+  const cacheMatch: Record<string, unknown> = {
+    timestamp: { $gte: since },
+    kind: "embedding-cache",
+  };
+  if (agentId) cacheMatch.agentId = agentId;
+  const [cacheTotals] = await collection
+    .aggregate([
+      { $match: cacheMatch },
+      {
+        $group: {
+          _id: null,
+          hits: { $sum: "$cacheHits" },
+          misses: { $sum: "$cacheMisses" },
+          tokensSaved: { $sum: "$estimatedTokensSaved" },
+          costSaved: { $sum: "$estimatedCostSavedUsd" },
+        },
+      },
+    ])
+    .toArray();
+  const cacheHits = cacheTotals?.hits || 0;
+  const cacheMisses = cacheTotals?.misses || 0;
+
   // Cost per memory
   const totalMemories = await db.collection(COLLECTION_MEMORIES).countDocuments(
     agentId ? { agentId } : {},
@@ -91,6 +134,14 @@ export const usageSummaryRoute = asyncHandler(async (req: Request, res: Response
     modelMap[m._id] = { tokens: m.tokens, cost: m.cost, calls: m.calls };
   }
 
+  const kindMap: Record<string, { tokens: number; cost: number; calls: number }> = {
+    embedding: { tokens: 0, cost: 0, calls: 0 },
+    llm: { tokens: 0, cost: 0, calls: 0 },
+  };
+  for (const k of byKind) {
+    kindMap[k._id] = { tokens: k.tokens, cost: k.cost, calls: k.calls };
+  }
+
   res.json({
     success: true,
     days,
@@ -103,6 +154,14 @@ export const usageSummaryRoute = asyncHandler(async (req: Request, res: Response
     totalMemories,
     byOperation: operationMap,
     byModel: modelMap,
+    byKind: kindMap,
+    embeddingCache: {
+      hits: cacheHits,
+      misses: cacheMisses,
+      hitRate: cacheHits + cacheMisses > 0 ? cacheHits / (cacheHits + cacheMisses) : 0,
+      estimatedTokensSaved: cacheTotals?.tokensSaved || 0,
+      estimatedCostSavedUsd: cacheTotals?.costSaved || 0,
+    },
   });
 });
 
@@ -119,7 +178,10 @@ export const usageTimelineRoute = asyncHandler(async (req: Request, res: Respons
   const agentId = req.query.agentId as string | undefined;
 
   const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
-  const match: Record<string, unknown> = { timestamp: { $gte: since } };
+  const match: Record<string, unknown> = {
+    timestamp: { $gte: since },
+    ...BILLABLE_USAGE_FILTER,
+  };
   if (agentId) match.agentId = agentId;
 
   const collection = db.collection(COLLECTION_USAGE_EVENTS);
@@ -178,7 +240,7 @@ export const usageByAgentRoute = asyncHandler(async (req: Request, res: Response
 
   const agents = await collection
     .aggregate([
-      { $match: { timestamp: { $gte: since } } },
+      { $match: { timestamp: { $gte: since }, ...BILLABLE_USAGE_FILTER } },
       {
         $group: {
           _id: "$agentId",
@@ -232,6 +294,7 @@ export const usagePipelineRoute = asyncHandler(async (req: Request, res: Respons
   const match: Record<string, unknown> = {
     timestamp: { $gte: since },
     pipelineStage: { $ne: null },
+    ...BILLABLE_USAGE_FILTER,
   };
   if (agentId) match.agentId = agentId;
 
@@ -291,7 +354,7 @@ export const usageProjectionsRoute = asyncHandler(async (req: Request, res: Resp
   // Get totals for the window
   const [totals] = await collection
     .aggregate([
-      { $match: { timestamp: { $gte: since } } },
+      { $match: { timestamp: { $gte: since }, ...BILLABLE_USAGE_FILTER } },
       {
         $group: {
           _id: null,
@@ -307,6 +370,7 @@ export const usageProjectionsRoute = asyncHandler(async (req: Request, res: Resp
   const recallCount = await collection.countDocuments({
     timestamp: { $gte: since },
     operation: "recall",
+    ...BILLABLE_USAGE_FILTER,
   });
 
   // Get pipeline vs direct breakdown
@@ -316,6 +380,7 @@ export const usageProjectionsRoute = asyncHandler(async (req: Request, res: Resp
         $match: {
           timestamp: { $gte: since },
           pipelineStage: { $ne: null },
+          ...BILLABLE_USAGE_FILTER,
         },
       },
       {
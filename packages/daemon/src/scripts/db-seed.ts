@@ -861,6 +861,8 @@ async function main() {
         text: mem.text,
         tags: mem.tags,
         embedding,
+        embeddingModel: embedder.getModel(),
+        embeddingDim: embedding.length,
         metadata: {},
         createdAt,
         updatedAt: createdAt,
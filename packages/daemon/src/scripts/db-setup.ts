@@ -20,6 +20,23 @@ dotenv.config({ path: path.resolve(__dirname, "../../../../.env.local") });
 dotenv.config({ path: path.resolve(__dirname, "../../../../.env") });
 
 const VECTOR_INDEX_NAME = "memory_vector_index";
+const VECTOR_INDEX_DEFINITION = {
+  fields: [
+    {
+      type: "vector",
+      path: "embedding",
+      numDimensions: EMBEDDING_DIMENSIONS,
+      similarity: "cosine",
+    },
+    { type: "filter", path: "agentId" },
+    { type: "filter", path: "projectId" },
+    { type: "filter", path: "tags" },
+    // Recall only searches vectors from the live model
+    { type: "filter", path: "embeddingModel" },
+    // recall?entities=filter: memories with MENTIONS_ENTITY edges to linked entities
+    { type: "filter", path: "edges.targetId" },
+  ],
+};
 
 async function main() {
   const MONGO_URI = process.env.MONGODB_URI;
@@ -78,35 +95,42 @@ async function main() {
 
     // 5. Check vector search index
     let hasVectorIndex = false;
+    let hasModelFilter = false;
     try {
       // listSearchIndexes is only available on Atlas
       const searchIndexes = await memories.listSearchIndexes().toArray();
-      hasVectorIndex = searchIndexes.some((idx) => idx.name === VECTOR_INDEX_NAME);
+      const vectorIndex = searchIndexes.find((idx) => idx.name === VECTOR_INDEX_NAME) as
+        | { latestDefinition?: { fields?: Array<{ type?: string; path?: string }> } }
+        | undefined;
+      hasVectorIndex = !!vectorIndex;
+      hasModelFilter = !!vectorIndex?.latestDefinition?.fields?.some(
+        (f) => f.type === "filter" && f.path === "embeddingModel",
+      );
     } catch {
       // Not Atlas or search indexes not supported — that's fine
     }
 
-    if (hasVectorIndex) {
+    if (hasVectorIndex && hasModelFilter) {
       console.log(`  4/5  Vector search index "${VECTOR_INDEX_NAME}" found`);
+    } else if (hasVectorIndex) {
+      console.log(`  4/5  Vector search index found — adding the embeddingModel filter...`);
+      try {
+        await memories.updateSearchIndex(VECTOR_INDEX_NAME, VECTOR_INDEX_DEFINITION);
+        console.log(
+          `       Updated "${VECTOR_INDEX_NAME}" — it may take a few minutes to rebuild.`,
+        );
+      } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : String(err);
+        console.log(`       Could not update the index: ${msg}`);
+        console.log('       Add { "type": "filter", "path": "embeddingModel" } in the Atlas UI.');
+      }
     } else {
       console.log(`  4/5  Vector search index not found — attempting to create...`);
       try {
         await memories.createSearchIndex({
           name: VECTOR_INDEX_NAME,
           type: "vectorSearch",
-          definition: {
-            fields: [
-              {
-                type: "vector",
-                path: "embedding",
-                numDimensions: EMBEDDING_DIMENSIONS,
-                similarity: "cosine",
-              },
-              { type: "filter", path: "agentId" },
-              { type: "filter", path: "projectId" },
-              { type: "filter", path: "tags" },
-            ],
-          },
+          definition: VECTOR_INDEX_DEFINITION,
         });
         console.log(`       Created "${VECTOR_INDEX_NAME}" — it may take a few minutes to build.`);
       } catch (err: unknown) {
@@ -129,7 +153,8 @@ async function main() {
           );
           console.log('           { "type": "filter", "path": "agentId" },');
           console.log('           { "type": "filter", "path": "projectId" },');
-          console.log('           { "type": "filter", "path": "tags" }');
+          console.log('           { "type": "filter", "path": "tags" },');
+          console.log('           { "type": "filter", "path": "embeddingModel" }');
           console.log("         ]");
           console.log("       }");
         }
@@ -109,6 +109,8 @@ async function importToMongoDB(filePath: string, agentId: string): Promise<void>
       agentId,
       text: entry.text,
       embedding,
+      embeddingModel: embedder.getModel(),
+      embeddingDim: embedding.length,
       tags: entry.tags,
       metadata: {
         source: entry.source,
@@ -12,13 +12,19 @@
  *   npx tsx src/scripts/reembed.ts --dry-run          # preview without writing
  *
  * Reads MONGODB_URI, VOYAGE_API_KEY, VOYAGE_BASE_URL, VOYAGE_MODEL from
- * .env.local at the monorepo root (same config as the daemon).
+ * .env.local at the monorepo root (same config as the daemon). Vectors
+ * already in the embedding cache for the target model are reused.
+ *
+ * This rewrites vectors in place, so recall is inconsistent until it
+ * finishes. To switch models on a running daemon without that gap use
+ * `ocmem reembed start --model <model>` (shadow vectors + cutover).
  */
 
 import dotenv from "dotenv";
 import path from "path";
 import { MongoClient } from "mongodb";
 import { VoyageEmbedder } from "../embedding";
+import { CachingEmbedder } from "../embedders/cache";
 import { DB_NAME, COLLECTION_MEMORIES } from "../constants";
 
 // Load env from monorepo root (same as server.ts)
@@ -54,7 +60,7 @@ async function main() {
   const origMock = process.env.VOYAGE_MOCK;
   process.env.VOYAGE_MOCK = "false";
 
-  const embedder = new VoyageEmbedder(VOYAGE_API_KEY, VOYAGE_BASE_URL, VOYAGE_MODEL);
+  const voyage = new VoyageEmbedder(VOYAGE_API_KEY, VOYAGE_BASE_URL, VOYAGE_MODEL);
 
   // Restore (doesn't matter, but be clean)
   if (origMock !== undefined) process.env.VOYAGE_MOCK = origMock;
@@ -73,6 +79,11 @@ async function main() {
   const db = client.db(DB_NAME);
   const collection = db.collection(COLLECTION_MEMORIES);
 
+  // Reuse cached vectors for text already embedded with this model
+  // (set EMBEDDING_CACHE=false to force fresh API calls)
+  const embedder =
+    process.env.EMBEDDING_CACHE === "false" ? voyage : new CachingEmbedder(voyage, db);
+
   // Build filter
   const filter: Record<string, unknown> = {};
   if (agentFilter) filter.agentId = agentFilter;
@@ -112,6 +123,8 @@ async function main() {
             update: {
               $set: {
                 embedding: embeddings[i],
+                embeddingModel: embedder.getModel(),
+                embeddingDim: embeddings[i].length,
                 updatedAt: new Date(),
               },
             },
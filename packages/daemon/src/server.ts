@@ -14,11 +14,31 @@ import { clearRoute } from "./routes/clear";
 import { healthRoute } from "./routes/health";
 import { handleAgents } from "./routes/agents";
 import { wordcloudRoute } from "./routes/wordcloud";
-import { embeddingsRoute } from "./routes/embeddings";
+import { embeddingsRoute, requeueEmbeddingsRoute } from "./routes/embeddings";
 import { timelineRoute } from "./routes/timeline";
-import { memoriesRoute } from "./routes/memories";
+import {
+  memoriesRoute,
+  reinforceMemoryRoute,
+  updateMemoryRoute,
+  memoryHistoryRoute,
+  revertMemoryRoute,
+} from "./routes/memories";
 import { setupCheckRoute } from "./routes/setupCheck";
 import { restoreRoute } from "./routes/restore";
+import { importRoute } from "./routes/import";
+import {
+  appendSessionTurnsRoute,
+  closeSessionRoute,
+  getSessionRoute,
+  startSessionRoute,
+} from "./routes/sessions";
+import {
+  createSnapshotRoute,
+  deleteSnapshotRoute,
+  diffSnapshotRoute,
+  listSnapshotsRoute,
+  restoreSnapshotRoute,
+} from "./routes/snapshots";
 import { sourcesRoute } from "./routes/sources";
 import { getConflictsRoute, resolveConflictRoute } from "./routes/conflicts";
 import { enhanceContradictionsRoute, getContradictionDetailsRoute } from "./routes/contradictions";
@@ -34,8 +54,21 @@ import {
   getEpisodeRoute,
   getEpisodeBySessionRoute,
 } from "./routes/episodes";
-import { triggerReflectRoute, getReflectStatusRoute, listReflectJobsRoute } from "./routes/reflect";
-import { listEntitiesRoute, getEntityRoute, searchEntitiesRoute } from "./routes/entities";
+import {
+  triggerReflectRoute,
+  getReflectStatusRoute,
+  listReflectJobsRoute,
+  retryReflectJobRoute,
+} from "./routes/reflect";
+import {
+  listEntitiesRoute,
+  getEntityRoute,
+  getEntityProfileRoute,
+  searchEntitiesRoute,
+  mergeEntitiesRoute,
+  updateEntityAliasesRoute,
+  splitEntityRoute,
+} from "./routes/entities";
 import {
   getPendingEdgesRoute,
   approvePendingEdgeRoute,
@@ -65,10 +98,34 @@ import {
   deleteSettingsRoute,
   testLlmRoute,
 } from "./routes/settings";
+import { getSchedulesRoute, runScheduledJobRoute } from "./routes/schedules";
+import {
+  startReembedRoute,
+  reembedStatusRoute,
+  cutoverReembedRoute,
+  abortReembedRoute,
+} from "./routes/reembed";
+import { createKeyRoute, listKeysRoute, revokeKeyRoute } from "./routes/keys";
+import { listTrashRoute, restoreTrashRoute, undeleteMemoryRoute } from "./routes/trash";
+import { auditRoute } from "./routes/audit";
+import { authenticate, authorize } from "./middleware/auth";
 import { connectDatabase } from "./db";
 import { startScheduler, stopScheduler } from "./services/scheduler";
+import { startEmbeddingWorker, stopEmbeddingWorker } from "./services/embeddingQueue";
+import { startReflectionWorker, stopReflectionWorker } from "./reflection/worker";
+import { resolveMigratedEmbedder, resumeReembedJobs } from "./services/reembedMigration";
+import { initApiKeys } from "./services/apiKeyService";
 import { UsageTracker } from "./services/usageTracker";
-import { VoyageEmbedder } from "./embedding";
+import {
+  checkVectorIndexFilters,
+  createEmbedder,
+  SwitchableEmbedder,
+  tagLegacyEmbeddings,
+  validateEmbedderDimensions,
+  validateVectorIndexDimensions,
+  withEmbeddingCache,
+  type Embedder,
+} from "./embedders";
 import { MAX_REQUEST_BODY } from "./constants";
 import { loadConfig } from "./config";
 import { startupError } from "./utils/startupError";
@@ -90,21 +147,10 @@ const app = express();
 app.use(cors());
 app.use(express.json({ limit: MAX_REQUEST_BODY }));
 
-// API key auth (if MEMORY_API_KEY is set, all routes except /health require it)
-if (config.memoryApiKey) {
-  app.use((req: Request, res: Response, next: NextFunction) => {
-    if (req.path === "/health") return next();
-
-    const provided = req.headers["x-api-key"] as string | undefined;
-    if (!provided || provided !== config.memoryApiKey) {
-      res
-        .status(401)
-        .json({ success: false, error: "Unauthorized: invalid or missing X-API-Key header" });
-      return;
-    }
-    next();
-  });
-}
+// API key auth: once MEMORY_API_KEY is set or a scoped key exists, every
+// route except /health needs X-API-Key. Each route below declares the
+// capability it needs and where its agent comes from.
+app.use(authenticate(config.memoryApiKey));
 
 // --- Routes ---
 
@@ -112,67 +158,108 @@ app.get("/health", (_req: Request, res: Response) => {
   res.json({ status: "ok", timestamp: new Date().toISOString() });
 });
 
-app.get("/health/detailed", healthRoute);
-app.get("/health/setup", setupCheckRoute);
-app.get("/agents", handleAgents);
-
-app.post("/remember", rememberRoute);
-app.get("/recall", recallRoute);
-app.delete("/forget/:id", forgetRoute);
-app.post("/deduplicate", deduplicateRoute);
-app.get("/status", statusRoute);
-app.get("/export", exportRoute);
-app.get("/conflicts", getConflictsRoute);
-app.patch("/conflicts/:id/resolve", resolveConflictRoute);
-app.post("/contradictions/enhance", enhanceContradictionsRoute);
-app.get("/contradictions/:memoryId", getContradictionDetailsRoute);
-app.post("/decay", triggerDecayRoute);
-app.get("/decay/archival-candidates", getArchivalCandidatesRoute);
-app.get("/decay/expiration-candidates", getExpirationCandidatesRoute);
-app.post("/decay/promote-archival/:id", promoteToArchivalRoute);
-app.post("/episodes", createEpisodeRoute);
-app.get("/episodes", listEpisodesRoute);
-app.get("/episodes/:id", getEpisodeRoute);
-app.get("/episodes/by-session/:sessionId", getEpisodeBySessionRoute);
-app.post("/reflect", triggerReflectRoute);
-app.get("/reflect/status", getReflectStatusRoute);
-app.get("/reflect/jobs", listReflectJobsRoute);
-app.get("/entities", listEntitiesRoute);
-app.get("/entities/search", searchEntitiesRoute);
-app.get("/entities/:slug", getEntityRoute);
-app.get("/graph/pending-edges", getPendingEdgesRoute);
-app.post("/graph/pending-edges/:id/approve", approvePendingEdgeRoute);
-app.post("/graph/pending-edges/:id/reject", rejectPendingEdgeRoute);
-app.post("/graph/pending-edges/approve-batch", approveBatchRoute);
-app.get("/graph/traverse/:id", traverseGraphRoute);
-app.get("/graph/node/:id", getNodeRoute);
-app.post("/graph/edges", createEdgeRoute);
-app.post("/clusters/run", runClusteringRoute);
-app.get("/clusters", listClustersRoute);
-app.get("/clusters/stats", getClusterStatsRoute);
-app.get("/clusters/:clusterId", getClusterRoute);
-app.get("/wordcloud", wordcloudRoute);
-app.get("/embeddings", embeddingsRoute);
-app.get("/timeline", timelineRoute);
-app.get("/memories", memoriesRoute);
-app.post("/purge", purgeRoute);
-app.delete("/clear", clearRoute);
-app.post("/restore", express.json({ limit: "10mb" }), restoreRoute);
-app.get("/sources", sourcesRoute);
+app.get("/health/detailed", authorize("read", "none"), healthRoute);
+app.get("/health/setup", authorize("read", "none"), setupCheckRoute);
+app.get("/agents", authorize("read", "global"), handleAgents);
+
+app.post("/remember", authorize("write", "project"), rememberRoute);
+app.get("/recall", authorize("read", "project"), recallRoute);
+app.delete("/forget/:id", authorize("write", "memory"), forgetRoute);
+app.post("/deduplicate", authorize("admin"), deduplicateRoute);
+app.get("/status", authorize("read", "none"), statusRoute);
+app.get("/export", authorize("read", "project"), exportRoute);
+app.get("/conflicts", authorize("read"), getConflictsRoute);
+app.patch("/conflicts/:id/resolve", authorize("write", "memory"), resolveConflictRoute);
+app.post("/contradictions/enhance", authorize("reflect"), enhanceContradictionsRoute);
+app.get("/contradictions/:memoryId", authorize("read", "memory"), getContradictionDetailsRoute);
+app.post("/decay", authorize("admin"), triggerDecayRoute);
+app.get("/decay/archival-candidates", authorize("read"), getArchivalCandidatesRoute);
+app.get("/decay/expiration-candidates", authorize("read"), getExpirationCandidatesRoute);
+app.post("/decay/promote-archival/:id", authorize("write", "memory"), promoteToArchivalRoute);
+app.post("/episodes", authorize("write"), createEpisodeRoute);
+app.get("/episodes", authorize("read"), listEpisodesRoute);
+app.get("/episodes/:id", authorize("read", "episode"), getEpisodeRoute);
+app.get("/episodes/by-session/:sessionId", authorize("read"), getEpisodeBySessionRoute);
+app.post("/sessions", authorize("write", "project"), startSessionRoute);
+app.post("/sessions/:id/turns", authorize("write", "session"), appendSessionTurnsRoute);
+app.post("/sessions/:id/close", authorize("write", "session"), closeSessionRoute);
+app.get("/sessions/:id", authorize("read", "session"), getSessionRoute);
+app.post("/reflect", authorize("reflect"), triggerReflectRoute);
+app.get("/reflect/status", authorize("read", "job"), getReflectStatusRoute);
+app.get("/reflect/jobs", authorize("read"), listReflectJobsRoute);
+app.post("/reflect/jobs/:id/retry", authorize("reflect", "job"), retryReflectJobRoute);
+app.get("/entities", authorize("read"), listEntitiesRoute);
+app.get("/entities/search", authorize("read"), searchEntitiesRoute);
+app.get("/entities/:slug", authorize("read"), getEntityRoute);
+app.get("/entities/:slug/profile", authorize("read"), getEntityProfileRoute);
+app.post("/entities/merge", authorize("write"), mergeEntitiesRoute);
+app.post("/entities/:slug/aliases", authorize("write"), updateEntityAliasesRoute);
+app.post("/entities/:slug/split", authorize("write"), splitEntityRoute);
+app.get("/graph/pending-edges", authorize("read", "global"), getPendingEdgesRoute);
+app.post("/graph/pending-edges/:id/approve", authorize("write", "global"), approvePendingEdgeRoute);
+app.post("/graph/pending-edges/:id/reject", authorize("write", "global"), rejectPendingEdgeRoute);
+app.post("/graph/pending-edges/approve-batch", authorize("write", "global"), approveBatchRoute);
+app.get("/graph/traverse/:id", authorize("read", "global"), traverseGraphRoute);
+app.get("/graph/node/:id", authorize("read", "global"), getNodeRoute);
+app.post("/graph/edges", authorize("write", "global"), createEdgeRoute);
+app.post("/clusters/run", authorize("reflect"), runClusteringRoute);
+app.get("/clusters", authorize("read"), listClustersRoute);
+app.get("/clusters/stats", authorize("read"), getClusterStatsRoute);
+app.get("/clusters/:clusterId", authorize("read"), getClusterRoute);
+app.get("/wordcloud", authorize("read"), wordcloudRoute);
+app.get("/embeddings", authorize("read"), embeddingsRoute);
+app.post("/embeddings/requeue", authorize("write"), requeueEmbeddingsRoute);
+app.get("/timeline", authorize("read"), timelineRoute);
+app.get("/memories", authorize("read"), memoriesRoute);
+app.post("/memories/:id/reinforce", authorize("write", "memory"), reinforceMemoryRoute);
+app.patch("/memories/:id", authorize("write", "memory"), updateMemoryRoute);
+app.get("/memories/:id/history", authorize("read", "memory"), memoryHistoryRoute);
+app.post("/memories/:id/revert", authorize("write", "memory"), revertMemoryRoute);
+app.post("/purge", authorize("admin"), purgeRoute);
+app.delete("/clear", authorize("admin"), clearRoute);
+app.get("/trash", authorize("read"), listTrashRoute);
+app.post("/trash/restore", authorize("write"), restoreTrashRoute);
+app.post("/memories/:id/undelete", authorize("write", "trash"), undeleteMemoryRoute);
+app.post("/restore", authorize("write", "project"), express.json({ limit: "10mb" }), restoreRoute);
+app.post("/import", authorize("admin", "global"), importRoute);
+app.post("/snapshots", authorize("write"), createSnapshotRoute);
+app.get("/snapshots", authorize("read"), listSnapshotsRoute);
+app.get("/snapshots/:id/diff", authorize("read", "snapshot"), diffSnapshotRoute);
+app.post("/snapshots/:id/restore", authorize("admin", "snapshot"), restoreSnapshotRoute);
+app.delete("/snapshots/:id", authorize("admin", "snapshot"), deleteSnapshotRoute);
+app.get("/sources", authorize("read"), sourcesRoute);
+
+// Embedding model migration
+app.post("/reembed/start", authorize("admin", "global"), startReembedRoute);
+app.get("/reembed/status", authorize("read", "none"), reembedStatusRoute);
+app.post("/reembed/cutover", authorize("admin", "global"), cutoverReembedRoute);
+app.post("/reembed/abort", authorize("admin", "global"), abortReembedRoute);
 
 // Semantic / LLM settings
-app.get("/settings/:agentId", getSettingsRoute);
-app.put("/settings/:agentId", upsertSettingsRoute);
-app.patch("/settings/:agentId", patchSettingsRoute);
-app.delete("/settings/:agentId", deleteSettingsRoute);
-app.post("/settings/:agentId/test-llm", testLlmRoute);
+app.get("/settings/:agentId", authorize("read"), getSettingsRoute);
+app.put("/settings/:agentId", authorize("admin"), upsertSettingsRoute);
+app.patch("/settings/:agentId", authorize("admin"), patchSettingsRoute);
+app.delete("/settings/:agentId", authorize("admin"), deleteSettingsRoute);
+app.post("/settings/:agentId/test-llm", authorize("admin"), testLlmRoute);
+
+// Scheduled jobs (configured in settings.schedules)
+app.get("/schedules/:agentId", authorize("read"), getSchedulesRoute);
+app.post("/schedules/:agentId/:jobType/run", authorize("admin"), runScheduledJobRoute);
+
+// Scoped API keys
+app.post("/keys", authorize("admin", "global"), createKeyRoute);
+app.get("/keys", authorize("admin", "global"), listKeysRoute);
+app.delete("/keys/:id", authorize("admin", "global"), revokeKeyRoute);
+
+// Audit log of destructive and administrative operations
+app.get("/audit", authorize("admin"), auditRoute);
 
 // Usage & Cost observability
-app.get("/usage/summary", usageSummaryRoute);
-app.get("/usage/timeline", usageTimelineRoute);
-app.get("/usage/by-agent", usageByAgentRoute);
-app.get("/usage/pipeline-breakdown", usagePipelineRoute);
-app.get("/usage/projections", usageProjectionsRoute);
+app.get("/usage/summary", authorize("read"), usageSummaryRoute);
+app.get("/usage/timeline", authorize("read"), usageTimelineRoute);
+app.get("/usage/by-agent", authorize("read", "global"), usageByAgentRoute);
+app.get("/usage/pipeline-breakdown", authorize("read"), usagePipelineRoute);
+app.get("/usage/projections", authorize("read"), usageProjectionsRoute);
 
 // --- Global async-safe error handler ---
 
@@ -215,59 +302,120 @@ const startServer = async () => {
       });
     }
 
-    const voyageKey = config.voyageApiKey || "mock-key";
-    const voyageEndpoint = config.voyageBaseUrl || "https://api.voyageai.com/v1";
-    const isMongoDB = voyageKey.startsWith("al-");
-    const endpointType = isMongoDB ? "MongoDB Atlas AI" : "Voyage.com";
-
-    if (config.voyageMock) {
-      console.log("  Voyage API configured (MOCK MODE - for testing)");
-      console.log("  Embeddings: Deterministic mocks based on text hash");
-    } else {
-      console.log("  Voyage API configured (Bearer token)");
-      console.log(`  Provider: ${endpointType}`);
-      console.log(`  Endpoint: ${voyageEndpoint}`);
+    if (config.embeddingProvider === "voyage") {
+      const voyageKey = config.voyageApiKey || "mock-key";
+      const voyageEndpoint = config.voyageBaseUrl || "https://api.voyageai.com/v1";
+      const isMongoDB = voyageKey.startsWith("al-");
+      const endpointType = isMongoDB ? "MongoDB Atlas AI" : "Voyage.com";
+
+      if (config.voyageMock) {
+        console.log("  Voyage API configured (MOCK MODE - for testing)");
+        console.log("  Embeddings: Deterministic mocks based on text hash");
+      } else {
+        console.log("  Voyage API configured (Bearer token)");
+        console.log(`  Provider: ${endpointType}`);
+        console.log(`  Endpoint: ${voyageEndpoint}`);
+      }
     }
 
     // Create singleton embedder — shared across all requests
-    const embedder = new VoyageEmbedder(
-      voyageKey,
-      config.voyageBaseUrl,
-      config.voyageModel,
-      config.voyageMock,
+    let embedder: Embedder;
+    try {
+      embedder = createEmbedder(config);
+    } catch (error) {
+      startupError({
+        title: "Invalid embedding provider configuration",
+        description: error instanceof Error ? error.message : String(error),
+        fix: [
+          "Set EMBEDDING_MODEL_DIMENSIONS to the model's output dimension",
+          "OR pick a model with a known dimension (see docs/configuration.md)",
+        ],
+      });
+    }
+    validateEmbedderDimensions(embedder);
+    console.log(
+      `  Embeddings: ${embedder.provider} / ${embedder.getModel()} (${embedder.getDimensions()} dims)`,
     );
 
     // Connect to MongoDB
     const { client, db } = await connectDatabase({ mongoUri: config.mongoUri });
     console.log("  Connected to MongoDB");
 
-    // Initialize usage tracking (captures token counts from every Voyage API call)
-    const usageTracker = new UsageTracker(db, embedder);
+    // A re-embed cutover outlives the env var that still names the old model
+    embedder = await resolveMigratedEmbedder(db, config, embedder);
+
+    // Refuse to start if the Atlas vector index was built for another dimension
+    await validateVectorIndexDimensions(db, embedder);
+    await checkVectorIndexFilters(db);
+
+    // Recall only compares vectors from the live model — tag memories that predate embeddingModel
+    const tagged = await tagLegacyEmbeddings(db, embedder);
+    if (tagged > 0) {
+      console.log(
+        `  Tagged ${tagged} existing memories with embeddingModel ${embedder.getModel()}`,
+      );
+    }
+
+    // Persistent embedding cache (skipped for mock/hash embeddings)
+    const cached = withEmbeddingCache(embedder, db, config);
+    if (cached !== embedder) {
+      console.log(
+        `  Embedding cache: on (TTL ${config.embeddingCacheTtlDays}d, max ${config.embeddingCacheMaxEntries} entries)`,
+      );
+    }
+
+    // Routes, workers and usage tracking all share this instance so a
+    // re-embed cutover can swap the model underneath them
+    const liveEmbedder = new SwitchableEmbedder(cached);
+
+    // Initialize usage tracking (captures token counts from every embedding API call)
+    const usageTracker = new UsageTracker(db, liveEmbedder);
 
     // Store shared resources for route access
     app.locals.db = db;
     app.locals.mongoClient = client;
-    app.locals.embedder = embedder;
+    app.locals.embedder = liveEmbedder;
     app.locals.usageTracker = usageTracker;
     app.locals.config = config;
 
-    if (config.memoryApiKey) {
-      console.log("  API key auth enabled");
+    const scopedKeys = await initApiKeys(db);
+    if (config.memoryApiKey || scopedKeys > 0) {
+      console.log(
+        `  API key auth enabled (${config.memoryApiKey ? "root key + " : ""}${scopedKeys} scoped keys)`,
+      );
     } else {
-      console.log("  No MEMORY_API_KEY set — daemon is unauthenticated");
+      console.log("  No MEMORY_API_KEY or scoped keys — daemon is unauthenticated");
     }
 
     // Log degradation tier
-    const tierInfo = getTier(config.voyageMock, false); // Vector index checked at runtime
+    const tierInfo = getTier(embedder.isMockMode(), false); // Vector index checked at runtime
     console.log(`  Tier: ${tierInfo.label} — ${tierInfo.description}`);
 
-    // Start background scheduler (decay job, etc.)
-    startScheduler(db, {
-      decayEnabled: true,
-      decayIntervalHours: 24,
-      decayTimeOfDay: "02:00",
+    // Start background scheduler (per-agent cron schedules, trash purge)
+    startScheduler(db, config, { trashPurgeIntervalHours: 1 });
+
+    // Embed memories stored with embeddingStatus "pending" (async /remember)
+    startEmbeddingWorker(db, liveEmbedder, usageTracker, {
+      intervalMs: config.embeddingQueueIntervalMs,
+      batchSize: config.embeddingQueueBatchSize,
+      maxAttempts: config.embeddingQueueMaxAttempts,
+      daemonConfig: config,
     });
 
+    // Run queued reflection jobs here unless a separate `ocmem worker` does
+    if (config.reflectionWorkerEnabled) {
+      startReflectionWorker(db, liveEmbedder, config, usageTracker, {
+        intervalMs: config.reflectionWorkerIntervalMs,
+        concurrency: config.reflectionWorkerConcurrency,
+        leaseMs: config.reflectionJobLeaseMs,
+      });
+    } else {
+      console.log("  Reflection worker: off (REFLECTION_WORKER=false) — run `ocmem worker`");
+    }
+
+    // Resume a re-embed migration interrupted by a restart
+    await resumeReembedJobs(db, config, usageTracker);
+
     app.listen(config.port, () => {
       console.log(`  Memory daemon listening on http://localhost:${config.port}`);
     });
@@ -275,6 +423,8 @@ const startServer = async () => {
     const shutdown = async () => {
       console.log("\nShutting down...");
       stopScheduler();
+      stopEmbeddingWorker();
+      stopReflectionWorker();
       await client.close();
       process.exit(0);
     };
@@ -0,0 +1,223 @@
+/**
+ * API Key Service
+ *
+ * Scoped API keys stored in api_keys. Each key has agent and project
+ * patterns ("*" wildcard) and a set of capabilities:
+ *
+ *   read     — recall, list, export, analytics
+ *   write    — remember, edit, forget, restore, curation
+ *   reflect  — reflection pipeline, clustering, LLM contradiction analysis
+ *   admin    — clear, purge, settings, re-embed, key management
+ *
+ * MEMORY_API_KEY stays valid as a root key with every capability on every
+ * agent. Keys are stored as SHA-256 hashes; the plaintext is returned once
+ * at creation.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash, randomBytes } from "crypto";
+import { Db, ObjectId } from "mongodb";
+import { COLLECTION_API_KEYS } from "../constants";
+import type { ApiKey, ApiKeyCapability } from "../types/index";
+
+export const API_KEY_CAPABILITIES: ApiKeyCapability[] = ["read", "write", "admin", "reflect"];
+
+/** The key a request authenticated with */
+export interface ApiKeyPrincipal {
+  /** api_keys _id, or "root" for MEMORY_API_KEY */
+  id: string;
+  name: string;
+  agents: string[];
+  projects: string[];
+  capabilities: ApiKeyCapability[];
+}
+
+export const ROOT_PRINCIPAL: ApiKeyPrincipal = {
+  id: "root",
+  name: "MEMORY_API_KEY",
+  agents: ["*"],
+  projects: ["*"],
+  capabilities: API_KEY_CAPABILITIES,
+};
+
+export interface CreateApiKeyInput {
+  name: string;
+  agents: string[];
+  projects: string[];
+  capabilities: ApiKeyCapability[];
+  createdBy: string;
+}
+
+const KEY_PREFIX = "ocm_";
+
+/** How long a looked-up key is trusted before re-reading it (and bumping lastUsedAt) */
+const CACHE_TTL_MS = 30_000;
+
+const keyCache = new Map<string, { principal: ApiKeyPrincipal | null; fetchedAt: number }>();
+let activeKeyCount = 0;
+
+const requestKey = new AsyncLocalStorage<ApiKeyPrincipal>();
+
+/**
+ * Run `fn` (the rest of the request) as `principal`, so code without access
+ * to the request — like UsageTracker — can attribute work to the key.
+ */
+export function runAsApiKey<T>(principal: ApiKeyPrincipal, fn: () => T): T {
+  return requestKey.run(principal, fn);
+}
+
+/** The key the current request authenticated with, if any */
+export function currentApiKey(): ApiKeyPrincipal | undefined {
+  return requestKey.getStore();
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/** Glob match with "*" as the only wildcard */
+export function matchesPattern(pattern: string, value: string): boolean {
+  if (pattern === "*") return true;
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`).test(value);
+}
+
+export function allowsAgent(principal: ApiKeyPrincipal, agentId: string): boolean {
+  return principal.agents.some((pattern) => matchesPattern(pattern, agentId));
+}
+
+export function allowsProject(principal: ApiKeyPrincipal, projectId: string): boolean {
+  return principal.projects.some((pattern) => matchesPattern(pattern, projectId));
+}
+
+/** True if the key isn't restricted to particular agents */
+export function coversAllAgents(principal: ApiKeyPrincipal): boolean {
+  return principal.agents.includes("*");
+}
+
+export function coversAllProjects(principal: ApiKeyPrincipal): boolean {
+  return principal.projects.includes("*");
+}
+
+/**
+ * Why a key with this scope would reach beyond `principal`, or null if it
+ * stays within it. A pattern is covered when one of the principal's patterns
+ * matches it as text: "ci-*" covers "ci-web" and "ci-web-*", but not "*".
+ */
+export function exceedsScope(
+  principal: ApiKeyPrincipal,
+  scope: Pick<ApiKeyPrincipal, "agents" | "projects" | "capabilities">,
+): string | null {
+  const uncovered = (own: string[], requested: string[]) =>
+    requested.filter((pattern) => !own.some((mine) => matchesPattern(mine, pattern)));
+
+  const capabilities = scope.capabilities.filter((c) => !principal.capabilities.includes(c));
+  if (capabilities.length > 0) return `capabilities ${capabilities.join(", ")}`;
+  const agents = uncovered(principal.agents, scope.agents);
+  if (agents.length > 0) return `agents ${agents.join(", ")}`;
+  const projects = uncovered(principal.projects, scope.projects);
+  if (projects.length > 0) return `projects ${projects.join(", ")}`;
+  return null;
+}
+
+/**
+ * Whether requests without a key must be rejected: once MEMORY_API_KEY is
+ * set or any scoped key exists, the daemon is no longer open.
+ */
+export function isAuthRequired(rootKey?: string): boolean {
+  return Boolean(rootKey) || activeKeyCount > 0;
+}
+
+/** Load the active key count at startup */
+export async function initApiKeys(db: Db): Promise<number> {
+  activeKeyCount = await db
+    .collection(COLLECTION_API_KEYS)
+    .countDocuments({ revokedAt: { $exists: false } });
+  return activeKeyCount;
+}
+
+/**
+ * Resolve a presented key to its principal, or null if it's unknown or
+ * revoked.
+ */
+export async function authenticateApiKey(db: Db, key: string): Promise<ApiKeyPrincipal | null> {
+  const keyHash = hashApiKey(key);
+  const cached = keyCache.get(keyHash);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) return cached.principal;
+
+  const collection = db.collection<ApiKey>(COLLECTION_API_KEYS);
+  const record = await collection.findOne({ keyHash, revokedAt: { $exists: false } });
+  const principal = record ? toPrincipal(record) : null;
+  keyCache.set(keyHash, { principal, fetchedAt: Date.now() });
+
+  if (record) {
+    collection
+      .updateOne({ _id: record._id }, { $set: { lastUsedAt: new Date() } })
+      .catch((err) => console.error("[ApiKeys] Failed to update lastUsedAt:", err));
+  }
+  return principal;
+}
+
+/**
+ * Create a key. The returned `key` is the only time the plaintext exists.
+ */
+export async function createApiKey(
+  db: Db,
+  input: CreateApiKeyInput,
+): Promise<{ key: string; record: ApiKey }> {
+  const key = KEY_PREFIX + randomBytes(24).toString("hex");
+  const record: ApiKey = {
+    name: input.name,
+    keyHash: hashApiKey(key),
+    prefix: key.slice(0, KEY_PREFIX.length + 8),
+    agents: input.agents,
+    projects: input.projects,
+    capabilities: input.capabilities,
+    createdAt: new Date(),
+    createdBy: input.createdBy,
+  };
+  const result = await db.collection<ApiKey>(COLLECTION_API_KEYS).insertOne(record);
+  activeKeyCount++;
+  return { key, record: { ...record, _id: result.insertedId } };
+}
+
+export async function listApiKeys(db: Db, includeRevoked = false): Promise<ApiKey[]> {
+  return db
+    .collection<ApiKey>(COLLECTION_API_KEYS)
+    .find(includeRevoked ? {} : { revokedAt: { $exists: false } })
+    .sort({ createdAt: -1 })
+    .toArray();
+}
+
+/**
+ * Revoke a key. The record is kept so usage events stay attributable.
+ *
+ * @returns The revoked key, or null if it doesn't exist or was already revoked
+ */
+export async function revokeApiKey(db: Db, id: string): Promise<ApiKey | null> {
+  const record = await db
+    .collection<ApiKey>(COLLECTION_API_KEYS)
+    .findOneAndUpdate(
+      { _id: new ObjectId(id), revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } },
+      { returnDocument: "after" },
+    );
+  if (!record) return null;
+
+  keyCache.delete(record.keyHash);
+  activeKeyCount = Math.max(0, activeKeyCount - 1);
+  return record;
+}
+
+function toPrincipal(record: ApiKey): ApiKeyPrincipal {
+  return {
+    id: record._id!.toString(),
+    name: record.name,
+    agents: record.agents,
+    projects: record.projects,
+    capabilities: record.capabilities,
+  };
+}
@@ -0,0 +1,363 @@
+/**
+ * Memory Archive (NDJSON)
+ *
+ * Streams an agent's (or every agent's) data as newline-delimited Extended
+ * JSON, so ObjectIds, dates and vectors survive the round trip:
+ *
+ *   {"type":"manifest","format":"openclaw-memory-archive","version":1,"embedding":{...},...}
+ *   {"type":"memory","doc":{...}}
+ *   {"type":"episode","doc":{...}}
+ *   ...
+ *   {"type":"end","counts":{"memory":42,...}}
+ *
+ * Import reads the same stream line by line. Stored vectors are kept when the
+ * archive's embedding model and dimensions match the live embedder; otherwise
+ * memories are queued for the background embedding worker. Documents are
+ * matched by _id (settings by agentId) and existing ones are skipped unless
+ * the import replaces them.
+ */
+
+import { BSON, BulkWriteResult, Db, Document, MongoBulkWriteError } from "mongodb";
+import {
+  COLLECTION_CLUSTERS,
+  COLLECTION_ENTITIES,
+  COLLECTION_EPISODES,
+  COLLECTION_MEMORIES,
+  COLLECTION_PENDING_EDGES,
+  COLLECTION_SETTINGS,
+} from "../constants";
+import type { Embedder } from "../embedders";
+import { wakeEmbeddingWorker } from "./embeddingQueue";
+
+export const ARCHIVE_FORMAT = "openclaw-memory-archive";
+export const ARCHIVE_VERSION = 1;
+
+export type ArchiveRecordType =
+  | "memory"
+  | "episode"
+  | "entity"
+  | "pendingEdge"
+  | "cluster"
+  | "settings";
+
+/** Export order: memories first so a truncated archive still holds the essentials */
+export const ARCHIVE_COLLECTIONS: Record<ArchiveRecordType, string> = {
+  memory: COLLECTION_MEMORIES,
+  episode: COLLECTION_EPISODES,
+  entity: COLLECTION_ENTITIES,
+  pendingEdge: COLLECTION_PENDING_EDGES,
+  cluster: COLLECTION_CLUSTERS,
+  settings: COLLECTION_SETTINGS,
+};
+
+const RECORD_TYPES = Object.keys(ARCHIVE_COLLECTIONS) as ArchiveRecordType[];
+
+/** Migration and trash bookkeeping that means nothing in another database */
+export const TRANSIENT_MEMORY_FIELDS = [
+  "shadowEmbedding",
+  "shadowEmbeddingModel",
+  "trashOperationId",
+];
+
+const IMPORT_BATCH_SIZE = 200;
+const MAX_REPORTED_ERRORS = 100;
+
+export interface ArchiveManifest {
+  type: "manifest";
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  agentId: string | null;
+  projectId: string | null;
+  embedding: { provider: string; model: string; dimensions: number };
+  types: ArchiveRecordType[];
+}
+
+export interface ArchiveScope {
+  agentId?: string;
+  /** Limits memories only — episodes, entities etc. aren't per project */
+  projectId?: string;
+}
+
+export interface ImportOptions {
+  /** Overwrite documents that already exist instead of skipping them */
+  replace?: boolean;
+}
+
+export interface ImportResult {
+  manifest: ArchiveManifest;
+  reusedEmbeddings: boolean;
+  /** False when the archive ended without its "end" line */
+  complete: boolean;
+  counts: Record<ArchiveRecordType, { inserted: number; updated: number; skipped: number }>;
+  errors: Array<{ line: number; error: string }>;
+}
+
+/** The upload isn't an archive this daemon can read */
+export class ArchiveFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArchiveFormatError";
+  }
+}
+
+/**
+ * Aggregation stages selecting one agent's documents of a record type.
+ * Pending edges carry no agentId; they belong to the agent that owns their
+ * source memory.
+ */
+export function agentScopeStages(type: ArchiveRecordType, agentId: string): Document[] {
+  if (type !== "pendingEdge") return [{ $match: { agentId } }];
+  return [
+    {
+      $set: {
+        _sourceObjectId: {
+          $convert: { input: "$sourceId", to: "objectId", onError: null, onNull: null },
+        },
+      },
+    },
+    {
+      $lookup: {
+        from: COLLECTION_MEMORIES,
+        localField: "_sourceObjectId",
+        foreignField: "_id",
+        pipeline: [{ $project: { agentId: 1 } }],
+        as: "_source",
+      },
+    },
+    { $match: { "_source.agentId": agentId } },
+    { $unset: ["_sourceObjectId", "_source"] },
+  ];
+}
+
+function toLine(value: Document): string {
+  return BSON.EJSON.stringify(value, { relaxed: true }) + "\n";
+}
+
+/**
+ * Yield the archive one NDJSON line at a time
+ */
+export async function* exportArchive(
+  db: Db,
+  embedder: Embedder,
+  scope: ArchiveScope = {},
+): AsyncGenerator<string> {
+  const manifest: ArchiveManifest = {
+    type: "manifest",
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    agentId: scope.agentId ?? null,
+    projectId: scope.projectId ?? null,
+    embedding: {
+      provider: embedder.provider,
+      model: embedder.getModel(),
+      dimensions: embedder.getDimensions(),
+    },
+    types: RECORD_TYPES,
+  };
+  yield toLine(manifest);
+
+  const counts = Object.fromEntries(RECORD_TYPES.map((type) => [type, 0])) as Record<
+    ArchiveRecordType,
+    number
+  >;
+
+  for (const type of RECORD_TYPES) {
+    const pipeline = scope.agentId ? agentScopeStages(type, scope.agentId) : [];
+    if (type === "memory") {
+      if (scope.projectId) pipeline.push({ $match: { projectId: scope.projectId } });
+      pipeline.push({ $unset: TRANSIENT_MEMORY_FIELDS });
+    }
+    // Archives get copied around; credentials stay in the database
+    if (type === "settings") pipeline.push({ $unset: "llmProvider.apiKey" });
+
+    const cursor = db.collection(ARCHIVE_COLLECTIONS[type]).aggregate(pipeline);
+    for await (const doc of cursor) {
+      counts[type]++;
+      yield toLine({ type, doc });
+    }
+  }
+
+  yield toLine({ type: "end", counts });
+}
+
+function parseManifest(line: string): ArchiveManifest {
+  let manifest: ArchiveManifest;
+  try {
+    manifest = BSON.EJSON.parse(line) as ArchiveManifest;
+  } catch {
+    throw new ArchiveFormatError("First line is not valid JSON");
+  }
+  if (manifest?.type !== "manifest" || manifest.format !== ARCHIVE_FORMAT) {
+    throw new ArchiveFormatError(`First line must be an ${ARCHIVE_FORMAT} manifest`);
+  }
+  if (typeof manifest.version !== "number" || manifest.version > ARCHIVE_VERSION) {
+    throw new ArchiveFormatError(
+      `Unsupported archive version ${manifest.version} (this daemon reads up to ${ARCHIVE_VERSION})`,
+    );
+  }
+  return manifest;
+}
+
+/** Drop a vector the live model can't compare against; the worker re-embeds it */
+function queueForEmbedding(doc: Document): Document {
+  const {
+    embedding: _embedding,
+    embeddingModel: _model,
+    embeddingDim: _dim,
+    embeddingError: _error,
+    embeddingRetryAt: _retryAt,
+    ...rest
+  } = doc;
+  return { ...rest, embeddingStatus: "pending", embeddingAttempts: 0 };
+}
+
+/** LLM API keys in the agents' current settings, by agentId */
+async function currentApiKeys(db: Db, agentIds: unknown[]): Promise<Map<unknown, string>> {
+  const docs = await db
+    .collection(COLLECTION_SETTINGS)
+    .find(
+      { agentId: { $in: agentIds }, "llmProvider.apiKey": { $exists: true } },
+      { projection: { agentId: 1, "llmProvider.apiKey": 1 } },
+    )
+    .toArray();
+  return new Map(docs.map((doc) => [doc.agentId, doc.llmProvider.apiKey as string]));
+}
+
+/**
+ * Import an archive from its lines (e.g. readline over the request body)
+ */
+export async function importArchive(
+  db: Db,
+  embedder: Embedder,
+  lines: AsyncIterable<string>,
+  options: ImportOptions = {},
+): Promise<ImportResult> {
+  let manifest: ArchiveManifest | null = null;
+  let reusedEmbeddings = false;
+  let complete = false;
+  let lineNumber = 0;
+  let queuedEmbeddings = false;
+
+  const counts = Object.fromEntries(
+    RECORD_TYPES.map((type) => [type, { inserted: 0, updated: 0, skipped: 0 }]),
+  ) as ImportResult["counts"];
+  const errors: ImportResult["errors"] = [];
+  const batches = new Map<ArchiveRecordType, Array<{ doc: Document; line: number }>>();
+
+  const recordError = (line: number, error: string) => {
+    if (errors.length < MAX_REPORTED_ERRORS) errors.push({ line, error });
+  };
+
+  const flush = async (type: ArchiveRecordType) => {
+    const entries = batches.get(type);
+    if (!entries || entries.length === 0) return;
+    batches.set(type, []);
+
+    // Archives don't carry API keys, so replaced settings keep the current one
+    const apiKeys =
+      type === "settings" && options.replace
+        ? await currentApiKeys(
+            db,
+            entries.map(({ doc }) => doc.agentId),
+          )
+        : new Map<unknown, string>();
+
+    const operations = entries.map(({ doc }) => {
+      const filter = type === "settings" ? { agentId: doc.agentId } : { _id: doc._id };
+      if (options.replace) {
+        // Settings keep the _id of the agent's existing document
+        const { _id: _archivedId, ...withoutId } = doc;
+        const apiKey = apiKeys.get(doc.agentId);
+        const settings = apiKey
+          ? { ...withoutId, llmProvider: { ...withoutId.llmProvider, apiKey } }
+          : withoutId;
+        return {
+          replaceOne: { filter, replacement: type === "settings" ? settings : doc, upsert: true },
+        };
+      }
+      return { updateOne: { filter, update: { $setOnInsert: doc }, upsert: true } };
+    });
+
+    let result: BulkWriteResult;
+    try {
+      result = await db
+        .collection(ARCHIVE_COLLECTIONS[type])
+        .bulkWrite(operations, { ordered: false });
+    } catch (error) {
+      // Unordered: everything but the failed documents was written
+      if (!(error instanceof MongoBulkWriteError)) throw error;
+      result = error.result;
+      const writeErrors = Array.isArray(error.writeErrors)
+        ? error.writeErrors
+        : [error.writeErrors];
+      for (const writeError of writeErrors) {
+        recordError(
+          entries[writeError.index]?.line ?? lineNumber,
+          writeError.errmsg ?? "Write failed",
+        );
+      }
+    }
+    counts[type].inserted += result.upsertedCount;
+    if (options.replace) counts[type].updated += result.matchedCount;
+    else counts[type].skipped += result.matchedCount;
+  };
+
+  for await (const raw of lines) {
+    lineNumber++;
+    const line = raw.trim();
+    if (!line) continue;
+
+    if (!manifest) {
+      manifest = parseManifest(line);
+      reusedEmbeddings =
+        manifest.embedding?.model === embedder.getModel() &&
+        manifest.embedding?.dimensions === embedder.getDimensions();
+      continue;
+    }
+
+    let record: { type?: string; doc?: Document };
+    try {
+      record = BSON.EJSON.parse(line) as typeof record;
+    } catch {
+      recordError(lineNumber, "Invalid JSON");
+      continue;
+    }
+
+    if (record.type === "end") {
+      complete = true;
+      break;
+    }
+    const type = record.type as ArchiveRecordType;
+    if (!RECORD_TYPES.includes(type) || !record.doc || typeof record.doc !== "object") {
+      recordError(lineNumber, `Unknown record type "${record.type}"`);
+      continue;
+    }
+    // Pending edges are the one record without an agentId
+    const needsAgent = type !== "pendingEdge";
+    const needsId = type !== "settings";
+    if ((needsAgent && !record.doc.agentId) || (needsId && record.doc._id == null)) {
+      recordError(lineNumber, "Record needs an _id and agentId");
+      continue;
+    }
+
+    let doc = record.doc;
+    if (type === "memory") {
+      if (!reusedEmbeddings && doc.embeddingStatus !== "pending") doc = queueForEmbedding(doc);
+      if (doc.embeddingStatus === "pending") queuedEmbeddings = true;
+    }
+
+    const batch = batches.get(type) ?? [];
+    batch.push({ doc, line: lineNumber });
+    batches.set(type, batch);
+    if (batch.length >= IMPORT_BATCH_SIZE) await flush(type);
+  }
+
+  if (!manifest) throw new ArchiveFormatError("Archive is empty");
+
+  for (const type of RECORD_TYPES) await flush(type);
+  if (queuedEmbeddings) wakeEmbeddingWorker();
+
+  return { manifest, reusedEmbeddings, complete, counts, errors };
+}
@@ -0,0 +1,55 @@
+/**
+ * Audit Log
+ *
+ * Append-only record of destructive and administrative operations in
+ * audit_events: who (API key), what (operation, agent, affected IDs and
+ * counts) and from where (request metadata). Routes call recordAuditEvent
+ * after the operation succeeds.
+ */
+
+import type { Request } from "express";
+import { Db } from "mongodb";
+import { COLLECTION_AUDIT_EVENTS } from "../constants";
+import type { AuditEvent, AuditOperation } from "../types/index";
+import { currentApiKey } from "./apiKeyService";
+
+export interface AuditEntry {
+  operation: AuditOperation;
+  agentId?: string | null;
+  targetIds?: string[];
+  count?: number;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Record an operation made by the current request. A failed write is logged
+ * but doesn't fail the request — the operation has already happened.
+ */
+export async function recordAuditEvent(req: Request, entry: AuditEntry): Promise<void> {
+  const db: Db = req.app.locals.db;
+  const actor = currentApiKey();
+  const targetIds = entry.targetIds ?? [];
+
+  const event: AuditEvent = {
+    timestamp: new Date(),
+    operation: entry.operation,
+    actorKeyId: actor?.id ?? null,
+    actorKeyName: actor?.name ?? null,
+    agentId: entry.agentId ?? null,
+    targetIds,
+    count: entry.count ?? targetIds.length,
+    ...(entry.details && { details: entry.details }),
+    request: {
+      method: req.method,
+      path: req.originalUrl.split("?")[0],
+      ...(req.ip && { ip: req.ip }),
+      ...(req.get("user-agent") && { userAgent: req.get("user-agent") }),
+    },
+  };
+
+  try {
+    await db.collection<AuditEvent>(COLLECTION_AUDIT_EVENTS).insertOne(event);
+  } catch (error) {
+    console.error(`[Audit] Failed to record ${entry.operation}:`, error);
+  }
+}
@@ -6,7 +6,7 @@
  */
 
 import { Db } from "mongodb";
-import { VoyageEmbedder } from "../embedding.js";
+import { VoyageEmbedder, type Embedder } from "../embedding.js";
 import { Cluster } from "./clusteringService.js";
 
 const COLLECTION_CLUSTERS = "clusters";
@@ -71,7 +71,7 @@ export async function findRelevantClusters(
  */
 export async function clusterAwareRecall(
   db: Db,
-  embedder: VoyageEmbedder,
+  embedder: Embedder,
   query: string,
   agentId: string,
   limit: number = 10
@@ -103,6 +103,7 @@ export async function clusterAwareRecall(
     .find({
       agentId,
       clusterId: { $in: topClusters },
+      embedding: { $exists: true },
     })
     .limit(1000) // Reasonable limit for in-memory scoring
     .toArray();
@@ -150,7 +151,7 @@ async function globalSearch(
   const memoriesCollection = db.collection(COLLECTION_MEMORIES);
 
   const allMemories = await memoriesCollection
-    .find({ agentId })
+    .find({ agentId, embedding: { $exists: true } })
     .limit(10000)
     .toArray();
 
@@ -47,7 +47,7 @@ export async function runClustering(
 
   // 1. Load all memory embeddings
   const memories = await memoriesCollection
-    .find({ agentId })
+    .find({ agentId, embedding: { $exists: true } })
     .project({ _id: 1, embedding: 1, text: 1, tags: 1, confidence: 1, strength: 1 })
     .toArray();
 
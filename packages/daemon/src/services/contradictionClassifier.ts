@@ -0,0 +1,178 @@
+/**
+ * LLM Contradiction Classifier
+ *
+ * NLI-style verdict for a (new memory, existing memory) pair, used by the
+ * write-time contradiction check when an agent's contradictionClassifier
+ * setting is "llm" (see services/contradictionDetector.ts).
+ *
+ *   contradicts     — both can't be true at once
+ *   temporal-update — the new memory reports a change; the old one was true before
+ *   entails         — the new memory agrees with or follows from the old one
+ *   unrelated       — different subjects, or both can be true
+ *
+ * Verdicts are cached in contradiction_verdicts keyed on (model, sha256 of the
+ * ordered pair), so re-checking the same pair — an edit reverted, the
+ * embedding queue retrying, reflection re-reading a session — doesn't bill
+ * the LLM again. Like the embedding cache, expiry slides forward on every
+ * hit and cache failures degrade to misses.
+ */
+
+import { Db } from "mongodb";
+import { COLLECTION_CONTRADICTION_VERDICTS } from "../constants.js";
+import { hashText } from "../embedders/cache.js";
+import { callLlmJson, LlmCallConfig, LlmError } from "./llmClient.js";
+
+export const DEFAULT_VERDICT_TTL_DAYS = 90;
+
+export const CONTRADICTION_VERDICTS = [
+  "contradicts",
+  "entails",
+  "unrelated",
+  "temporal-update",
+] as const;
+export type ContradictionVerdict = (typeof CONTRADICTION_VERDICTS)[number];
+
+export interface PairClassification {
+  verdict: ContradictionVerdict;
+  /** The model's confidence in the verdict (0.0-1.0) */
+  probability: number;
+  explanation: string;
+  /** True when the verdict was served from the cache (no LLM call) */
+  cached: boolean;
+}
+
+export interface ContradictionVerdictEntry {
+  model: string;
+  pairHash: string;
+  verdict: ContradictionVerdict;
+  probability: number;
+  explanation: string;
+  hits: number;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+}
+
+interface LlmVerdictResponse {
+  verdict?: string;
+  confidence?: number;
+  explanation?: string;
+}
+
+/** Order matters: "temporal-update" is about which memory came later */
+export function hashPair(newText: string, existingText: string): string {
+  return hashText(`${newText}\u0000${existingText}`);
+}
+
+/**
+ * Classify how a new memory relates to an existing one.
+ * Throws LlmError when the LLM is unreachable or answers with something
+ * that isn't a verdict — the caller decides what to fall back to.
+ */
+export async function classifyPair(
+  db: Db,
+  newText: string,
+  existingText: string,
+  config: LlmCallConfig,
+  options: { ttlDays?: number } = {},
+): Promise<PairClassification> {
+  const collection = db.collection<ContradictionVerdictEntry>(COLLECTION_CONTRADICTION_VERDICTS);
+  const key = { model: config.model, pairHash: hashPair(newText, existingText) };
+  const ttlMs = (options.ttlDays ?? DEFAULT_VERDICT_TTL_DAYS) * 24 * 60 * 60 * 1000;
+
+  try {
+    const entry = await collection.findOne(key, {
+      projection: { verdict: 1, probability: 1, explanation: 1 },
+    });
+    if (entry && CONTRADICTION_VERDICTS.includes(entry.verdict)) {
+      const now = new Date();
+      collection
+        .updateOne(key, {
+          $set: { lastUsedAt: now, expiresAt: new Date(now.getTime() + ttlMs) },
+          $inc: { hits: 1 },
+        })
+        .catch((err) => console.warn("[ContradictionClassifier] Failed to refresh verdict:", err));
+      return {
+        verdict: entry.verdict,
+        probability: entry.probability,
+        explanation: entry.explanation,
+        cached: true,
+      };
+    }
+  } catch (err) {
+    console.warn("[ContradictionClassifier] Verdict lookup failed, asking the LLM:", err);
+  }
+
+  const { data } = await callLlmJson<LlmVerdictResponse>(
+    buildVerdictPrompt(newText, existingText),
+    config,
+  );
+  const result = parseVerdict(data, config);
+
+  const now = new Date();
+  collection
+    .updateOne(
+      key,
+      {
+        $setOnInsert: { hits: 0, createdAt: now },
+        $set: {
+          verdict: result.verdict,
+          probability: result.probability,
+          explanation: result.explanation,
+          lastUsedAt: now,
+          expiresAt: new Date(now.getTime() + ttlMs),
+        },
+      },
+      { upsert: true },
+    )
+    .catch((err) => console.warn("[ContradictionClassifier] Failed to store verdict:", err));
+
+  return { ...result, cached: false };
+}
+
+function buildVerdictPrompt(newText: string, existingText: string): string {
+  return `You compare two statements from an AI agent's long-term memory.
+
+Existing memory:
+"${existingText}"
+
+New memory:
+"${newText}"
+
+Classify how the new memory relates to the existing one:
+- "contradicts": both cannot be true at the same time
+- "temporal-update": the new memory reports a change, so the existing one was true before but is out of date now
+- "entails": the new memory agrees with, repeats or follows from the existing one
+- "unrelated": they are about different things, or both can be true
+
+Respond with JSON only:
+{"verdict": "contradicts" | "temporal-update" | "entails" | "unrelated", "confidence": 0.0-1.0, "explanation": "one sentence"}`;
+}
+
+/**
+ * Validate the LLM's answer. Accepts "temporal_update" and different casing;
+ * a missing confidence counts as 0.5 so an unsure verdict doesn't cross the
+ * detector's threshold on its own.
+ */
+export function parseVerdict(
+  data: LlmVerdictResponse,
+  config: Pick<LlmCallConfig, "endpoint" | "model">,
+): Omit<PairClassification, "cached"> {
+  const verdict = String(data?.verdict ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, "-") as ContradictionVerdict;
+  if (!CONTRADICTION_VERDICTS.includes(verdict)) {
+    throw new LlmError(`Unknown contradiction verdict: ${String(data?.verdict)}`, config);
+  }
+
+  const confidence = Number(data.confidence);
+  return {
+    verdict,
+    probability: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0.5,
+    explanation:
+      typeof data.explanation === "string" && data.explanation.trim()
+        ? data.explanation.trim()
+        : `LLM verdict: ${verdict}`,
+  };
+}
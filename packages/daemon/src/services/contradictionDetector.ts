@@ -4,12 +4,20 @@
  * Detects semantic conflicts between memories. When a new memory is stored,
  * the system checks whether it conflicts with existing memories on the same topic.
  * Conflicts are flagged, not silently overwritten.
+ * 
+ * Candidates are classified with heuristics by default. Agents whose
+ * contradictionClassifier setting is "llm" get an NLI-style verdict from the
+ * configured LLM instead (services/contradictionClassifier.ts), with the
+ * heuristic as the fallback when the LLM can't be reached.
  */
 
 import { Db, ObjectId } from "mongodb";
-import { VoyageEmbedder } from "../embedding.js";
+import type { Embedder } from "../embedding.js";
 import { COLLECTION_MEMORIES } from "../constants.js";
 import { Contradiction, Memory } from "../types/index.js";
+import type { ResolvedPipelineSettings } from "../types/settings.js";
+import { classifyPair, PairClassification } from "./contradictionClassifier.js";
+import { getLlmConfig } from "./llmClient.js";
 
 /**
  * Similarity threshold for considering two memories as potentially related
@@ -43,22 +51,27 @@ interface ContradictionResult {
   probability: number;
   type: "direct" | "context-dependent" | "temporal" | "none";
   explanation: string;
+  classifiedBy: "heuristic" | "llm";
 }
 
 /**
  * Detect contradictions between a new memory and existing memories
  * 
- * @param newMemory - The memory being stored
+ * @param newMemory - The memory being stored (excludeId: its own _id when it is
+ *                    already persisted, e.g. embedded later by the embedding queue)
  * @param embedding - Embedding vector for the new memory
  * @param db - MongoDB database instance
  * @param embedder - Voyage AI embedder
+ * @param settings - The agent's resolved settings; picks the classifier and
+ *                   LLM provider (heuristic when omitted)
  * @returns Array of contradiction objects to add to the new memory
  */
 export async function detectContradictions(
-  newMemory: { agentId: string; text: string; tags: string[] },
+  newMemory: { agentId: string; text: string; tags: string[]; excludeId?: string },
   embedding: number[],
   db: Db,
-  embedder: VoyageEmbedder
+  embedder: Embedder,
+  settings?: ResolvedPipelineSettings
 ): Promise<Contradiction[]> {
   const collection = db.collection<Memory>(COLLECTION_MEMORIES);
 
@@ -67,7 +80,8 @@ export async function detectContradictions(
     newMemory.agentId,
     embedding,
     newMemory.tags,
-    collection
+    collection,
+    newMemory.excludeId
   );
 
   if (candidates.length === 0) {
@@ -76,15 +90,36 @@ export async function detectContradictions(
 
   // Step 2: Run contradiction classifier on each candidate
   const contradictions: Contradiction[] = [];
+  let llmConfig =
+    settings?.contradictionClassifier === "llm" ? getLlmConfig(settings) : null;
 
   for (const candidate of candidates) {
-    const result = classifyContradiction(newMemory.text, candidate.text);
+    let result: ContradictionResult | null = null;
+
+    if (llmConfig) {
+      try {
+        result = fromVerdict(await classifyPair(db, newMemory.text, candidate.text, llmConfig));
+      } catch (error) {
+        // Don't wait out the timeout again for every remaining candidate
+        llmConfig = null;
+        console.warn(
+          "[ContradictionDetector] LLM classification failed, using heuristics:",
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+
+    result ??= classifyContradiction(newMemory.text, candidate.text);
 
     if (result.contradicts && result.probability >= CONTRADICTION_THRESHOLD) {
       // Mark as contradiction
       contradictions.push({
         memoryId: candidate._id!.toString(),
         detectedAt: new Date(),
+        type: result.type,
+        explanation: result.explanation,
+        probability: result.probability,
+        classifiedBy: result.classifiedBy,
         resolution: "unresolved",
       });
 
@@ -103,7 +138,8 @@ async function findSimilarMemories(
   agentId: string,
   embedding: number[],
   tags: string[],
-  collection: any
+  collection: any,
+  excludeId?: string
 ): Promise<Array<Memory & { score: number }>> {
   // Simple in-memory cosine similarity search
   // For production with Atlas Vector Search, this would use $vectorSearch
@@ -117,6 +153,7 @@ async function findSimilarMemories(
 
   for (const memory of allMemories) {
     if (!memory.embedding) continue;
+    if (excludeId && memory._id.toString() === excludeId) continue;
 
     const score = cosineSimilarity(embedding, memory.embedding);
     
@@ -131,11 +168,29 @@ async function findSimilarMemories(
     .slice(0, MAX_CANDIDATES);
 }
 
+/**
+ * Map an LLM verdict onto the detector's result shape.
+ * Only "contradicts" and "temporal-update" are conflicts.
+ */
+function fromVerdict(classification: PairClassification): ContradictionResult {
+  const { verdict, probability, explanation } = classification;
+  const type =
+    verdict === "contradicts" ? "direct" : verdict === "temporal-update" ? "temporal" : "none";
+
+  return {
+    contradicts: type !== "none",
+    probability,
+    type,
+    explanation,
+    classifiedBy: "llm",
+  };
+}
+
 /**
  * Classify whether two memory texts contradict each other
  * 
- * Uses heuristic pattern matching for Phase 1 (simple, fast, no LLM cost).
- * Can be upgraded to LLM-based classification in Phase 2.
+ * Uses heuristic pattern matching (simple, fast, no LLM cost). This is the
+ * default classifier and the fallback for the LLM one.
  */
 function classifyContradiction(textA: string, textB: string): ContradictionResult {
   const lowerA = textA.toLowerCase();
@@ -152,6 +207,7 @@ function classifyContradiction(textA: string, textB: string): ContradictionResul
       probability: 0.75,
       type: "direct",
       explanation: "One statement contains negation while the other doesn't",
+      classifiedBy: "heuristic",
     };
   }
 
@@ -175,6 +231,7 @@ function classifyContradiction(textA: string, textB: string): ContradictionResul
         probability: 0.70,
         type: "context-dependent",
         explanation: "Different preferences expressed about related topics",
+        classifiedBy: "heuristic",
       };
     }
   }
@@ -194,6 +251,7 @@ function classifyContradiction(textA: string, textB: string): ContradictionResul
       probability: 0.65,
       type: "temporal",
       explanation: "One describes past state, the other describes current state",
+      classifiedBy: "heuristic",
     };
   }
 
@@ -203,6 +261,7 @@ function classifyContradiction(textA: string, textB: string): ContradictionResul
     probability: 0.0,
     type: "none",
     explanation: "No contradiction patterns detected",
+    classifiedBy: "heuristic",
   };
 }
 
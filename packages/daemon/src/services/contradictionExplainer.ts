@@ -29,6 +29,7 @@ export async function explainContradiction(
   llmConfig?: Partial<LlmCallConfig>,
 ): Promise<LLMExplanationResponse> {
   const config: LlmCallConfig = {
+    provider: llmConfig?.provider,
     endpoint: llmConfig?.endpoint || process.env.LLM_ENDPOINT || DEFAULT_LLM_ENDPOINT,
     model: llmConfig?.model || process.env.LLM_MODEL || DEFAULT_LLM_MODEL,
     apiKey: llmConfig?.apiKey,
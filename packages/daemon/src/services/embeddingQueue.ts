@@ -0,0 +1,305 @@
+/**
+ * Background Embedding Queue
+ *
+ * Async /remember writes persist the memory immediately with
+ * embeddingStatus "pending" and no vector. This worker picks pending
+ * memories up in batches, embeds them, then runs contradiction detection —
+ * the work the synchronous route does inline.
+ *
+ * Failed batches are retried with exponential backoff (per memory, via
+ * embeddingRetryAt); after maxAttempts a memory is marked "failed" until
+ * POST /embeddings/requeue puts it back. While the provider is down the
+ * circuit breaker makes each attempt fail fast, so writes keep succeeding
+ * and the backlog drains once it recovers.
+ */
+
+import { Db, ObjectId } from "mongodb";
+import type { Embedder } from "../embedding.js";
+import { COLLECTION_MEMORIES } from "../constants.js";
+import type { Memory } from "../types/index.js";
+import type { ResolvedPipelineSettings } from "../types/settings.js";
+import { detectContradictions, markMemoryAsContradicting } from "./contradictionDetector.js";
+import { getResolvedSettings } from "./settingsService.js";
+import type { UsageTracker } from "./usageTracker.js";
+import type { DaemonConfig } from "../config.js";
+
+export interface EmbeddingQueueOptions {
+  /** Poll interval when idle (default 2s) */
+  intervalMs: number;
+  /** Memories embedded per provider call (default 32) */
+  batchSize: number;
+  /** Attempts before a memory is marked "failed" (default 20) */
+  maxAttempts: number;
+  /** Resolves each agent's contradiction classifier (heuristic without it) */
+  daemonConfig?: DaemonConfig;
+}
+
+export interface EmbeddingQueueStats {
+  embedded: number;
+  retried: number;
+  failed: number;
+}
+
+const DEFAULT_OPTIONS: EmbeddingQueueOptions = {
+  intervalMs: 2000,
+  batchSize: 32,
+  maxAttempts: 20,
+};
+
+/** Retry delay grows 5s, 10s, 20s ... capped at 15 minutes */
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 15 * 60 * 1000;
+
+type PendingMemory = Pick<Memory, "agentId" | "text" | "tags" | "embeddingAttempts"> & {
+  _id: ObjectId;
+};
+
+let intervalId: NodeJS.Timeout | null = null;
+let running = false;
+let wakeRequested = false;
+let tick: (() => void) | null = null;
+
+/**
+ * Embed one batch of due pending memories (oldest first).
+ * Exported for tests and manual draining; the worker calls it on every tick.
+ */
+export async function processPendingEmbeddings(
+  db: Db,
+  embedder: Embedder,
+  usageTracker?: UsageTracker,
+  options: Partial<EmbeddingQueueOptions> = {},
+): Promise<EmbeddingQueueStats> {
+  const { batchSize, maxAttempts, daemonConfig } = { ...DEFAULT_OPTIONS, ...options };
+  const collection = db.collection(COLLECTION_MEMORIES);
+  const stats: EmbeddingQueueStats = { embedded: 0, retried: 0, failed: 0 };
+  const now = new Date();
+
+  const pending = (await collection
+    .find(
+      {
+        embeddingStatus: "pending",
+        $or: [{ embeddingRetryAt: { $exists: false } }, { embeddingRetryAt: { $lte: now } }],
+      },
+      { projection: { agentId: 1, text: 1, tags: 1, embeddingAttempts: 1 } },
+    )
+    .sort({ createdAt: 1 })
+    .limit(batchSize)
+    .toArray()) as PendingMemory[];
+
+  // One provider call per agent so usage is attributed correctly
+  const byAgent = new Map<string, PendingMemory[]>();
+  for (const memory of pending) {
+    const group = byAgent.get(memory.agentId) ?? [];
+    group.push(memory);
+    byAgent.set(memory.agentId, group);
+  }
+
+  for (const [agentId, memories] of byAgent) {
+    let embeddings: number[][];
+    usageTracker?.pushContext({ operation: "remember", agentId });
+    try {
+      embeddings = await embedder.embed(
+        memories.map((m) => m.text),
+        "document",
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      for (const memory of memories) {
+        const failed = await scheduleRetry(db, memory, message, maxAttempts);
+        if (failed) stats.failed++;
+        else stats.retried++;
+      }
+      continue;
+    } finally {
+      usageTracker?.popContext();
+    }
+
+    const settings = daemonConfig
+      ? await getResolvedSettings(db, agentId, daemonConfig)
+      : undefined;
+    for (let i = 0; i < memories.length; i++) {
+      const stored = await completeEmbedding(
+        db,
+        embedder,
+        usageTracker,
+        memories[i],
+        embeddings[i],
+        settings,
+      );
+      if (stored) stats.embedded++;
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Store the vector, then run the contradiction scan the sync route would have run.
+ * Returns false if the memory was deleted or changed while it was being embedded.
+ */
+async function completeEmbedding(
+  db: Db,
+  embedder: Embedder,
+  usageTracker: UsageTracker | undefined,
+  memory: PendingMemory,
+  embedding: number[],
+  settings: ResolvedPipelineSettings | undefined,
+): Promise<boolean> {
+  const collection = db.collection(COLLECTION_MEMORIES);
+  const result = await collection.updateOne(
+    { _id: memory._id, embeddingStatus: "pending" },
+    {
+      $set: {
+        embedding,
+        embeddingModel: embedder.getModel(),
+        embeddingDim: embedding.length,
+        embeddingStatus: "ready",
+      },
+      $unset: { embeddingRetryAt: "", embeddingError: "" },
+    },
+  );
+  if (result.modifiedCount === 0) return false;
+
+  usageTracker?.pushContext({ operation: "contradiction-check", agentId: memory.agentId });
+  try {
+    const memoryId = memory._id.toString();
+    const contradictions = await detectContradictions(
+      { agentId: memory.agentId, text: memory.text, tags: memory.tags ?? [], excludeId: memoryId },
+      embedding,
+      db,
+      embedder,
+      settings,
+    );
+    if (contradictions.length > 0) {
+      await db
+        .collection<Pick<Memory, "contradictions">>(COLLECTION_MEMORIES)
+        .updateOne({ _id: memory._id }, { $push: { contradictions: { $each: contradictions } } });
+      for (const contradiction of contradictions) {
+        await markMemoryAsContradicting(contradiction.memoryId.toString(), memoryId, db);
+      }
+    }
+  } catch (error) {
+    // The memory is embedded and recallable — a failed scan shouldn't undo that
+    console.error(`[EmbeddingQueue] Contradiction check failed for ${memory._id}:`, error);
+  } finally {
+    usageTracker?.popContext();
+  }
+  return true;
+}
+
+/** Back off a failed memory; returns true once it has run out of attempts */
+async function scheduleRetry(
+  db: Db,
+  memory: PendingMemory,
+  error: string,
+  maxAttempts: number,
+): Promise<boolean> {
+  const attempts = (memory.embeddingAttempts ?? 0) + 1;
+  const exhausted = attempts >= maxAttempts;
+  const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempts - 1));
+
+  await db.collection(COLLECTION_MEMORIES).updateOne(
+    { _id: memory._id, embeddingStatus: "pending" },
+    {
+      $set: {
+        embeddingAttempts: attempts,
+        embeddingError: error,
+        ...(exhausted
+          ? { embeddingStatus: "failed" }
+          : { embeddingRetryAt: new Date(Date.now() + delay) }),
+      },
+    },
+  );
+  return exhausted;
+}
+
+/**
+ * Put memories marked "failed" back in the queue with a fresh set of
+ * attempts, for all agents or one. Returns how many were requeued.
+ */
+export async function requeueFailedEmbeddings(db: Db, agentId?: string): Promise<number> {
+  const result = await db.collection(COLLECTION_MEMORIES).updateMany(
+    { embeddingStatus: "failed", ...(agentId && { agentId }) },
+    {
+      $set: { embeddingStatus: "pending" },
+      $unset: { embeddingAttempts: "", embeddingRetryAt: "", embeddingError: "" },
+    },
+  );
+  if (result.modifiedCount > 0) wakeEmbeddingWorker();
+  return result.modifiedCount;
+}
+
+/**
+ * Count pending and failed memories (for /health/detailed)
+ */
+export async function getEmbeddingQueueCounts(
+  db: Db,
+): Promise<{ pending: number; failed: number }> {
+  const collection = db.collection(COLLECTION_MEMORIES);
+  const [pending, failed] = await Promise.all([
+    collection.countDocuments({ embeddingStatus: "pending" }),
+    collection.countDocuments({ embeddingStatus: "failed" }),
+  ]);
+  return { pending, failed };
+}
+
+/**
+ * Start the background embedding worker
+ */
+export function startEmbeddingWorker(
+  db: Db,
+  embedder: Embedder,
+  usageTracker?: UsageTracker,
+  options: Partial<EmbeddingQueueOptions> = {},
+): void {
+  if (intervalId) return;
+  const finalOptions = { ...DEFAULT_OPTIONS, ...options };
+
+  tick = () => {
+    if (running) {
+      wakeRequested = true;
+      return;
+    }
+    running = true;
+    processPendingEmbeddings(db, embedder, usageTracker, finalOptions)
+      .then((stats) => {
+        if (stats.embedded + stats.retried + stats.failed > 0) {
+          console.log(
+            `[EmbeddingQueue] embedded ${stats.embedded}, retrying ${stats.retried}, failed ${stats.failed}`,
+          );
+        }
+        // A full batch means there is probably more waiting
+        if (stats.embedded === finalOptions.batchSize) wakeRequested = true;
+      })
+      .catch((error) => console.error("[EmbeddingQueue] Worker pass failed:", error))
+      .finally(() => {
+        running = false;
+        if (wakeRequested) {
+          wakeRequested = false;
+          setImmediate(() => tick?.());
+        }
+      });
+  };
+
+  intervalId = setInterval(() => tick?.(), finalOptions.intervalMs);
+  console.log(`  Embedding queue: polling every ${finalOptions.intervalMs}ms`);
+  tick();
+}
+
+/**
+ * Stop the background embedding worker
+ */
+export function stopEmbeddingWorker(): void {
+  if (intervalId) {
+    clearInterval(intervalId);
+    intervalId = null;
+  }
+  tick = null;
+}
+
+/**
+ * Run a pass now instead of waiting for the next poll (no-op when the worker isn't running)
+ */
+export function wakeEmbeddingWorker(): void {
+  tick?.();
+}
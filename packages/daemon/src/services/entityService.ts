@@ -0,0 +1,749 @@
+/**
+ * Entity Service
+ *
+ * Query-time entity linking for recall, entity profiles (everything the
+ * agent's memories say about one entity hub, grouped into a dossier) and
+ * curation: merging duplicate hubs, managing aliases and splitting a hub.
+ *
+ * Memories point at entities with MENTIONS_ENTITY edges whose targetId is
+ * the entity slug (see reflection/stages/entityUpdate.ts).
+ */
+
+import { AnyBulkWriteOperation, Db, Document, ObjectId } from "mongodb";
+import { VoyageEmbedder, type Embedder } from "../embedding.js";
+import {
+  COLLECTION_ENTITIES,
+  COLLECTION_EPISODES,
+  COLLECTION_MEMORIES,
+  COLLECTION_PENDING_EDGES,
+} from "../constants.js";
+import { findSuperseded } from "./graphRecall.js";
+import type { Entity, EntityType, Episode, GraphEdge, Memory } from "../types/index.js";
+
+/** Entities linked to one query, at most */
+export const MAX_LINKED_ENTITIES = 5;
+
+/** Summary-embedding similarity a query needs to link an entity without naming it */
+export const ENTITY_SIMILARITY_THRESHOLD = 0.65;
+
+/** Recall score multiplier for hits that mention a linked entity */
+export const ENTITY_RECALL_BOOST = 1.25;
+
+/** Entities considered per query, by memoryCount */
+const ENTITY_SCAN_LIMIT = 1000;
+
+/** Memories read to build a profile, newest first */
+const PROFILE_MEMORY_SCAN_LIMIT = 500;
+
+export interface LinkedEntity {
+  slug: string;
+  displayName: string;
+  type: EntityType;
+  /** alias: the query names it; embedding: the query is close to its summary */
+  match: "alias" | "embedding";
+  /** The alias found in the query (alias matches) */
+  matchedText?: string;
+  /** Query / summary cosine similarity (embedding matches) */
+  similarity?: number;
+}
+
+/**
+ * Find the entities a query is about: those whose display name, slug or an
+ * alias appears in it as whole words, then those whose summary embedding is
+ * close enough to the query's.
+ *
+ * @param db - Database
+ * @param agentId - Agent whose entities to link
+ * @param query - Recall query text
+ * @param queryEmbedding - The query's embedding
+ * @returns Up to MAX_LINKED_ENTITIES entities, name matches first
+ */
+export async function linkQueryEntities(
+  db: Db,
+  agentId: string,
+  query: string,
+  queryEmbedding: number[],
+): Promise<LinkedEntity[]> {
+  const entities = await db
+    .collection<Entity>(COLLECTION_ENTITIES)
+    .find({ agentId })
+    .project<Pick<Entity, "slug" | "displayName" | "type" | "aliases" | "summaryEmbedding">>({
+      slug: 1,
+      displayName: 1,
+      type: 1,
+      aliases: 1,
+      summaryEmbedding: 1,
+    })
+    .sort({ memoryCount: -1 })
+    .limit(ENTITY_SCAN_LIMIT)
+    .toArray();
+
+  const byName: LinkedEntity[] = [];
+  const bySummary: LinkedEntity[] = [];
+
+  for (const entity of entities) {
+    const names = [entity.displayName, entity.slug.replace(/-/g, " "), ...(entity.aliases ?? [])];
+    const matchedText = names.find((name) => mentionsName(query, name));
+
+    if (matchedText) {
+      byName.push({
+        slug: entity.slug,
+        displayName: entity.displayName,
+        type: entity.type,
+        match: "alias",
+        matchedText,
+      });
+      continue;
+    }
+
+    if (entity.summaryEmbedding?.length === queryEmbedding.length) {
+      const similarity = VoyageEmbedder.cosineSimilarity(queryEmbedding, entity.summaryEmbedding);
+      if (similarity >= ENTITY_SIMILARITY_THRESHOLD) {
+        bySummary.push({
+          slug: entity.slug,
+          displayName: entity.displayName,
+          type: entity.type,
+          match: "embedding",
+          similarity,
+        });
+      }
+    }
+  }
+
+  bySummary.sort((a, b) => b.similarity! - a.similarity!);
+  return [...byName, ...bySummary].slice(0, MAX_LINKED_ENTITIES);
+}
+
+/** Whether `name` appears in `text` as whole words, ignoring case */
+function mentionsName(text: string, name: string | undefined): boolean {
+  if (!name || name.trim().length < 2) return false;
+  const escaped = name.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, "iu").test(text);
+}
+
+/**
+ * Boost recall hits that mention a linked entity and re-sort them.
+ * Hits get `linkedEntities`: the linked slugs they mention.
+ */
+export async function boostEntityMentions<T extends { id: string; score: number }>(
+  db: Db,
+  results: T[],
+  slugs: string[],
+): Promise<Array<T & { linkedEntities?: string[] }>> {
+  if (results.length === 0 || slugs.length === 0) return results;
+
+  const mentions = await entityMentions(
+    db,
+    results.map((r) => r.id),
+    slugs,
+  );
+
+  return results
+    .map((r) => {
+      const linked = mentions.get(r.id);
+      return linked ? { ...r, score: r.score * ENTITY_RECALL_BOOST, linkedEntities: linked } : r;
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/** For each memory, the given entity slugs it has MENTIONS_ENTITY edges to */
+async function entityMentions(
+  db: Db,
+  memoryIds: string[],
+  slugs: string[],
+): Promise<Map<string, string[]>> {
+  const slugSet = new Set(slugs);
+  const docs = await db
+    .collection(COLLECTION_MEMORIES)
+    .find<{ _id: ObjectId; edges?: GraphEdge[] }>(
+      {
+        _id: { $in: memoryIds.map((id) => new ObjectId(id)) },
+        edges: { $elemMatch: { type: "MENTIONS_ENTITY", targetId: { $in: slugs } } },
+      },
+      { projection: { edges: 1 } },
+    )
+    .toArray();
+
+  const mentions = new Map<string, string[]>();
+  for (const doc of docs) {
+    const linked = (doc.edges ?? [])
+      .filter((e) => e.type === "MENTIONS_ENTITY" && slugSet.has(e.targetId))
+      .map((e) => e.targetId);
+    mentions.set(doc._id.toString(), [...new Set(linked)]);
+  }
+  return mentions;
+}
+
+export interface ProfileEntry {
+  id: string;
+  text: string;
+  memoryType: string | null;
+  confidence: number | null;
+  createdAt: Date;
+  tags: string[];
+}
+
+export interface TimelineEntry {
+  at: Date;
+  kind: "memory" | "episode";
+  id: string;
+  text: string;
+  memoryType?: string | null;
+}
+
+export interface EntityProfile {
+  entity: {
+    id: string;
+    slug: string;
+    type: EntityType;
+    displayName: string;
+    aliases: string[];
+    summary: string;
+    attributes: Record<string, unknown>;
+    memoryCount: number;
+    lastSeenAt: Date;
+    createdAt: Date;
+  };
+  facts: ProfileEntry[];
+  preferences: ProfileEntry[];
+  decisions: ProfileEntry[];
+  /** Observations, opinions and untyped memories */
+  other: ProfileEntry[];
+  /** Latest memories and episodes, oldest first */
+  timeline: TimelineEntry[];
+  /** Entities mentioned alongside this one, most co-mentions first */
+  relatedEntities: Array<{
+    slug: string;
+    displayName: string | null;
+    type: EntityType | null;
+    mentions: number;
+  }>;
+  /** Memories counts cover the newest 500 mentioning memories */
+  counts: { memories: number; superseded: number; episodes: number };
+}
+
+type ProfileMemory = Pick<
+  Memory,
+  "text" | "memoryType" | "confidence" | "createdAt" | "tags" | "edges"
+> & { _id: ObjectId };
+
+/**
+ * Assemble an entity's dossier from the memories that mention it and the
+ * episodes it took part in. Superseded memories are counted but left out.
+ *
+ * @param db - Database
+ * @param agentId - Agent that owns the entity
+ * @param slug - Entity slug
+ * @param limit - Entries per section and in the timeline
+ * @returns The profile, or null if the entity doesn't exist
+ */
+export async function getEntityProfile(
+  db: Db,
+  agentId: string,
+  slug: string,
+  limit = 20,
+): Promise<EntityProfile | null> {
+  const entity = await db
+    .collection<Entity>(COLLECTION_ENTITIES)
+    .findOne({ agentId, slug }, { projection: { summaryEmbedding: 0 } });
+  if (!entity) return null;
+
+  const memoriesCollection = db.collection(COLLECTION_MEMORIES);
+  const mentioning = await memoriesCollection
+    .find<ProfileMemory>(
+      { agentId, edges: { $elemMatch: { type: "MENTIONS_ENTITY", targetId: slug } } },
+      {
+        projection: { text: 1, memoryType: 1, confidence: 1, createdAt: 1, tags: 1, edges: 1 },
+        sort: { createdAt: -1 },
+        limit: PROFILE_MEMORY_SCAN_LIMIT,
+      },
+    )
+    .toArray();
+
+  const superseded = await findSuperseded(
+    memoriesCollection,
+    mentioning.map((m) => m._id.toString()),
+    { agentId },
+  );
+  const memories = mentioning.filter((m) => !superseded.has(m._id.toString()));
+
+  const episodesCollection = db.collection<Episode>(COLLECTION_EPISODES);
+  const episodeCount = await episodesCollection.countDocuments({ agentId, participants: slug });
+  const episodes = await episodesCollection
+    .find({ agentId, participants: slug })
+    .project<Pick<Episode, "title" | "startedAt"> & { _id: ObjectId }>({ title: 1, startedAt: 1 })
+    .sort({ startedAt: -1 })
+    .limit(limit)
+    .toArray();
+
+  const section = (types: Array<string | undefined>) =>
+    memories
+      .filter((m) => types.includes(m.memoryType))
+      .sort(
+        (a, b) =>
+          (b.confidence ?? 0) - (a.confidence ?? 0) ||
+          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+      )
+      .slice(0, limit)
+      .map(toProfileEntry);
+
+  const timeline: TimelineEntry[] = [
+    ...memories.slice(0, limit).map((m) => ({
+      at: m.createdAt,
+      kind: "memory" as const,
+      id: m._id.toString(),
+      text: m.text,
+      memoryType: m.memoryType ?? null,
+    })),
+    ...episodes.map((e) => ({
+      at: e.startedAt,
+      kind: "episode" as const,
+      id: e._id.toString(),
+      text: e.title,
+    })),
+  ]
+    .sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime())
+    .slice(0, limit)
+    .reverse();
+
+  return {
+    entity: {
+      id: entity._id!.toString(),
+      slug: entity.slug,
+      type: entity.type,
+      displayName: entity.displayName,
+      aliases: entity.aliases,
+      summary: entity.summary,
+      attributes: entity.attributes,
+      memoryCount: entity.memoryCount,
+      lastSeenAt: entity.lastSeenAt,
+      createdAt: entity.createdAt,
+    },
+    facts: section(["fact"]),
+    preferences: section(["preference"]),
+    decisions: section(["decision"]),
+    other: section(["observation", "opinion", "episode", undefined]),
+    timeline,
+    relatedEntities: await relatedEntities(db, agentId, slug, memories),
+    counts: { memories: memories.length, superseded: superseded.size, episodes: episodeCount },
+  };
+}
+
+function toProfileEntry(m: ProfileMemory): ProfileEntry {
+  return {
+    id: m._id.toString(),
+    text: m.text,
+    memoryType: m.memoryType ?? null,
+    confidence: m.confidence ?? null,
+    createdAt: m.createdAt,
+    tags: m.tags ?? [],
+  };
+}
+
+/** Other entities the memories mention, counted, with their hub details */
+async function relatedEntities(
+  db: Db,
+  agentId: string,
+  slug: string,
+  memories: ProfileMemory[],
+): Promise<EntityProfile["relatedEntities"]> {
+  const counts = new Map<string, number>();
+  for (const memory of memories) {
+    const slugs = new Set(
+      (memory.edges ?? [])
+        .filter((e) => e.type === "MENTIONS_ENTITY" && e.targetId !== slug)
+        .map((e) => e.targetId),
+    );
+    for (const other of slugs) counts.set(other, (counts.get(other) ?? 0) + 1);
+  }
+
+  const top = [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, 10);
+  if (top.length === 0) return [];
+
+  const hubs = await db
+    .collection<Entity>(COLLECTION_ENTITIES)
+    .find({ agentId, slug: { $in: top.map(([s]) => s) } })
+    .project<Pick<Entity, "slug" | "displayName" | "type">>({ slug: 1, displayName: 1, type: 1 })
+    .toArray();
+  const bySlug = new Map(hubs.map((h) => [h.slug, h]));
+
+  return top.map(([other, mentions]) => ({
+    slug: other,
+    displayName: bySlug.get(other)?.displayName ?? null,
+    type: bySlug.get(other)?.type ?? null,
+    mentions,
+  }));
+}
+
+// ============================================================================
+// Curation: merge, aliases, split
+// ============================================================================
+
+/** A curation request that can't be applied; `status` is the HTTP status to answer with */
+export class EntityCurationError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 400 | 404 | 409,
+  ) {
+    super(message);
+    this.name = "EntityCurationError";
+  }
+}
+
+export type EntitySummary = Omit<Entity, "_id" | "summaryEmbedding"> & { id: string };
+
+export interface EntityMergeResult {
+  entity: EntitySummary;
+  merged: string[];
+  memoriesUpdated: number;
+  pendingEdgesUpdated: number;
+}
+
+export interface EntitySplitResult {
+  entity: EntitySummary;
+  created: EntitySummary;
+  memoriesUpdated: number;
+  pendingEdgesUpdated: number;
+}
+
+type StoredEntity = Omit<Entity, "_id"> & { _id: ObjectId };
+
+/** Slug for a display name, the way entity-update derives them */
+export function toEntitySlug(displayName: string): string {
+  return displayName.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+/**
+ * Merge duplicate entities into one. Mentions of the sources (applied and
+ * pending MENTIONS_ENTITY edges, episode participants) are re-pointed at
+ * the target, the sources' names become its aliases and the sources are
+ * deleted. The target's memoryCount and summary embedding are recomputed.
+ *
+ * @throws EntityCurationError 404 if the target or a source doesn't exist
+ */
+export async function mergeEntities(
+  db: Db,
+  embedder: Embedder,
+  agentId: string,
+  targetSlug: string,
+  sourceSlugs: string[],
+): Promise<EntityMergeResult> {
+  const slugs = [...new Set(sourceSlugs)].filter((slug) => slug !== targetSlug);
+  const entitiesCollection = db.collection<StoredEntity>(COLLECTION_ENTITIES);
+
+  const found = await entitiesCollection
+    .find({ agentId, slug: { $in: [targetSlug, ...slugs] } })
+    .toArray();
+  const target = found.find((e) => e.slug === targetSlug);
+  const sources = found.filter((e) => e.slug !== targetSlug);
+  const missing = [targetSlug, ...slugs].filter((slug) => !found.some((e) => e.slug === slug));
+  if (!target || missing.length > 0) {
+    throw new EntityCurationError(`Entity not found: ${missing.join(", ")}`, 404);
+  }
+
+  const moved = await repointMentions(db, agentId, slugs, targetSlug);
+
+  const episodes = db.collection<Pick<Episode, "agentId" | "participants">>(COLLECTION_EPISODES);
+  await episodes.updateMany(
+    { agentId, participants: { $in: slugs } },
+    { $addToSet: { participants: targetSlug } },
+  );
+  await episodes.updateMany(
+    { agentId, participants: { $in: slugs } },
+    { $pullAll: { participants: slugs } },
+  );
+
+  const aliases = uniqueNames([
+    ...target.aliases,
+    ...sources.flatMap((e) => [e.displayName, ...(e.aliases ?? [])]),
+  ]);
+  // The target's own attributes win over the sources'
+  const attributes = Object.assign(
+    {},
+    ...sources.map((e) => e.attributes ?? {}),
+    target.attributes ?? {},
+  );
+  await entitiesCollection.updateOne(
+    { _id: target._id },
+    {
+      $set: {
+        aliases,
+        attributes,
+        lastSeenAt: latest(found.map((e) => e.lastSeenAt)),
+        createdAt: earliest(found.map((e) => e.createdAt)),
+      },
+    },
+  );
+  await entitiesCollection.deleteMany({ agentId, slug: { $in: slugs } });
+
+  return {
+    entity: await refreshEntity(db, embedder, agentId, targetSlug),
+    merged: slugs,
+    ...moved,
+  };
+}
+
+/**
+ * Add and remove aliases of an entity, then re-embed its summary.
+ *
+ * @throws EntityCurationError 404 if the entity doesn't exist
+ */
+export async function updateEntityAliases(
+  db: Db,
+  embedder: Embedder,
+  agentId: string,
+  slug: string,
+  changes: { add?: string[]; remove?: string[] },
+): Promise<EntitySummary> {
+  const entitiesCollection = db.collection<StoredEntity>(COLLECTION_ENTITIES);
+  const entity = await entitiesCollection.findOne({ agentId, slug });
+  if (!entity) throw new EntityCurationError(`Entity not found: ${slug}`, 404);
+
+  const removed = new Set((changes.remove ?? []).map((a) => a.trim().toLowerCase()));
+  const aliases = uniqueNames([...entity.aliases, ...(changes.add ?? [])]).filter(
+    (alias) => !removed.has(alias.toLowerCase()),
+  );
+
+  await entitiesCollection.updateOne({ _id: entity._id }, { $set: { aliases } });
+  return refreshEntity(db, embedder, agentId, slug);
+}
+
+/**
+ * Split some memories off an entity into a new one: their MENTIONS_ENTITY
+ * edges (applied and pending) move to the new entity, along with the
+ * given aliases. Both entities are recounted and re-embedded.
+ *
+ * @throws EntityCurationError 404 if the entity doesn't exist, 409 if the
+ *   new entity's slug is taken, 400 if none of the memories mention it
+ */
+export async function splitEntity(
+  db: Db,
+  embedder: Embedder,
+  agentId: string,
+  slug: string,
+  split: { displayName: string; type?: EntityType; aliases?: string[]; memoryIds: string[] },
+): Promise<EntitySplitResult> {
+  const entitiesCollection = db.collection<StoredEntity>(COLLECTION_ENTITIES);
+  const entity = await entitiesCollection.findOne({ agentId, slug });
+  if (!entity) throw new EntityCurationError(`Entity not found: ${slug}`, 404);
+
+  const newSlug = toEntitySlug(split.displayName);
+  if (await entitiesCollection.findOne({ agentId, slug: newSlug })) {
+    throw new EntityCurationError(`Entity "${newSlug}" already exists; merge into it instead`, 409);
+  }
+
+  const mentioning = await mentioningMemoryIds(db, agentId, slug, split.memoryIds);
+  if (mentioning.length === 0) {
+    throw new EntityCurationError(`None of the memories mention "${slug}"`, 400);
+  }
+
+  const type = split.type ?? entity.type;
+  const now = new Date();
+  const aliases = uniqueNames([split.displayName, ...(split.aliases ?? [])]);
+  await entitiesCollection.insertOne({
+    _id: new ObjectId(),
+    agentId,
+    slug: newSlug,
+    type,
+    displayName: split.displayName,
+    aliases,
+    summary: `${split.displayName} (${type})`,
+    summaryEmbedding: [],
+    attributes: {},
+    memoryCount: 0,
+    lastSeenAt: now,
+    createdAt: now,
+  });
+
+  const moved = await repointMentions(db, agentId, [slug], newSlug, mentioning);
+
+  const movedAliases = new Set(aliases.map((a) => a.toLowerCase()));
+  await entitiesCollection.updateOne(
+    { _id: entity._id },
+    {
+      $set: {
+        aliases: entity.aliases.filter((alias) => !movedAliases.has(alias.toLowerCase())),
+      },
+    },
+  );
+
+  return {
+    entity: await refreshEntity(db, embedder, agentId, slug),
+    created: await refreshEntity(db, embedder, agentId, newSlug),
+    ...moved,
+  };
+}
+
+/**
+ * Re-point MENTIONS_ENTITY edges from `fromSlugs` to `toSlug`, on memories
+ * and in pending_edges, optionally only for some memories. A memory that
+ * ends up mentioning `toSlug` twice keeps one edge.
+ */
+async function repointMentions(
+  db: Db,
+  agentId: string,
+  fromSlugs: string[],
+  toSlug: string,
+  memoryIds?: string[],
+): Promise<{ memoriesUpdated: number; pendingEdgesUpdated: number }> {
+  const from = new Set(fromSlugs);
+  const idFilter = memoryIds ? { _id: { $in: memoryIds.map((id) => new ObjectId(id)) } } : {};
+
+  const memories = await db
+    .collection(COLLECTION_MEMORIES)
+    .find<{ _id: ObjectId; edges: GraphEdge[] }>(
+      {
+        agentId,
+        ...idFilter,
+        edges: { $elemMatch: { type: "MENTIONS_ENTITY", targetId: { $in: fromSlugs } } },
+      },
+      { projection: { edges: 1 } },
+    )
+    .toArray();
+
+  const ops: AnyBulkWriteOperation<Document>[] = memories.map((memory) => {
+    let mentionsTarget = false;
+    const edges = memory.edges
+      .map((edge) =>
+        edge.type === "MENTIONS_ENTITY" && from.has(edge.targetId)
+          ? { ...edge, targetId: toSlug }
+          : edge,
+      )
+      .filter((edge) => {
+        if (edge.type !== "MENTIONS_ENTITY" || edge.targetId !== toSlug) return true;
+        if (mentionsTarget) return false;
+        mentionsTarget = true;
+        return true;
+      });
+
+    return {
+      updateOne: {
+        filter: { _id: memory._id },
+        update: { $set: { edges, updatedAt: new Date() } },
+      },
+    };
+  });
+  if (ops.length > 0) await db.collection(COLLECTION_MEMORIES).bulkWrite(ops);
+
+  const pendingIds = await pendingMentionIds(db, agentId, fromSlugs, memoryIds);
+  if (pendingIds.length > 0) {
+    await db
+      .collection(COLLECTION_PENDING_EDGES)
+      .updateMany({ _id: { $in: pendingIds } }, { $set: { targetId: toSlug } });
+  }
+
+  return { memoriesUpdated: memories.length, pendingEdgesUpdated: pendingIds.length };
+}
+
+/**
+ * Pending MENTIONS_ENTITY edges to the slugs from the agent's memories.
+ * Pending edges carry no agentId, so it comes from their source memory.
+ */
+async function pendingMentionIds(
+  db: Db,
+  agentId: string,
+  slugs: string[],
+  memoryIds?: string[],
+): Promise<ObjectId[]> {
+  const pending = await db
+    .collection(COLLECTION_PENDING_EDGES)
+    .find<{ _id: ObjectId; sourceId: string }>(
+      {
+        edgeType: "MENTIONS_ENTITY",
+        targetId: { $in: slugs },
+        ...(memoryIds && { sourceId: { $in: memoryIds } }),
+      },
+      { projection: { sourceId: 1 } },
+    )
+    .toArray();
+
+  const sourceIds = [...new Set(pending.map((p) => p.sourceId))].filter((id) =>
+    ObjectId.isValid(id),
+  );
+  if (sourceIds.length === 0) return [];
+
+  const owned = await db
+    .collection(COLLECTION_MEMORIES)
+    .find({ agentId, _id: { $in: sourceIds.map((id) => new ObjectId(id)) } })
+    .project<{ _id: ObjectId }>({ _id: 1 })
+    .toArray();
+  const ownedIds = new Set(owned.map((m) => m._id.toString()));
+
+  return pending.filter((p) => ownedIds.has(p.sourceId)).map((p) => p._id);
+}
+
+/** IDs of the agent's memories that mention the slug, applied or pending, optionally among some */
+async function mentioningMemoryIds(
+  db: Db,
+  agentId: string,
+  slug: string,
+  memoryIds?: string[],
+): Promise<string[]> {
+  const applied = await db
+    .collection(COLLECTION_MEMORIES)
+    .find({
+      agentId,
+      ...(memoryIds && { _id: { $in: memoryIds.map((id) => new ObjectId(id)) } }),
+      edges: { $elemMatch: { type: "MENTIONS_ENTITY", targetId: slug } },
+    })
+    .project<{ _id: ObjectId }>({ _id: 1 })
+    .toArray();
+
+  const pendingIds = await pendingMentionIds(db, agentId, [slug], memoryIds);
+  const pending = pendingIds.length
+    ? await db
+        .collection(COLLECTION_PENDING_EDGES)
+        .find<{ sourceId: string }>({ _id: { $in: pendingIds } }, { projection: { sourceId: 1 } })
+        .toArray()
+    : [];
+
+  return [...new Set([...applied.map((m) => m._id.toString()), ...pending.map((p) => p.sourceId)])];
+}
+
+/** Recount an entity's memories and re-embed its summary with its aliases */
+async function refreshEntity(
+  db: Db,
+  embedder: Embedder,
+  agentId: string,
+  slug: string,
+): Promise<EntitySummary> {
+  const entitiesCollection = db.collection<StoredEntity>(COLLECTION_ENTITIES);
+  const entity = (await entitiesCollection.findOne({ agentId, slug }))!;
+
+  const memoryCount = (await mentioningMemoryIds(db, agentId, slug)).length;
+  const otherNames = entity.aliases.filter(
+    (alias) => alias.toLowerCase() !== entity.displayName.toLowerCase(),
+  );
+  const summaryText = otherNames.length
+    ? `${entity.summary}. Also known as ${otherNames.join(", ")}`
+    : entity.summary;
+  const summaryEmbedding = await embedder.embedOne(summaryText, "document");
+
+  await entitiesCollection.updateOne(
+    { _id: entity._id },
+    { $set: { memoryCount, summaryEmbedding } },
+  );
+
+  const { _id, summaryEmbedding: _embedding, ...rest } = entity;
+  return { ...rest, id: _id.toString(), memoryCount };
+}
+
+/** Trimmed, non-empty names without case-insensitive duplicates, first spelling kept */
+function uniqueNames(names: string[]): string[] {
+  const seen = new Set<string>();
+  const unique: string[] = [];
+  for (const name of names.map((n) => n.trim()).filter(Boolean)) {
+    if (seen.has(name.toLowerCase())) continue;
+    seen.add(name.toLowerCase());
+    unique.push(name);
+  }
+  return unique;
+}
+
+function latest(dates: Date[]): Date {
+  return new Date(Math.max(...dates.map((d) => new Date(d).getTime())));
+}
+
+function earliest(dates: Date[]): Date {
+  return new Date(Math.min(...dates.map((d) => new Date(d).getTime())));
+}
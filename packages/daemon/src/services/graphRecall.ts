@@ -0,0 +1,303 @@
+/**
+ * Graph-Augmented Recall
+ *
+ * Expands recall hits along memory graph edges. Starting from the top
+ * similarity hits, each hop follows the selected edge types in both
+ * directions; a memory reached this way scores
+ *
+ *   parent score × edge weight × GRAPH_HOP_DECAY
+ *
+ * keeping its best path when several lead to it. Memories another memory
+ * SUPERSEDES are dropped from the results (unless includeSuperseded), but
+ * still expanded from, so a stale hit leads to the memory that replaced it.
+ */
+
+import { Collection, Document, ObjectId } from "mongodb";
+import type { GraphEdge, GraphEdgeType } from "../types/index.js";
+import type { RecallCandidate } from "./hybridRecall.js";
+
+/** Edge types recall can expand along (memory-to-memory, not contradictions) */
+export const GRAPH_RECALL_EDGE_TYPES = [
+  "SUPPORTS",
+  "CAUSES",
+  "DERIVES_FROM",
+  "SUPERSEDES",
+] as const;
+
+export type GraphRecallEdgeType = (typeof GRAPH_RECALL_EDGE_TYPES)[number];
+
+/** Score multiplier per hop, on top of the edge weight */
+export const GRAPH_HOP_DECAY = 0.5;
+
+export const MAX_GRAPH_HOPS = 2;
+
+export interface GraphPathStep {
+  from: string;
+  to: string;
+  edgeType: GraphEdgeType;
+  /** outbound: `from` holds the edge; inbound: `to` holds it */
+  direction: "outbound" | "inbound";
+  weight: number;
+}
+
+export interface GraphExpansion {
+  /** The recall hit the path starts from */
+  seedId: string;
+  hops: number;
+  path: GraphPathStep[];
+}
+
+export type GraphRecallCandidate<T extends RecallCandidate = RecallCandidate> = T & {
+  /** Present on memories reached through the graph rather than by similarity */
+  graph?: GraphExpansion;
+};
+
+export interface GraphRecallOptions {
+  edgeTypes: readonly GraphEdgeType[];
+  hops: number;
+  /** Memories expansion may reach and supersession is checked in (agentId, projectId) */
+  scope: Record<string, unknown>;
+  limit: number;
+  /** Keep superseded memories in the results */
+  includeSuperseded?: boolean;
+}
+
+export interface GraphRecallResult<T extends RecallCandidate> {
+  results: GraphRecallCandidate<T>[];
+  /** Memories reached through the graph that made it into the results */
+  expanded: number;
+  /** Superseded memories dropped from the results */
+  suppressed: number;
+}
+
+interface Reached {
+  score: number;
+  seedId: string;
+  path: GraphPathStep[];
+}
+
+type EdgeDoc = { _id: ObjectId; edges?: GraphEdge[] };
+
+const CANDIDATE_PROJECTION = {
+  text: 1,
+  tags: 1,
+  metadata: 1,
+  createdAt: 1,
+  layer: 1,
+  memoryType: 1,
+  confidence: 1,
+};
+
+/**
+ * Expand recall hits along the graph, drop superseded memories and re-rank.
+ *
+ * @param collection - Memories collection
+ * @param seeds - Recall hits, best first
+ * @param options - Edge types, hop count (1-2), scope and result limit
+ * @returns Hits and expanded memories by score, at most `limit`
+ */
+export async function expandRecallAlongGraph<T extends RecallCandidate>(
+  collection: Collection,
+  seeds: T[],
+  options: GraphRecallOptions,
+): Promise<GraphRecallResult<T>> {
+  const edgeTypes = new Set<GraphEdgeType>(options.edgeTypes);
+  const hops = Math.min(Math.max(options.hops, 1), MAX_GRAPH_HOPS);
+  const seedIds = new Set(seeds.map((s) => s.id));
+
+  const reached = new Map<string, Reached>();
+  let frontier = new Map<string, Reached>(
+    seeds.map((s) => [s.id, { score: s.score, seedId: s.id, path: [] }]),
+  );
+
+  for (let hop = 0; hop < hops && frontier.size > 0; hop++) {
+    const next = new Map<string, Reached>();
+    const steps = await edgesFrom(collection, [...frontier.keys()], edgeTypes, options.scope);
+
+    for (const step of steps) {
+      if (seedIds.has(step.to)) continue;
+
+      const parent = frontier.get(step.from)!;
+      const score = parent.score * step.weight * GRAPH_HOP_DECAY;
+      const best = next.get(step.to) ?? reached.get(step.to);
+      if (best && best.score >= score) continue;
+
+      next.set(step.to, { score, seedId: parent.seedId, path: [...parent.path, step] });
+    }
+
+    for (const [id, r] of next) reached.set(id, r);
+    frontier = next;
+  }
+
+  const expandedDocs = reached.size
+    ? await collection
+        .find(
+          { ...options.scope, _id: { $in: [...reached.keys()].map((id) => new ObjectId(id)) } },
+          { projection: CANDIDATE_PROJECTION },
+        )
+        .toArray()
+    : [];
+
+  const expanded: GraphRecallCandidate<T>[] = expandedDocs.map((doc) => {
+    const r = reached.get(doc._id.toString())!;
+    return {
+      ...toGraphCandidate(doc, r.score),
+      graph: { seedId: r.seedId, hops: r.path.length, path: r.path },
+    } as GraphRecallCandidate<T>;
+  });
+
+  const candidates: GraphRecallCandidate<T>[] = [...seeds, ...expanded];
+  const superseded = options.includeSuperseded
+    ? new Set<string>()
+    : await findSuperseded(
+        collection,
+        candidates.map((c) => c.id),
+        options.scope,
+      );
+
+  const results = candidates
+    .filter((c) => !superseded.has(c.id))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit);
+
+  return {
+    results,
+    expanded: results.filter((r) => r.graph).length,
+    suppressed: candidates.filter((c) => superseded.has(c.id)).length,
+  };
+}
+
+/**
+ * One hop: the edges of the selected types leaving the given memories, and
+ * those pointing at them, as steps away from them.
+ */
+async function edgesFrom(
+  collection: Collection,
+  ids: string[],
+  edgeTypes: Set<GraphEdgeType>,
+  scope: Record<string, unknown>,
+): Promise<GraphPathStep[]> {
+  const idSet = new Set(ids);
+  const types = [...edgeTypes];
+
+  const [outbound, inbound] = await Promise.all([
+    collection
+      .find<EdgeDoc>(
+        { ...scope, _id: { $in: ids.map((id) => new ObjectId(id)) } },
+        { projection: { edges: 1 } },
+      )
+      .toArray(),
+    collection
+      .find<EdgeDoc>(
+        { ...scope, edges: { $elemMatch: { type: { $in: types }, targetId: { $in: ids } } } },
+        { projection: { edges: 1 } },
+      )
+      .toArray(),
+  ]);
+
+  const steps: GraphPathStep[] = [];
+
+  for (const doc of outbound) {
+    const from = doc._id.toString();
+    for (const edge of doc.edges ?? []) {
+      // MENTIONS_ENTITY and friends point at entity slugs, not memories
+      if (!edgeTypes.has(edge.type) || !isObjectIdHex(edge.targetId)) continue;
+      if (edge.targetId === from) continue;
+      steps.push({
+        from,
+        to: edge.targetId,
+        edgeType: edge.type,
+        direction: "outbound",
+        weight: edgeWeight(edge),
+      });
+    }
+  }
+
+  for (const doc of inbound) {
+    const to = doc._id.toString();
+    for (const edge of doc.edges ?? []) {
+      if (!edgeTypes.has(edge.type) || !idSet.has(edge.targetId)) continue;
+      if (edge.targetId === to) continue;
+      steps.push({
+        from: edge.targetId,
+        to,
+        edgeType: edge.type,
+        direction: "inbound",
+        weight: edgeWeight(edge),
+      });
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * Drop recall hits another memory in scope SUPERSEDES.
+ *
+ * @returns The remaining hits, at most `limit`, and how many were dropped
+ */
+export async function dropSuperseded<T extends RecallCandidate>(
+  collection: Collection,
+  hits: T[],
+  scope: Record<string, unknown>,
+  limit: number,
+): Promise<{ results: T[]; suppressed: number }> {
+  const superseded = await findSuperseded(
+    collection,
+    hits.map((h) => h.id),
+    scope,
+  );
+  return {
+    results: hits.filter((h) => !superseded.has(h.id)).slice(0, limit),
+    suppressed: hits.filter((h) => superseded.has(h.id)).length,
+  };
+}
+
+/** IDs among `ids` that another memory in scope SUPERSEDES */
+export async function findSuperseded(
+  collection: Collection,
+  ids: string[],
+  scope: Record<string, unknown>,
+): Promise<Set<string>> {
+  if (ids.length === 0) return new Set();
+
+  const idSet = new Set(ids);
+  const superseding = await collection
+    .find<EdgeDoc>(
+      { ...scope, edges: { $elemMatch: { type: "SUPERSEDES", targetId: { $in: ids } } } },
+      { projection: { edges: 1 } },
+    )
+    .toArray();
+
+  const superseded = new Set<string>();
+  for (const doc of superseding) {
+    for (const edge of doc.edges ?? []) {
+      if (edge.type === "SUPERSEDES" && idSet.has(edge.targetId)) {
+        superseded.add(edge.targetId);
+      }
+    }
+  }
+  return superseded;
+}
+
+function isObjectIdHex(id: string): boolean {
+  return /^[0-9a-fA-F]{24}$/.test(id);
+}
+
+function edgeWeight(edge: GraphEdge): number {
+  return typeof edge.weight === "number" ? Math.min(Math.max(edge.weight, 0), 1) : 1;
+}
+
+function toGraphCandidate(doc: Document, score: number): RecallCandidate {
+  return {
+    id: doc._id.toString(),
+    text: doc.text,
+    tags: doc.tags,
+    metadata: doc.metadata,
+    createdAt: doc.createdAt,
+    score,
+    layer: doc.layer || null,
+    memoryType: doc.memoryType || null,
+    confidence: doc.confidence ?? null,
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * Hybrid Recall
+ *
+ * Combines lexical hits from the `{ text: "text", tags: "text" }` index with
+ * vector hits using reciprocal-rank fusion (RRF). Lexical search catches exact
+ * identifiers (error codes, ticket numbers, function names) that embeddings
+ * tend to blur; RRF merges the two rankings without needing to calibrate
+ * textScore against cosine similarity.
+ */
+
+import { Collection } from "mongodb";
+import type { ScoreBreakdown } from "../types/index.js";
+
+/** Standard RRF damping constant (Cormack et al., 2009) */
+export const RRF_K = 60;
+
+export interface RecallCandidate {
+  id: string;
+  text: string;
+  tags: string[];
+  metadata: Record<string, unknown>;
+  createdAt: Date;
+  score: number;
+  layer: string | null;
+  memoryType: string | null;
+  confidence: number | null;
+  /** Present on vector hits; see services/recallRanking.ts */
+  scoreBreakdown?: ScoreBreakdown;
+}
+
+export interface HybridScores {
+  fused: number;
+  vector: number | null;
+  vectorRank: number | null;
+  text: number | null;
+  textRank: number | null;
+}
+
+export type HybridCandidate = RecallCandidate & { scores: HybridScores };
+
+/**
+ * Fuse two ranked candidate lists with reciprocal-rank fusion.
+ *
+ * Each list must already be sorted best-first. A candidate's fused score is
+ * the sum of 1 / (k + rank) over the lists it appears in (rank is 1-based),
+ * so documents found by both sources rise to the top.
+ *
+ * @param vectorHits - Candidates ranked by embedding similarity
+ * @param textHits - Candidates ranked by MongoDB textScore
+ * @param limit - Maximum number of fused results to return
+ * @param k - RRF damping constant
+ * @returns Fused candidates, `score` replaced by the fused score
+ */
+export function reciprocalRankFusion(
+  vectorHits: RecallCandidate[],
+  textHits: RecallCandidate[],
+  limit: number,
+  k: number = RRF_K,
+): HybridCandidate[] {
+  const fused = new Map<string, HybridCandidate>();
+
+  vectorHits.forEach((hit, index) => {
+    const rank = index + 1;
+    fused.set(hit.id, {
+      ...hit,
+      score: 1 / (k + rank),
+      scores: {
+        fused: 1 / (k + rank),
+        vector: hit.score,
+        vectorRank: rank,
+        text: null,
+        textRank: null,
+      },
+    });
+  });
+
+  textHits.forEach((hit, index) => {
+    const rank = index + 1;
+    const contribution = 1 / (k + rank);
+    const existing = fused.get(hit.id);
+
+    if (existing) {
+      existing.scores.fused += contribution;
+      existing.scores.text = hit.score;
+      existing.scores.textRank = rank;
+      existing.score = existing.scores.fused;
+    } else {
+      fused.set(hit.id, {
+        ...hit,
+        score: contribution,
+        scores: {
+          fused: contribution,
+          vector: null,
+          vectorRank: null,
+          text: hit.score,
+          textRank: rank,
+        },
+      });
+    }
+  });
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Lexical recall via the memories text index ($text + textScore).
+ *
+ * Returns an empty list if the text index is missing rather than failing the
+ * whole recall — the vector side still produces results.
+ */
+export async function textSearchRecall(
+  collection: Collection,
+  query: string,
+  filter: Record<string, unknown>,
+  limit: number,
+): Promise<RecallCandidate[]> {
+  try {
+    const docs = await collection
+      .find(
+        { ...filter, $text: { $search: query } },
+        {
+          projection: {
+            text: 1,
+            tags: 1,
+            metadata: 1,
+            createdAt: 1,
+            layer: 1,
+            memoryType: 1,
+            confidence: 1,
+            textScore: { $meta: "textScore" },
+          },
+          sort: { textScore: { $meta: "textScore" } },
+          limit,
+        },
+      )
+      .toArray();
+
+    return docs.map((doc) => ({
+      id: doc._id.toString(),
+      text: doc.text,
+      tags: doc.tags,
+      metadata: doc.metadata,
+      createdAt: doc.createdAt,
+      score: doc.textScore as number,
+      layer: doc.layer || null,
+      memoryType: doc.memoryType || null,
+      confidence: doc.confidence ?? null,
+    }));
+  } catch (error) {
+    console.log(
+      `[Recall] Text search unavailable, using vector results only: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return [];
+  }
+}
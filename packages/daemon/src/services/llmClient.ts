@@ -1,31 +1,67 @@
 /**
  * Shared LLM Client
  *
- * Unified interface for calling an LLM (Ollama-compatible endpoint).
+ * Unified interface for calling an LLM. Two wire protocols are supported:
+ *   ollama: POST /api/generate (default)
+ *   openai: POST /v1/chat/completions — OpenAI, vLLM, LiteLLM, hosted gateways
  * All reflection stages and services use this instead of inline fetch calls.
  *
  * Features:
  * - Timeout + abort signal
+ * - Bearer auth when an apiKey is configured
+ * - JSON mode (response_format / format: "json") for JSON calls
  * - JSON response parsing with validation
+ * - Token usage emitted on llmUsageEmitter (picked up by UsageTracker)
  * - Graceful fallback support
  * - Structured error reporting
  */
 
-import { ResolvedPipelineSettings } from "../types/settings.js";
+import { EventEmitter } from "events";
+import { LlmProviderType, ResolvedPipelineSettings } from "../types/settings.js";
 import { DEFAULT_LLM_ENDPOINT, DEFAULT_LLM_MODEL } from "../types/settings.js";
+import type { LlmUsageEvent } from "../types/usage.js";
 
 export interface LlmCallConfig {
+  /** Wire protocol (default: ollama) */
+  provider?: LlmProviderType;
   endpoint: string;
   model: string;
   apiKey?: string;
   temperature: number;
   maxTokens: number;
   timeoutMs: number;
+  /** Request JSON output from the provider on callLlmJson() */
+  jsonMode?: boolean;
+}
+
+export interface LlmTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
 }
 
 export interface LlmCallResult {
   text: string;
   durationMs: number;
+  /** Token counts reported by the provider (absent if it reported none) */
+  usage?: LlmTokenUsage;
+}
+
+/**
+ * Emits "usage" (LlmUsageEvent) after every successful LLM call.
+ * UsageTracker subscribes so LLM cost lands in usage_events next to embeddings.
+ */
+export const llmUsageEmitter = new EventEmitter();
+
+interface OllamaGenerateResponse {
+  response?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
 }
 
 /**
@@ -34,6 +70,7 @@ export interface LlmCallResult {
 export function getLlmConfig(settings?: ResolvedPipelineSettings): LlmCallConfig {
   if (!settings) {
     return {
+      provider: "ollama",
       endpoint: DEFAULT_LLM_ENDPOINT,
       model: DEFAULT_LLM_MODEL,
       temperature: 0.3,
@@ -44,24 +81,105 @@ export function getLlmConfig(settings?: ResolvedPipelineSettings): LlmCallConfig
   return { ...settings.llmProvider };
 }
 
+/**
+ * Build the provider-specific request body.
+ */
+function buildRequestBody(
+  prompt: string,
+  config: LlmCallConfig,
+  json: boolean,
+): Record<string, unknown> {
+  if (config.provider === "openai") {
+    return {
+      model: config.model,
+      messages: [{ role: "user", content: prompt }],
+      temperature: config.temperature,
+      max_tokens: config.maxTokens,
+      stream: false,
+      ...(json ? { response_format: { type: "json_object" } } : {}),
+    };
+  }
+  return {
+    model: config.model,
+    prompt,
+    stream: false,
+    ...(json ? { format: "json" } : {}),
+    options: {
+      temperature: config.temperature,
+      num_predict: config.maxTokens,
+    },
+  };
+}
+
+/**
+ * Pull the completion text and token usage out of a provider response.
+ */
+function parseResponse(
+  data: unknown,
+  config: LlmCallConfig,
+): { text?: string; usage?: LlmTokenUsage } {
+  if (config.provider === "openai") {
+    const chat = data as ChatCompletionResponse;
+    const text = chat.choices?.[0]?.message?.content?.trim();
+    if (!chat.usage) return { text };
+    const promptTokens = chat.usage.prompt_tokens ?? 0;
+    const completionTokens = chat.usage.completion_tokens ?? 0;
+    return {
+      text,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: chat.usage.total_tokens ?? promptTokens + completionTokens,
+      },
+    };
+  }
+
+  const generated = data as OllamaGenerateResponse;
+  const text = generated.response?.trim();
+  if (generated.prompt_eval_count === undefined && generated.eval_count === undefined) {
+    return { text };
+  }
+  const promptTokens = generated.prompt_eval_count ?? 0;
+  const completionTokens = generated.eval_count ?? 0;
+  return {
+    text,
+    usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+  };
+}
+
+/** Safely emit a usage event (swallows errors from listeners) */
+function emitUsage(usage: LlmTokenUsage, config: LlmCallConfig): void {
+  const event: LlmUsageEvent = {
+    provider: config.provider ?? "ollama",
+    model: config.model,
+    ...usage,
+  };
+  try {
+    llmUsageEmitter.emit("usage", event);
+  } catch (err) {
+    console.error("[LLM] Usage event listener error:", err);
+  }
+}
+
 /**
  * Call the LLM and return raw text response.
  */
-export async function callLlm(prompt: string, config: LlmCallConfig): Promise<LlmCallResult> {
+export async function callLlm(
+  prompt: string,
+  config: LlmCallConfig,
+  options?: { json?: boolean },
+): Promise<LlmCallResult> {
   const startTime = Date.now();
 
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+
   const response = await fetch(config.endpoint, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      model: config.model,
-      prompt,
-      stream: false,
-      options: {
-        temperature: config.temperature,
-        num_predict: config.maxTokens,
-      },
-    }),
+    headers,
+    body: JSON.stringify(buildRequestBody(prompt, config, options?.json ?? false)),
     signal: AbortSignal.timeout(config.timeoutMs),
   });
 
@@ -69,8 +187,12 @@ export async function callLlm(prompt: string, config: LlmCallConfig): Promise<Ll
     throw new LlmError(`LLM returned ${response.status}: ${response.statusText}`, config);
   }
 
-  const data = (await response.json()) as { response?: string };
-  const text = data.response?.trim();
+  const { text, usage } = parseResponse(await response.json(), config);
+
+  // Tokens were spent even if the output turns out to be unusable
+  if (usage) {
+    emitUsage(usage, config);
+  }
 
   if (!text) {
     throw new LlmError("Empty LLM response", config);
@@ -79,6 +201,7 @@ export async function callLlm(prompt: string, config: LlmCallConfig): Promise<Ll
   return {
     text,
     durationMs: Date.now() - startTime,
+    usage,
   };
 }
 
@@ -90,7 +213,7 @@ export async function callLlmJson<T>(
   prompt: string,
   config: LlmCallConfig,
 ): Promise<{ data: T; durationMs: number }> {
-  const result = await callLlm(prompt, config);
+  const result = await callLlm(prompt, config, { json: config.jsonMode });
 
   // Try to extract JSON from the response (handle ```json ... ``` wrapping)
   let jsonText = result.text;
@@ -0,0 +1,303 @@
+/**
+ * Memory Edit Service
+ *
+ * Edits a stored memory in place and keeps every prior state in
+ * memory_versions, tagged with who changed it, when and why.
+ *
+ * A text change re-embeds the memory and reruns contradiction detection
+ * against the new text; tag, metadata and classification edits keep the
+ * existing vector. Reverting writes an old snapshot back as a new version,
+ * so history is only ever appended to.
+ */
+
+import { isDeepStrictEqual } from "util";
+import { Db, ObjectId } from "mongodb";
+import type { Embedder } from "../embedding.js";
+import type { DaemonConfig } from "../config.js";
+import { COLLECTION_MEMORIES, COLLECTION_MEMORY_VERSIONS } from "../constants.js";
+import type {
+  Contradiction,
+  Memory,
+  MemoryLayer,
+  MemoryType,
+  MemoryVersion,
+} from "../types/index.js";
+import { detectContradictions, markMemoryAsContradicting } from "./contradictionDetector.js";
+import { wakeEmbeddingWorker } from "./embeddingQueue.js";
+import { getResolvedSettings } from "./settingsService.js";
+import type { UsageTracker } from "./usageTracker.js";
+
+export interface MemoryChanges {
+  text?: string;
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+  memoryType?: MemoryType;
+  layer?: MemoryLayer;
+  confidence?: number;
+}
+
+export interface MemoryEditOptions {
+  /** Who made the change — an agent ID, "web", an API key name */
+  changedBy: string;
+  reason?: string;
+  /** Reject the edit unless the memory is still at this version */
+  expectedVersion?: number;
+  usageTracker?: UsageTracker;
+  /** Resolves the agent's contradiction classifier for the re-check (heuristic without it) */
+  daemonConfig?: DaemonConfig;
+}
+
+export interface MemoryEditResult {
+  id: string;
+  version: number;
+  changed: Array<keyof MemoryChanges>;
+  reembedded: boolean;
+  embeddingStatus: "ready" | "pending";
+  contradictions: Contradiction[];
+}
+
+/** The memory was edited by someone else since the caller read it */
+export class MemoryVersionConflictError extends Error {
+  constructor(public readonly currentVersion: number) {
+    super(`Memory was modified concurrently (now at version ${currentVersion})`);
+    this.name = "MemoryVersionConflictError";
+  }
+}
+
+const VERSIONED_FIELDS = ["text", "tags", "metadata", "memoryType", "layer", "confidence"] as const;
+
+type StoredMemory = Omit<Memory, "_id"> & { _id: ObjectId };
+
+/**
+ * Apply `changes` to a memory, snapshotting its current state first.
+ *
+ * @returns The new version, or null if the memory doesn't exist
+ * @throws MemoryVersionConflictError when expectedVersion is stale or a
+ *         concurrent edit wins the race
+ */
+export async function updateMemory(
+  db: Db,
+  embedder: Embedder,
+  memoryId: string,
+  changes: MemoryChanges,
+  options: MemoryEditOptions,
+  change: MemoryVersion["change"] = "edit",
+): Promise<MemoryEditResult | null> {
+  const collection = db.collection(COLLECTION_MEMORIES);
+  const _id = new ObjectId(memoryId);
+
+  const current = (await collection.findOne(
+    { _id },
+    { projection: { embedding: 0, shadowEmbedding: 0 } },
+  )) as StoredMemory | null;
+  if (!current) return null;
+
+  const currentVersion = current.version ?? 1;
+  if (options.expectedVersion !== undefined && options.expectedVersion !== currentVersion) {
+    throw new MemoryVersionConflictError(currentVersion);
+  }
+
+  const changed = VERSIONED_FIELDS.filter(
+    (field) => changes[field] !== undefined && !isDeepStrictEqual(changes[field], current[field]),
+  );
+  const wasPending = current.embeddingStatus === "pending";
+  if (changed.length === 0) {
+    return {
+      id: memoryId,
+      version: currentVersion,
+      changed,
+      reembedded: false,
+      embeddingStatus: wasPending ? "pending" : "ready",
+      contradictions: [],
+    };
+  }
+
+  const now = new Date();
+  const $set: Record<string, unknown> = { updatedAt: now, version: currentVersion + 1 };
+  const $unset: Record<string, ""> = {};
+  for (const field of changed) $set[field] = changes[field];
+
+  // 1. Re-embed the new text before anything is written, so a slow or
+  //    failing provider never leaves a half-applied edit
+  const textChanged = changed.includes("text");
+  let embedding: number[] | null = null;
+  let contradictions: Contradiction[] = [];
+  // A running re-embed migration's shadow vector is of the old text; without
+  // one, its cutover catch-up embeds the new text
+  if (textChanged) {
+    Object.assign($unset, { shadowEmbedding: "", shadowEmbeddingModel: "" });
+  }
+  if (textChanged && !wasPending) {
+    const text = changes.text!;
+    options.usageTracker?.pushContext({ operation: "remember", agentId: current.agentId });
+    try {
+      embedding = await embedder.embedOne(text, "document");
+    } catch (error) {
+      // Same fallback as /remember: the embedding queue picks it up
+      console.warn(`[MemoryEdit] Embedding failed, queueing ${memoryId}: ${String(error)}`);
+    } finally {
+      options.usageTracker?.popContext();
+    }
+
+    if (embedding) {
+      const settings = options.daemonConfig
+        ? await getResolvedSettings(db, current.agentId, options.daemonConfig)
+        : undefined;
+      options.usageTracker?.pushContext({
+        operation: "contradiction-check",
+        agentId: current.agentId,
+      });
+      try {
+        contradictions = await detectContradictions(
+          {
+            agentId: current.agentId,
+            text,
+            tags: changes.tags ?? current.tags ?? [],
+            excludeId: memoryId,
+          },
+          embedding,
+          db,
+          embedder,
+          settings,
+        );
+      } finally {
+        options.usageTracker?.popContext();
+      }
+      Object.assign($set, {
+        embedding,
+        embeddingModel: embedder.getModel(),
+        embeddingDim: embedding.length,
+        embeddingStatus: "ready",
+      });
+    } else {
+      Object.assign($set, { embeddingStatus: "pending", embeddingAttempts: 0 });
+      Object.assign($unset, { embedding: "", embeddingModel: "", embeddingDim: "" });
+    }
+
+    // Unresolved contradictions were about the old text; resolved ones are kept as history
+    const resolved = (current.contradictions ?? []).filter(
+      (c) => c.resolution && c.resolution !== "unresolved",
+    );
+    $set.contradictions = [...resolved, ...contradictions];
+  }
+
+  // 2. Snapshot the current state. The unique (memoryId, version) index
+  //    makes concurrent edits of the same version collide here.
+  const snapshot: Omit<MemoryVersion, "_id"> = {
+    memoryId: _id,
+    agentId: current.agentId,
+    version: currentVersion,
+    text: current.text,
+    tags: current.tags ?? [],
+    metadata: current.metadata ?? {},
+    ...(current.memoryType && { memoryType: current.memoryType }),
+    ...(current.layer && { layer: current.layer }),
+    ...(current.confidence !== undefined && { confidence: current.confidence }),
+    supersededAt: now,
+    changedBy: options.changedBy,
+    ...(options.reason && { reason: options.reason }),
+    change,
+  };
+  const versions = db.collection(COLLECTION_MEMORY_VERSIONS);
+  let snapshotId: ObjectId;
+  try {
+    snapshotId = (await versions.insertOne(snapshot)).insertedId;
+  } catch (error) {
+    if ((error as { code?: number }).code === 11000) {
+      throw new MemoryVersionConflictError(currentVersion + 1);
+    }
+    throw error;
+  }
+
+  // 3. Apply the edit, guarded by the version we read
+  const result = await collection.updateOne(
+    {
+      _id,
+      version: current.version === undefined ? { $exists: false } : current.version,
+    },
+    { $set, ...(Object.keys($unset).length > 0 && { $unset }) },
+  );
+  if (result.matchedCount === 0) {
+    await versions.deleteOne({ _id: snapshotId });
+    throw new MemoryVersionConflictError(currentVersion + 1);
+  }
+
+  if (textChanged) {
+    // Other memories flagged as contradicting the old text
+    await db.collection<Pick<Memory, "contradictions">>(COLLECTION_MEMORIES).updateMany(
+      { "contradictions.memoryId": { $in: [memoryId, _id] } },
+      {
+        $pull: {
+          contradictions: {
+            memoryId: { $in: [memoryId, _id] },
+            resolution: { $in: [null, "unresolved"] },
+          },
+        },
+      },
+    );
+    for (const contradiction of contradictions) {
+      await markMemoryAsContradicting(contradiction.memoryId.toString(), memoryId, db);
+    }
+    if (!embedding) wakeEmbeddingWorker();
+  }
+
+  return {
+    id: memoryId,
+    version: currentVersion + 1,
+    changed,
+    reembedded: embedding !== null,
+    embeddingStatus: $set.embeddingStatus === "pending" || wasPending ? "pending" : "ready",
+    contradictions,
+  };
+}
+
+/**
+ * Prior versions of a memory, newest first
+ */
+export async function getMemoryHistory(
+  db: Db,
+  memoryId: string,
+  limit: number = 50,
+): Promise<MemoryVersion[]> {
+  return (await db
+    .collection(COLLECTION_MEMORY_VERSIONS)
+    .find({ memoryId: new ObjectId(memoryId) })
+    .sort({ version: -1 })
+    .limit(limit)
+    .toArray()) as unknown as MemoryVersion[];
+}
+
+/**
+ * Restore the content of an earlier version. Recorded as a new version,
+ * so the revert itself can be reverted.
+ *
+ * @returns null if the memory or the version doesn't exist
+ */
+export async function revertMemory(
+  db: Db,
+  embedder: Embedder,
+  memoryId: string,
+  version: number,
+  options: MemoryEditOptions,
+): Promise<MemoryEditResult | null> {
+  const snapshot = (await db
+    .collection(COLLECTION_MEMORY_VERSIONS)
+    .findOne({ memoryId: new ObjectId(memoryId), version })) as MemoryVersion | null;
+  if (!snapshot) return null;
+
+  return updateMemory(
+    db,
+    embedder,
+    memoryId,
+    {
+      text: snapshot.text,
+      tags: snapshot.tags,
+      metadata: snapshot.metadata,
+      memoryType: snapshot.memoryType,
+      layer: snapshot.layer,
+      confidence: snapshot.confidence,
+    },
+    { ...options, reason: options.reason ?? `Reverted to version ${version}` },
+    "revert",
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * Recall Ranking
+ *
+ * Re-ranks similarity hits using the memory's own signals: strength (decay),
+ * confidence, recency and layer. Weights come from the agent's settings
+ * document (recallRanking), resolved by settingsService.getRecallRanking().
+ *
+ *   final = layerBoost × Σ(weight × signal) / Σ(weight)
+ *
+ * Normalizing by the weight sum keeps the final score on the same scale as
+ * cosine similarity, so existing minScore thresholds stay meaningful.
+ */
+
+import { ScoreBreakdown } from "../types/index.js";
+import { DEFAULT_STRENGTH } from "../types/confidence.js";
+import { ResolvedRecallRanking } from "../types/settings.js";
+
+/** Confidence assumed for legacy memories stored before confidence existed */
+const DEFAULT_CONFIDENCE = 0.5;
+
+export interface RankingSignals {
+  similarity: number;
+  strength?: number | null;
+  confidence?: number | null;
+  layer?: string | null;
+  createdAt?: Date | null;
+  lastReinforcedAt?: Date | null;
+}
+
+/**
+ * Recency as exponential half-life decay since the memory was last reinforced
+ * (or created): 1.0 now, 0.5 after one half-life, 0.25 after two.
+ */
+export function recencyScore(
+  lastTouched: Date | null | undefined,
+  halfLifeDays: number,
+  now: number = Date.now(),
+): number {
+  if (!lastTouched) return 0;
+  const ageDays = Math.max(0, (now - new Date(lastTouched).getTime()) / 86400000);
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+/**
+ * Compute the final ranking score and its breakdown for a single hit.
+ */
+export function scoreRecallCandidate(
+  signals: RankingSignals,
+  ranking: ResolvedRecallRanking,
+  now: number = Date.now(),
+): ScoreBreakdown {
+  const strength = Math.max(0, Math.min(1, signals.strength ?? DEFAULT_STRENGTH));
+  const confidence = signals.confidence ?? DEFAULT_CONFIDENCE;
+  const recency = recencyScore(
+    signals.lastReinforcedAt ?? signals.createdAt,
+    ranking.recencyHalfLifeDays,
+    now,
+  );
+  const layerBoost =
+    ranking.layerBoosts[signals.layer as keyof ResolvedRecallRanking["layerBoosts"]] ?? 1;
+
+  const { weights } = ranking;
+  const totalWeight = weights.similarity + weights.strength + weights.confidence + weights.recency;
+
+  const weighted =
+    totalWeight > 0
+      ? (weights.similarity * signals.similarity +
+          weights.strength * strength +
+          weights.confidence * confidence +
+          weights.recency * recency) /
+        totalWeight
+      : signals.similarity;
+
+  return {
+    similarity: signals.similarity,
+    strength,
+    confidence,
+    recency,
+    layerBoost,
+    final: layerBoost * weighted,
+  };
+}
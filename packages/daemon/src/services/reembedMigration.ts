@@ -0,0 +1,406 @@
+/**
+ * Re-embed Migration
+ *
+ * Switches the embedding model without a recall outage:
+ *
+ *   1. start    — a job (reembed_jobs) embeds every memory with the target
+ *                 model into `shadowEmbedding` / `shadowEmbeddingModel`.
+ *                 Recall keeps using `embedding` and the current model.
+ *   2. ready    — all memories have a shadow vector; waiting for cutover.
+ *   3. cutover  — catch up memories written since, copy shadow → embedding
+ *                 in one updateMany (old vectors are dropped), swap the live
+ *                 embedder, then re-embed anything written during the swap.
+ *   abort       — stop the job and remove its shadow vectors.
+ *
+ * Jobs left "running" by a daemon restart resume from lastProcessedId.
+ * The last completed job is the record of which model the stored vectors
+ * belong to: on startup the daemon embeds with its target model even if
+ * VOYAGE_MODEL / EMBEDDING_MODEL still names the old one.
+ */
+
+import { Db, Document, Filter, ObjectId } from "mongodb";
+import { DaemonConfig } from "../config";
+import { COLLECTION_MEMORIES, COLLECTION_REEMBED_JOBS } from "../constants";
+import { createEmbedderForModel, withEmbeddingCache } from "../embedders";
+import type { Embedder } from "../embedders/base";
+import type { SwitchableEmbedder } from "../embedders/switchable";
+import { startupError } from "../utils/startupError";
+import type { UsageTracker } from "./usageTracker";
+
+export type ReembedJobStatus =
+  | "running"
+  | "ready"
+  | "cutting-over"
+  | "complete"
+  | "failed"
+  | "aborted";
+
+export interface ReembedJob {
+  _id?: ObjectId;
+  fromModel: string;
+  targetModel: string;
+  provider: string;
+  dimensions: number;
+  status: ReembedJobStatus;
+  /** Memories to embed when the job started */
+  total: number;
+  processed: number;
+  errors: number;
+  /** Resume point — memories are walked in _id order */
+  lastProcessedId?: ObjectId;
+  createdAt: Date;
+  readyAt?: Date;
+  completedAt?: Date;
+  error?: string;
+}
+
+/** Statuses that block starting another migration */
+export const ACTIVE_REEMBED_STATUSES: ReembedJobStatus[] = ["running", "ready", "cutting-over"];
+
+/** Memories per embed call (the embedder splits further to provider limits) */
+const DEFAULT_BATCH_SIZE = 64;
+
+/**
+ * Pending memories (async /remember) are embedded by the queue with the live model;
+ * failed ones wait for POST /embeddings/requeue, which embeds them with whatever is live then
+ */
+const EMBEDDED: Filter<Document> = { embeddingStatus: { $nin: ["pending", "failed"] } };
+
+function jobs(db: Db) {
+  return db.collection<ReembedJob>(COLLECTION_REEMBED_JOBS);
+}
+
+/**
+ * Create a running job for `target`. Fails if another migration is active.
+ */
+export async function createReembedJob(
+  db: Db,
+  fromModel: string,
+  target: Embedder,
+): Promise<ReembedJob> {
+  if (await getActiveReembedJob(db)) {
+    throw new Error("A re-embed migration is already in progress");
+  }
+
+  const job: ReembedJob = {
+    fromModel,
+    targetModel: target.getModel(),
+    provider: target.provider,
+    dimensions: target.getDimensions(),
+    status: "running",
+    total: await db.collection(COLLECTION_MEMORIES).countDocuments(EMBEDDED),
+    processed: 0,
+    errors: 0,
+    createdAt: new Date(),
+  };
+  const result = await jobs(db).insertOne(job);
+  return { ...job, _id: result.insertedId };
+}
+
+/**
+ * Get a job by ID, or the most recent job when no ID is given
+ */
+export async function getReembedJob(db: Db, jobId?: string): Promise<ReembedJob | null> {
+  if (jobId) {
+    if (!ObjectId.isValid(jobId)) return null;
+    return jobs(db).findOne({ _id: new ObjectId(jobId) });
+  }
+  return jobs(db).findOne({}, { sort: { createdAt: -1 } });
+}
+
+export async function getActiveReembedJob(db: Db): Promise<ReembedJob | null> {
+  return jobs(db).findOne({ status: { $in: ACTIVE_REEMBED_STATUSES } });
+}
+
+/**
+ * Walk all memories after the job's resume point and write shadow vectors.
+ * Marks the job "ready" when done; stops early if the job is aborted.
+ */
+export async function runReembedJob(
+  db: Db,
+  jobId: ObjectId,
+  target: Embedder,
+  usageTracker?: UsageTracker,
+  batchSize: number = DEFAULT_BATCH_SIZE,
+): Promise<void> {
+  const job = await jobs(db).findOne({ _id: jobId });
+  if (!job || job.status !== "running") return;
+
+  let lastId = job.lastProcessedId;
+  const untrack = usageTracker?.trackEmbedder(target);
+  try {
+    for (;;) {
+      const current = await jobs(db).findOne({ _id: jobId }, { projection: { status: 1 } });
+      if (current?.status !== "running") {
+        if (current?.status === "aborted") await clearShadowVectors(db, job.targetModel);
+        return;
+      }
+
+      const filter: Filter<Document> = { ...EMBEDDED, ...(lastId && { _id: { $gt: lastId } }) };
+      const batch = await db
+        .collection(COLLECTION_MEMORIES)
+        .find(filter, { projection: { _id: 1, text: 1, agentId: 1 } })
+        .sort({ _id: 1 })
+        .limit(batchSize)
+        .toArray();
+      if (batch.length === 0) break;
+
+      const written = await embedIntoField(db, target, batch, "shadow", usageTracker);
+      lastId = batch[batch.length - 1]._id;
+      await jobs(db).updateOne(
+        { _id: jobId },
+        {
+          $set: { lastProcessedId: lastId },
+          $inc: { processed: batch.length, errors: batch.length - written },
+        },
+      );
+    }
+
+    await jobs(db).updateOne(
+      { _id: jobId, status: "running" },
+      { $set: { status: "ready", readyAt: new Date() } },
+    );
+  } catch (error) {
+    await jobs(db).updateOne(
+      { _id: jobId },
+      { $set: { status: "failed", completedAt: new Date(), error: String(error) } },
+    );
+    throw error;
+  } finally {
+    untrack?.();
+  }
+}
+
+/**
+ * Switch recall and writes to the job's target model.
+ *
+ * Only valid for "ready" jobs. If catching up fails the job goes back to
+ * "ready" and nothing has changed.
+ */
+export async function cutoverReembedJob(
+  db: Db,
+  jobId: ObjectId,
+  live: SwitchableEmbedder,
+  next: Embedder,
+  usageTracker?: UsageTracker,
+): Promise<ReembedJob> {
+  const job = await jobs(db).findOneAndUpdate(
+    { _id: jobId, status: "ready" },
+    { $set: { status: "cutting-over" } },
+    { returnDocument: "after" },
+  );
+  if (!job) {
+    throw new Error("Job is not ready for cutover");
+  }
+  const memories = db.collection(COLLECTION_MEMORIES);
+
+  // 1. Shadow vectors for memories written (or failed) since the job ran
+  const untrack = usageTracker?.trackEmbedder(next);
+  try {
+    await embedAll(
+      db,
+      next,
+      { ...EMBEDDED, shadowEmbeddingModel: { $ne: job.targetModel } },
+      "shadow",
+      usageTracker,
+    );
+  } catch (error) {
+    await jobs(db).updateOne({ _id: jobId }, { $set: { status: "ready" } });
+    throw error;
+  } finally {
+    // After the swap, usage flows through the live embedder's emitter
+    untrack?.();
+  }
+
+  // 2. Swap shadow → embedding in one command; the old vectors go away
+  await memories.updateMany({ shadowEmbeddingModel: job.targetModel }, [
+    {
+      $set: {
+        embedding: "$shadowEmbedding",
+        embeddingModel: "$shadowEmbeddingModel",
+        embeddingDim: { $size: "$shadowEmbedding" },
+        embeddingStatus: "ready",
+      },
+    },
+    { $unset: ["shadowEmbedding", "shadowEmbeddingModel", "embeddingError", "embeddingRetryAt"] },
+  ]);
+
+  // 3. Recall queries and new writes use the new model from here on
+  live.swap(next);
+
+  // 4. Anything stored or edited between catch-up and the swap has an old-model vector
+  await embedAll(
+    db,
+    next,
+    { ...EMBEDDED, embeddingModel: { $ne: job.targetModel } },
+    "embedding",
+    usageTracker,
+  ).catch((error) => console.error("[Reembed] Post-cutover fix-up failed:", error));
+
+  const completedAt = new Date();
+  await jobs(db).updateOne({ _id: jobId }, { $set: { status: "complete", completedAt } });
+  return { ...job, status: "complete", completedAt };
+}
+
+/**
+ * Stop a migration and remove its shadow vectors. Recall is unaffected.
+ */
+export async function abortReembedJob(db: Db, jobId: ObjectId): Promise<ReembedJob> {
+  const job = await jobs(db).findOneAndUpdate(
+    { _id: jobId, status: { $in: ["running", "ready"] } },
+    { $set: { status: "aborted", completedAt: new Date() } },
+    { returnDocument: "after" },
+  );
+  if (!job) {
+    throw new Error("Only running or ready jobs can be aborted");
+  }
+  await clearShadowVectors(db, job.targetModel);
+  return job;
+}
+
+/**
+ * Startup (daemon and `ocmem worker`): the embedder for the model the last
+ * completed migration switched to, or `configured` when that's the one
+ * configured (or nothing was ever migrated). Stored vectors are tagged with
+ * the migrated model, so starting on the old one would make every vector
+ * recall come back empty. Refuses to start when the configured provider
+ * can't serve the migrated model.
+ */
+export async function resolveMigratedEmbedder(
+  db: Db,
+  config: DaemonConfig,
+  configured: Embedder,
+): Promise<Embedder> {
+  const last = await jobs(db).findOne({ status: "complete" }, { sort: { completedAt: -1 } });
+  if (!last || last.targetModel === configured.getModel()) return configured;
+
+  if (last.provider !== configured.provider) {
+    startupError({
+      title: "Embedding model doesn't match the stored vectors",
+      description:
+        `Memories were re-embedded with ${last.provider} / ${last.targetModel}, ` +
+        `but the daemon is configured for ${configured.provider} / ${configured.getModel()}.`,
+      fix: [
+        `Set EMBEDDING_PROVIDER=${last.provider} and its model to ${last.targetModel}`,
+        "OR start on that model and run a re-embed migration (POST /reembed/start) to switch",
+      ],
+    });
+  }
+
+  console.log(
+    `  Using ${last.targetModel} from the re-embed migration completed ` +
+      `${last.completedAt?.toISOString() ?? ""} (configured: ${configured.getModel()})`,
+  );
+  return createEmbedderForModel(config, last.targetModel, last.dimensions);
+}
+
+/**
+ * Daemon startup: resume interrupted jobs.
+ */
+export async function resumeReembedJobs(
+  db: Db,
+  config: DaemonConfig,
+  usageTracker?: UsageTracker,
+): Promise<void> {
+  // An interrupted cutover is safe to retry from "ready"
+  await jobs(db).updateMany({ status: "cutting-over" }, { $set: { status: "ready" } });
+
+  const running = await jobs(db).findOne({ status: "running" });
+  if (running?._id) {
+    const target = withEmbeddingCache(
+      createEmbedderForModel(config, running.targetModel, running.dimensions),
+      db,
+      config,
+    );
+    console.log(`  Re-embed migration to ${running.targetModel}: resuming`);
+    runReembedJob(db, running._id, target, usageTracker).catch((error) =>
+      console.error("[Reembed] Job failed:", error),
+    );
+  }
+}
+
+/** Embed every memory matching `filter` (in _id order) into the given field */
+async function embedAll(
+  db: Db,
+  embedder: Embedder,
+  filter: Filter<Document>,
+  field: "shadow" | "embedding",
+  usageTracker?: UsageTracker,
+): Promise<void> {
+  const cursor = db
+    .collection(COLLECTION_MEMORIES)
+    .find(filter, { projection: { _id: 1, text: 1, agentId: 1 } })
+    .sort({ _id: 1 });
+
+  let batch: Document[] = [];
+  for await (const doc of cursor) {
+    batch.push(doc);
+    if (batch.length >= DEFAULT_BATCH_SIZE) {
+      await embedIntoField(db, embedder, batch, field, usageTracker, true);
+      batch = [];
+    }
+  }
+  if (batch.length > 0) {
+    await embedIntoField(db, embedder, batch, field, usageTracker, true);
+  }
+}
+
+/**
+ * Embed one batch and write the vectors. Returns how many were written;
+ * embedding errors are counted as 0 written unless `throwOnError`.
+ */
+async function embedIntoField(
+  db: Db,
+  embedder: Embedder,
+  batch: Document[],
+  field: "shadow" | "embedding",
+  usageTracker?: UsageTracker,
+  throwOnError = false,
+): Promise<number> {
+  let embeddings: number[][];
+  usageTracker?.pushContext({ operation: "reembed" });
+  try {
+    embeddings = await embedder.embed(
+      batch.map((doc) => doc.text as string),
+      "document",
+    );
+  } catch (error) {
+    if (throwOnError) throw error;
+    console.error(`[Reembed] Batch of ${batch.length} failed:`, error);
+    return 0;
+  } finally {
+    usageTracker?.popContext();
+  }
+
+  const model = embedder.getModel();
+  await db.collection(COLLECTION_MEMORIES).bulkWrite(
+    batch.map((doc, i) => ({
+      updateOne: {
+        filter: { _id: doc._id },
+        update:
+          field === "shadow"
+            ? { $set: { shadowEmbedding: embeddings[i], shadowEmbeddingModel: model } }
+            : {
+                $set: {
+                  embedding: embeddings[i],
+                  embeddingModel: model,
+                  embeddingDim: embeddings[i].length,
+                  embeddingStatus: "ready",
+                },
+                $unset: { embeddingError: "", embeddingRetryAt: "" },
+              },
+      },
+    })),
+    { ordered: false },
+  );
+  return batch.length;
+}
+
+async function clearShadowVectors(db: Db, model: string): Promise<void> {
+  await db
+    .collection(COLLECTION_MEMORIES)
+    .updateMany(
+      { shadowEmbeddingModel: model },
+      { $unset: { shadowEmbedding: "", shadowEmbeddingModel: "" } },
+    );
+}
@@ -0,0 +1,89 @@
+/**
+ * Reinforcement Service
+ *
+ * Reinforcing a memory records that it was recalled and actually used.
+ * It is the counterweight to decayService: strength is restored, confidence
+ * climbs via updateConfidenceOnReinforcement(), and reinforcementCount /
+ * lastReinforcedAt feed LayerPromoteStage and the decay clock.
+ */
+
+import { Db, ObjectId } from "mongodb";
+import { COLLECTION_MEMORIES } from "../constants.js";
+import {
+  DEFAULT_STRENGTH,
+  getInitialConfidence,
+  updateConfidenceOnReinforcement,
+} from "../types/confidence.js";
+
+export interface ReinforcementResult {
+  id: string;
+  confidence: number;
+  strength: number;
+  reinforcementCount: number;
+  lastReinforcedAt: Date;
+}
+
+/**
+ * Reinforce a single memory.
+ *
+ * @param db - MongoDB database
+ * @param memoryId - Memory ObjectId (hex string)
+ * @returns Updated reinforcement fields, or null if the memory doesn't exist
+ */
+export async function reinforceMemory(
+  db: Db,
+  memoryId: string,
+): Promise<ReinforcementResult | null> {
+  const collection = db.collection(COLLECTION_MEMORIES);
+  const _id = new ObjectId(memoryId);
+
+  const memory = await collection.findOne(
+    { _id },
+    { projection: { confidence: 1, memoryType: 1, reinforcementCount: 1 } },
+  );
+  if (!memory) return null;
+
+  const now = new Date();
+  const confidence = updateConfidenceOnReinforcement(
+    memory.confidence ?? getInitialConfidence(memory.memoryType),
+  );
+
+  const updated = await collection.findOneAndUpdate(
+    { _id },
+    {
+      $set: {
+        confidence,
+        strength: DEFAULT_STRENGTH,
+        lastReinforcedAt: now,
+        updatedAt: now,
+      },
+      $inc: { reinforcementCount: 1 },
+    },
+    {
+      returnDocument: "after",
+      projection: { confidence: 1, strength: 1, reinforcementCount: 1, lastReinforcedAt: 1 },
+    },
+  );
+  if (!updated) return null;
+
+  return {
+    id: memoryId,
+    confidence: updated.confidence ?? confidence,
+    strength: updated.strength ?? DEFAULT_STRENGTH,
+    reinforcementCount: updated.reinforcementCount ?? 1,
+    lastReinforcedAt: updated.lastReinforcedAt ?? now,
+  };
+}
+
+/**
+ * Reinforce several memories (e.g. the hits returned by /recall).
+ * Invalid or missing IDs are skipped.
+ *
+ * @returns Number of memories reinforced
+ */
+export async function reinforceMemories(db: Db, memoryIds: string[]): Promise<number> {
+  const results = await Promise.all(
+    memoryIds.filter((id) => ObjectId.isValid(id)).map((id) => reinforceMemory(db, id)),
+  );
+  return results.filter(Boolean).length;
+}
@@ -1,126 +1,409 @@
 /**
  * Background Job Scheduler
- * 
- * Runs scheduled tasks like temporal decay, reflection pipeline (Phase 2), etc.
- * Uses simple setTimeout/setInterval instead of cron for zero dependencies.
+ *
+ * Runs each agent's scheduled jobs — temporal decay, reflection over
+ * memories reflection hasn't processed, clustering and reflection job
+ * cleanup — on the cron expressions in its settings (`schedules`, falling
+ * back to _global, then DEFAULT_SCHEDULES). Trash purging runs on a fixed
+ * interval for all agents.
+ *
+ * Run state lives in scheduled_jobs, one document per agent and job type.
+ * A due run is claimed by moving its nextRunAt forward with one atomic
+ * update, so daemons sharing a database don't both run it. A run missed
+ * while the daemon was down happens once, on the first tick after startup.
+ *
+ * Uses a one-minute setInterval tick instead of a cron library for zero dependencies.
  */
 
 import { Db } from "mongodb";
 import { runDecayPass } from "./decayService.js";
+import { purgeExpiredTrash } from "./trashService.js";
+import { runClustering } from "./clusteringService.js";
+import { getSchedules } from "./settingsService.js";
+import { cleanupOldJobs, createJob } from "../reflection/jobQueue.js";
+import { wakeReflectionWorker } from "../reflection/worker.js";
+import { nextCronRun } from "../utils/cron.js";
+import type { DaemonConfig } from "../config.js";
+import {
+  COLLECTION_MEMORIES,
+  COLLECTION_SCHEDULED_JOBS,
+  COLLECTION_SETTINGS,
+} from "../constants.js";
+import {
+  GLOBAL_SETTINGS_ID,
+  ResolvedSchedules,
+  ScheduledJobType,
+  SCHEDULED_JOB_TYPES,
+} from "../types/settings.js";
 
 interface SchedulerConfig {
-  decayEnabled: boolean;
-  decayIntervalHours: number; // Default: 24 (daily)
-  decayTimeOfDay?: string;    // Optional: "02:00" (HH:MM)
+  tickIntervalMs: number; // Default: 60000 (cron resolution is one minute)
+  trashPurgeIntervalHours: number; // Default: 1
 }
 
 const DEFAULT_CONFIG: SchedulerConfig = {
-  decayEnabled: true,
-  decayIntervalHours: 24,
-  decayTimeOfDay: "02:00",
+  tickIntervalMs: 60_000,
+  trashPurgeIntervalHours: 1,
 };
 
-let decayIntervalId: NodeJS.Timeout | null = null;
+/**
+ * Run state of one agent's scheduled job (scheduled_jobs collection)
+ */
+export interface ScheduledJobState {
+  agentId: string;
+  jobType: ScheduledJobType;
+  cron?: string; // expression nextRunAt was computed from
+  nextRunAt?: Date;
+  lastRunAt?: Date;
+  lastStatus?: "success" | "failed";
+  lastError?: string;
+  lastDurationMs?: number;
+  lastResult?: Record<string, unknown>;
+}
+
+/**
+ * A job's resolved schedule with its run state, as GET /schedules returns it
+ */
+export interface ScheduleStatus {
+  jobType: ScheduledJobType;
+  enabled: boolean;
+  cron: string;
+  options: Record<string, unknown>;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  lastStatus: "success" | "failed" | null;
+  lastError: string | null;
+  lastDurationMs: number | null;
+  lastResult: Record<string, unknown> | null;
+}
+
+// Memories stored outside reflection are already classified and embedded,
+// so scheduled reflection starts at graph-link, from a checkpoint after the
+// stage before it
+const SCHEDULED_REFLECTION_STAGE = "graph-link";
+const SCHEDULED_REFLECTION_CHECKPOINT = "layer-promote";
+
+let tickIntervalId: NodeJS.Timeout | null = null;
+let trashIntervalId: NodeJS.Timeout | null = null;
+let ticking = false;
 
 /**
  * Start the background scheduler
  */
-export function startScheduler(db: Db, config: Partial<SchedulerConfig> = {}): void {
+export function startScheduler(
+  db: Db,
+  daemonConfig: DaemonConfig,
+  config: Partial<SchedulerConfig> = {},
+): void {
   const finalConfig = { ...DEFAULT_CONFIG, ...config };
 
-  if (!finalConfig.decayEnabled) {
-    console.log("  Background scheduler: decay disabled");
-    return;
-  }
+  // Trash purging always runs — retention is enforced by TRASH_RETENTION_DAYS
+  scheduleTrashPurge(db, finalConfig);
 
-  console.log(`  Background scheduler: decay every ${finalConfig.decayIntervalHours}h`);
-  if (finalConfig.decayTimeOfDay) {
-    console.log(`    Preferred time: ${finalConfig.decayTimeOfDay}`);
-  }
+  console.log("  Background scheduler: per-agent cron schedules (see GET /schedules/:agentId)");
+
+  const tick = async () => {
+    if (ticking) return; // A long job (clustering) is still running
+    ticking = true;
+    try {
+      await runDueJobs(db, daemonConfig);
+    } catch (error) {
+      console.error("  Scheduler tick failed:", error);
+    } finally {
+      ticking = false;
+    }
+  };
 
-  // Schedule decay job
-  scheduleDecay(db, finalConfig);
+  tick();
+  tickIntervalId = setInterval(tick, finalConfig.tickIntervalMs);
 }
 
 /**
  * Stop the background scheduler
  */
 export function stopScheduler(): void {
-  if (decayIntervalId) {
-    clearInterval(decayIntervalId);
-    decayIntervalId = null;
+  if (trashIntervalId) {
+    clearInterval(trashIntervalId);
+    trashIntervalId = null;
+  }
+  if (tickIntervalId) {
+    clearInterval(tickIntervalId);
+    tickIntervalId = null;
     console.log("  Background scheduler stopped");
   }
 }
 
 /**
- * Schedule the decay job
+ * Run every enabled job that is due, for every agent. Returns the number of
+ * runs started. Exported for tests; the scheduler calls it every tick.
  */
-function scheduleDecay(db: Db, config: SchedulerConfig): void {
-  const intervalMs = config.decayIntervalHours * 60 * 60 * 1000;
+export async function runDueJobs(
+  db: Db,
+  daemonConfig: DaemonConfig,
+  now: Date = new Date(),
+): Promise<number> {
+  let runs = 0;
+
+  for (const agentId of await listScheduledAgents(db)) {
+    const schedules = await getSchedules(db, agentId);
+
+    for (const jobType of SCHEDULED_JOB_TYPES) {
+      const { enabled, cron } = schedules[jobType];
+      if (!enabled) continue;
 
-  // Calculate initial delay to align with preferred time of day
-  let initialDelay = 0;
-  if (config.decayTimeOfDay) {
-    initialDelay = getMillisecondsUntilTimeOfDay(config.decayTimeOfDay);
+      try {
+        if (!(await claimDueRun(db, agentId, jobType, cron, now))) continue;
+      } catch (error) {
+        console.error(`  Scheduler: couldn't claim ${jobType} for ${agentId}:`, error);
+        continue;
+      }
+
+      await executeRun(db, daemonConfig, agentId, jobType, schedules);
+      runs++;
+    }
   }
 
-  // Run first decay after initial delay
-  setTimeout(async () => {
-    await runScheduledDecay(db);
+  return runs;
+}
+
+/**
+ * Run one job for an agent now, outside its schedule (POST
+ * /schedules/:agentId/:jobType/run). Its next scheduled run is unchanged.
+ */
+export async function runScheduledJobNow(
+  db: Db,
+  daemonConfig: DaemonConfig,
+  agentId: string,
+  jobType: ScheduledJobType,
+): Promise<ScheduledJobState> {
+  const schedules = await getSchedules(db, agentId);
+  return executeRun(db, daemonConfig, agentId, jobType, schedules);
+}
+
+/**
+ * Resolved schedules for an agent with last and next run times
+ */
+export async function getScheduleStatus(
+  db: Db,
+  agentId: string,
+  now: Date = new Date(),
+): Promise<ScheduleStatus[]> {
+  const schedules = await getSchedules(db, agentId);
+  const states = await db
+    .collection<ScheduledJobState>(COLLECTION_SCHEDULED_JOBS)
+    .find({ agentId })
+    .toArray();
+
+  return SCHEDULED_JOB_TYPES.map((jobType) => {
+    const { enabled, cron, ...options } = schedules[jobType];
+    const state = states.find((s) => s.jobType === jobType);
+
+    // Until the scheduler picks up a changed expression, show the new one's next run
+    let nextRunAt: Date | null = null;
+    if (enabled) {
+      nextRunAt =
+        state?.cron === cron && state.nextRunAt ? state.nextRunAt : nextCronRun(cron, now);
+    }
+
+    return {
+      jobType,
+      enabled,
+      cron,
+      options,
+      nextRunAt,
+      lastRunAt: state?.lastRunAt ?? null,
+      lastStatus: state?.lastStatus ?? null,
+      lastError: state?.lastError ?? null,
+      lastDurationMs: state?.lastDurationMs ?? null,
+      lastResult: state?.lastResult ?? null,
+    };
+  });
+}
+
+/**
+ * Agents that have memories or their own settings
+ */
+async function listScheduledAgents(db: Db): Promise<string[]> {
+  const [memoryAgents, settingsAgents] = await Promise.all([
+    db.collection(COLLECTION_MEMORIES).distinct("agentId"),
+    db.collection(COLLECTION_SETTINGS).distinct("agentId"),
+  ]);
+
+  return [...new Set<string>([...memoryAgents, ...settingsAgents])].filter(
+    (agentId) => agentId && agentId !== GLOBAL_SETTINGS_ID,
+  );
+}
+
+/**
+ * Claim the run if it is due. A job seen for the first time, or whose cron
+ * changed, is only given its next run time.
+ */
+async function claimDueRun(
+  db: Db,
+  agentId: string,
+  jobType: ScheduledJobType,
+  cron: string,
+  now: Date,
+): Promise<boolean> {
+  const collection = db.collection<ScheduledJobState>(COLLECTION_SCHEDULED_JOBS);
+  const state = await collection.findOne({ agentId, jobType });
 
-    // Then run on interval
-    decayIntervalId = setInterval(async () => {
-      await runScheduledDecay(db);
-    }, intervalMs);
-  }, initialDelay);
+  if (!state?.nextRunAt || state.cron !== cron) {
+    await collection.updateOne(
+      { agentId, jobType },
+      { $set: { cron, nextRunAt: nextCronRun(cron, now) } },
+      { upsert: true },
+    );
+    return false;
+  }
+  if (state.nextRunAt > now) return false;
 
-  console.log(`    First decay run in ${Math.round(initialDelay / 1000 / 60)} minutes`);
+  const claimed = await collection.updateOne(
+    { agentId, jobType, nextRunAt: state.nextRunAt },
+    { $set: { nextRunAt: nextCronRun(cron, now) } },
+  );
+  return claimed.modifiedCount > 0;
 }
 
 /**
- * Run the decay job
+ * Run a job and record the outcome on its run state
  */
-async function runScheduledDecay(db: Db): Promise<void> {
-  console.log(`[${new Date().toISOString()}] Running scheduled decay pass...`);
+async function executeRun(
+  db: Db,
+  daemonConfig: DaemonConfig,
+  agentId: string,
+  jobType: ScheduledJobType,
+  schedules: ResolvedSchedules,
+): Promise<ScheduledJobState> {
+  const startedAt = new Date();
+  console.log(`[${startedAt.toISOString()}] Running scheduled ${jobType} for ${agentId}...`);
 
+  let outcome: Partial<ScheduledJobState>;
   try {
-    const stats = await runDecayPass(db);
-
-    console.log(`  Decay complete:`, {
-      totalMemories: stats.totalMemories,
-      decayed: stats.decayed,
-      archivalCandidates: stats.archivalCandidates,
-      expirationCandidates: stats.expirationCandidates,
-      errors: stats.errors,
-      duration: `${stats.duration}ms`,
-    });
-
-    if (stats.expirationCandidates > 0) {
-      console.log(`  ⚠️  ${stats.expirationCandidates} memories below expiration threshold`);
-    }
+    const result = await runJob(db, daemonConfig, agentId, jobType, schedules);
+    outcome = { lastStatus: "success", lastResult: result };
+    console.log(`  Scheduled ${jobType} for ${agentId} complete:`, result);
   } catch (error) {
-    console.error("  Decay job failed:", error);
+    outcome = {
+      lastStatus: "failed",
+      lastError: error instanceof Error ? error.message : String(error),
+    };
+    console.error(`  Scheduled ${jobType} for ${agentId} failed:`, error);
+  }
+
+  const state = await db.collection<ScheduledJobState>(COLLECTION_SCHEDULED_JOBS).findOneAndUpdate(
+    { agentId, jobType },
+    {
+      $set: { ...outcome, lastRunAt: startedAt, lastDurationMs: Date.now() - startedAt.getTime() },
+      $unset: outcome.lastStatus === "success" ? { lastError: "" } : { lastResult: "" },
+    },
+    { upsert: true, returnDocument: "after", projection: { _id: 0 } },
+  );
+  return state!;
+}
+
+async function runJob(
+  db: Db,
+  daemonConfig: DaemonConfig,
+  agentId: string,
+  jobType: ScheduledJobType,
+  schedules: ResolvedSchedules,
+): Promise<Record<string, unknown>> {
+  switch (jobType) {
+    case "decay": {
+      const stats = await runDecayPass(db, agentId);
+      if (stats.expirationCandidates > 0) {
+        console.log(`  ⚠️  ${stats.expirationCandidates} memories below expiration threshold`);
+      }
+      return {
+        totalMemories: stats.totalMemories,
+        decayed: stats.decayed,
+        archivalCandidates: stats.archivalCandidates,
+        expirationCandidates: stats.expirationCandidates,
+        errors: stats.errors,
+      };
+    }
+    case "reflection":
+      return queueScheduledReflection(db, daemonConfig, agentId, schedules.reflection.batchSize);
+    case "clustering":
+      return runClustering(db, agentId, schedules.clustering.k);
+    case "jobCleanup":
+      return {
+        deleted: await cleanupOldJobs(db, schedules.jobCleanup.retentionDays, agentId),
+      };
   }
 }
 
 /**
- * Calculate milliseconds until a specific time of day (HH:MM format)
- * 
- * @param timeOfDay - Time in "HH:MM" format (24-hour)
- * @returns Milliseconds until that time (today or tomorrow)
+ * Queue a reflection job over the oldest embedded memories reflection
+ * hasn't processed (stored with /remember, imported, ...) and mark them
+ * processed. The job links them into the graph and updates entities.
  */
-function getMillisecondsUntilTimeOfDay(timeOfDay: string): number {
-  const [hours, minutes] = timeOfDay.split(":").map(Number);
+async function queueScheduledReflection(
+  db: Db,
+  daemonConfig: DaemonConfig,
+  agentId: string,
+  batchSize: number,
+): Promise<Record<string, unknown>> {
+  const collection = db.collection(COLLECTION_MEMORIES);
+  const memories = await collection
+    .find(
+      { agentId, reflectedAt: { $exists: false }, embedding: { $exists: true } },
+      { projection: { _id: 1 } },
+    )
+    .sort({ createdAt: 1 })
+    .limit(batchSize)
+    .toArray();
+
+  if (memories.length === 0) return { memories: 0 };
 
   const now = new Date();
-  const target = new Date();
-  target.setHours(hours, minutes, 0, 0);
+  const ids = memories.map((memory) => memory._id);
+  const jobId = await createJob(
+    db,
+    agentId,
+    undefined,
+    { triggeredBy: "schedule", triggeredAt: now.toISOString() },
+    undefined,
+    daemonConfig.reflectionJobMaxAttempts,
+    {
+      resumeFromStage: SCHEDULED_REFLECTION_STAGE,
+      checkpoints: {
+        [SCHEDULED_REFLECTION_CHECKPOINT]: { classifiedMemoryIds: ids, stats: {}, savedAt: now },
+      },
+    },
+  );
+  await collection.updateMany({ _id: { $in: ids } }, { $set: { reflectedAt: now } });
 
-  // If target time has already passed today, schedule for tomorrow
-  if (target <= now) {
-    target.setDate(target.getDate() + 1);
-  }
+  wakeReflectionWorker();
+
+  return { memories: ids.length, reflectionJobId: jobId };
+}
+
+/**
+ * Schedule the trash purge job: once at startup, then on interval
+ */
+function scheduleTrashPurge(db: Db, config: SchedulerConfig): void {
+  const intervalMs = config.trashPurgeIntervalHours * 60 * 60 * 1000;
 
-  return target.getTime() - now.getTime();
+  console.log(`  Background scheduler: trash purge every ${config.trashPurgeIntervalHours}h`);
+
+  runScheduledTrashPurge(db);
+  trashIntervalId = setInterval(async () => {
+    await runScheduledTrashPurge(db);
+  }, intervalMs);
+}
+
+/**
+ * Delete trashed memories past their retention window
+ */
+async function runScheduledTrashPurge(db: Db): Promise<void> {
+  try {
+    const purged = await purgeExpiredTrash(db);
+    if (purged > 0) {
+      console.log(`[${new Date().toISOString()}] Purged ${purged} memories from trash`);
+    }
+  } catch (error) {
+    console.error("  Trash purge job failed:", error);
+  }
 }
@@ -20,6 +20,8 @@ import {
   AgentSettingsSchema,
   AgentSettingsInput,
   ResolvedPipelineSettings,
+  ResolvedRecallRanking,
+  ResolvedSchedules,
   ResolvedStageConfig,
   EnhanceableStage,
   ENHANCEABLE_STAGES,
@@ -27,6 +29,11 @@ import {
   GLOBAL_SETTINGS_ID,
   DEFAULT_LLM_ENDPOINT,
   DEFAULT_LLM_MODEL,
+  DEFAULT_OPENAI_LLM_ENDPOINT,
+  DEFAULT_OPENAI_LLM_MODEL,
+  DEFAULT_RECALL_RANKING,
+  DEFAULT_SCHEDULES,
+  SCHEDULED_JOB_TYPES,
 } from "../types/settings.js";
 
 /**
@@ -67,18 +74,27 @@ export function resolveSettings(
   const agentProvider = agentDoc?.llmProvider;
   const globalProvider = globalDoc?.llmProvider;
 
+  const provider =
+    agentProvider?.provider || globalProvider?.provider || daemonConfig.llmProvider || "ollama";
+  const isOpenAi = provider === "openai";
+
   const llmProvider = {
+    provider,
     endpoint:
       agentProvider?.endpoint ||
       globalProvider?.endpoint ||
       daemonConfig.llmEndpoint ||
-      DEFAULT_LLM_ENDPOINT,
+      (isOpenAi ? DEFAULT_OPENAI_LLM_ENDPOINT : DEFAULT_LLM_ENDPOINT),
     model:
-      agentProvider?.model || globalProvider?.model || daemonConfig.llmModel || DEFAULT_LLM_MODEL,
+      agentProvider?.model ||
+      globalProvider?.model ||
+      daemonConfig.llmModel ||
+      (isOpenAi ? DEFAULT_OPENAI_LLM_MODEL : DEFAULT_LLM_MODEL),
     apiKey: agentProvider?.apiKey || globalProvider?.apiKey || daemonConfig.llmApiKey,
     temperature: agentProvider?.temperature ?? globalProvider?.temperature ?? 0.3,
     maxTokens: agentProvider?.maxTokens ?? globalProvider?.maxTokens ?? 512,
     timeoutMs: agentProvider?.timeoutMs ?? globalProvider?.timeoutMs ?? 15000,
+    jsonMode: agentProvider?.jsonMode ?? globalProvider?.jsonMode ?? false,
   };
 
   // Resolve per-stage toggles
@@ -114,7 +130,84 @@ export function resolveSettings(
     stages[stage] = { useLlm };
   }
 
-  return { stages, llmProvider };
+  const contradictionClassifier =
+    agentDoc?.contradictionClassifier ?? globalDoc?.contradictionClassifier ?? "heuristic";
+
+  return { stages, contradictionClassifier, llmProvider };
+}
+
+/**
+ * Get resolved recall ranking for an agent (agent > global > defaults).
+ */
+export async function getRecallRanking(db: Db, agentId: string): Promise<ResolvedRecallRanking> {
+  const agentDoc = await getSettingsDoc(db, agentId);
+  const globalDoc =
+    agentId !== GLOBAL_SETTINGS_ID ? await getSettingsDoc(db, GLOBAL_SETTINGS_ID) : null;
+
+  return resolveRecallRanking(agentDoc, globalDoc);
+}
+
+/**
+ * Pure recall ranking resolution — each field falls back independently.
+ */
+export function resolveRecallRanking(
+  agentDoc: AgentSettings | null,
+  globalDoc: AgentSettings | null,
+): ResolvedRecallRanking {
+  const agent = agentDoc?.recallRanking;
+  const global = globalDoc?.recallRanking;
+  const defaults = DEFAULT_RECALL_RANKING;
+
+  const weights = { ...defaults.weights };
+  for (const key of Object.keys(weights) as Array<keyof typeof weights>) {
+    weights[key] = agent?.weights?.[key] ?? global?.weights?.[key] ?? defaults.weights[key];
+  }
+
+  const layerBoosts = { ...defaults.layerBoosts };
+  for (const key of Object.keys(layerBoosts) as Array<keyof typeof layerBoosts>) {
+    layerBoosts[key] =
+      agent?.layerBoosts?.[key] ?? global?.layerBoosts?.[key] ?? defaults.layerBoosts[key];
+  }
+
+  return {
+    weights,
+    layerBoosts,
+    recencyHalfLifeDays:
+      agent?.recencyHalfLifeDays ?? global?.recencyHalfLifeDays ?? defaults.recencyHalfLifeDays,
+  };
+}
+
+/**
+ * Get resolved schedules for an agent (agent > global > defaults).
+ */
+export async function getSchedules(db: Db, agentId: string): Promise<ResolvedSchedules> {
+  const agentDoc = await getSettingsDoc(db, agentId);
+  const globalDoc =
+    agentId !== GLOBAL_SETTINGS_ID ? await getSettingsDoc(db, GLOBAL_SETTINGS_ID) : null;
+
+  return resolveSchedules(agentDoc, globalDoc);
+}
+
+/**
+ * Pure schedule resolution — each field of each job falls back independently.
+ */
+export function resolveSchedules(
+  agentDoc: AgentSettings | null,
+  globalDoc: AgentSettings | null,
+): ResolvedSchedules {
+  const resolved = structuredClone(DEFAULT_SCHEDULES);
+
+  for (const jobType of SCHEDULED_JOB_TYPES) {
+    const target: Record<string, unknown> = resolved[jobType];
+    const agent: Record<string, unknown> = agentDoc?.schedules?.[jobType] ?? {};
+    const global: Record<string, unknown> = globalDoc?.schedules?.[jobType] ?? {};
+
+    for (const key of Object.keys(target)) {
+      target[key] = agent[key] ?? global[key] ?? target[key];
+    }
+  }
+
+  return resolved;
 }
 
 /**
@@ -137,6 +230,9 @@ export async function upsertSettings(
     if (input.semanticLevel !== undefined) {
       update.semanticLevel = input.semanticLevel;
     }
+    if (input.contradictionClassifier !== undefined) {
+      update.contradictionClassifier = input.contradictionClassifier;
+    }
     if (input.stages) {
       for (const [stage, config] of Object.entries(input.stages)) {
         if (config && typeof config.useLlm === "boolean") {
@@ -151,6 +247,31 @@ export async function upsertSettings(
         }
       }
     }
+    if (input.recallRanking) {
+      const { weights, layerBoosts, recencyHalfLifeDays } = input.recallRanking;
+      for (const [key, value] of Object.entries(weights ?? {})) {
+        if (value !== undefined) {
+          update[`recallRanking.weights.${key}`] = value;
+        }
+      }
+      for (const [key, value] of Object.entries(layerBoosts ?? {})) {
+        if (value !== undefined) {
+          update[`recallRanking.layerBoosts.${key}`] = value;
+        }
+      }
+      if (recencyHalfLifeDays !== undefined) {
+        update["recallRanking.recencyHalfLifeDays"] = recencyHalfLifeDays;
+      }
+    }
+    if (input.schedules) {
+      for (const [jobType, schedule] of Object.entries(input.schedules)) {
+        for (const [key, value] of Object.entries(schedule ?? {})) {
+          if (value !== undefined) {
+            update[`schedules.${jobType}.${key}`] = value;
+          }
+        }
+      }
+    }
 
     await collection.updateOne({ agentId }, { $set: update });
   } else {
@@ -0,0 +1,366 @@
+/**
+ * Snapshots
+ *
+ * A snapshot copies one agent's memories, episodes, entities, pending edges
+ * and clusters into snapshot_documents ({ snapshotId, type, doc }) so a
+ * reflection experiment or bulk import can be rolled back. Memory edges live
+ * on the memory documents and come along with them.
+ *
+ * Restore makes the agent's live state match the snapshot: documents created
+ * since are deleted, the rest are replaced with their captured copies.
+ * Memory edit history written after the snapshot goes too, so the next edit
+ * of a restored memory can reuse its version numbers. The
+ * copy is collection by collection, not a transaction — take snapshots while
+ * the agent is quiet if it matters.
+ */
+
+import { Db, Document, ObjectId } from "mongodb";
+import {
+  COLLECTION_MEMORY_VERSIONS,
+  COLLECTION_SNAPSHOT_DOCUMENTS,
+  COLLECTION_SNAPSHOTS,
+} from "../constants";
+import type { Embedder } from "../embedders";
+import type { Snapshot } from "../types/index";
+import { currentApiKey } from "./apiKeyService";
+import {
+  ARCHIVE_COLLECTIONS,
+  TRANSIENT_MEMORY_FIELDS,
+  agentScopeStages,
+  type ArchiveRecordType,
+} from "./archiveService";
+import { wakeEmbeddingWorker } from "./embeddingQueue";
+
+export type SnapshotRecordType = Exclude<ArchiveRecordType, "settings">;
+
+export const SNAPSHOT_TYPES: SnapshotRecordType[] = [
+  "memory",
+  "episode",
+  "entity",
+  "pendingEdge",
+  "cluster",
+];
+
+/**
+ * Memory fields a diff compares. Strength, reinforcement and embedding
+ * bookkeeping change on every recall or decay run and would drown out real
+ * edits.
+ */
+const MEMORY_DIFF_FIELDS = [
+  "text",
+  "tags",
+  "metadata",
+  "expiresAt",
+  "layer",
+  "memoryType",
+  "contradictions",
+  "edges",
+];
+
+const DELETE_BATCH_SIZE = 500;
+
+export interface SnapshotTypeDiff {
+  snapshot: number;
+  live: number;
+  /** Live documents the snapshot doesn't have (restore deletes them) */
+  added: number;
+  /** Snapshot documents no longer live (restore brings them back) */
+  removed: number;
+  changed: number;
+}
+
+export interface SnapshotMemoryChange {
+  id: string;
+  text: string;
+}
+
+export interface SnapshotDiff {
+  types: Record<SnapshotRecordType, SnapshotTypeDiff>;
+  /** First few affected memories of each kind */
+  memories: Record<"added" | "removed" | "changed", SnapshotMemoryChange[]>;
+}
+
+export interface SnapshotRestoreResult {
+  restored: Record<SnapshotRecordType, number>;
+  deleted: Record<SnapshotRecordType, number>;
+}
+
+function perType<T>(value: () => T): Record<SnapshotRecordType, T> {
+  return Object.fromEntries(SNAPSHOT_TYPES.map((type) => [type, value()])) as Record<
+    SnapshotRecordType,
+    T
+  >;
+}
+
+/** Join each live document to its copy in the snapshot (empty `_snapshot` = added since) */
+function snapshotLookup(snapshotId: ObjectId): Document {
+  return {
+    $lookup: {
+      from: COLLECTION_SNAPSHOT_DOCUMENTS,
+      localField: "_id",
+      foreignField: "doc._id",
+      pipeline: [{ $match: { snapshotId } }, { $project: { _id: 1 } }],
+      as: "_snapshot",
+    },
+  };
+}
+
+/**
+ * Capture an agent's current state
+ */
+export async function createSnapshot(
+  db: Db,
+  embedder: Embedder,
+  agentId: string,
+  name?: string,
+): Promise<Snapshot & { _id: ObjectId }> {
+  const snapshotId = new ObjectId();
+  const createdAt = new Date();
+  const documents = db.collection(COLLECTION_SNAPSHOT_DOCUMENTS);
+  const counts: Record<string, number> = {};
+
+  try {
+    for (const type of SNAPSHOT_TYPES) {
+      const pipeline = agentScopeStages(type, agentId);
+      if (type === "memory") pipeline.push({ $unset: TRANSIENT_MEMORY_FIELDS });
+
+      await db
+        .collection(ARCHIVE_COLLECTIONS[type])
+        .aggregate([
+          ...pipeline,
+          {
+            $replaceWith: {
+              snapshotId: { $literal: snapshotId },
+              type: { $literal: type },
+              doc: "$$ROOT",
+            },
+          },
+          { $merge: { into: COLLECTION_SNAPSHOT_DOCUMENTS, whenNotMatched: "insert" } },
+        ])
+        .toArray();
+      counts[type] = await documents.countDocuments({ snapshotId, type });
+    }
+  } catch (error) {
+    await documents.deleteMany({ snapshotId });
+    throw error;
+  }
+
+  const snapshot = {
+    _id: snapshotId,
+    agentId,
+    name: name || `Snapshot ${createdAt.toISOString()}`,
+    createdAt,
+    createdBy: currentApiKey()?.name ?? null,
+    embeddingModel: embedder.getModel(),
+    counts,
+  };
+  await db.collection<Snapshot>(COLLECTION_SNAPSHOTS).insertOne(snapshot);
+
+  return snapshot;
+}
+
+/**
+ * Compare a snapshot with the agent's live state
+ */
+export async function diffSnapshot(
+  db: Db,
+  snapshot: Snapshot & { _id: ObjectId },
+  sampleSize = 20,
+): Promise<SnapshotDiff> {
+  const types = perType<SnapshotTypeDiff>(() => ({
+    snapshot: 0,
+    live: 0,
+    added: 0,
+    removed: 0,
+    changed: 0,
+  }));
+  const memories: SnapshotDiff["memories"] = { added: [], removed: [], changed: [] };
+  const sample = { $firstN: { n: sampleSize, input: { id: "$id", text: "$text" } } };
+
+  for (const type of SNAPSHOT_TYPES) {
+    const collection = ARCHIVE_COLLECTIONS[type];
+    const isMemory = type === "memory";
+
+    // Changed compares the listed memory fields, or the whole document otherwise
+    const changed = isMemory
+      ? { $or: MEMORY_DIFF_FIELDS.map((field) => ({ $ne: [`$doc.${field}`, `$live.${field}`] })) }
+      : { $ne: ["$doc", "$live"] };
+    const liveProjection = isMemory
+      ? [{ $project: Object.fromEntries(MEMORY_DIFF_FIELDS.map((field) => [field, 1])) }]
+      : [];
+
+    const [fromSnapshot, added] = await Promise.all([
+      db
+        .collection(COLLECTION_SNAPSHOT_DOCUMENTS)
+        .aggregate([
+          { $match: { snapshotId: snapshot._id, type } },
+          {
+            $lookup: {
+              from: collection,
+              localField: "doc._id",
+              foreignField: "_id",
+              pipeline: liveProjection,
+              as: "live",
+            },
+          },
+          { $set: { live: { $first: "$live" } } },
+          {
+            $project: {
+              id: "$doc._id",
+              text: "$doc.text",
+              status: {
+                $switch: {
+                  branches: [
+                    { case: { $eq: [{ $type: "$live" }, "missing"] }, then: "removed" },
+                    { case: changed, then: "changed" },
+                  ],
+                  default: "unchanged",
+                },
+              },
+            },
+          },
+          { $group: { _id: "$status", count: { $sum: 1 }, sample } },
+        ])
+        .toArray(),
+      db
+        .collection(collection)
+        .aggregate([
+          ...agentScopeStages(type, snapshot.agentId),
+          snapshotLookup(snapshot._id),
+          { $match: { _snapshot: { $size: 0 } } },
+          { $project: { id: "$_id", text: 1 } },
+          { $group: { _id: "added", count: { $sum: 1 }, sample } },
+        ])
+        .toArray(),
+    ]);
+
+    const diff = types[type];
+    for (const group of [...fromSnapshot, ...added]) {
+      if (group._id !== "unchanged") {
+        const status = group._id as "added" | "removed" | "changed";
+        diff[status] = group.count;
+        if (isMemory) {
+          memories[status] = group.sample.map((item: { id: unknown; text?: string }) => ({
+            id: String(item.id),
+            text: item.text ?? "",
+          }));
+        }
+      }
+      if (group._id !== "added") diff.snapshot += group.count;
+    }
+    diff.live = diff.snapshot - diff.removed + diff.added;
+  }
+
+  return { types, memories };
+}
+
+/**
+ * Make the agent's live state match the snapshot. Memories embedded by a
+ * model other than `liveModel` are queued for re-embedding.
+ */
+export async function restoreSnapshot(
+  db: Db,
+  snapshot: Snapshot & { _id: ObjectId },
+  liveModel?: string,
+): Promise<SnapshotRestoreResult> {
+  const result: SnapshotRestoreResult = { restored: perType(() => 0), deleted: perType(() => 0) };
+
+  for (const type of SNAPSHOT_TYPES) {
+    const live = db.collection(ARCHIVE_COLLECTIONS[type]);
+
+    // 1. Delete what was created since, first so re-created unique keys can't collide
+    const added = await live
+      .aggregate([
+        ...agentScopeStages(type, snapshot.agentId),
+        snapshotLookup(snapshot._id),
+        { $match: { _snapshot: { $size: 0 } } },
+        { $project: { _id: 1 } },
+      ])
+      .toArray();
+    for (let i = 0; i < added.length; i += DELETE_BATCH_SIZE) {
+      const ids = added.slice(i, i + DELETE_BATCH_SIZE).map((doc) => doc._id);
+      const deleted = await live.deleteMany({ _id: { $in: ids } });
+      if (type === "memory") {
+        await db.collection(COLLECTION_MEMORY_VERSIONS).deleteMany({ memoryId: { $in: ids } });
+      }
+      result.deleted[type] += deleted.deletedCount;
+    }
+
+    // 2. Put every captured document back as it was
+    const stages: Document[] = [
+      { $match: { snapshotId: snapshot._id, type } },
+      { $replaceWith: "$doc" },
+    ];
+    if (type === "memory" && liveModel) {
+      const stale = {
+        $and: [
+          { $ne: [{ $type: "$embedding" }, "missing"] },
+          { $ne: ["$embeddingModel", liveModel] },
+        ],
+      };
+      stages.push({
+        $set: {
+          embedding: { $cond: [stale, "$$REMOVE", "$embedding"] },
+          embeddingStatus: { $cond: [stale, "pending", "$embeddingStatus"] },
+        },
+      });
+    }
+    await db
+      .collection(COLLECTION_SNAPSHOT_DOCUMENTS)
+      .aggregate([
+        ...stages,
+        {
+          $merge: {
+            into: ARCHIVE_COLLECTIONS[type],
+            on: "_id",
+            whenMatched: "replace",
+            whenNotMatched: "insert",
+          },
+        },
+      ])
+      .toArray();
+    result.restored[type] = snapshot.counts[type] ?? 0;
+
+    if (type === "memory") await dropLaterVersions(db, snapshot._id);
+  }
+
+  if (liveModel) wakeEmbeddingWorker();
+
+  return result;
+}
+
+/**
+ * Delete the edit history of restored memories from their captured version
+ * on. Those rows describe edits the restore undid, and the unique (memoryId,
+ * version) index would reject the next edit's history row otherwise.
+ */
+async function dropLaterVersions(db: Db, snapshotId: ObjectId): Promise<void> {
+  const captured = db
+    .collection(COLLECTION_SNAPSHOT_DOCUMENTS)
+    .find(
+      { snapshotId, type: "memory" },
+      { projection: { _id: 0, id: "$doc._id", version: "$doc.version" } },
+    );
+  const versions = db.collection(COLLECTION_MEMORY_VERSIONS);
+
+  let batch: Document[] = [];
+  const flush = async () => {
+    if (batch.length > 0) await versions.deleteMany({ $or: batch });
+    batch = [];
+  };
+  for await (const doc of captured) {
+    batch.push({ memoryId: doc.id, version: { $gte: doc.version ?? 1 } });
+    if (batch.length >= DELETE_BATCH_SIZE) await flush();
+  }
+  await flush();
+}
+
+/**
+ * Delete a snapshot and its captured documents
+ */
+export async function deleteSnapshot(db: Db, snapshotId: ObjectId): Promise<boolean> {
+  const result = await db.collection(COLLECTION_SNAPSHOTS).deleteOne({ _id: snapshotId });
+  if (result.deletedCount === 0) return false;
+  await db.collection(COLLECTION_SNAPSHOT_DOCUMENTS).deleteMany({ snapshotId });
+  return true;
+}
@@ -0,0 +1,100 @@
+/**
+ * Supersession Service
+ *
+ * When a contradiction is resolved as "superseded", the winning memory gets a
+ * SUPERSEDES edge to the loser. Recall, the entity profile and graph
+ * expansion hide memories with an inbound SUPERSEDES edge unless asked for
+ * them (see services/graphRecall.ts). The loser's confidence drops via
+ * updateConfidenceOnStrongContradiction(), and it can be moved to the
+ * archival layer the way decay's archival promotion does.
+ */
+
+import { Db, ObjectId } from "mongodb";
+import { COLLECTION_MEMORIES } from "../constants.js";
+import type { GraphEdge, MemoryLayer } from "../types/index.js";
+import {
+  getInitialConfidence,
+  updateConfidenceOnStrongContradiction,
+} from "../types/confidence.js";
+
+export interface SupersessionResult {
+  supersedingId: string;
+  supersededId: string;
+  /** False when the SUPERSEDES edge already existed */
+  edgeCreated: boolean;
+  confidence: number;
+  layer: MemoryLayer | null;
+}
+
+/**
+ * Mark one memory as superseded by another.
+ *
+ * @param db - MongoDB database
+ * @param supersedingId - The memory that stays current (hex ObjectId)
+ * @param supersededId - The memory it replaces (hex ObjectId)
+ * @param options - archive: move the superseded memory to the archival layer
+ * @returns The change, or null if either memory is missing or they belong to
+ *          different agents
+ */
+export async function supersedeMemory(
+  db: Db,
+  supersedingId: string,
+  supersededId: string,
+  options: { archive?: boolean; note?: string } = {},
+): Promise<SupersessionResult | null> {
+  const collection = db.collection(COLLECTION_MEMORIES);
+
+  const [superseding, superseded] = await Promise.all([
+    collection.findOne({ _id: new ObjectId(supersedingId) }, { projection: { agentId: 1 } }),
+    collection.findOne(
+      { _id: new ObjectId(supersededId) },
+      { projection: { agentId: 1, confidence: 1, memoryType: 1, layer: 1 } },
+    ),
+  ]);
+  if (!superseding || !superseded || superseding.agentId !== superseded.agentId) return null;
+
+  const now = new Date();
+  const edge: GraphEdge = {
+    type: "SUPERSEDES",
+    targetId: supersededId,
+    weight: 1,
+    createdAt: now,
+    metadata: { source: "conflict-resolution", ...(options.note && { note: options.note }) },
+  };
+
+  // Resolving the same pair twice must not stack edges
+  const pushed = await collection.updateOne(
+    {
+      _id: superseding._id,
+      edges: { $not: { $elemMatch: { type: "SUPERSEDES", targetId: supersededId } } },
+    },
+    { $push: { edges: edge as any }, $set: { updatedAt: now } },
+  );
+
+  // ...nor demote the superseded memory a second time
+  const edgeCreated = pushed.modifiedCount > 0;
+  const current = superseded.confidence ?? getInitialConfidence(superseded.memoryType);
+  const confidence = edgeCreated ? updateConfidenceOnStrongContradiction(current) : current;
+  const layer: MemoryLayer | null = options.archive ? "archival" : (superseded.layer ?? null);
+
+  if (edgeCreated || options.archive) {
+    await collection.updateOne(
+      { _id: superseded._id },
+      {
+        $set: {
+          ...(edgeCreated && { confidence }),
+          updatedAt: now,
+          ...(options.archive && { layer: "archival" }),
+        },
+      },
+    );
+  }
+
+  return {
+    supersedingId,
+    supersededId,
+    edgeCreated,
+    confidence,
+    layer,
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * Trash
+ *
+ * forget, purge and clear move memories into trashed_memories instead of
+ * deleting them. Every call is one trash operation (operationId), so a whole
+ * purge or clear can be restored at once; single memories can be undeleted
+ * by ID. Trashed memories are invisible to recall and listings because they
+ * are no longer in the memories collection.
+ *
+ * The scheduler deletes them for good once `trash.purgeAfter` has passed
+ * (TRASH_RETENTION_DAYS). A retention of 0 deletes immediately.
+ */
+
+import { Db, Document, Filter, ObjectId } from "mongodb";
+import {
+  COLLECTION_MEMORIES,
+  COLLECTION_MEMORY_VERSIONS,
+  COLLECTION_TRASHED_MEMORIES,
+  DEFAULT_TRASH_RETENTION_DAYS,
+} from "../constants";
+import type { TrashInfo, TrashOperation } from "../types/index";
+import { currentApiKey } from "./apiKeyService";
+import { wakeEmbeddingWorker } from "./embeddingQueue";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_BATCH_SIZE = 500;
+
+export interface TrashResult {
+  /** null when retention is 0 and the memories were deleted outright */
+  operationId: string | null;
+  count: number;
+  purgeAfter: Date | null;
+}
+
+export interface RestoreResult {
+  agentId: string;
+  count: number;
+  /** Left in the trash because a live memory already has their ID */
+  skipped: number;
+}
+
+/**
+ * Move every memory matching `filter` to the trash as one operation
+ */
+export async function trashMemories(
+  db: Db,
+  filter: Filter<Document>,
+  operation: TrashOperation,
+  retentionDays: number = DEFAULT_TRASH_RETENTION_DAYS,
+): Promise<TrashResult> {
+  const memories = db.collection(COLLECTION_MEMORIES);
+
+  if (retentionDays <= 0) {
+    const versions = db.collection(COLLECTION_MEMORY_VERSIONS);
+    let count = 0;
+    for (;;) {
+      const batch = await memories
+        .find(filter, { projection: { _id: 1 } })
+        .limit(PURGE_BATCH_SIZE)
+        .toArray();
+      if (batch.length === 0) break;
+
+      const ids = batch.map((doc) => doc._id);
+      const result = await memories.deleteMany({ _id: { $in: ids } });
+      await versions.deleteMany({ memoryId: { $in: ids } });
+      count += result.deletedCount;
+    }
+    return { operationId: null, count, purgeAfter: null };
+  }
+
+  const deletedAt = new Date();
+  const trash: TrashInfo = {
+    operationId: new ObjectId(),
+    operation,
+    deletedAt,
+    purgeAfter: new Date(deletedAt.getTime() + retentionDays * DAY_MS),
+    deletedBy: currentApiKey()?.name ?? null,
+  };
+
+  // Tag first so memories written while we copy aren't deleted uncopied
+  await memories.updateMany(filter, { $set: { trashOperationId: trash.operationId } });
+  await memories
+    .aggregate([
+      { $match: { trashOperationId: trash.operationId } },
+      { $unset: "trashOperationId" },
+      { $set: { trash: { $literal: trash } } },
+      {
+        $merge: {
+          into: COLLECTION_TRASHED_MEMORIES,
+          on: "_id",
+          whenMatched: "replace",
+          whenNotMatched: "insert",
+        },
+      },
+    ])
+    .toArray();
+  const result = await memories.deleteMany({ trashOperationId: trash.operationId });
+
+  return {
+    operationId: trash.operationId.toString(),
+    count: result.deletedCount,
+    purgeAfter: trash.purgeAfter,
+  };
+}
+
+/**
+ * Move trashed memories matching `filter` back into memories. Memories
+ * embedded by a model other than `liveModel` (a re-embed cutover happened
+ * while they were in the trash) are queued for re-embedding. A trashed
+ * memory whose ID is live again (a snapshot restore brought it back) stays
+ * in the trash and counts as skipped.
+ *
+ * Returns null when nothing matched.
+ */
+export async function restoreFromTrash(
+  db: Db,
+  filter: Filter<Document>,
+  liveModel?: string,
+): Promise<RestoreResult | null> {
+  const trash = db.collection(COLLECTION_TRASHED_MEMORIES);
+
+  const first = await trash.findOne(filter, { projection: { agentId: 1 } });
+  if (!first) return null;
+  const matched = await trash.countDocuments(filter);
+
+  const stale = liveModel
+    ? {
+        $and: [
+          { $ne: [{ $type: "$embedding" }, "missing"] },
+          { $ne: ["$embeddingModel", liveModel] },
+        ],
+      }
+    : false;
+
+  // Tag what gets inserted, so only those leave the trash
+  const restoreId = new ObjectId();
+  await trash
+    .aggregate([
+      { $match: filter },
+      { $unset: "trash" },
+      {
+        $set: {
+          embedding: { $cond: [stale, "$$REMOVE", "$embedding"] },
+          embeddingStatus: { $cond: [stale, "pending", "$embeddingStatus"] },
+          trashOperationId: restoreId,
+        },
+      },
+      {
+        $merge: {
+          into: COLLECTION_MEMORIES,
+          on: "_id",
+          whenMatched: "keepExisting",
+          whenNotMatched: "insert",
+        },
+      },
+    ])
+    .toArray();
+
+  const memories = db.collection(COLLECTION_MEMORIES);
+  let count = 0;
+  for (;;) {
+    const batch = await memories
+      .find({ trashOperationId: restoreId }, { projection: { _id: 1 } })
+      .limit(PURGE_BATCH_SIZE)
+      .toArray();
+    if (batch.length === 0) break;
+
+    const ids = batch.map((doc) => doc._id);
+    const result = await trash.deleteMany({ _id: { $in: ids } });
+    await memories.updateMany({ _id: { $in: ids } }, { $unset: { trashOperationId: "" } });
+    count += result.deletedCount;
+  }
+
+  if (liveModel) wakeEmbeddingWorker();
+
+  return { agentId: first.agentId, count, skipped: matched - count };
+}
+
+/**
+ * Delete trashed memories (and their edit history) whose retention window
+ * has passed. Returns the number of memories removed.
+ */
+export async function purgeExpiredTrash(db: Db, now: Date = new Date()): Promise<number> {
+  const trash = db.collection(COLLECTION_TRASHED_MEMORIES);
+  const versions = db.collection(COLLECTION_MEMORY_VERSIONS);
+  let purged = 0;
+
+  for (;;) {
+    const expired = await trash
+      .find({ "trash.purgeAfter": { $lte: now } }, { projection: { _id: 1 } })
+      .limit(PURGE_BATCH_SIZE)
+      .toArray();
+    if (expired.length === 0) break;
+
+    const ids = expired.map((doc) => doc._id);
+    const result = await trash.deleteMany({ _id: { $in: ids } });
+    await versions.deleteMany({ memoryId: { $in: ids } });
+    purged += result.deletedCount;
+
+    if (expired.length < PURGE_BATCH_SIZE) break;
+  }
+
+  return purged;
+}
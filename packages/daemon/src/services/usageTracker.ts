@@ -1,32 +1,37 @@
 /**
- * UsageTracker — Captures token usage from VoyageEmbedder, writes to MongoDB,
- * and maintains in-memory running totals for fast status queries.
+ * UsageTracker — Captures token usage from the Embedder and the LLM client,
+ * writes to MongoDB, and maintains in-memory running totals for fast status queries.
  *
  * Architecture:
- *   VoyageEmbedder emits "usage" events → UsageTracker captures them
+ *   Embedder / llmUsageEmitter emit "usage" events → UsageTracker captures them
  *   Routes push/pop context to attribute usage to operations/agents/pipeline stages
+ *   The authenticated API key (if any) is added from the request's async context
  *   MongoDB writes are fire-and-forget (don't block embedding calls)
  */
 
 import { Db } from "mongodb";
-import { VoyageEmbedder } from "../embedding";
+import type { Embedder } from "../embedding";
 import { COLLECTION_USAGE_EVENTS } from "../constants";
+import { llmUsageEmitter } from "./llmClient";
+import { currentApiKey } from "./apiKeyService";
 import type {
   UsageEvent,
   UsageContext,
   UsageOperation,
   RunningTotals,
   EmbedderUsageEvent,
+  EmbeddingCacheEvent,
+  LlmUsageEvent,
 } from "../types/usage";
-import { estimateCost } from "../types/usage";
+import { estimateCost, estimateLlmCost } from "../types/usage";
 
 export class UsageTracker {
   private db: Db;
-  private embedder: VoyageEmbedder;
+  private embedder: Embedder;
   private contextStack: UsageContext[] = [];
   private runningTotals: RunningTotals;
 
-  constructor(db: Db, embedder: VoyageEmbedder) {
+  constructor(db: Db, embedder: Embedder) {
     this.db = db;
     this.embedder = embedder;
     this.runningTotals = {
@@ -34,10 +39,11 @@ export class UsageTracker {
       totalCostUsd: 0,
       totalCalls: 0,
       byOperation: {},
+      cache: { hits: 0, misses: 0, estimatedCostSavedUsd: 0 },
       startedAt: new Date(),
     };
     this.subscribe();
-    console.log("  [UsageTracker] Initialized — tracking embedding token usage");
+    console.log("  [UsageTracker] Initialized — tracking embedding + LLM token usage");
   }
 
   /**
@@ -64,57 +70,125 @@ export class UsageTracker {
       totalCostUsd: this.runningTotals.totalCostUsd,
       totalCalls: this.runningTotals.totalCalls,
       byOperation: { ...this.runningTotals.byOperation },
+      cache: { ...this.runningTotals.cache },
       startedAt: this.runningTotals.startedAt,
     };
   }
 
-  /** Subscribe to embedder usage events. */
-  private subscribe(): void {
-    this.embedder.usageEmitter.on("usage", (event: EmbedderUsageEvent) => {
-      // Peek at the current context (set by the route handler)
-      const ctx = this.contextStack[this.contextStack.length - 1] || {
-        operation: "unknown" as UsageOperation,
-      };
-
-      const cost = estimateCost(event.model, event.totalTokens);
-
-      // Build document without _id — let MongoDB auto-generate ObjectId
-      const doc: Omit<UsageEvent, "_id"> = {
-        timestamp: new Date(),
-        operation: ctx.operation,
-        agentId: ctx.agentId,
+  /**
+   * Record usage and cache events from an embedder other than the live one
+   * (e.g. a re-embed migration target). Returns an unsubscribe function.
+   */
+  trackEmbedder(embedder: Embedder): () => void {
+    const onUsage = (event: EmbedderUsageEvent) => {
+      this.record({
+        kind: "embedding",
         model: event.model,
-        provider: event.isMock ? "mock" : "voyage",
+        provider: event.isMock ? "mock" : event.provider,
         totalTokens: event.totalTokens,
         inputTexts: event.inputTexts,
         inputType: event.inputType,
-        estimatedCostUsd: cost,
-        pipelineJobId: ctx.pipelineJobId,
-        pipelineStage: ctx.pipelineStage,
-        memoryId: ctx.memoryId,
+        estimatedCostUsd: estimateCost(event.model, event.totalTokens, event.provider),
         isMock: event.isMock,
-      };
-
-      // Update in-memory running totals
-      this.runningTotals.totalTokens += event.totalTokens;
-      this.runningTotals.totalCostUsd += cost;
-      this.runningTotals.totalCalls++;
-
-      const opKey = ctx.operation;
-      if (!this.runningTotals.byOperation[opKey]) {
-        this.runningTotals.byOperation[opKey] = { tokens: 0, cost: 0, calls: 0 };
-      }
-      this.runningTotals.byOperation[opKey].tokens += event.totalTokens;
-      this.runningTotals.byOperation[opKey].cost += cost;
-      this.runningTotals.byOperation[opKey].calls++;
-
-      // Fire-and-forget write to MongoDB (don't block the embedding caller)
-      this.db
-        .collection(COLLECTION_USAGE_EVENTS)
-        .insertOne(doc)
-        .catch((err) => {
-          console.error("[UsageTracker] Failed to write usage event:", err);
-        });
+      });
+    };
+
+    const onCache = (event: EmbeddingCacheEvent) => {
+      const costSaved = estimateCost(event.model, event.estimatedTokensSaved, event.provider);
+      this.runningTotals.cache.hits += event.hits;
+      this.runningTotals.cache.misses += event.misses;
+      this.runningTotals.cache.estimatedCostSavedUsd += costSaved;
+
+      // Savings, not spend — persisted without touching the cost totals
+      this.persist({
+        ...this.attribution(),
+        timestamp: new Date(),
+        kind: "embedding-cache",
+        model: event.model,
+        provider: event.provider,
+        totalTokens: 0,
+        inputTexts: event.hits + event.misses,
+        estimatedCostUsd: 0,
+        isMock: false,
+        cacheHits: event.hits,
+        cacheMisses: event.misses,
+        estimatedTokensSaved: event.estimatedTokensSaved,
+        estimatedCostSavedUsd: costSaved,
+      });
+    };
+
+    embedder.usageEmitter.on("usage", onUsage);
+    embedder.usageEmitter.on("cache", onCache);
+    return () => {
+      embedder.usageEmitter.off("usage", onUsage);
+      embedder.usageEmitter.off("cache", onCache);
+    };
+  }
+
+  /** Subscribe to embedder, embedding cache and LLM usage events. */
+  private subscribe(): void {
+    this.trackEmbedder(this.embedder);
+
+    llmUsageEmitter.on("usage", (event: LlmUsageEvent) => {
+      this.record({
+        kind: "llm",
+        model: event.model,
+        provider: event.provider,
+        totalTokens: event.totalTokens,
+        promptTokens: event.promptTokens,
+        completionTokens: event.completionTokens,
+        inputTexts: 1,
+        estimatedCostUsd: estimateLlmCost(
+          event.model,
+          event.promptTokens,
+          event.completionTokens,
+          event.provider,
+        ),
+        isMock: false,
+      });
     });
   }
+
+  /** Attribute an event to the current context, update totals and persist it. */
+  private record(
+    event: Omit<UsageEvent, "_id" | "timestamp" | "operation" | keyof UsageContext>,
+  ): void {
+    const ctx = this.attribution();
+    const cost = event.estimatedCostUsd;
+
+    // Update in-memory running totals
+    this.runningTotals.totalTokens += event.totalTokens;
+    this.runningTotals.totalCostUsd += cost;
+    this.runningTotals.totalCalls++;
+
+    const opKey = ctx.operation;
+    if (!this.runningTotals.byOperation[opKey]) {
+      this.runningTotals.byOperation[opKey] = { tokens: 0, cost: 0, calls: 0 };
+    }
+    this.runningTotals.byOperation[opKey].tokens += event.totalTokens;
+    this.runningTotals.byOperation[opKey].cost += cost;
+    this.runningTotals.byOperation[opKey].calls++;
+
+    this.persist({ ...ctx, timestamp: new Date(), ...event });
+  }
+
+  /** Peek at the current context (set by the route handler) and the request's API key. */
+  private attribution(): UsageContext & Pick<UsageEvent, "apiKeyId" | "apiKeyName"> {
+    const ctx = this.contextStack[this.contextStack.length - 1] || {
+      operation: "unknown" as UsageOperation,
+    };
+    const apiKey = currentApiKey();
+    return apiKey ? { ...ctx, apiKeyId: apiKey.id, apiKeyName: apiKey.name } : ctx;
+  }
+
+  /** Fire-and-forget write to MongoDB (don't block the caller). */
+  private persist(doc: Omit<UsageEvent, "_id">): void {
+    // Build document without _id — let MongoDB auto-generate ObjectId
+    this.db
+      .collection(COLLECTION_USAGE_EVENTS)
+      .insertOne(doc)
+      .catch((err) => {
+        console.error("[UsageTracker] Failed to write usage event:", err);
+      });
+  }
 }
@@ -3,12 +3,25 @@ export interface Memory {
   agentId: string;
   projectId?: string;
   text: string;
-  embedding: number[];
+  embedding: number[];        // absent while embeddingStatus is "pending"
+  embeddingModel?: string;    // model that produced `embedding` (recall only compares like with like)
+  embeddingDim?: number;
   tags: string[];
   metadata: Record<string, unknown>;
   createdAt: Date;
   updatedAt: Date;
   expiresAt?: Date;
+  version?: number;           // bumped on every edit; missing = 1 (prior versions in memory_versions)
+
+  // Background embedding queue (async /remember)
+  embeddingStatus?: EmbeddingStatus; // missing on legacy docs = "ready"
+  embeddingAttempts?: number;
+  embeddingRetryAt?: Date;
+  embeddingError?: string;
+
+  // Re-embed migration: next model's vector, swapped into `embedding` at cutover
+  shadowEmbedding?: number[];
+  shadowEmbeddingModel?: string;
 
   // Phase 1: Reliability metadata
   confidence?: number;          // 0.0 – 1.0; default 0.6 on creation
@@ -21,6 +34,7 @@ export interface Memory {
   memoryType?: MemoryType;      // "fact" | "preference" | "decision" | "observation" | "episode" | "opinion"
   sourceSessionId?: string;
   sourceEpisodeId?: string;     // links atom → episode
+  reflectedAt?: Date;           // set once reflection has processed it (classified or scheduled)
 
   // Phase 1: Conflict tracking
   contradictions?: Contradiction[];
@@ -33,6 +47,27 @@ export interface Memory {
   clusterLabel?: string;
 }
 
+/**
+ * A memory as it was before an edit (memory_versions collection).
+ * changedBy / reason / supersededAt describe the edit that replaced it.
+ */
+export interface MemoryVersion {
+  _id?: string;
+  memoryId: import("mongodb").ObjectId;
+  agentId: string;
+  version: number;
+  text: string;
+  tags: string[];
+  metadata: Record<string, unknown>;
+  memoryType?: MemoryType;
+  layer?: MemoryLayer;
+  confidence?: number;
+  supersededAt: Date;
+  changedBy: string;
+  reason?: string;
+  change: "edit" | "revert";
+}
+
 export interface RememberRequest {
   agentId: string;
   projectId?: string;
@@ -64,6 +99,20 @@ export interface RecallResult {
   tags: string[];
   metadata: Record<string, unknown>;
   createdAt: Date;
+  scoreBreakdown?: ScoreBreakdown;
+}
+
+/**
+ * How a recall score was computed (see services/recallRanking.ts).
+ * `final` is the value returned as `score`.
+ */
+export interface ScoreBreakdown {
+  similarity: number;
+  strength: number;
+  confidence: number;
+  recency: number;
+  layerBoost: number;
+  final: number;
 }
 
 // ============================================================================
@@ -72,6 +121,9 @@ export interface RecallResult {
 
 export type MemoryLayer = "working" | "episodic" | "semantic" | "archival";
 
+/** "pending" memories are stored but not yet embedded (excluded from vector recall) */
+export type EmbeddingStatus = "pending" | "ready" | "failed";
+
 export type MemoryType = "fact" | "preference" | "decision" | "observation" | "episode" | "opinion";
 
 export interface Contradiction {
@@ -80,6 +132,7 @@ export interface Contradiction {
   type?: string;              // Type of contradiction (direct, temporal, etc.)
   explanation?: string;       // Human-readable explanation of the conflict
   probability?: number;       // Confidence that this is a real contradiction (0.0-1.0)
+  classifiedBy?: "heuristic" | "llm";    // Which classifier flagged it
   severity?: "high" | "medium" | "low";  // Impact severity (LLM-generated)
   resolutionSuggestion?: string;         // LLM suggestion for resolution
   resolution?: ContradictionResolution;
@@ -116,6 +169,27 @@ export interface GraphEdge {
   metadata?: Record<string, unknown>;
 }
 
+export type EntityType = "person" | "project" | "system" | "concept" | "place";
+
+/**
+ * Entity hub document, maintained by the entity-update reflection stage.
+ * Memories point at it with MENTIONS_ENTITY edges whose targetId is the slug.
+ */
+export interface Entity {
+  _id?: string;
+  agentId: string;
+  slug: string;
+  type: EntityType;
+  displayName: string;
+  aliases: string[];
+  summary: string;
+  summaryEmbedding: number[];
+  attributes: Record<string, any>;
+  memoryCount: number;
+  lastSeenAt: Date;
+  createdAt: Date;
+}
+
 // ============================================================================
 // Phase 1: Episodic Memory Layer
 // ============================================================================
@@ -132,6 +206,149 @@ export interface Episode {
   dominantTopics: string[];
   factIds: string[];          // memory atom IDs derived from this episode
   embedding: number[];        // 1024-dim embedding of narrative text
+  embeddingModel?: string;
+  embeddingDim?: number;
   strength: number;           // temporal decay (same as Memory)
   layer: "episodic";
 }
+
+// ============================================================================
+// Sessions
+// ============================================================================
+
+export type SessionTurnRole = "user" | "assistant" | "system" | "tool";
+
+export interface SessionTurn {
+  role: SessionTurnRole;
+  content: string;
+  timestamp: Date;
+}
+
+/**
+ * One conversation (sessions collection). Turns accumulate while it's open;
+ * closing it hands the transcript to the reflection pipeline, whose memories
+ * carry the session's ID as sourceSessionId.
+ */
+export interface Session {
+  _id?: import("mongodb").ObjectId;
+  agentId: string;
+  projectId?: string;
+  sessionKey?: string;        // the client's own session identifier, if any
+  status: "open" | "closed";
+  startedAt: Date;
+  lastActivityAt: Date;
+  endedAt?: Date;
+  turns: SessionTurn[];       // most recent MAX_SESSION_TURNS only
+  turnCount: number;          // all turns ever appended
+  metadata: Record<string, unknown>;
+  reflectionJobId?: string;   // job started on close
+}
+
+// ============================================================================
+// API Keys
+// ============================================================================
+
+export type ApiKeyCapability = "read" | "write" | "admin" | "reflect";
+
+/**
+ * A scoped API key (api_keys collection). Only the SHA-256 hash of the
+ * key is stored; `prefix` identifies it in listings.
+ */
+export interface ApiKey {
+  _id?: import("mongodb").ObjectId;
+  name: string;
+  keyHash: string;
+  prefix: string;
+  agents: string[];           // agentId patterns, "*" wildcard
+  projects: string[];         // projectId patterns, "*" wildcard
+  capabilities: ApiKeyCapability[];
+  createdAt: Date;
+  createdBy: string;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
+
+// ============================================================================
+// Audit Log
+// ============================================================================
+
+export type AuditOperation =
+  | "memory.forget"
+  | "memory.purge"
+  | "memory.clear"
+  | "memory.restore"
+  | "archive.import"
+  | "snapshot.create"
+  | "snapshot.restore"
+  | "snapshot.delete"
+  | "conflict.resolve"
+  | "graph.edge.approve"
+  | "graph.edge.reject"
+  | "graph.edge.create"
+  | "entity.merge"
+  | "entity.aliases"
+  | "entity.split"
+  | "settings.update"
+  | "settings.delete"
+  | "key.create"
+  | "key.revoke"
+  | "reembed.start"
+  | "reembed.cutover"
+  | "reembed.abort";
+
+/**
+ * One destructive or administrative operation (audit_events collection).
+ * Append-only: nothing in the daemon updates or deletes these.
+ */
+export interface AuditEvent {
+  _id?: import("mongodb").ObjectId;
+  timestamp: Date;
+  operation: AuditOperation;
+  actorKeyId: string | null;  // api_keys ID, "root", or null on an open daemon
+  actorKeyName: string | null;
+  agentId: string | null;
+  targetIds: string[];        // affected memory / edge / key / job IDs
+  count: number;              // documents affected
+  details?: Record<string, unknown>;
+  request: {
+    method: string;
+    path: string;
+    ip?: string;
+    userAgent?: string;
+  };
+}
+
+// ============================================================================
+// Trash
+// ============================================================================
+
+export type TrashOperation = "forget" | "purge" | "clear";
+
+/**
+ * Why and until when a memory sits in trashed_memories. Set when forget,
+ * purge or clear moves it there; removed again on restore.
+ */
+export interface TrashInfo {
+  operationId: import("mongodb").ObjectId; // one forget / purge / clear call
+  operation: TrashOperation;
+  deletedAt: Date;
+  purgeAfter: Date;           // the scheduler deletes it for good after this
+  deletedBy: string | null;   // API key name, null on an open daemon
+}
+
+/** A soft-deleted memory: the full document plus its trash info */
+export type TrashedMemory = Memory & { trash: TrashInfo };
+
+/**
+ * Point-in-time copy of one agent's memory (snapshots collection). The copied
+ * documents live in snapshot_documents as { snapshotId, type, doc }.
+ */
+export interface Snapshot {
+  _id?: import("mongodb").ObjectId;
+  agentId: string;
+  name: string;
+  createdAt: Date;
+  createdBy: string | null;   // API key name, null on an open daemon
+  embeddingModel: string;     // model of the captured memory vectors
+  counts: Record<string, number>; // documents captured per record type
+}
@@ -9,6 +9,7 @@
  */
 
 import { z } from "zod";
+import { validateCron } from "../utils/cron.js";
 
 /**
  * Semantic level shortcut — sets all stage toggles at once.
@@ -67,17 +68,142 @@ const StageSemanticConfigSchema = z.object({
 });
 export type StageSemanticConfig = z.infer<typeof StageSemanticConfigSchema>;
 
+/**
+ * LLM wire protocol.
+ *   ollama: POST /api/generate ({ prompt, options.num_predict } → { response })
+ *   openai: POST /v1/chat/completions (OpenAI, vLLM, LiteLLM, hosted gateways)
+ */
+export const LlmProviderTypeSchema = z.enum(["ollama", "openai"]);
+export type LlmProviderType = z.infer<typeof LlmProviderTypeSchema>;
+
 /** LLM provider configuration (overrides env-var defaults when present). */
 export const LlmProviderConfigSchema = z.object({
+  provider: LlmProviderTypeSchema.optional(),
   endpoint: z.string().optional(),
   model: z.string().optional(),
   apiKey: z.string().optional(),
   temperature: z.number().min(0).max(2).default(0.3),
   maxTokens: z.number().int().min(50).max(4096).default(512),
   timeoutMs: z.number().int().min(1000).max(60000).default(15000),
+  /** Ask the provider for JSON output (response_format / format: "json") on JSON calls */
+  jsonMode: z.boolean().optional(),
 });
 export type LlmProviderConfig = z.infer<typeof LlmProviderConfigSchema>;
 
+/**
+ * Recall re-ranking configuration.
+ *
+ * Fields are optional in the stored document so agent values can fall back
+ * to _global values field by field; see resolveRecallRanking().
+ */
+export const RecallRankingSchema = z.object({
+  weights: z
+    .object({
+      similarity: z.number().min(0).max(10).optional(),
+      strength: z.number().min(0).max(10).optional(),
+      confidence: z.number().min(0).max(10).optional(),
+      recency: z.number().min(0).max(10).optional(),
+    })
+    .optional(),
+  layerBoosts: z
+    .object({
+      working: z.number().min(0).max(5).optional(),
+      episodic: z.number().min(0).max(5).optional(),
+      semantic: z.number().min(0).max(5).optional(),
+      archival: z.number().min(0).max(5).optional(),
+    })
+    .optional(),
+  recencyHalfLifeDays: z.number().positive().max(3650).optional(),
+});
+export type RecallRanking = z.infer<typeof RecallRankingSchema>;
+
+/** Fully resolved recall ranking — what the recall route applies. */
+export interface ResolvedRecallRanking {
+  weights: { similarity: number; strength: number; confidence: number; recency: number };
+  layerBoosts: Record<"working" | "episodic" | "semantic" | "archival", number>;
+  recencyHalfLifeDays: number;
+}
+
+/**
+ * Default ranking is pure similarity, so recall behaves exactly as before
+ * until an agent opts in by setting weights.
+ */
+export const DEFAULT_RECALL_RANKING: ResolvedRecallRanking = {
+  weights: { similarity: 1, strength: 0, confidence: 0, recency: 0 },
+  layerBoosts: { working: 1, episodic: 1, semantic: 1, archival: 1 },
+  recencyHalfLifeDays: 30,
+};
+
+/** Background jobs the scheduler runs for each agent. */
+export const ScheduledJobTypeSchema = z.enum(["decay", "reflection", "clustering", "jobCleanup"]);
+export type ScheduledJobType = z.infer<typeof ScheduledJobTypeSchema>;
+export const SCHEDULED_JOB_TYPES: ScheduledJobType[] = ScheduledJobTypeSchema.options;
+
+/** 5-field cron expression in the daemon's local time (see utils/cron.ts). */
+const CronSchema = z.string().superRefine((value, ctx) => {
+  const error = validateCron(value);
+  if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+});
+
+const JobScheduleFields = {
+  enabled: z.boolean().optional(),
+  cron: CronSchema.optional(),
+};
+
+/**
+ * Scheduled jobs.
+ *   decay      — temporal decay over the agent's memories
+ *   reflection — graph-link, entity-update and graph-apply over memories
+ *                reflection hasn't processed yet (e.g. stored with /remember)
+ *   clustering — recompute topic clusters
+ *   jobCleanup — delete finished reflection jobs past their retention
+ *
+ * Fields are optional in the stored document so agent values can fall back
+ * to _global values field by field; see resolveSchedules().
+ */
+export const SchedulesSchema = z.object({
+  decay: z.object(JobScheduleFields).optional(),
+  reflection: z
+    .object({ ...JobScheduleFields, batchSize: z.number().int().min(1).max(500).optional() })
+    .optional(),
+  clustering: z
+    .object({ ...JobScheduleFields, k: z.number().int().min(2).max(100).optional() })
+    .optional(),
+  jobCleanup: z
+    .object({ ...JobScheduleFields, retentionDays: z.number().int().min(1).max(3650).optional() })
+    .optional(),
+});
+export type Schedules = z.infer<typeof SchedulesSchema>;
+
+/** Fully resolved schedules — what the scheduler runs. */
+export interface ResolvedSchedules {
+  decay: { enabled: boolean; cron: string };
+  reflection: { enabled: boolean; cron: string; batchSize: number };
+  clustering: { enabled: boolean; cron: string; k: number };
+  jobCleanup: { enabled: boolean; cron: string; retentionDays: number };
+}
+
+/**
+ * Decay keeps its old nightly 02:00 run and job cleanup is on; scheduled
+ * reflection and clustering are opt-in.
+ */
+export const DEFAULT_SCHEDULES: ResolvedSchedules = {
+  decay: { enabled: true, cron: "0 2 * * *" },
+  reflection: { enabled: false, cron: "0 3 * * *", batchSize: 100 },
+  clustering: { enabled: false, cron: "0 4 * * 0", k: 20 },
+  jobCleanup: { enabled: true, cron: "30 3 * * *", retentionDays: 30 },
+};
+
+/**
+ * How the write-time contradiction check decides whether a similar memory
+ * conflicts with the new one.
+ *   heuristic: negation/temporal pattern matching (no LLM cost)
+ *   llm:       NLI-style verdict from the configured LLM, cached per pair;
+ *              falls back to the heuristic when the LLM is unavailable
+ */
+export const ContradictionClassifierSchema = z.enum(["heuristic", "llm"]);
+export type ContradictionClassifier = z.infer<typeof ContradictionClassifierSchema>;
+
 /** Per-stage overrides map. */
 const StagesConfigSchema = z
   .object({
@@ -93,6 +219,9 @@ const StagesConfigSchema = z
 export const AgentSettingsSchema = z.object({
   agentId: z.string().min(1),
   semanticLevel: SemanticLevelSchema.default("off"),
+  contradictionClassifier: ContradictionClassifierSchema.optional(),
+  recallRanking: RecallRankingSchema.optional(),
+  schedules: SchedulesSchema.optional(),
   stages: StagesConfigSchema,
   llmProvider: LlmProviderConfigSchema.default({}),
   createdAt: z.date().optional(),
@@ -121,13 +250,16 @@ export interface ResolvedStageConfig {
  */
 export interface ResolvedPipelineSettings {
   stages: Record<EnhanceableStage, ResolvedStageConfig>;
+  contradictionClassifier: ContradictionClassifier;
   llmProvider: {
+    provider: LlmProviderType;
     endpoint: string;
     model: string;
     apiKey?: string;
     temperature: number;
     maxTokens: number;
     timeoutMs: number;
+    jsonMode: boolean;
   };
 }
 
@@ -138,3 +270,7 @@ export const GLOBAL_SETTINGS_ID = "_global";
 export const DEFAULT_LLM_ENDPOINT = "http://localhost:11434/api/generate";
 /** Default LLM model. */
 export const DEFAULT_LLM_MODEL = "llama3.2:3b";
+/** Default OpenAI-compatible chat completions endpoint. */
+export const DEFAULT_OPENAI_LLM_ENDPOINT = "https://api.openai.com/v1/chat/completions";
+/** Default OpenAI-compatible chat model. */
+export const DEFAULT_OPENAI_LLM_MODEL = "gpt-4o-mini";
@@ -1,7 +1,7 @@
 /**
  * Usage & Cost Observability Types
  *
- * Every Voyage API call produces a UsageEvent that captures
+ * Every embedding and LLM API call produces a UsageEvent that captures
  * token consumption, cost, and attribution (operation, agent, pipeline stage).
  */
 
@@ -9,19 +9,27 @@ export interface UsageEvent {
   _id?: import("mongodb").ObjectId;
   timestamp: Date;
 
-  // What operation triggered this embedding call
+  // What operation triggered this call
   operation: UsageOperation;
 
+  // Embedding, LLM (chat/generate) call, or embedding cache lookup —
+  // absent on events written before LLM tracking
+  kind?: UsageKind;
+
   // Who
   agentId?: string;
+  apiKeyId?: string; // scoped key ID, or "root" for MEMORY_API_KEY
+  apiKeyName?: string;
 
   // Model & provider
   model: string;
-  provider: "voyage" | "ollama" | "mock";
+  provider: "voyage" | "openai" | "ollama" | "local" | "mock";
 
   // Token counts
   totalTokens: number;
-  inputTexts: number; // how many texts were embedded in this call
+  promptTokens?: number; // LLM calls only
+  completionTokens?: number; // LLM calls only
+  inputTexts: number; // how many texts were embedded (or prompts sent) in this call
   inputType?: "document" | "query";
 
   // Cost (estimated, in USD)
@@ -34,19 +42,38 @@ export interface UsageEvent {
 
   // Was this a mock call? (no real tokens consumed)
   isMock: boolean;
+
+  // Embedding cache lookups only (kind: "embedding-cache")
+  cacheHits?: number;
+  cacheMisses?: number;
+  estimatedTokensSaved?: number;
+  estimatedCostSavedUsd?: number;
 }
 
+export type UsageKind = "embedding" | "llm" | "embedding-cache";
+
+/**
+ * Match stage that excludes cache lookup events — they record savings, not
+ * spend, and must not count as calls in cost aggregates.
+ */
+export const BILLABLE_USAGE_FILTER = { kind: { $ne: "embedding-cache" } } as const;
+
 export type UsageOperation =
   | "remember"
   | "recall"
   | "contradiction-check"
+  | "contradiction-explain"
+  | "reflect:extract"
   | "reflect:deduplicate"
   | "reflect:conflict-check"
   | "reflect:classify"
   | "reflect:entity-update"
   | "reflect:graph-link"
+  | "reflect:layer-promote"
   | "reembed"
+  | "llm-test"
   | "status-health-check"
+  | "entity-curation"
   | "unknown";
 
 /**
@@ -65,16 +92,64 @@ export const VOYAGE_PRICING: Record<string, number> = {
   "voyage-law-2": 0.1,
 };
 
+/**
+ * OpenAI embedding pricing per million tokens (USD).
+ * OpenAI-compatible self-hosted gateways (vLLM etc.) are billed at these
+ * rates only when they reuse these model names.
+ */
+export const OPENAI_EMBEDDING_PRICING: Record<string, number> = {
+  "text-embedding-3-small": 0.02,
+  "text-embedding-3-large": 0.13,
+  "text-embedding-ada-002": 0.1,
+};
+
 /**
  * Estimate the cost in USD for a given number of tokens on a given model.
+ * Local providers (Ollama, local hash embeddings) are free.
  */
-export function estimateCost(model: string, totalTokens: number): number {
-  const pricePerMillion = VOYAGE_PRICING[model] || 0.1; // default to voyage-4 pricing
+export function estimateCost(
+  model: string,
+  totalTokens: number,
+  provider: UsageEvent["provider"] = "voyage",
+): number {
+  if (provider === "ollama" || provider === "local" || provider === "mock") return 0;
+  const pricePerMillion =
+    provider === "openai"
+      ? (OPENAI_EMBEDDING_PRICING[model] ?? 0)
+      : VOYAGE_PRICING[model] || 0.1; // default to voyage-4 pricing
   return (totalTokens / 1_000_000) * pricePerMillion;
 }
 
 /**
- * Context pushed before an embedding call so UsageTracker knows what triggered it.
+ * OpenAI chat model pricing per million tokens (USD), split input/output.
+ * Self-hosted OpenAI-compatible servers (vLLM etc.) serving other model
+ * names are treated as free.
+ */
+export const OPENAI_LLM_PRICING: Record<string, { input: number; output: number }> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+};
+
+/**
+ * Estimate the cost in USD of one LLM call. Ollama is always free.
+ */
+export function estimateLlmCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  provider: LlmUsageEvent["provider"],
+): number {
+  if (provider !== "openai") return 0;
+  const price = OPENAI_LLM_PRICING[model];
+  if (!price) return 0;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Context pushed before an embedding or LLM call so UsageTracker knows what triggered it.
  */
 export interface UsageContext {
   operation: UsageOperation;
@@ -92,11 +167,12 @@ export interface RunningTotals {
   totalCostUsd: number;
   totalCalls: number;
   byOperation: Record<string, { tokens: number; cost: number; calls: number }>;
+  cache: { hits: number; misses: number; estimatedCostSavedUsd: number };
   startedAt: Date;
 }
 
 /**
- * Internal event emitted by VoyageEmbedder after each API call.
+ * Internal event emitted by every Embedder after each API call.
  */
 export interface EmbedderUsageEvent {
   totalTokens: number;
@@ -104,4 +180,27 @@ export interface EmbedderUsageEvent {
   inputTexts: number;
   inputType?: "document" | "query";
   isMock: boolean;
+  provider: "voyage" | "openai" | "ollama" | "local";
+}
+
+/**
+ * Internal event emitted by llmClient after each successful LLM call.
+ */
+export interface LlmUsageEvent {
+  provider: "ollama" | "openai";
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Internal event emitted by CachingEmbedder after each embed call.
+ */
+export interface EmbeddingCacheEvent {
+  model: string;
+  provider: EmbedderUsageEvent["provider"];
+  hits: number;
+  misses: number;
+  estimatedTokensSaved: number;
 }
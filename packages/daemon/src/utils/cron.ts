@@ -0,0 +1,145 @@
+/**
+ * Cron expressions for the background scheduler
+ *
+ * Five fields — minute hour day-of-month month day-of-week — evaluated in
+ * the daemon's local time. Each field takes `*`, numbers, ranges (`1-5`),
+ * comma lists and steps on either (`0-30/10`; a step on `*` spans the whole
+ * field). Day-of-week is 0-7 with both 0 and 7 meaning Sunday. As in
+ * standard cron, when both day fields are restricted a day matching either
+ * one runs. @hourly, @daily, @weekly and @monthly are accepted as shorthands.
+ */
+
+const ALIASES: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day-of-month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day-of-week", min: 0, max: 7 },
+] as const;
+
+/** Search this far ahead before deciding an expression never matches */
+const MAX_LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Day fields given as `*` match every day; only restricted ones combine with OR */
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+/**
+ * Parse a cron expression. Throws an Error naming the bad field.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = ALIASES[expression.trim()] ?? expression.trim();
+  const parts = normalized.split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error(`Cron expression needs 5 fields, got ${parts.length}: "${expression}"`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) =>
+    parseField(part, FIELDS[i]),
+  );
+  // 7 is Sunday too
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === "*",
+    anyDayOfWeek: parts[4] === "*",
+  };
+}
+
+function parseField(
+  field: string,
+  { name, min, max }: { name: string; min: number; max: number },
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of field.split(",")) {
+    const match = item.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) throw new Error(`Invalid cron ${name} field: "${field}"`);
+
+    const [, range, from, to, stepText] = match;
+    const start = range === "*" ? min : Number(from);
+    const end = range === "*" ? max : to !== undefined ? Number(to) : stepText ? max : start;
+    const step = stepText ? Number(stepText) : 1;
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Cron ${name} field out of range (${min}-${max}): "${field}"`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * The first time strictly after `after` (to the minute) that the expression
+ * matches. Throws for invalid expressions and ones that never match, such
+ * as "0 0 31 2 *".
+ */
+export function nextCronRun(expression: string, after: Date = new Date()): Date {
+  const schedule = parseCron(expression);
+  const limit = after.getTime() + MAX_LOOKAHEAD_MS;
+
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  // Skip whole months, days and hours that can't match
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error(`Cron expression never matches: "${expression}"`);
+}
+
+/**
+ * Why an expression can't be scheduled, or null when it can
+ */
+export function validateCron(expression: string): string | null {
+  try {
+    nextCronRun(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
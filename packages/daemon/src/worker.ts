@@ -0,0 +1,94 @@
+/**
+ * Standalone reflection worker — `ocmem worker` / `pnpm worker`.
+ *
+ * Runs queued reflection jobs in its own process, so long pipelines don't
+ * share an event loop with the HTTP daemon. Point it at the same database
+ * and set REFLECTION_WORKER=false on the daemon, or run both: workers claim
+ * jobs atomically, so any number of them can share the queue.
+ *
+ * Restart the worker after a re-embed cutover so it embeds with the new
+ * model; the daemon switches in place but this process doesn't. On start it
+ * picks up the migrated model the same way the daemon does.
+ */
+
+import dotenv from "dotenv";
+import path from "path";
+import { connectDatabase } from "./db";
+import {
+  createEmbedder,
+  validateEmbedderDimensions,
+  withEmbeddingCache,
+  type Embedder,
+} from "./embedders";
+import { loadConfig } from "./config";
+import { startupError } from "./utils/startupError";
+import { UsageTracker } from "./services/usageTracker";
+import { resolveMigratedEmbedder } from "./services/reembedMigration";
+import {
+  drainReflectionWorker,
+  startReflectionWorker,
+  stopReflectionWorker,
+} from "./reflection/worker";
+
+// Same env files as server.ts
+dotenv.config({ path: path.resolve(__dirname, "../../../.env.local") });
+dotenv.config({ path: path.resolve(__dirname, "../../../.env") });
+dotenv.config({ path: path.resolve(__dirname, "../.env.local") });
+dotenv.config({ path: path.resolve(__dirname, "../.env") });
+
+const config = loadConfig();
+
+const startWorker = async () => {
+  try {
+    let embedder: Embedder;
+    try {
+      embedder = createEmbedder(config);
+    } catch (error) {
+      startupError({
+        title: "Invalid embedding provider configuration",
+        description: error instanceof Error ? error.message : String(error),
+        fix: [
+          "Set EMBEDDING_MODEL_DIMENSIONS to the model's output dimension",
+          "OR pick a model with a known dimension (see docs/configuration.md)",
+        ],
+      });
+    }
+    validateEmbedderDimensions(embedder);
+    console.log(
+      `  Embeddings: ${embedder.provider} / ${embedder.getModel()} (${embedder.getDimensions()} dims)`,
+    );
+
+    const { client, db } = await connectDatabase({ mongoUri: config.mongoUri });
+    console.log("  Connected to MongoDB");
+
+    embedder = await resolveMigratedEmbedder(db, config, embedder);
+    const cached = withEmbeddingCache(embedder, db, config);
+    const usageTracker = new UsageTracker(db, cached);
+
+    startReflectionWorker(db, cached, config, usageTracker, {
+      intervalMs: config.reflectionWorkerIntervalMs,
+      concurrency: config.reflectionWorkerConcurrency,
+      leaseMs: config.reflectionJobLeaseMs,
+    });
+
+    let stopping = false;
+    const shutdown = async () => {
+      // A second Ctrl+C exits without waiting; the leases expire and the
+      // jobs are picked up again
+      if (stopping) process.exit(1);
+      stopping = true;
+      console.log("\nStopping — waiting for running jobs to finish (Ctrl+C again to force)...");
+      stopReflectionWorker();
+      await drainReflectionWorker();
+      await client.close();
+      process.exit(0);
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+  } catch (error) {
+    console.error("Failed to start reflection worker:", error);
+    process.exit(1);
+  }
+};
+
+startWorker();
@@ -0,0 +1,21 @@
+"use client";
+
+import Icon from "@leafygreen-ui/icon";
+import { EntitiesContent } from "@/components/entities/EntitiesContent";
+import styles from "./page.module.css";
+
+export default function EntitiesPage() {
+  return (
+    <div className={styles.page}>
+      <div className={styles.header}>
+        <Icon glyph="PersonGroup" size={24} className={styles.headerIcon} />
+        <h2 className={styles.title}>Entities</h2>
+      </div>
+      <p className={styles.description}>
+        Merge duplicate people, projects and systems, fix their aliases, and split apart entities
+        that conflate two things.
+      </p>
+      <EntitiesContent />
+    </div>
+  );
+}
@@ -7,18 +7,21 @@ import Icon from "@leafygreen-ui/icon";
 import { useThemeMode } from "@/contexts/ThemeContext";
 import { BackupSection } from "@/components/operations/BackupSection";
 import { RestoreSection } from "@/components/operations/RestoreSection";
+import { SnapshotsSection } from "@/components/operations/SnapshotsSection";
 import { DatabaseStatsSection } from "@/components/operations/DatabaseStatsSection";
-import { DecaySchedulerControls } from "@/components/operations/DecaySchedulerControls";
+import { SchedulerControls } from "@/components/operations/SchedulerControls";
 import { ReflectionPipelineControls } from "@/components/operations/ReflectionPipelineControls";
 import { ConflictsContent } from "@/components/operations/ConflictsContent";
 import { ExpirationContent } from "@/components/operations/ExpirationContent";
 import { ReflectionJobsContent } from "@/components/operations/ReflectionJobsContent";
+import { AuditLogContent } from "@/components/operations/AuditLogContent";
 import styles from "./page.module.css";
 
 const TAB_MAP: Record<string, number> = {
   conflicts: 1,
   expiration: 2,
   reflection: 3,
+  audit: 4,
 };
 
 function OperationsContent() {
@@ -75,7 +78,7 @@ function OperationsContent() {
               <ReflectionPipelineControls />
             </div>
             <div className={styles.section}>
-              <DecaySchedulerControls />
+              <SchedulerControls />
             </div>
             <div className={styles.section}>
               <BackupSection />
@@ -83,6 +86,9 @@ function OperationsContent() {
             <div className={styles.section}>
               <RestoreSection />
             </div>
+            <div className={styles.section}>
+              <SnapshotsSection />
+            </div>
           </div>
         </Tab>
         <Tab name="Conflicts">
@@ -94,6 +100,9 @@ function OperationsContent() {
         <Tab name="Reflection Jobs">
           <ReflectionJobsContent />
         </Tab>
+        <Tab name="Audit Log">
+          <AuditLogContent />
+        </Tab>
       </Tabs>
     </div>
   );
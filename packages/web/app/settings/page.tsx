@@ -7,6 +7,7 @@ import Icon from "@leafygreen-ui/icon";
 import { useThemeMode } from "@/contexts/ThemeContext";
 import { DaemonUrlConfig } from "@/components/settings/DaemonUrlConfig";
 import { DangerZone } from "@/components/settings/DangerZone";
+import { TrashBin } from "@/components/settings/TrashBin";
 import { HealthDashboard } from "@/components/health/HealthDashboard";
 import { DocsContent } from "@/components/settings/DocsContent";
 import { SemanticConfig } from "@/components/settings/SemanticConfig";
@@ -50,6 +51,9 @@ function SettingsContent() {
             <div className={styles.section}>
               <DangerZone />
             </div>
+            <div className={styles.section}>
+              <TrashBin />
+            </div>
           </div>
         </Tab>
         <Tab name="Semantic / LLM">
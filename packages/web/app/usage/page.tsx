@@ -489,7 +489,11 @@ export default function UsagePage() {
               icon={<DollarSign size={22} />}
               label="Total Cost"
               value={formatCost(summary?.totalCostUsd ?? 0)}
-              subtitle={`last ${days} days`}
+              subtitle={
+                summary?.embeddingCache?.hits
+                  ? `last ${days} days · ~${formatCost(summary.embeddingCache.estimatedCostSavedUsd)} saved by cache (${Math.round(summary.embeddingCache.hitRate * 100)}% hits)`
+                  : `last ${days} days`
+              }
               color="#00ED64"
             />
           </div>
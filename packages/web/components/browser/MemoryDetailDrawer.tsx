@@ -1,11 +1,16 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { Chip } from "@leafygreen-ui/chip";
 import IconButton from "@leafygreen-ui/icon-button";
 import Icon from "@leafygreen-ui/icon";
 import Button from "@leafygreen-ui/button";
+import TextArea from "@leafygreen-ui/text-area";
+import TextInput from "@leafygreen-ui/text-input";
 import { Drawer } from "@/components/ui/Drawer";
 import { useThemeMode } from "@/contexts/ThemeContext";
+import { useDaemonConfig } from "@/contexts/DaemonConfigContext";
+import { fetchMemoryHistory, revertMemory, updateMemory, type MemoryVersionItem } from "@/lib/api";
 
 interface MemoryItem {
   _id: string;
@@ -25,6 +30,8 @@ interface MemoryDetailDrawerProps {
   memory: MemoryItem | null;
   onClose: () => void;
   onDelete: (id: string) => void;
+  /** Called after an edit or revert so the list can show the new content */
+  onUpdated?: (id: string, changes: { text: string; tags: string[]; updatedAt: string }) => void;
 }
 
 const sectionLabel: React.CSSProperties = {
@@ -36,11 +43,90 @@ const sectionLabel: React.CSSProperties = {
   marginBottom: 8,
 };
 
-export function MemoryDetailDrawer({ open, memory, onClose, onDelete }: MemoryDetailDrawerProps) {
+export function MemoryDetailDrawer({
+  open,
+  memory,
+  onClose,
+  onDelete,
+  onUpdated,
+}: MemoryDetailDrawerProps) {
   const { darkMode } = useThemeMode();
+  const { daemonUrl } = useDaemonConfig();
+
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [history, setHistory] = useState<MemoryVersionItem[]>([]);
+  const [currentVersion, setCurrentVersion] = useState(1);
+
+  const memoryId = memory?._id;
+
+  const loadHistory = async (id: string) => {
+    try {
+      const data = await fetchMemoryHistory(daemonUrl, id);
+      setHistory(data.versions);
+      setCurrentVersion(data.currentVersion);
+    } catch {
+      setHistory([]);
+    }
+  };
+
+  useEffect(() => {
+    setEditing(false);
+    setEditError(null);
+    setHistory([]);
+    if (open && memoryId) loadHistory(memoryId);
+  }, [open, memoryId, daemonUrl]);
 
   if (!memory) return null;
 
+  const handleSave = async () => {
+    if (!draft.trim() || draft === memory.text) {
+      setEditing(false);
+      return;
+    }
+    setSaving(true);
+    setEditError(null);
+    try {
+      const result = await updateMemory(daemonUrl, memory._id, {
+        text: draft,
+        ...(reason.trim() && { reason: reason.trim() }),
+      });
+      onUpdated?.(memory._id, {
+        text: draft,
+        tags: memory.tags,
+        updatedAt: new Date().toISOString(),
+      });
+      setCurrentVersion(result.version);
+      setEditing(false);
+      await loadHistory(memory._id);
+    } catch (err) {
+      setEditError(String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevert = async (version: MemoryVersionItem) => {
+    setSaving(true);
+    setEditError(null);
+    try {
+      await revertMemory(daemonUrl, memory._id, version.version);
+      onUpdated?.(memory._id, {
+        text: version.text,
+        tags: version.tags,
+        updatedAt: new Date().toISOString(),
+      });
+      await loadHistory(memory._id);
+    } catch (err) {
+      setEditError(String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
   return (
     <Drawer open={open} onClose={onClose}>
       <div style={{ padding: 24 }}>
@@ -68,17 +154,77 @@ export function MemoryDetailDrawer({ open, memory, onClose, onDelete }: MemoryDe
         />
 
         {/* Content */}
-        <div style={sectionLabel}>Content</div>
-        <p
-          style={{
-            marginBottom: 24,
-            whiteSpace: "pre-wrap",
-            lineHeight: 1.7,
-            fontSize: "0.875rem",
-          }}
-        >
-          {memory.text}
-        </p>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+          <div style={sectionLabel}>Content · v{currentVersion}</div>
+          {!editing && (
+            <IconButton
+              aria-label="Edit memory"
+              onClick={() => {
+                setDraft(memory.text);
+                setReason("");
+                setEditing(true);
+              }}
+              darkMode={darkMode}
+            >
+              <Icon glyph="Edit" />
+            </IconButton>
+          )}
+        </div>
+        {editing ? (
+          <div style={{ marginBottom: 24 }}>
+            <TextArea
+              label="Memory text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={6}
+              darkMode={darkMode}
+            />
+            <div style={{ marginTop: 8 }}>
+              <TextInput
+                label="Reason (optional)"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Why is this changing?"
+                darkMode={darkMode}
+              />
+            </div>
+            <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+              <Button
+                variant="primary"
+                size="small"
+                onClick={handleSave}
+                disabled={saving}
+                darkMode={darkMode}
+              >
+                {saving ? "Saving..." : "Save"}
+              </Button>
+              <Button
+                size="small"
+                onClick={() => setEditing(false)}
+                disabled={saving}
+                darkMode={darkMode}
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p
+            style={{
+              marginBottom: 24,
+              whiteSpace: "pre-wrap",
+              lineHeight: 1.7,
+              fontSize: "0.875rem",
+            }}
+          >
+            {memory.text}
+          </p>
+        )}
+        {editError && (
+          <p style={{ color: "#cf4747", fontSize: "0.8rem", marginTop: -16, marginBottom: 24 }}>
+            {editError}
+          </p>
+        )}
 
         {/* Tags */}
         {memory.tags.length > 0 && (
@@ -164,6 +310,55 @@ export function MemoryDetailDrawer({ open, memory, onClose, onDelete }: MemoryDe
           </p>
         </div>
 
+        {/* Version history */}
+        {history.length > 0 && (
+          <div style={{ marginBottom: 24 }}>
+            <div style={sectionLabel}>History</div>
+            {history.map((version) => (
+              <div
+                key={version.version}
+                style={{
+                  padding: "8px 0",
+                  borderBottom: darkMode
+                    ? "1px solid rgba(255,255,255,0.06)"
+                    : "1px solid rgba(0,0,0,0.06)",
+                }}
+              >
+                <div
+                  style={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    alignItems: "center",
+                    fontSize: "0.75rem",
+                    opacity: 0.6,
+                  }}
+                >
+                  <span>
+                    v{version.version} · {version.change === "revert" ? "reverted" : "edited"} by{" "}
+                    {version.changedBy} · {new Date(version.supersededAt).toLocaleString()}
+                  </span>
+                  <Button
+                    size="xsmall"
+                    onClick={() => handleRevert(version)}
+                    disabled={saving}
+                    darkMode={darkMode}
+                  >
+                    Revert
+                  </Button>
+                </div>
+                {version.reason && (
+                  <div style={{ fontSize: "0.75rem", opacity: 0.6, fontStyle: "italic" }}>
+                    {version.reason}
+                  </div>
+                )}
+                <p style={{ fontSize: "0.8rem", margin: "4px 0 0", whiteSpace: "pre-wrap" }}>
+                  {version.text}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* ID */}
         <div style={{ marginBottom: 24 }}>
           <div style={sectionLabel}>ID</div>
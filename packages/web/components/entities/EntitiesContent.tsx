@@ -0,0 +1,412 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Select, Option } from "@leafygreen-ui/select";
+import TextInput from "@leafygreen-ui/text-input";
+import Button from "@leafygreen-ui/button";
+import Banner from "@leafygreen-ui/banner";
+import Badge from "@leafygreen-ui/badge";
+import { GitMerge, Plus, Scissors, Users, X } from "lucide-react";
+import { GlassCard } from "@/components/cards/GlassCard";
+import { useDaemonConfig } from "@/contexts/DaemonConfigContext";
+import { useThemeMode } from "@/contexts/ThemeContext";
+import {
+  fetchAgents,
+  fetchEntities,
+  fetchEntityProfile,
+  mergeEntities,
+  splitEntity,
+  updateEntityAliases,
+  type AgentInfo,
+  type EntityInfo,
+  type EntityProfileResponse,
+  type EntityType,
+} from "@/lib/api";
+import { STORAGE_KEYS } from "@/lib/constants";
+
+const ENTITY_TYPES: EntityType[] = ["person", "project", "system", "concept", "place"];
+
+const sectionLabelStyle = {
+  textTransform: "uppercase" as const,
+  letterSpacing: "0.06em",
+  fontWeight: 500,
+  fontSize: "0.68rem",
+  opacity: 0.6,
+};
+
+/**
+ * Entity curation: merge duplicates into one entity, edit aliases, and split
+ * mentions that belong to a different entity out of a conflated one.
+ */
+export function EntitiesContent() {
+  const { daemonUrl } = useDaemonConfig();
+  const { darkMode } = useThemeMode();
+
+  const [agents, setAgents] = useState<AgentInfo[]>([]);
+  const [agentId, setAgentId] = useState("");
+  const [entities, setEntities] = useState<EntityInfo[]>([]);
+  const [search, setSearch] = useState("");
+  const [selectedSlug, setSelectedSlug] = useState<string | null>(null);
+  const [profile, setProfile] = useState<EntityProfileResponse | null>(null);
+  const [mergeSources, setMergeSources] = useState<Set<string>>(new Set());
+  const [aliasDraft, setAliasDraft] = useState("");
+  const [splitIds, setSplitIds] = useState<Set<string>>(new Set());
+  const [splitName, setSplitName] = useState("");
+  const [splitType, setSplitType] = useState<EntityType>("person");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{
+    type: "success" | "error";
+    text: string;
+  } | null>(null);
+
+  const loadEntities = async (agent: string) => {
+    if (!agent) return;
+    try {
+      setEntities(await fetchEntities(daemonUrl, agent));
+    } catch (err) {
+      setMessage({ type: "error", text: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  const loadProfile = async (slug: string | null) => {
+    setSplitIds(new Set());
+    if (!slug || !agentId) {
+      setProfile(null);
+      return;
+    }
+    try {
+      setProfile(await fetchEntityProfile(daemonUrl, agentId, slug));
+    } catch (err) {
+      setProfile(null);
+      setMessage({ type: "error", text: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  useEffect(() => {
+    const stored = localStorage.getItem(STORAGE_KEYS.AGENT_ID);
+    if (stored) setAgentId(stored);
+
+    fetchAgents(daemonUrl)
+      .then((list) => {
+        setAgents(list);
+        if (!stored && list.length > 0) {
+          setAgentId(list[0].agentId);
+        }
+      })
+      .catch(() => {});
+  }, [daemonUrl]);
+
+  useEffect(() => {
+    setSelectedSlug(null);
+    setMergeSources(new Set());
+    loadEntities(agentId);
+  }, [daemonUrl, agentId]);
+
+  useEffect(() => {
+    loadProfile(selectedSlug);
+  }, [selectedSlug]);
+
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      setMessage({ type: "success", text: await action() });
+    } catch (err) {
+      setMessage({ type: "error", text: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggle = (set: Set<string>, id: string) => {
+    const next = new Set(set);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  };
+
+  const handleMerge = () =>
+    run(async () => {
+      if (!selectedSlug) return "";
+      const result = await mergeEntities(daemonUrl, agentId, selectedSlug, [...mergeSources]);
+      setMergeSources(new Set());
+      await loadEntities(agentId);
+      await loadProfile(selectedSlug);
+      return (
+        `Merged ${result.merged.length} into "${result.entity.displayName}" — ` +
+        `${result.memoriesUpdated} memories re-pointed`
+      );
+    });
+
+  const handleAliases = (change: { add?: string[]; remove?: string[] }) =>
+    run(async () => {
+      if (!selectedSlug) return "";
+      const entity = await updateEntityAliases(daemonUrl, agentId, selectedSlug, change);
+      setAliasDraft("");
+      await loadEntities(agentId);
+      await loadProfile(selectedSlug);
+      return `Aliases for "${entity.displayName}" updated`;
+    });
+
+  const handleSplit = () =>
+    run(async () => {
+      if (!selectedSlug) return "";
+      const result = await splitEntity(daemonUrl, agentId, selectedSlug, {
+        displayName: splitName.trim(),
+        type: splitType,
+        memoryIds: [...splitIds],
+      });
+      setSplitName("");
+      await loadEntities(agentId);
+      await loadProfile(selectedSlug);
+      return (
+        `Created "${result.created.displayName}" from ${result.memoriesUpdated} ` +
+        `${result.memoriesUpdated === 1 ? "memory" : "memories"}`
+      );
+    });
+
+  const needle = search.trim().toLowerCase();
+  const visible = needle
+    ? entities.filter(
+        (e) =>
+          e.displayName.toLowerCase().includes(needle) ||
+          e.aliases.some((alias) => alias.toLowerCase().includes(needle)),
+      )
+    : entities;
+
+  const mentionMemories = (profile?.timeline ?? []).filter((t) => t.kind === "memory");
+  const border = darkMode ? "1px solid rgba(255,255,255,0.06)" : "1px solid #E8EDEB";
+
+  const rowStyle = {
+    display: "flex",
+    alignItems: "center",
+    gap: 12,
+    padding: "8px 0",
+    borderBottom: border,
+    fontSize: "0.8rem",
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 16 }}>
+      <div style={{ display: "flex", alignItems: "flex-end", gap: 16, flexWrap: "wrap" }}>
+        {agents.length > 0 && (
+          <div style={{ minWidth: 180 }}>
+            <Select
+              label="Agent"
+              value={agentId}
+              onChange={(val: string) => setAgentId(val)}
+              size="small"
+              darkMode={darkMode}
+            >
+              {agents.map((a) => (
+                <Option key={a.agentId} value={a.agentId}>
+                  {a.agentId} ({a.count})
+                </Option>
+              ))}
+            </Select>
+          </div>
+        )}
+        <div style={{ flex: 1, minWidth: 180, maxWidth: 320 }}>
+          <TextInput
+            label="Filter"
+            placeholder="Name or alias"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            sizeVariant="small"
+            darkMode={darkMode}
+          />
+        </div>
+      </div>
+
+      {message && (
+        <Banner
+          variant={message.type === "success" ? "success" : "danger"}
+          darkMode={darkMode}
+          onClose={() => setMessage(null)}
+        >
+          {message.text}
+        </Banner>
+      )}
+
+      <div style={{ display: "flex", gap: 16, alignItems: "flex-start", flexWrap: "wrap" }}>
+        <GlassCard style={{ flex: "1 1 320px" }}>
+          <div style={{ padding: 24 }}>
+            <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 12 }}>
+              <Users size={16} style={{ opacity: 0.7 }} />
+              <span style={sectionLabelStyle}>Entities ({visible.length})</span>
+            </div>
+            <p style={{ fontSize: "0.8rem", opacity: 0.6, marginBottom: 12, lineHeight: 1.5 }}>
+              Open an entity to curate it. Tick duplicates to merge them into the open entity.
+            </p>
+
+            {visible.length === 0 ? (
+              <span style={{ fontSize: "0.8rem", opacity: 0.5 }}>No entities for this agent</span>
+            ) : (
+              visible.map((entity) => (
+                <div key={entity.slug} style={rowStyle}>
+                  <input
+                    type="checkbox"
+                    checked={mergeSources.has(entity.slug)}
+                    disabled={entity.slug === selectedSlug}
+                    onChange={() => setMergeSources((prev) => toggle(prev, entity.slug))}
+                    aria-label={`Merge ${entity.displayName}`}
+                  />
+                  <span
+                    style={{
+                      flex: 1,
+                      cursor: "pointer",
+                      fontWeight: entity.slug === selectedSlug ? 600 : 400,
+                    }}
+                    onClick={() => {
+                      setSelectedSlug(entity.slug);
+                      setMergeSources((prev) => {
+                        const next = new Set(prev);
+                        next.delete(entity.slug);
+                        return next;
+                      });
+                    }}
+                  >
+                    {entity.displayName}
+                    <span style={{ opacity: 0.5 }}> — {entity.memoryCount} mentions</span>
+                  </span>
+                  <Badge variant="lightgray">{entity.type}</Badge>
+                </div>
+              ))
+            )}
+          </div>
+        </GlassCard>
+
+        <GlassCard style={{ flex: "2 1 420px" }}>
+          <div style={{ padding: 24 }}>
+            {!profile ? (
+              <span style={{ fontSize: "0.8rem", opacity: 0.5 }}>Select an entity</span>
+            ) : (
+              <>
+                <div style={{ marginBottom: 16 }}>
+                  <div style={{ fontSize: "1.1rem", fontWeight: 600 }}>
+                    {profile.entity.displayName}{" "}
+                    <Badge variant="lightgray">{profile.entity.type}</Badge>
+                  </div>
+                  <div style={{ fontSize: "0.8rem", opacity: 0.6, marginTop: 4 }}>
+                    {profile.entity.slug} · {profile.counts.memories} memories ·{" "}
+                    {profile.counts.episodes} episodes
+                  </div>
+                </div>
+
+                <div style={{ marginBottom: 20 }}>
+                  <Button
+                    variant="primary"
+                    leftGlyph={<GitMerge size={16} />}
+                    onClick={handleMerge}
+                    disabled={busy || mergeSources.size === 0}
+                    darkMode={darkMode}
+                  >
+                    Merge {mergeSources.size || ""} into {profile.entity.displayName}
+                  </Button>
+                </div>
+
+                <div style={{ ...sectionLabelStyle, marginBottom: 8 }}>Aliases</div>
+                <div style={{ display: "flex", flexWrap: "wrap", gap: 6, marginBottom: 8 }}>
+                  {profile.entity.aliases.map((alias) => (
+                    <Badge key={alias} variant="blue">
+                      {alias}
+                      <X
+                        size={12}
+                        style={{ marginLeft: 4, cursor: busy ? "default" : "pointer" }}
+                        onClick={() => !busy && handleAliases({ remove: [alias] })}
+                        aria-label={`Remove alias ${alias}`}
+                      />
+                    </Badge>
+                  ))}
+                </div>
+                <div style={{ display: "flex", alignItems: "flex-end", gap: 8, marginBottom: 24 }}>
+                  <TextInput
+                    aria-label="New alias"
+                    placeholder="Add alias"
+                    value={aliasDraft}
+                    onChange={(e) => setAliasDraft(e.target.value)}
+                    sizeVariant="small"
+                    darkMode={darkMode}
+                  />
+                  <Button
+                    size="small"
+                    leftGlyph={<Plus size={14} />}
+                    onClick={() => handleAliases({ add: [aliasDraft.trim()] })}
+                    disabled={busy || !aliasDraft.trim()}
+                    darkMode={darkMode}
+                  >
+                    Add
+                  </Button>
+                </div>
+
+                <div style={{ ...sectionLabelStyle, marginBottom: 8 }}>Mentions</div>
+                <p style={{ fontSize: "0.8rem", opacity: 0.6, marginBottom: 8, lineHeight: 1.5 }}>
+                  Tick the memories that are about someone or something else and split them into a
+                  new entity.
+                </p>
+                {mentionMemories.length === 0 ? (
+                  <span style={{ fontSize: "0.8rem", opacity: 0.5 }}>No memories mention it</span>
+                ) : (
+                  mentionMemories.map((memory) => (
+                    <div key={memory.id} style={rowStyle}>
+                      <input
+                        type="checkbox"
+                        checked={splitIds.has(memory.id)}
+                        onChange={() => setSplitIds((prev) => toggle(prev, memory.id))}
+                        aria-label="Select memory"
+                      />
+                      <span style={{ flex: 1 }}>{memory.text}</span>
+                      {memory.memoryType && <Badge variant="lightgray">{memory.memoryType}</Badge>}
+                    </div>
+                  ))
+                )}
+
+                <div
+                  style={{
+                    display: "flex",
+                    alignItems: "flex-end",
+                    gap: 8,
+                    flexWrap: "wrap",
+                    marginTop: 16,
+                  }}
+                >
+                  <TextInput
+                    label="New entity"
+                    placeholder="Display name"
+                    value={splitName}
+                    onChange={(e) => setSplitName(e.target.value)}
+                    sizeVariant="small"
+                    darkMode={darkMode}
+                  />
+                  <div style={{ minWidth: 140 }}>
+                    <Select
+                      label="Type"
+                      value={splitType}
+                      onChange={(val: string) => setSplitType(val as EntityType)}
+                      size="small"
+                      darkMode={darkMode}
+                    >
+                      {ENTITY_TYPES.map((type) => (
+                        <Option key={type} value={type}>
+                          {type}
+                        </Option>
+                      ))}
+                    </Select>
+                  </div>
+                  <Button
+                    leftGlyph={<Scissors size={16} />}
+                    onClick={handleSplit}
+                    disabled={busy || splitIds.size === 0 || !splitName.trim()}
+                    darkMode={darkMode}
+                  >
+                    Split {splitIds.size || ""} out
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        </GlassCard>
+      </div>
+    </div>
+  );
+}
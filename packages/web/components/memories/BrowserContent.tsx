@@ -184,6 +184,14 @@ export function BrowserContent() {
     }
   };
 
+  const handleUpdated = (
+    id: string,
+    changes: { text: string; tags: string[]; updatedAt: string },
+  ) => {
+    setMemories((prev) => prev.map((m) => (m._id === id ? { ...m, ...changes } : m)));
+    setSelectedMemory((prev) => (prev && prev._id === id ? { ...prev, ...changes } : prev));
+  };
+
   const handleRowClick = (memory: MemoryItem) => {
     setSelectedMemory(memory);
     setDrawerOpen(true);
@@ -438,13 +446,14 @@ export function BrowserContent() {
           setSelectedMemory(null);
         }}
         onDelete={(id) => setDeleteTarget(id)}
+        onUpdated={handleUpdated}
       />
 
       {/* Delete Confirmation */}
       <DeleteConfirmDialog
         open={!!deleteTarget}
         title="Delete Memory"
-        description="Are you sure you want to permanently delete this memory? This action cannot be undone."
+        description="Are you sure you want to delete this memory? It moves to the trash and can be restored from Settings until the retention window ends."
         onConfirm={() => {
           if (deleteTarget) handleDelete(deleteTarget);
         }}
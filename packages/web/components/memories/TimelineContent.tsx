@@ -159,6 +159,14 @@ export function TimelineContent() {
     }
   };
 
+  const handleUpdated = (
+    id: string,
+    changes: { text: string; tags: string[]; updatedAt: string },
+  ) => {
+    setAllMemories((prev) => prev.map((m) => (m.id === id ? { ...m, ...changes } : m)));
+    setSelectedMemory((prev) => (prev && prev.id === id ? { ...prev, ...changes } : prev));
+  };
+
   // Normalize memory for MemoryDetailDrawer (expects _id, not id)
   const drawerMemory = selectedMemory
     ? {
@@ -288,13 +296,14 @@ export function TimelineContent() {
           setSelectedMemory(null);
         }}
         onDelete={handleDeleteRequest}
+        onUpdated={handleUpdated}
       />
 
       {/* Delete confirmation */}
       <DeleteConfirmDialog
         open={deleteTarget !== null}
         title="Delete Memory"
-        description="This memory will be permanently deleted. This action cannot be undone."
+        description="This memory will be moved to the trash. It can be restored from Settings until the retention window ends."
         onConfirm={handleDeleteConfirm}
         onCancel={() => setDeleteTarget(null)}
       />
@@ -0,0 +1,183 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Body } from "@leafygreen-ui/typography";
+import Card from "@leafygreen-ui/card";
+import Button from "@leafygreen-ui/button";
+import Badge from "@leafygreen-ui/badge";
+import { Select, Option } from "@leafygreen-ui/select";
+import TextInput from "@leafygreen-ui/text-input";
+import Icon from "@leafygreen-ui/icon";
+import { useDaemonConfig } from "@/contexts/DaemonConfigContext";
+import { fetchAuditEvents, type AuditEventItem } from "@/lib/api";
+
+const OPERATION_GROUPS: Record<string, string[]> = {
+  all: [],
+  deletes: ["memory.forget", "memory.purge", "memory.clear", "memory.restore"],
+  conflicts: ["conflict.resolve"],
+  graph: ["graph.edge.approve", "graph.edge.reject", "graph.edge.create"],
+  entities: ["entity.merge", "entity.aliases", "entity.split"],
+  settings: ["settings.update", "settings.delete"],
+  keys: ["key.create", "key.revoke"],
+  reembed: ["reembed.start", "reembed.cutover", "reembed.abort"],
+  backups: ["archive.import", "snapshot.create", "snapshot.restore", "snapshot.delete"],
+};
+
+const PAGE_SIZE = 50;
+
+export function AuditLogContent() {
+  const { daemonUrl } = useDaemonConfig();
+  const [events, setEvents] = useState<AuditEventItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<{ cursor: string; cursorId: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [agentId, setAgentId] = useState("");
+  const [group, setGroup] = useState("all");
+
+  const loadEvents = async (cursor?: { cursor: string; cursorId: string }) => {
+    setLoading(true);
+    setError("");
+
+    try {
+      const data = await fetchAuditEvents(daemonUrl, {
+        agentId: agentId.trim() || undefined,
+        operations: OPERATION_GROUPS[group],
+        limit: PAGE_SIZE,
+        ...cursor,
+      });
+      setEvents((prev) => (cursor ? [...prev, ...data.events] : data.events));
+      setNextCursor(data.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load audit log");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEvents();
+  }, [daemonUrl, group]);
+
+  const formatDate = (dateStr: string) => {
+    return new Date(dateStr).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+  };
+
+  const getOperationBadge = (operation: string) => {
+    const variant = operation.startsWith("memory.")
+      ? "red"
+      : operation.startsWith("key.") || operation.startsWith("reembed.")
+        ? "yellow"
+        : "blue";
+    return <Badge variant={variant}>{operation}</Badge>;
+  };
+
+  const describe = (event: AuditEventItem) => {
+    const parts: string[] = [];
+    if (event.count !== event.targetIds.length || event.targetIds.length === 0) {
+      parts.push(`${event.count} affected`);
+    }
+    if (event.targetIds.length > 0) {
+      parts.push(event.targetIds.map((id) => id.slice(-8)).join(", "));
+    }
+    for (const [key, value] of Object.entries(event.details)) {
+      parts.push(`${key}: ${Array.isArray(value) ? value.join(", ") : String(value)}`);
+    }
+    return parts.join(" • ");
+  };
+
+  return (
+    <div style={{ maxWidth: "1400px" }}>
+      {error && (
+        <Card style={{ padding: "12px", backgroundColor: "#FFE4E4", marginBottom: "16px" }}>
+          <Body style={{ color: "#CC0000", fontSize: "12px" }}>
+            <strong>Error:</strong> {error}
+          </Body>
+        </Card>
+      )}
+
+      <Card style={{ padding: "20px", marginBottom: "24px" }}>
+        <div style={{ display: "flex", alignItems: "flex-end", gap: "16px", flexWrap: "wrap" }}>
+          <div style={{ width: "200px" }}>
+            <TextInput
+              label="Agent"
+              placeholder="All agents"
+              value={agentId}
+              onChange={(e) => setAgentId(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && loadEvents()}
+            />
+          </div>
+          <div style={{ width: "200px" }}>
+            <Select label="Operations" value={group} onChange={setGroup}>
+              <Option value="all">All</Option>
+              <Option value="deletes">Deletes &amp; restores</Option>
+              <Option value="conflicts">Conflict resolutions</Option>
+              <Option value="graph">Graph edges</Option>
+              <Option value="entities">Entity curation</Option>
+              <Option value="settings">Settings</Option>
+              <Option value="keys">API keys</Option>
+              <Option value="reembed">Re-embed</Option>
+              <Option value="backups">Imports &amp; snapshots</Option>
+            </Select>
+          </div>
+          <Button onClick={() => loadEvents()} disabled={loading} size="small">
+            <Icon glyph="Refresh" /> Refresh
+          </Button>
+        </div>
+      </Card>
+
+      {!loading && events.length === 0 ? (
+        <Card style={{ padding: "40px", textAlign: "center" }}>
+          <Icon glyph="InfoWithCircle" size={48} style={{ opacity: 0.3, marginBottom: "16px" }} />
+          <Body>No audit events</Body>
+          <Body style={{ fontSize: "12px", marginTop: "8px", opacity: 0.7 }}>
+            Deletes, conflict resolutions, graph curation, settings, key and re-embed changes are
+            recorded here
+          </Body>
+        </Card>
+      ) : (
+        <Card style={{ padding: "0" }}>
+          <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "13px" }}>
+            <thead>
+              <tr style={{ textAlign: "left", borderBottom: "1px solid #E8EDEB" }}>
+                <th style={{ padding: "12px" }}>Time</th>
+                <th style={{ padding: "12px" }}>Operation</th>
+                <th style={{ padding: "12px" }}>Actor</th>
+                <th style={{ padding: "12px" }}>Agent</th>
+                <th style={{ padding: "12px" }}>Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((event) => (
+                <tr key={event.id} style={{ borderBottom: "1px solid #E8EDEB" }}>
+                  <td style={{ padding: "12px", whiteSpace: "nowrap" }}>
+                    {formatDate(event.timestamp)}
+                  </td>
+                  <td style={{ padding: "12px" }}>{getOperationBadge(event.operation)}</td>
+                  <td style={{ padding: "12px" }} title={event.request.userAgent}>
+                    {event.actorKeyName ?? <span style={{ opacity: 0.5 }}>anonymous</span>}
+                  </td>
+                  <td style={{ padding: "12px" }}>{event.agentId ?? "—"}</td>
+                  <td style={{ padding: "12px", opacity: 0.8 }}>{describe(event)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Card>
+      )}
+
+      {nextCursor && (
+        <div style={{ textAlign: "center", marginTop: "16px" }}>
+          <Button onClick={() => loadEvents(nextCursor)} disabled={loading} size="small">
+            {loading ? "Loading..." : "Load more"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import { Toast } from "@leafygreen-ui/toast";
 import TextArea from "@leafygreen-ui/text-area";
 import ConfirmationModal from "@leafygreen-ui/confirmation-modal";
 import Icon from "@leafygreen-ui/icon";
+import Toggle from "@leafygreen-ui/toggle";
 
 const DAEMON_URL = process.env.NEXT_PUBLIC_DAEMON_URL || "http://localhost:7654";
 
@@ -44,6 +45,7 @@ export function ConflictsContent() {
   const [resolutionType, setResolutionType] = useState<"superseded" | "context-dependent" | "temporal">("superseded");
   const [resolutionNote, setResolutionNote] = useState("");
   const [supersededMemoryId, setSupersededMemoryId] = useState("");
+  const [archiveSuperseded, setArchiveSuperseded] = useState(false);
   const [showResolveModal, setShowResolveModal] = useState(false);
 
   useEffect(() => {
@@ -75,6 +77,7 @@ export function ConflictsContent() {
     setResolutionType("superseded");
     setResolutionNote("");
     setSupersededMemoryId("");
+    setArchiveSuperseded(false);
     setShowResolveModal(true);
   };
 
@@ -91,6 +94,7 @@ export function ConflictsContent() {
             resolution: resolutionType,
             resolutionNote,
             supersededMemoryId: resolutionType === "superseded" ? supersededMemoryId : undefined,
+            archive: resolutionType === "superseded" ? archiveSuperseded : undefined,
           }),
         }
       );
@@ -98,7 +102,7 @@ export function ConflictsContent() {
       const data = await response.json();
 
       if (!data.success) {
-        throw new Error(data.error || "Failed to resolve conflict");
+        throw new Error(data.details?.[0]?.message || data.error || "Failed to resolve conflict");
       }
 
       setSuccess("Conflict resolved successfully");
@@ -266,6 +270,7 @@ export function ConflictsContent() {
           title="Resolve Conflict"
           buttonText="Resolve"
           variant="primary"
+          submitDisabled={resolutionType === "superseded" && !supersededMemoryId}
         >
           <div style={{ marginBottom: "20px" }}>
             <Body style={{ marginBottom: "16px" }}>
@@ -285,7 +290,7 @@ export function ConflictsContent() {
 
             {resolutionType === "superseded" && (
               <Select
-                label="Which memory is superseded (will have reduced confidence)?"
+                label="Which memory is superseded (hidden from recall, reduced confidence)?"
                 value={supersededMemoryId}
                 onChange={(value) => setSupersededMemoryId(value)}
                 style={{ marginBottom: "16px" }}
@@ -300,6 +305,18 @@ export function ConflictsContent() {
               </Select>
             )}
 
+            {resolutionType === "superseded" && (
+              <div style={{ display: "flex", alignItems: "center", gap: "8px", marginBottom: "16px" }}>
+                <Toggle
+                  aria-label="Move the superseded memory to the archival layer"
+                  checked={archiveSuperseded}
+                  onChange={(checked) => setArchiveSuperseded(checked)}
+                  size="small"
+                />
+                <Body style={{ fontSize: "12px" }}>Move the superseded memory to the archival layer</Body>
+              </div>
+            )}
+
             <TextArea
               label="Resolution Note (optional)"
               placeholder="Explain why this resolution was chosen..."
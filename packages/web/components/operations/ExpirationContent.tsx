@@ -344,10 +344,11 @@ export function ExpirationContent() {
         variant="danger"
       >
         <Body>
-          Permanently delete {selectedIds.size} {selectedIds.size === 1 ? "memory" : "memories"}?
+          Delete {selectedIds.size} {selectedIds.size === 1 ? "memory" : "memories"}?
         </Body>
         <Body style={{ marginTop: "8px", fontSize: "12px", opacity: 0.7 }}>
-          This action cannot be undone.
+          Deleted memories stay in the trash until the retention window ends and can be
+          restored from Settings.
         </Body>
       </ConfirmationModal>
     </div>
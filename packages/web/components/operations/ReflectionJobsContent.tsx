@@ -21,6 +21,7 @@ interface StageResult {
   itemsCreated?: number;
   itemsUpdated?: number;
   error?: string;
+  optional?: boolean;
 }
 
 interface Job {
@@ -91,6 +92,25 @@ export function ReflectionJobsContent() {
     }
   };
 
+  const retryJob = async (jobId: string) => {
+    setError("");
+
+    try {
+      const response = await fetch(`${DAEMON_URL}/reflect/jobs/${jobId}/retry`, {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to retry job");
+      }
+
+      await loadJobs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to retry job");
+    }
+  };
+
   const formatDate = (dateStr: string) => {
     return new Date(dateStr).toLocaleString("en-US", {
       month: "short",
@@ -184,6 +204,15 @@ export function ReflectionJobsContent() {
                   <Body style={{ color: "#CC0000", fontSize: "12px" }}>
                     <strong>Error:</strong> {job.error}
                   </Body>
+                  {job.status === "failed" && (
+                    <Button
+                      onClick={() => retryJob(job.id)}
+                      size="xsmall"
+                      style={{ marginTop: "8px" }}
+                    >
+                      <Icon glyph="Refresh" /> Retry from failed stage
+                    </Button>
+                  )}
                 </Card>
               )}
 
@@ -204,9 +233,22 @@ export function ReflectionJobsContent() {
                         }}
                       >
                         <div style={{ display: "flex", alignItems: "center", gap: "8px", marginBottom: "8px" }}>
-                          <Badge variant={stage.status === "complete" ? "green" : "lightgray"}>
+                          <Badge
+                            variant={
+                              stage.status === "complete"
+                                ? "green"
+                                : stage.status === "failed"
+                                  ? "red"
+                                  : "lightgray"
+                            }
+                          >
                             {stage.stage}
                           </Badge>
+                          {stage.optional && (
+                            <span style={{ fontSize: "11px", opacity: 0.6 }}>
+                              optional — skipped
+                            </span>
+                          )}
                           {stage.status === "complete" && stage.duration && (
                             <span style={{ fontSize: "11px", opacity: 0.6 }}>
                               {stage.duration}ms
@@ -75,7 +75,7 @@ export function ReflectionPipelineControls({ agentId = "openclaw" }: { agentId?:
       const data = await response.json();
 
       if (data.success) {
-        setSuccess(`Reflection pipeline started (Job ID: ${data.jobId.slice(0, 8)}...)`);
+        setSuccess(`Reflection job queued (Job ID: ${data.jobId.slice(0, 8)}...)`);
         setShowTriggerModal(false);
         setSessionId("");
         setSessionTranscript("");
@@ -0,0 +1,283 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { H3, Body } from "@leafygreen-ui/typography";
+import Card from "@leafygreen-ui/card";
+import Button from "@leafygreen-ui/button";
+import Badge from "@leafygreen-ui/badge";
+import Icon from "@leafygreen-ui/icon";
+import TextInput from "@leafygreen-ui/text-input";
+import Toggle from "@leafygreen-ui/toggle";
+import { Toast } from "@leafygreen-ui/toast";
+import { useThemeMode } from "@/contexts/ThemeContext";
+
+const DAEMON_URL = process.env.NEXT_PUBLIC_DAEMON_URL || "http://localhost:7654";
+
+type JobType = "decay" | "reflection" | "clustering" | "jobCleanup";
+
+interface ScheduleStatus {
+  jobType: JobType;
+  enabled: boolean;
+  cron: string;
+  options: Record<string, number>;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastStatus: "success" | "failed" | null;
+  lastError: string | null;
+  lastDurationMs: number | null;
+  lastResult: Record<string, unknown> | null;
+}
+
+const JOB_INFO: Record<JobType, { label: string; description: string }> = {
+  decay: {
+    label: "Decay",
+    description: "Temporal decay of memory strength",
+  },
+  reflection: {
+    label: "Reflection",
+    description: "Graph-link and entity update over memories reflection hasn't seen",
+  },
+  clustering: {
+    label: "Clustering",
+    description: "Recompute topic clusters",
+  },
+  jobCleanup: {
+    label: "Job Cleanup",
+    description: "Delete finished reflection jobs past retention",
+  },
+};
+
+export function SchedulerControls({ agentId = "openclaw" }: { agentId?: string }) {
+  const { darkMode } = useThemeMode();
+  const [schedules, setSchedules] = useState<ScheduleStatus[]>([]);
+  const [cronDrafts, setCronDrafts] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+  const [success, setSuccess] = useState("");
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    loadSchedules();
+  }, [agentId]);
+
+  const loadSchedules = async () => {
+    try {
+      const response = await fetch(`${DAEMON_URL}/schedules/${agentId}`);
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to load schedules");
+      }
+
+      setSchedules(data.schedules);
+      setCronDrafts(
+        Object.fromEntries(data.schedules.map((s: ScheduleStatus) => [s.jobType, s.cron])),
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load schedules");
+    }
+  };
+
+  // Schedules live in the agent's settings document
+  const saveSchedule = async (jobType: JobType, change: { enabled?: boolean; cron?: string }) => {
+    setBusy(jobType);
+    setError("");
+
+    try {
+      const response = await fetch(`${DAEMON_URL}/settings/${agentId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ schedules: { [jobType]: change } }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.details?.[0]?.message || data.error || "Failed to save schedule");
+      }
+
+      setSuccess(`${JOB_INFO[jobType].label} schedule saved`);
+      await loadSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save schedule");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const runNow = async (jobType: JobType) => {
+    setBusy(jobType);
+    setError("");
+    setSuccess("");
+
+    try {
+      const response = await fetch(`${DAEMON_URL}/schedules/${agentId}/${jobType}/run`, {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || `${JOB_INFO[jobType].label} failed`);
+      }
+
+      setSuccess(`${JOB_INFO[jobType].label} complete in ${data.lastDurationMs}ms`);
+      await loadSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to run job");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const formatDate = (isoStr: string | null) => {
+    if (!isoStr) return "Never";
+    return new Date(isoStr).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  const formatResult = (result: Record<string, unknown> | null) =>
+    result
+      ? Object.entries(result)
+          .filter(([key]) => key !== "reflectionJobId")
+          .map(([key, value]) => `${key}: ${value}`)
+          .join(", ")
+      : "";
+
+  const border = darkMode ? "1px solid rgba(255, 255, 255, 0.1)" : "1px solid #E8EDEB";
+
+  return (
+    <Card style={{ padding: "20px" }}>
+      {success && (
+        <Toast
+          variant="success"
+          open={true}
+          title="Success"
+          onClose={() => setSuccess("")}
+          style={{ marginBottom: "16px" }}
+        >
+          {success}
+        </Toast>
+      )}
+
+      {error && (
+        <Toast
+          variant="warning"
+          open={true}
+          title="Error"
+          onClose={() => setError("")}
+          style={{ marginBottom: "16px" }}
+        >
+          {error}
+        </Toast>
+      )}
+
+      <div style={{ marginBottom: "20px" }}>
+        <H3>Scheduler</H3>
+        <Body style={{ fontSize: "12px", opacity: 0.7, marginTop: "4px" }}>
+          Background jobs for {agentId}. Cron expressions (minute hour day month weekday) run in the
+          daemon&apos;s local time.
+        </Body>
+      </div>
+
+      <div style={{ display: "flex", flexDirection: "column", gap: "12px" }}>
+        {schedules.map((schedule) => {
+          const info = JOB_INFO[schedule.jobType];
+          const draft = cronDrafts[schedule.jobType] ?? schedule.cron;
+
+          return (
+            <div
+              key={schedule.jobType}
+              style={{
+                border,
+                borderRadius: "8px",
+                padding: "16px",
+                backgroundColor: darkMode ? "rgba(255, 255, 255, 0.03)" : "transparent",
+              }}
+            >
+              <div
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "space-between",
+                  marginBottom: "12px",
+                }}
+              >
+                <div>
+                  <Body style={{ fontWeight: 600 }}>{info.label}</Body>
+                  <Body style={{ fontSize: "11px", opacity: 0.6 }}>{info.description}</Body>
+                </div>
+                <Toggle
+                  aria-label={`Enable scheduled ${info.label}`}
+                  darkMode={darkMode}
+                  checked={schedule.enabled}
+                  disabled={busy === schedule.jobType}
+                  onChange={(checked) => saveSchedule(schedule.jobType, { enabled: checked })}
+                  size="small"
+                />
+              </div>
+
+              <div style={{ display: "flex", alignItems: "flex-end", gap: "8px" }}>
+                <TextInput
+                  label="Cron"
+                  value={draft}
+                  onChange={(e) =>
+                    setCronDrafts((prev) => ({ ...prev, [schedule.jobType]: e.target.value }))
+                  }
+                  darkMode={darkMode}
+                  sizeVariant="small"
+                />
+                <Button
+                  size="small"
+                  disabled={draft === schedule.cron || busy === schedule.jobType}
+                  onClick={() => saveSchedule(schedule.jobType, { cron: draft })}
+                >
+                  Save
+                </Button>
+                <Button
+                  size="small"
+                  disabled={busy === schedule.jobType}
+                  leftGlyph={<Icon glyph="Play" />}
+                  onClick={() => runNow(schedule.jobType)}
+                >
+                  {busy === schedule.jobType ? "Running..." : "Run Now"}
+                </Button>
+              </div>
+
+              <div
+                style={{
+                  display: "flex",
+                  gap: "16px",
+                  flexWrap: "wrap",
+                  marginTop: "12px",
+                  fontSize: "11px",
+                  opacity: 0.7,
+                }}
+              >
+                <span>
+                  Next run: {schedule.enabled ? formatDate(schedule.nextRunAt) : "Disabled"}
+                </span>
+                <span>Last run: {formatDate(schedule.lastRunAt)}</span>
+                {schedule.lastStatus && (
+                  <Badge variant={schedule.lastStatus === "success" ? "green" : "red"}>
+                    {schedule.lastStatus}
+                  </Badge>
+                )}
+                {schedule.lastStatus === "success" && (
+                  <span>{formatResult(schedule.lastResult)}</span>
+                )}
+              </div>
+
+              {schedule.lastError && (
+                <Body style={{ color: "#CC0000", fontSize: "11px", marginTop: "4px" }}>
+                  {schedule.lastError}
+                </Body>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
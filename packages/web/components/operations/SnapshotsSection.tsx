@@ -0,0 +1,338 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Select, Option } from "@leafygreen-ui/select";
+import TextInput from "@leafygreen-ui/text-input";
+import Button from "@leafygreen-ui/button";
+import Banner from "@leafygreen-ui/banner";
+import { Camera, GitCompare, RotateCcw, Trash2 } from "lucide-react";
+import { GlassCard } from "@/components/cards/GlassCard";
+import { useDaemonConfig } from "@/contexts/DaemonConfigContext";
+import { useThemeMode } from "@/contexts/ThemeContext";
+import {
+  createSnapshot,
+  deleteSnapshot,
+  fetchAgents,
+  fetchSnapshotDiff,
+  fetchSnapshots,
+  restoreSnapshot,
+  type AgentInfo,
+  type SnapshotDiffResponse,
+  type SnapshotInfo,
+} from "@/lib/api";
+import { STORAGE_KEYS } from "@/lib/constants";
+
+function formatCounts(counts: Record<string, number>): string {
+  return (
+    Object.entries(counts)
+      .filter(([, count]) => count > 0)
+      .map(([type, count]) => `${count} ${type}`)
+      .join(", ") || "empty"
+  );
+}
+
+export function SnapshotsSection() {
+  const { daemonUrl } = useDaemonConfig();
+  const { darkMode } = useThemeMode();
+
+  const [agents, setAgents] = useState<AgentInfo[]>([]);
+  const [agentId, setAgentId] = useState("");
+  const [name, setName] = useState("");
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+  const [diff, setDiff] = useState<SnapshotDiffResponse | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [confirmRestoreId, setConfirmRestoreId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{
+    type: "success" | "error";
+    text: string;
+  } | null>(null);
+
+  const loadSnapshots = async (agent: string) => {
+    if (!agent) return;
+    try {
+      setSnapshots(await fetchSnapshots(daemonUrl, agent));
+    } catch (err) {
+      setMessage({ type: "error", text: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  useEffect(() => {
+    const stored = localStorage.getItem(STORAGE_KEYS.AGENT_ID);
+    if (stored) setAgentId(stored);
+
+    fetchAgents(daemonUrl)
+      .then((list) => {
+        setAgents(list);
+        if (!stored && list.length > 0) {
+          setAgentId(list[0].agentId);
+        }
+      })
+      .catch(() => {});
+  }, [daemonUrl]);
+
+  useEffect(() => {
+    setDiff(null);
+    loadSnapshots(agentId);
+  }, [daemonUrl, agentId]);
+
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      setMessage({ type: "success", text: await action() });
+    } catch (err) {
+      setMessage({ type: "error", text: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () =>
+    run(async () => {
+      const snapshot = await createSnapshot(daemonUrl, agentId, name.trim());
+      setName("");
+      await loadSnapshots(agentId);
+      return `Snapshot "${snapshot.name}" created (${formatCounts(snapshot.counts)})`;
+    });
+
+  const handleDiff = (id: string) =>
+    run(async () => {
+      const result = await fetchSnapshotDiff(daemonUrl, id);
+      setDiff(result);
+      return `Compared with "${result.snapshot.name}"`;
+    });
+
+  const handleRestore = (id: string) =>
+    run(async () => {
+      setConfirmRestoreId(null);
+      const result = await restoreSnapshot(daemonUrl, id);
+      setDiff(null);
+      await loadSnapshots(agentId);
+      return (
+        `Restored "${result.snapshot.name}" — ${formatCounts(result.restored)}. ` +
+        `The previous state was saved as a snapshot.`
+      );
+    });
+
+  const handleDelete = (id: string) =>
+    run(async () => {
+      await deleteSnapshot(daemonUrl, id);
+      if (diff?.snapshot.id === id) setDiff(null);
+      await loadSnapshots(agentId);
+      return "Snapshot deleted";
+    });
+
+  const formatDate = (iso: string) =>
+    new Date(iso).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+
+  const rowStyle = {
+    display: "flex",
+    alignItems: "center",
+    gap: 12,
+    padding: "8px 0",
+    borderBottom: darkMode ? "1px solid rgba(255,255,255,0.06)" : "1px solid #E8EDEB",
+    fontSize: "0.8rem",
+  };
+
+  return (
+    <GlassCard>
+      <div style={{ padding: 24 }}>
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 8,
+            marginBottom: 20,
+          }}
+        >
+          <Camera size={16} style={{ opacity: 0.7 }} />
+          <span
+            style={{
+              textTransform: "uppercase",
+              letterSpacing: "0.06em",
+              fontWeight: 500,
+              fontSize: "0.68rem",
+              opacity: 0.6,
+            }}
+          >
+            Snapshots
+          </span>
+        </div>
+
+        <p
+          style={{
+            fontSize: "0.85rem",
+            opacity: 0.6,
+            marginBottom: 20,
+            lineHeight: 1.5,
+          }}
+        >
+          Capture an agent&apos;s memories, episodes, entities and clusters before trying new
+          reflection settings or a bulk import. Restoring saves the current state as a snapshot
+          first, so it can be undone.
+        </p>
+
+        <div
+          style={{
+            display: "flex",
+            alignItems: "flex-end",
+            gap: 16,
+            flexWrap: "wrap",
+            marginBottom: 16,
+          }}
+        >
+          {agents.length > 0 && (
+            <div style={{ minWidth: 180 }}>
+              <Select
+                label="Agent"
+                value={agentId}
+                onChange={(val: string) => setAgentId(val)}
+                size="small"
+                darkMode={darkMode}
+              >
+                {agents.map((a) => (
+                  <Option key={a.agentId} value={a.agentId}>
+                    {a.agentId} ({a.count})
+                  </Option>
+                ))}
+              </Select>
+            </div>
+          )}
+          <div style={{ flex: 1, minWidth: 180 }}>
+            <TextInput
+              label="Name"
+              placeholder="e.g. before reflection v2"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              darkMode={darkMode}
+            />
+          </div>
+          <Button
+            variant="primary"
+            leftGlyph={<Camera size={16} />}
+            onClick={handleCreate}
+            disabled={busy || !agentId}
+            darkMode={darkMode}
+          >
+            Take Snapshot
+          </Button>
+        </div>
+
+        {message && (
+          <div style={{ marginBottom: 16 }}>
+            <Banner
+              variant={message.type === "success" ? "success" : "danger"}
+              darkMode={darkMode}
+              onClose={() => setMessage(null)}
+            >
+              {message.text}
+            </Banner>
+          </div>
+        )}
+
+        {snapshots.length === 0 ? (
+          <span style={{ fontSize: "0.8rem", opacity: 0.5 }}>No snapshots for this agent</span>
+        ) : (
+          snapshots.map((snapshot) => (
+            <div key={snapshot.id} style={rowStyle}>
+              <span style={{ flex: 1 }}>
+                <strong>{snapshot.name}</strong>
+                <span style={{ opacity: 0.5 }}>
+                  {" "}
+                  — {formatDate(snapshot.createdAt)}, {formatCounts(snapshot.counts)}
+                </span>
+              </span>
+              <Button
+                size="small"
+                leftGlyph={<GitCompare size={14} />}
+                onClick={() => handleDiff(snapshot.id)}
+                disabled={busy}
+                darkMode={darkMode}
+              >
+                Diff
+              </Button>
+              {confirmRestoreId === snapshot.id ? (
+                <Button
+                  size="small"
+                  variant="danger"
+                  onClick={() => handleRestore(snapshot.id)}
+                  disabled={busy}
+                  darkMode={darkMode}
+                >
+                  Confirm restore
+                </Button>
+              ) : (
+                <Button
+                  size="small"
+                  leftGlyph={<RotateCcw size={14} />}
+                  onClick={() => setConfirmRestoreId(snapshot.id)}
+                  disabled={busy}
+                  darkMode={darkMode}
+                >
+                  Restore
+                </Button>
+              )}
+              <Button
+                size="small"
+                leftGlyph={<Trash2 size={14} />}
+                onClick={() => handleDelete(snapshot.id)}
+                disabled={busy}
+                darkMode={darkMode}
+              >
+                Delete
+              </Button>
+            </div>
+          ))
+        )}
+
+        {diff && (
+          <div style={{ marginTop: 20, fontSize: "0.8rem" }}>
+            <div style={{ fontWeight: 600, marginBottom: 8 }}>
+              Live state vs. &ldquo;{diff.snapshot.name}&rdquo;
+            </div>
+            {Object.entries(diff.types).map(([type, counts]) => (
+              <div key={type} style={{ display: "flex", gap: 12, padding: "2px 0" }}>
+                <span style={{ width: 100, opacity: 0.6 }}>{type}</span>
+                <span style={{ width: 90 }}>
+                  {counts.snapshot} → {counts.live}
+                </span>
+                <span style={{ color: "#00A35C" }}>+{counts.added}</span>
+                <span style={{ color: "#DB3030" }}>-{counts.removed}</span>
+                <span style={{ color: "#B45A00" }}>~{counts.changed}</span>
+              </div>
+            ))}
+            {(["added", "removed", "changed"] as const).map(
+              (status) =>
+                diff.memories[status].length > 0 && (
+                  <div key={status} style={{ marginTop: 12 }}>
+                    <div style={{ opacity: 0.6, marginBottom: 4 }}>
+                      Memories {status} since the snapshot
+                    </div>
+                    {diff.memories[status].map((memory) => (
+                      <div
+                        key={memory.id}
+                        style={{
+                          overflow: "hidden",
+                          textOverflow: "ellipsis",
+                          whiteSpace: "nowrap",
+                        }}
+                        title={memory.text}
+                      >
+                        {memory.text}
+                      </div>
+                    ))}
+                  </div>
+                ),
+            )}
+          </div>
+        )}
+      </div>
+    </GlassCard>
+  );
+}
@@ -10,7 +10,7 @@ import { GlassCard } from "@/components/cards/GlassCard";
 import { DeleteConfirmDialog } from "@/components/browser/DeleteConfirmDialog";
 import { useDaemonConfig } from "@/contexts/DaemonConfigContext";
 import { useThemeMode } from "@/contexts/ThemeContext";
-import { clearMemories, purgeMemories } from "@/lib/api";
+import { clearMemories, purgeMemories, restoreTrashOperation } from "@/lib/api";
 import { STORAGE_KEYS } from "@/lib/constants";
 
 export function DangerZone() {
@@ -29,13 +29,26 @@ export function DangerZone() {
   } | null>(null);
   const [clearDialog, setClearDialog] = useState(false);
   const [purgeDialog, setPurgeDialog] = useState(false);
+  const [lastOperation, setLastOperation] = useState<{
+    operationId: string;
+    agentId: string;
+  } | null>(null);
+
+  const rememberOperation = (result: { deleted: number; operationId?: string | null }) => {
+    setLastOperation(
+      result.operationId && result.deleted > 0
+        ? { operationId: result.operationId, agentId }
+        : null,
+    );
+  };
 
   const handleClear = async () => {
     try {
-      await clearMemories(daemonUrl, agentId);
+      const result = await clearMemories(daemonUrl, agentId);
+      rememberOperation(result);
       setMessage({
         type: "success",
-        text: `All memories cleared for agent "${agentId}"`,
+        text: `${result.deleted} memories moved to trash for agent "${agentId}"`,
       });
       setClearDialog(false);
     } catch (err) {
@@ -46,10 +59,11 @@ export function DangerZone() {
 
   const handlePurge = async () => {
     try {
-      await purgeMemories(daemonUrl, agentId);
+      const result = await purgeMemories(daemonUrl, agentId);
+      rememberOperation(result);
       setMessage({
         type: "success",
-        text: `Memories purged for agent "${agentId}"`,
+        text: `${result.deleted} memories purged to trash for agent "${agentId}"`,
       });
       setPurgeDialog(false);
     } catch (err) {
@@ -58,6 +72,24 @@ export function DangerZone() {
     }
   };
 
+  const handleUndo = async () => {
+    if (!lastOperation) return;
+    try {
+      const result = await restoreTrashOperation(
+        daemonUrl,
+        lastOperation.operationId,
+        lastOperation.agentId,
+      );
+      setMessage({
+        type: "success",
+        text: `${result.restored} memories restored for agent "${lastOperation.agentId}"`,
+      });
+      setLastOperation(null);
+    } catch (err) {
+      setMessage({ type: "error", text: String(err) });
+    }
+  };
+
   return (
     <GlassCard
       glowColor="#DB3030"
@@ -108,6 +140,13 @@ export function DangerZone() {
             >
               {message.text}
             </Banner>
+            {lastOperation && (
+              <div style={{ marginTop: 8 }}>
+                <Button size="small" onClick={handleUndo} darkMode={darkMode}>
+                  Undo
+                </Button>
+              </div>
+            )}
           </div>
         )}
 
@@ -140,15 +179,15 @@ export function DangerZone() {
             opacity: 0.4,
           }}
         >
-          These actions are irreversible. All matching memories will be
-          permanently deleted.
+          Matching memories are moved to the trash and can be restored until
+          the retention window ends (TRASH_RETENTION_DAYS, default 30).
         </span>
       </div>
 
       <DeleteConfirmDialog
         open={clearDialog}
         title="Clear All Memories"
-        description={`This will permanently delete ALL memories for agent "${agentId}". This action cannot be undone.`}
+        description={`This will move ALL memories for agent "${agentId}" to the trash. They are deleted for good once the retention window ends.`}
         requireConfirmText
         onConfirm={handleClear}
         onCancel={() => setClearDialog(false)}
@@ -157,7 +196,7 @@ export function DangerZone() {
       <DeleteConfirmDialog
         open={purgeDialog}
         title="Purge Memories"
-        description={`This will purge memories for agent "${agentId}". This action cannot be undone.`}
+        description={`This will move old memories for agent "${agentId}" to the trash. They are deleted for good once the retention window ends.`}
         requireConfirmText
         onConfirm={handlePurge}
         onCancel={() => setPurgeDialog(false)}
@@ -5,35 +5,43 @@ import TextInput from "@leafygreen-ui/text-input";
 import Button from "@leafygreen-ui/button";
 import Toggle from "@leafygreen-ui/toggle";
 import Banner from "@leafygreen-ui/banner";
+import { Select, Option } from "@leafygreen-ui/select";
 import { GlassCard } from "@/components/cards/GlassCard";
 import { useDaemonConfig } from "@/contexts/DaemonConfigContext";
 import { useThemeMode } from "@/contexts/ThemeContext";
 import styles from "./SemanticConfig.module.css";
 
 type SemanticLevel = "off" | "basic" | "enhanced" | "full";
+type LlmProviderType = "ollama" | "openai";
+type ContradictionClassifier = "heuristic" | "llm";
 
 interface StageConfig {
   useLlm: boolean;
 }
 
 interface LlmProvider {
+  provider?: LlmProviderType;
   endpoint?: string;
   model?: string;
   apiKey?: string;
   temperature?: number;
   maxTokens?: number;
   timeoutMs?: number;
+  jsonMode?: boolean;
 }
 
 interface ResolvedSettings {
   stages: Record<string, { useLlm: boolean }>;
+  contradictionClassifier: ContradictionClassifier;
   llmProvider: {
+    provider: LlmProviderType;
     endpoint: string;
     model: string;
     apiKey?: string;
     temperature: number;
     maxTokens: number;
     timeoutMs: number;
+    jsonMode: boolean;
   };
 }
 
@@ -42,6 +50,7 @@ interface SettingsResponse {
   settings: {
     agentId: string;
     semanticLevel: SemanticLevel;
+    contradictionClassifier?: ContradictionClassifier;
     stages: Record<string, StageConfig>;
     llmProvider: LlmProvider;
   } | null;
@@ -98,6 +107,11 @@ export function SemanticConfig() {
 
   const [semanticLevel, setSemanticLevel] = useState<SemanticLevel>("off");
   const [stageOverrides, setStageOverrides] = useState<Record<string, boolean>>({});
+  const [contradictionClassifier, setContradictionClassifier] = useState<
+    ContradictionClassifier | ""
+  >("");
+  const [llmProviderType, setLlmProviderType] = useState<LlmProviderType | "">("");
+  const [llmJsonMode, setLlmJsonMode] = useState(false);
   const [llmEndpoint, setLlmEndpoint] = useState("");
   const [llmModel, setLlmModel] = useState("");
   const [llmApiKey, setLlmApiKey] = useState("");
@@ -122,6 +136,9 @@ export function SemanticConfig() {
             }
           }
           setStageOverrides(overrides);
+          setContradictionClassifier(data.settings.contradictionClassifier || "");
+          setLlmProviderType(data.settings.llmProvider?.provider || "");
+          setLlmJsonMode(data.settings.llmProvider?.jsonMode ?? false);
           setLlmEndpoint(data.settings.llmProvider?.endpoint || "");
           setLlmModel(data.settings.llmProvider?.model || "");
           setLlmApiKey(data.settings.llmProvider?.apiKey || "");
@@ -146,15 +163,15 @@ export function SemanticConfig() {
 
     try {
       const body: Record<string, unknown> = { semanticLevel };
+      if (contradictionClassifier) body.contradictionClassifier = contradictionClassifier;
 
       // Only include non-empty provider fields
-      const llmProvider: LlmProvider = {};
+      const llmProvider: LlmProvider = { jsonMode: llmJsonMode };
+      if (llmProviderType) llmProvider.provider = llmProviderType;
       if (llmEndpoint) llmProvider.endpoint = llmEndpoint;
       if (llmModel) llmProvider.model = llmModel;
       if (llmApiKey) llmProvider.apiKey = llmApiKey;
-      if (Object.keys(llmProvider).length > 0) {
-        body.llmProvider = llmProvider;
-      }
+      body.llmProvider = llmProvider;
 
       // Include stage overrides
       const stages: Record<string, StageConfig> = {};
@@ -199,7 +216,7 @@ export function SemanticConfig() {
 
       if (data.success) {
         setTestStatus("success");
-        setTestMessage(`Connected to ${data.model} (${data.responseTime}ms)`);
+        setTestMessage(`Connected to ${data.provider} ${data.model} (${data.responseTime}ms)`);
       } else {
         setTestStatus("error");
         setTestMessage(data.error || "Connection failed");
@@ -283,6 +300,31 @@ export function SemanticConfig() {
               </div>
             );
           })}
+          <div className={styles.stageRow}>
+            <div className={styles.stageInfo}>
+              <span className={styles.stageLabel}>Contradiction Check</span>
+              <span className={styles.stageDescription}>
+                LLM judges whether a new memory contradicts or updates similar ones (verdicts are
+                cached per pair; falls back to heuristics)
+              </span>
+            </div>
+            <div className={styles.stageToggle}>
+              <Toggle
+                aria-label="Enable LLM for Contradiction Check"
+                darkMode={darkMode}
+                checked={(contradictionClassifier || resolved?.contradictionClassifier) === "llm"}
+                onChange={(checked) => setContradictionClassifier(checked ? "llm" : "heuristic")}
+                size="small"
+              />
+              {resolved && (
+                <span
+                  className={`${styles.resolvedBadge} ${resolved.contradictionClassifier === "llm" ? styles.badgeOn : styles.badgeOff}`}
+                >
+                  {resolved.contradictionClassifier === "llm" ? "LLM" : "Heuristic"}
+                </span>
+              )}
+            </div>
+          </div>
         </div>
       </GlassCard>
 
@@ -294,9 +336,24 @@ export function SemanticConfig() {
           defaults.
         </p>
         <div className={styles.providerForm}>
+          <Select
+            label="API Format"
+            description="Ollama /api/generate, or any OpenAI-compatible /v1/chat/completions (OpenAI, vLLM, LiteLLM)"
+            placeholder="Environment default"
+            value={llmProviderType}
+            onChange={(value) => setLlmProviderType(value as LlmProviderType | "")}
+            darkMode={darkMode}
+          >
+            <Option value="ollama">Ollama</Option>
+            <Option value="openai">OpenAI-compatible</Option>
+          </Select>
           <TextInput
             label="Endpoint URL"
-            placeholder="http://localhost:11434/api/generate"
+            placeholder={
+              llmProviderType === "openai"
+                ? "https://api.openai.com/v1/chat/completions"
+                : "http://localhost:11434/api/generate"
+            }
             value={llmEndpoint}
             onChange={(e) => setLlmEndpoint(e.target.value)}
             darkMode={darkMode}
@@ -316,6 +373,23 @@ export function SemanticConfig() {
             type="password"
             darkMode={darkMode}
           />
+          <div className={styles.stageRow}>
+            <div className={styles.stageInfo}>
+              <span className={styles.stageLabel}>JSON mode</span>
+              <span className={styles.stageDescription}>
+                Ask the model for strict JSON output (response_format / format: json)
+              </span>
+            </div>
+            <div className={styles.stageToggle}>
+              <Toggle
+                aria-label="JSON mode"
+                darkMode={darkMode}
+                checked={llmJsonMode}
+                onChange={setLlmJsonMode}
+                size="small"
+              />
+            </div>
+          </div>
           <div className={styles.testRow}>
             <Button
               variant="default"
@@ -0,0 +1,189 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import TextInput from "@leafygreen-ui/text-input";
+import Button from "@leafygreen-ui/button";
+import Banner from "@leafygreen-ui/banner";
+import Badge from "@leafygreen-ui/badge";
+import Icon from "@leafygreen-ui/icon";
+import { GlassCard } from "@/components/cards/GlassCard";
+import { useDaemonConfig } from "@/contexts/DaemonConfigContext";
+import { useThemeMode } from "@/contexts/ThemeContext";
+import {
+  fetchTrash,
+  restoreTrashOperation,
+  undeleteMemory,
+  type TrashItem,
+  type TrashOperationSummary,
+} from "@/lib/api";
+import { STORAGE_KEYS } from "@/lib/constants";
+
+export function TrashBin() {
+  const { daemonUrl } = useDaemonConfig();
+  const { darkMode } = useThemeMode();
+
+  const [agentId, setAgentId] = useState("demo-agent");
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [operations, setOperations] = useState<TrashOperationSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<{
+    type: "success" | "error";
+    text: string;
+  } | null>(null);
+
+  const loadTrash = async (agent: string) => {
+    if (!agent.trim()) return;
+    setLoading(true);
+    try {
+      const data = await fetchTrash(daemonUrl, agent.trim());
+      setItems(data.items);
+      setOperations(data.operations);
+    } catch (err) {
+      setMessage({ type: "error", text: String(err) });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const stored = localStorage.getItem(STORAGE_KEYS.AGENT_ID);
+    if (stored) setAgentId(stored);
+    loadTrash(stored || agentId);
+  }, [daemonUrl]);
+
+  const handleRestoreOperation = async (op: TrashOperationSummary) => {
+    try {
+      const result = await restoreTrashOperation(daemonUrl, op.operationId, op.agentId);
+      setMessage({ type: "success", text: `${result.restored} memories restored` });
+      await loadTrash(agentId);
+    } catch (err) {
+      setMessage({ type: "error", text: String(err) });
+    }
+  };
+
+  const handleUndelete = async (item: TrashItem) => {
+    try {
+      await undeleteMemory(daemonUrl, item.id);
+      setMessage({ type: "success", text: "Memory restored" });
+      await loadTrash(agentId);
+    } catch (err) {
+      setMessage({ type: "error", text: String(err) });
+    }
+  };
+
+  const formatDate = (dateStr: string) =>
+    new Date(dateStr).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+  const rowStyle = {
+    display: "flex",
+    alignItems: "center",
+    gap: 12,
+    padding: "8px 0",
+    borderBottom: darkMode ? "1px solid rgba(255,255,255,0.06)" : "1px solid #E8EDEB",
+    fontSize: "0.8rem",
+  };
+
+  return (
+    <GlassCard>
+      <div style={{ padding: 24 }}>
+        <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 16 }}>
+          <Icon glyph="Trash" />
+          <span
+            style={{
+              textTransform: "uppercase",
+              letterSpacing: "0.06em",
+              fontWeight: 500,
+              fontSize: "0.68rem",
+            }}
+          >
+            Trash
+          </span>
+        </div>
+
+        <div style={{ display: "flex", alignItems: "flex-end", gap: 12, marginBottom: 20 }}>
+          <div style={{ flex: 1 }}>
+            <TextInput
+              label="Agent ID"
+              value={agentId}
+              onChange={(e) => setAgentId(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && loadTrash(agentId)}
+              darkMode={darkMode}
+            />
+          </div>
+          <Button
+            onClick={() => loadTrash(agentId)}
+            disabled={loading || !agentId.trim()}
+            leftGlyph={<Icon glyph="Refresh" />}
+            darkMode={darkMode}
+          >
+            Refresh
+          </Button>
+        </div>
+
+        {message && (
+          <div style={{ marginBottom: 16 }}>
+            <Banner
+              variant={message.type === "success" ? "success" : "danger"}
+              darkMode={darkMode}
+              onClose={() => setMessage(null)}
+            >
+              {message.text}
+            </Banner>
+          </div>
+        )}
+
+        {operations.length === 0 ? (
+          <span style={{ fontSize: "0.8rem", opacity: 0.5 }}>
+            {loading ? "Loading..." : "Trash is empty"}
+          </span>
+        ) : (
+          <>
+            {operations.map((op) => (
+              <div key={op.operationId} style={rowStyle}>
+                <Badge variant="red">{op.operation}</Badge>
+                <span style={{ flex: 1 }}>
+                  {op.count} {op.count === 1 ? "memory" : "memories"} deleted{" "}
+                  {formatDate(op.deletedAt)}
+                  {op.deletedBy && ` by ${op.deletedBy}`}
+                  <span style={{ opacity: 0.5 }}> — purged {formatDate(op.purgeAfter)}</span>
+                </span>
+                <Button size="small" onClick={() => handleRestoreOperation(op)} darkMode={darkMode}>
+                  Restore all
+                </Button>
+              </div>
+            ))}
+
+            <div style={{ marginTop: 20 }}>
+              {items.map((item) => (
+                <div key={item.id} style={rowStyle}>
+                  <span
+                    style={{
+                      flex: 1,
+                      overflow: "hidden",
+                      textOverflow: "ellipsis",
+                      whiteSpace: "nowrap",
+                    }}
+                    title={item.text}
+                  >
+                    {item.text}
+                  </span>
+                  <span style={{ opacity: 0.5, whiteSpace: "nowrap" }}>
+                    {formatDate(item.deletedAt)}
+                  </span>
+                  <Button size="small" onClick={() => handleUndelete(item)} darkMode={darkMode}>
+                    Restore
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </GlassCard>
+  );
+}
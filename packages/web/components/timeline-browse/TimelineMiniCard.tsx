@@ -64,7 +64,12 @@ export function TimelineMiniCard({ memory, index, onClick }: TimelineMiniCardPro
         </div>
       )}
 
-      <div className={styles.time}>{time}</div>
+      <div className={styles.time}>
+        {time}
+        {memory.embeddingStatus && memory.embeddingStatus !== "ready" && (
+          <span title="Not yet searchable by recall"> · embedding {memory.embeddingStatus}</span>
+        )}
+      </div>
     </button>
   );
 }
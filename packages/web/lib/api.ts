@@ -68,6 +68,76 @@ export async function forgetMemory(baseUrl: string, id: string) {
   return response.json();
 }
 
+// --- Memory editing & version history ---
+
+export interface MemoryEditResponse {
+  success: boolean;
+  id: string;
+  version: number;
+  changed: string[];
+  reembedded: boolean;
+  embeddingStatus: "ready" | "pending";
+}
+
+export interface MemoryVersionItem {
+  version: number;
+  text: string;
+  tags: string[];
+  metadata: Record<string, unknown>;
+  memoryType: string | null;
+  layer: string | null;
+  confidence: number | null;
+  supersededAt: string;
+  changedBy: string;
+  reason: string | null;
+  change: "edit" | "revert";
+}
+
+export interface MemoryHistoryResponse {
+  success: boolean;
+  id: string;
+  currentVersion: number;
+  count: number;
+  versions: MemoryVersionItem[];
+}
+
+export async function updateMemory(
+  baseUrl: string,
+  id: string,
+  changes: { text?: string; tags?: string[]; reason?: string },
+): Promise<MemoryEditResponse> {
+  const response = await fetch(`${baseUrl}/memories/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...changes, changedBy: "web" }),
+  });
+  if (!response.ok) throw new Error(`Update failed: ${response.status}`);
+  return response.json();
+}
+
+export async function fetchMemoryHistory(
+  baseUrl: string,
+  id: string,
+): Promise<MemoryHistoryResponse> {
+  const response = await fetch(`${baseUrl}/memories/${id}/history`, { cache: "no-store" });
+  if (!response.ok) throw new Error(`History failed: ${response.status}`);
+  return response.json();
+}
+
+export async function revertMemory(
+  baseUrl: string,
+  id: string,
+  version: number,
+): Promise<MemoryEditResponse> {
+  const response = await fetch(`${baseUrl}/memories/${id}/revert`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ version, changedBy: "web" }),
+  });
+  if (!response.ok) throw new Error(`Revert failed: ${response.status}`);
+  return response.json();
+}
+
 export async function exportMemories(baseUrl: string, agentId: string) {
   const params = new URLSearchParams({ agentId });
   const response = await fetch(`${baseUrl}/export?${params.toString()}`, {
@@ -96,6 +166,74 @@ export async function clearMemories(baseUrl: string, agentId: string) {
   return response.json();
 }
 
+// --- Trash ---
+
+export interface TrashItem {
+  id: string;
+  agentId: string;
+  projectId: string | null;
+  text: string;
+  tags: string[];
+  createdAt: string;
+  deletedAt: string;
+  purgeAfter: string;
+  operationId: string;
+  operation: "forget" | "purge" | "clear";
+  deletedBy: string | null;
+}
+
+export interface TrashOperationSummary {
+  operationId: string;
+  operation: "forget" | "purge" | "clear";
+  agentId: string;
+  deletedAt: string;
+  purgeAfter: string;
+  deletedBy: string | null;
+  count: number;
+}
+
+export interface TrashResponse {
+  success: boolean;
+  count: number;
+  items: TrashItem[];
+  operations: TrashOperationSummary[];
+}
+
+export async function fetchTrash(
+  baseUrl: string,
+  agentId: string,
+  limit = 50,
+): Promise<TrashResponse> {
+  const params = new URLSearchParams({ agentId, limit: String(limit) });
+  const response = await fetch(`${baseUrl}/trash?${params.toString()}`, {
+    cache: "no-store",
+  });
+  if (!response.ok) throw new Error(`Trash fetch failed: ${response.status}`);
+  return response.json();
+}
+
+export async function undeleteMemory(baseUrl: string, id: string) {
+  const response = await fetch(`${baseUrl}/memories/${id}/undelete`, {
+    method: "POST",
+  });
+  if (!response.ok) throw new Error(`Undelete failed: ${response.status}`);
+  return response.json();
+}
+
+export async function restoreTrashOperation(
+  baseUrl: string,
+  operationId: string,
+  agentId?: string,
+): Promise<{ success: boolean; restored: number }> {
+  const response = await fetch(`${baseUrl}/trash/restore`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ operationId, agentId }),
+  });
+  if (!response.ok) throw new Error(`Restore failed: ${response.status}`);
+  return response.json();
+}
+
 // --- Word Cloud ---
 
 export interface WordCloudWord {
@@ -208,6 +346,8 @@ export interface MemoryTimelineItem {
   layer: string | null;
   memoryType: string | null;
   confidence: number | null;
+  /** "pending" until the daemon's background embedding queue has embedded it */
+  embeddingStatus?: "pending" | "ready" | "failed";
 }
 
 export interface MemoriesPageResponse {
@@ -295,6 +435,53 @@ export async function fetchMemoriesPage(
   return response.json();
 }
 
+// --- Audit Log ---
+
+export interface AuditEventItem {
+  id: string;
+  timestamp: string;
+  operation: string;
+  actorKeyId: string | null;
+  actorKeyName: string | null;
+  agentId: string | null;
+  targetIds: string[];
+  count: number;
+  details: Record<string, unknown>;
+  request: { method: string; path: string; ip?: string; userAgent?: string };
+}
+
+export interface AuditPageResponse {
+  success: boolean;
+  count: number;
+  hasMore: boolean;
+  nextCursor: { cursor: string; cursorId: string } | null;
+  events: AuditEventItem[];
+}
+
+export async function fetchAuditEvents(
+  baseUrl: string,
+  options?: {
+    agentId?: string;
+    operations?: string[];
+    limit?: number;
+    cursor?: string;
+    cursorId?: string;
+  },
+): Promise<AuditPageResponse> {
+  const params = new URLSearchParams();
+  if (options?.agentId) params.set("agentId", options.agentId);
+  if (options?.operations?.length) params.set("operation", options.operations.join(","));
+  if (options?.limit) params.set("limit", String(options.limit));
+  if (options?.cursor) params.set("cursor", options.cursor);
+  if (options?.cursorId) params.set("cursorId", options.cursorId);
+
+  const response = await fetch(`${baseUrl}/audit?${params.toString()}`, {
+    cache: "no-store",
+  });
+  if (!response.ok) throw new Error(`Audit fetch failed: ${response.status}`);
+  return response.json();
+}
+
 // --- Agents ---
 
 export interface AgentInfo {
@@ -348,6 +535,236 @@ export interface RestoreResponse {
   errors: Array<{ index: number; snippet: string; error: string }>;
 }
 
+// --- Snapshots ---
+
+export interface SnapshotInfo {
+  id: string;
+  agentId: string;
+  name: string;
+  createdAt: string;
+  createdBy: string | null;
+  embeddingModel: string;
+  counts: Record<string, number>;
+}
+
+export interface SnapshotTypeDiff {
+  snapshot: number;
+  live: number;
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+export interface SnapshotDiffResponse {
+  success: boolean;
+  snapshot: SnapshotInfo;
+  types: Record<string, SnapshotTypeDiff>;
+  memories: Record<"added" | "removed" | "changed", Array<{ id: string; text: string }>>;
+}
+
+export interface SnapshotRestoreResponse {
+  success: boolean;
+  snapshot: SnapshotInfo;
+  backupSnapshotId: string | null;
+  restored: Record<string, number>;
+  deleted: Record<string, number>;
+}
+
+export async function fetchSnapshots(baseUrl: string, agentId?: string): Promise<SnapshotInfo[]> {
+  const params = new URLSearchParams();
+  if (agentId) params.set("agentId", agentId);
+  const response = await fetch(`${baseUrl}/snapshots?${params.toString()}`, {
+    cache: "no-store",
+  });
+  if (!response.ok) throw new Error(`Snapshots fetch failed: ${response.status}`);
+  const data = await response.json();
+  return data.snapshots;
+}
+
+export async function createSnapshot(
+  baseUrl: string,
+  agentId: string,
+  name?: string,
+): Promise<SnapshotInfo> {
+  const response = await fetch(`${baseUrl}/snapshots`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ agentId, name: name || undefined }),
+  });
+  if (!response.ok) throw new Error(`Snapshot failed: ${response.status}`);
+  const data = await response.json();
+  return data.snapshot;
+}
+
+export async function fetchSnapshotDiff(
+  baseUrl: string,
+  id: string,
+): Promise<SnapshotDiffResponse> {
+  const response = await fetch(`${baseUrl}/snapshots/${id}/diff`, { cache: "no-store" });
+  if (!response.ok) throw new Error(`Snapshot diff failed: ${response.status}`);
+  return response.json();
+}
+
+export async function restoreSnapshot(
+  baseUrl: string,
+  id: string,
+): Promise<SnapshotRestoreResponse> {
+  const response = await fetch(`${baseUrl}/snapshots/${id}/restore`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ backup: true }),
+  });
+  if (!response.ok) throw new Error(`Snapshot restore failed: ${response.status}`);
+  return response.json();
+}
+
+export async function deleteSnapshot(baseUrl: string, id: string) {
+  const response = await fetch(`${baseUrl}/snapshots/${id}`, { method: "DELETE" });
+  if (!response.ok) throw new Error(`Snapshot delete failed: ${response.status}`);
+  return response.json();
+}
+
+// --- Entities ---
+
+export type EntityType = "person" | "project" | "system" | "concept" | "place";
+
+export interface EntityInfo {
+  id: string;
+  slug: string;
+  type: EntityType;
+  displayName: string;
+  aliases: string[];
+  summary: string;
+  memoryCount: number;
+  lastSeenAt: string;
+  createdAt: string;
+}
+
+export interface EntityProfileEntry {
+  id: string;
+  text: string;
+  memoryType: string | null;
+  confidence: number | null;
+  createdAt: string;
+  tags: string[];
+}
+
+export interface EntityProfileResponse {
+  success: boolean;
+  entity: EntityInfo & { attributes: Record<string, unknown> };
+  facts: EntityProfileEntry[];
+  preferences: EntityProfileEntry[];
+  decisions: EntityProfileEntry[];
+  other: EntityProfileEntry[];
+  timeline: Array<{
+    at: string;
+    kind: "memory" | "episode";
+    id: string;
+    text: string;
+    memoryType?: string | null;
+  }>;
+  relatedEntities: Array<{ slug: string; displayName: string; type: EntityType; mentions: number }>;
+  counts: { memories: number; superseded: number; episodes: number };
+}
+
+export interface EntityMergeResponse {
+  success: boolean;
+  entity: EntityInfo;
+  merged: string[];
+  memoriesUpdated: number;
+  pendingEdgesUpdated: number;
+}
+
+export interface EntitySplitResponse {
+  success: boolean;
+  entity: EntityInfo;
+  created: EntityInfo;
+  memoriesUpdated: number;
+  pendingEdgesUpdated: number;
+}
+
+// Curation routes answer 4xx with { error } — surface it instead of the status
+async function entityCurationError(response: Response, action: string): Promise<Error> {
+  const data = await response.json().catch(() => ({}));
+  return new Error(
+    data.details?.[0]?.message || data.error || `${action} failed: ${response.status}`,
+  );
+}
+
+export async function fetchEntities(
+  baseUrl: string,
+  agentId: string,
+  limit = 200,
+): Promise<EntityInfo[]> {
+  const params = new URLSearchParams({ agentId, limit: String(limit) });
+  const response = await fetch(`${baseUrl}/entities?${params.toString()}`, {
+    cache: "no-store",
+  });
+  if (!response.ok) throw new Error(`Entities fetch failed: ${response.status}`);
+  const data = await response.json();
+  return data.entities;
+}
+
+export async function fetchEntityProfile(
+  baseUrl: string,
+  agentId: string,
+  slug: string,
+): Promise<EntityProfileResponse> {
+  const params = new URLSearchParams({ agentId, limit: "100" });
+  const response = await fetch(
+    `${baseUrl}/entities/${encodeURIComponent(slug)}/profile?${params.toString()}`,
+    { cache: "no-store" },
+  );
+  if (!response.ok) throw new Error(`Entity profile failed: ${response.status}`);
+  return response.json();
+}
+
+export async function mergeEntities(
+  baseUrl: string,
+  agentId: string,
+  target: string,
+  sources: string[],
+): Promise<EntityMergeResponse> {
+  const response = await fetch(`${baseUrl}/entities/merge`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ agentId, target, sources }),
+  });
+  if (!response.ok) throw await entityCurationError(response, "Entity merge");
+  return response.json();
+}
+
+export async function updateEntityAliases(
+  baseUrl: string,
+  agentId: string,
+  slug: string,
+  change: { add?: string[]; remove?: string[] },
+): Promise<EntityInfo> {
+  const response = await fetch(`${baseUrl}/entities/${encodeURIComponent(slug)}/aliases`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ agentId, ...change }),
+  });
+  if (!response.ok) throw await entityCurationError(response, "Alias update");
+  const data = await response.json();
+  return data.entity;
+}
+
+export async function splitEntity(
+  baseUrl: string,
+  agentId: string,
+  slug: string,
+  split: { displayName: string; type?: EntityType; aliases?: string[]; memoryIds: string[] },
+): Promise<EntitySplitResponse> {
+  const response = await fetch(`${baseUrl}/entities/${encodeURIComponent(slug)}/split`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ agentId, ...split }),
+  });
+  if (!response.ok) throw await entityCurationError(response, "Entity split");
+  return response.json();
+}
+
 // --- Usage & Cost Tracking ---
 
 // Matches actual daemon response from GET /usage/summary
@@ -363,6 +780,15 @@ export interface UsageSummary {
   totalMemories: number;
   byOperation: Record<string, { tokens: number; cost: number; calls: number }>;
   byModel: Record<string, { tokens: number; cost: number; calls: number }>;
+  /** Embedding vs LLM (chat/generate) calls */
+  byKind: Record<"embedding" | "llm", { tokens: number; cost: number; calls: number }>;
+  embeddingCache: {
+    hits: number;
+    misses: number;
+    hitRate: number;
+    estimatedTokensSaved: number;
+    estimatedCostSavedUsd: number;
+  };
 }
 
 // Matches actual daemon response from GET /usage/timeline
@@ -14,6 +14,7 @@ export const NAV_ITEMS = [
   { label: "Chat", path: "/chat", icon: "Support" },
   { label: "Memories", path: "/memories", icon: "Database" },
   { label: "Graph", path: "/graph", icon: "Diagram3" },
+  { label: "Entities", path: "/entities", icon: "PersonGroup" },
   { label: "Usage & Cost", path: "/usage", icon: "ActivityFeed" },
   { label: "Operations", path: "/operations", icon: "Apps" },
   { label: "Settings", path: "/settings", icon: "Settings" },
@@ -4,6 +4,7 @@ import {
   recall,
   remember,
   forget,
+  reinforce,
   getStatus,
   listMemories,
   getConfigFromEnv,
@@ -151,6 +152,28 @@ describe("recall", () => {
     expect(parsed.searchParams.get("projectId")).toBe("proj-1");
   });
 
+  it("includes mode when provided", async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(recallResponse));
+    await recall("http://localhost:7654", "agent-1", "q", 10, undefined, {
+      mode: "hybrid",
+    });
+
+    const [url] = mockFetch.mock.calls[0];
+    const parsed = new URL(url);
+    expect(parsed.searchParams.get("mode")).toBe("hybrid");
+  });
+
+  it("asks for superseded memories only when includeSuperseded is set", async () => {
+    mockFetch.mockResolvedValue(jsonResponse(recallResponse));
+    await recall("http://localhost:7654", "agent-1", "q");
+    await recall("http://localhost:7654", "agent-1", "q", 10, undefined, {
+      includeSuperseded: true,
+    });
+
+    expect(new URL(mockFetch.mock.calls[0][0]).searchParams.has("includeSuperseded")).toBe(false);
+    expect(new URL(mockFetch.mock.calls[1][0]).searchParams.get("includeSuperseded")).toBe("true");
+  });
+
   it("includes tags when provided", async () => {
     mockFetch.mockResolvedValueOnce(jsonResponse(recallResponse));
     await recall("http://localhost:7654", "agent-1", "q", 10, "tag1,tag2");
@@ -222,6 +245,17 @@ describe("remember", () => {
     expect(body.projectId).toBe("proj-1");
   });
 
+  it("sends async flag when requested", async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ ...rememberResponse, embeddingStatus: "pending" }));
+    const result = await remember("http://localhost:7654", "agent-1", "test", [], {}, undefined, {
+      async: true,
+    });
+
+    const [, init] = mockFetch.mock.calls[0];
+    expect(JSON.parse(init.body).async).toBe(true);
+    expect(result.embeddingStatus).toBe("pending");
+  });
+
   it("includes API key header", async () => {
     mockFetch.mockResolvedValueOnce(jsonResponse(rememberResponse));
     await remember("http://localhost:7654", "agent-1", "test", [], {}, undefined, {
@@ -267,6 +301,23 @@ describe("forget", () => {
   });
 });
 
+// --- reinforce ---
+
+describe("reinforce", () => {
+  it("sends POST to /memories/:id/reinforce", async () => {
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({ success: true, id: "abc123", confidence: 0.66, strength: 1 }),
+    );
+    const result = await reinforce("http://localhost:7654", "abc123", { apiKey: "key-1" });
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toContain("/memories/abc123/reinforce");
+    expect(init.method).toBe("POST");
+    expect(init.headers["X-API-Key"]).toBe("key-1");
+    expect(result.strength).toBe(1);
+  });
+});
+
 // --- getStatus ---
 
 describe("getStatus", () => {
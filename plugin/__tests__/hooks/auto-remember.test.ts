@@ -104,6 +104,12 @@ describe("auto-remember hook", () => {
     expect(mockRemember).toHaveBeenCalledTimes(1);
   });
 
+  it("stores facts in async mode so the hook never waits on embedding", async () => {
+    const event = makeEvent("I'll remember: The default theme is set to dark mode for everyone.");
+    await handler(event);
+    expect(mockRemember.mock.calls[0][6]).toMatchObject({ async: true });
+  });
+
   it("skips messages under 50 chars", async () => {
     const event = makeEvent("I'll remember: short");
     await handler(event);
@@ -23,6 +23,10 @@ import {
   recall,
   forget,
   listMemories,
+  startSession,
+  appendSessionTurns,
+  closeSession,
+  getSession,
 } from "../../lib/daemon-client";
 
 // Import the actual hook handlers (no mocks!)
@@ -241,7 +245,7 @@ describe("Hook integration tests (live daemon)", () => {
   // 2. session-to-memory
   // -----------------------------------------------------------------------
   describe("session-to-memory", () => {
-    it("stores a session summary when starting a new session", async (ctx) => {
+    it("sends the previous session to the daemon for reflection", async (ctx) => {
       if (!daemonAvailable) return ctx.skip();
 
       const event = {
@@ -279,66 +283,38 @@ describe("Hook integration tests (live daemon)", () => {
 
       await sessionToMemoryHandler(event);
 
-      // This hook awaits the remember call, so it should be stored immediately
-      const found = await waitForMemory("session-summary");
-      expect(found).toBe(true);
-
-      const list = await listMemories(DAEMON_URL, AGENT_ID, {
-        tags: "session-summary",
-      });
-
-      expect(list.count).toBeGreaterThanOrEqual(1);
-
-      const summary = list.memories[0];
-      expect(summary.tags).toContain("session-summary");
-      expect(summary.tags).toContain("auto");
-      expect(summary.text).toContain("Session summary");
-      expect(summary.text).toContain("memory daemon");
-      expect(summary.metadata.source).toBe("session-to-memory");
-      expect(summary.metadata.turnCount).toBe(4);
-
-      createdMemoryIds.push(summary.id);
+      // The hook awaits start → append → close, so the message means the
+      // daemon accepted the whole transcript
+      expect(event.messages).toContain(
+        "[memory] Previous session sent to memory for reflection",
+      );
     });
 
-    it("uses a pre-built summary when available", async (ctx) => {
+    it("round-trips a session through the lifecycle API", async (ctx) => {
       if (!daemonAvailable) return ctx.skip();
 
-      const event = {
-        type: "command",
-        action: "new",
+      const started = await startSession(DAEMON_URL, AGENT_ID, {
         sessionKey: "int-sess-5",
-        timestamp: new Date(),
-        messages: [] as string[],
-        context: {
-          sessionEntry: {
-            id: "prev-session-2",
-            summary:
-              "Discussed plugin architecture, decided to use shared daemon-client for all hooks.",
-            turns: [
-              { role: "user", content: "Hello" },
-              { role: "assistant", content: "Hi" },
-            ],
-            startedAt: new Date(Date.now() - 1800_000).toISOString(),
-            endedAt: new Date().toISOString(),
-          },
-          sessionId: "prev-session-2",
-        },
-      };
+        metadata: { source: "integration-test" },
+      });
+      expect(started.status).toBe("open");
 
-      await sessionToMemoryHandler(event);
-      await new Promise((r) => setTimeout(r, 1000));
+      await appendSessionTurns(DAEMON_URL, started.id, [
+        { role: "user", content: "Let's use the shared daemon-client for all hooks." },
+        { role: "assistant", content: "Agreed, every hook now imports lib/daemon-client." },
+      ]);
 
-      const list = await listMemories(DAEMON_URL, AGENT_ID, {
-        tags: "session-summary",
-        limit: 20,
-      });
+      const closed = await closeSession(DAEMON_URL, started.id);
+      expect(closed.session.status).toBe("closed");
+      expect(closed.session.turnCount).toBe(2);
+      expect(closed.reflectionJobId).toBeTruthy();
 
-      const match = list.memories.find((m) =>
-        m.text.includes("shared daemon-client"),
-      );
-      expect(match).toBeDefined();
+      const detail = await getSession(DAEMON_URL, started.id);
+      expect(detail.session.turns).toHaveLength(2);
+      expect(detail.jobs.map((j) => j.id)).toContain(closed.reflectionJobId);
 
-      if (match) createdMemoryIds.push(match.id);
+      // Closing twice is rejected
+      await expect(closeSession(DAEMON_URL, started.id)).rejects.toThrow();
     });
   });
 
@@ -44,6 +44,7 @@ beforeEach(() => {
   vi.clearAllMocks();
   mockCheckHealth.mockResolvedValue(true);
   delete process.env.OPENCLAW_MEMORY_HOOKS_ENABLED;
+  delete process.env.OPENCLAW_MEMORY_INCLUDE_SUPERSEDED;
 });
 
 describe("memory-bootstrap hook", () => {
@@ -194,6 +195,17 @@ describe("memory-bootstrap hook", () => {
     expect(generalQuery).toContain("my-project");
   });
 
+  it("leaves superseded memories out unless OPENCLAW_MEMORY_INCLUDE_SUPERSEDED=true", async () => {
+    await handler(makeEvent());
+    expect(mockRecall.mock.calls[0][5]).toMatchObject({ includeSuperseded: false });
+
+    mockRecall.mockClear();
+    process.env.OPENCLAW_MEMORY_INCLUDE_SUPERSEDED = "true";
+    await handler(makeEvent());
+    expect(mockRecall.mock.calls[0][5]).toMatchObject({ includeSuperseded: true });
+    expect(mockRecall.mock.calls[1][5]).toMatchObject({ includeSuperseded: true });
+  });
+
   it("respects OPENCLAW_MEMORY_HOOKS_ENABLED=false", async () => {
     process.env.OPENCLAW_MEMORY_HOOKS_ENABLED = "false";
     const event = makeEvent();
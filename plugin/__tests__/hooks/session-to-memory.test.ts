@@ -7,13 +7,23 @@ vi.mock("../../lib/daemon-client", () => ({
     apiKey: undefined,
     projectId: undefined,
   })),
-  remember: vi.fn(() => Promise.resolve({ success: true, id: "1", text: "", tags: [] })),
+  startSession: vi.fn(() => Promise.resolve({ id: "daemon-session-1" })),
+  appendSessionTurns: vi.fn(() => Promise.resolve({ id: "daemon-session-1" })),
+  closeSession: vi.fn(() =>
+    Promise.resolve({ success: true, reflectionJobId: "job-1", message: "Session closed" }),
+  ),
 }));
 
 import handler from "../../hooks/session-to-memory/handler";
-import { remember } from "../../lib/daemon-client";
+import { appendSessionTurns, closeSession, startSession } from "../../lib/daemon-client";
 
-const mockRemember = vi.mocked(remember);
+const mockStart = vi.mocked(startSession);
+const mockAppend = vi.mocked(appendSessionTurns);
+const mockClose = vi.mocked(closeSession);
+
+function sentTurns() {
+  return mockAppend.mock.calls.flatMap((call) => call[2]);
+}
 
 function makeEvent(session: Record<string, unknown> = {}) {
   return {
@@ -52,28 +62,55 @@ beforeEach(() => {
 });
 
 describe("session-to-memory hook", () => {
-  it("builds summary from turns and stores it", async () => {
+  it("starts a daemon session, appends the transcript and closes it", async () => {
+    const event = makeEvent();
+    await handler(event);
+
+    expect(mockStart).toHaveBeenCalledTimes(1);
+    expect(mockStart.mock.calls[0][1]).toBe("test-agent");
+    expect(mockClose).toHaveBeenCalledTimes(1);
+    expect(mockClose.mock.calls[0][1]).toBe("daemon-session-1");
+
+    const turns = sentTurns();
+    expect(turns).toHaveLength(4);
+    expect(turns[0]).toMatchObject({ role: "user", content: "How do I configure MongoDB?" });
+  });
+
+  it("passes session key, timestamps and metadata", async () => {
     const event = makeEvent();
     await handler(event);
 
-    expect(mockRemember).toHaveBeenCalledTimes(1);
-    const storedText = mockRemember.mock.calls[0][2];
-    expect(storedText).toContain("Session summary (4 turns)");
-    expect(storedText).toContain("User: How do I configure MongoDB?");
-    expect(storedText).toContain("Started: 2026-02-20T10:00:00Z");
+    const options = mockStart.mock.calls[0][2]!;
+    expect(options.sessionKey).toBe("sess-1");
+    expect(options.startedAt).toBe("2026-02-20T10:00:00.000Z");
+    expect(options.metadata).toEqual({ source: "session-to-memory", clientSessionId: "s-1" });
+    expect(mockClose.mock.calls[0][2]!.endedAt).toBe("2026-02-20T10:30:00.000Z");
+  });
+
+  it("leads with session.summary when available", async () => {
+    const event = makeEvent({
+      summary: "This session was about MongoDB configuration and indexing strategies.",
+    });
+    await handler(event);
+
+    const turns = sentTurns();
+    expect(turns).toHaveLength(5);
+    expect(turns[0]).toMatchObject({
+      role: "system",
+      content:
+        "Session summary: This session was about MongoDB configuration and indexing strategies.",
+    });
   });
 
-  it("uses existing session.summary when available", async () => {
+  it("sends a summary-only session", async () => {
     const event = makeEvent({
+      turns: [],
       summary: "This session was about MongoDB configuration and indexing strategies.",
     });
     await handler(event);
 
-    expect(mockRemember).toHaveBeenCalledTimes(1);
-    const storedText = mockRemember.mock.calls[0][2];
-    expect(storedText).toBe(
-      "This session was about MongoDB configuration and indexing strategies.",
-    );
+    expect(sentTurns()).toHaveLength(1);
+    expect(mockClose).toHaveBeenCalledTimes(1);
   });
 
   it("skips sessions with fewer than 2 turns", async () => {
@@ -81,25 +118,49 @@ describe("session-to-memory hook", () => {
       turns: [{ role: "user", content: "Hello" }],
     });
     await handler(event);
-    expect(mockRemember).not.toHaveBeenCalled();
+    expect(mockStart).not.toHaveBeenCalled();
   });
 
-  it("stores with correct tags", async () => {
-    const event = makeEvent();
+  it("appends long transcripts in batches", async () => {
+    const turns = Array.from({ length: 25 }, (_, i) => ({
+      role: i % 2 === 0 ? "user" : "assistant",
+      content: `Turn ${i}`,
+    }));
+    const event = makeEvent({ turns });
     await handler(event);
 
-    const tags = mockRemember.mock.calls[0][3];
-    expect(tags).toEqual(["session-summary", "auto"]);
+    expect(mockAppend).toHaveBeenCalledTimes(3);
+    expect(sentTurns()).toHaveLength(25);
   });
 
-  it("stores with session metadata", async () => {
-    const event = makeEvent();
+  it("truncates long turns and drops empty or unknown ones", async () => {
+    const event = makeEvent({
+      turns: [
+        { role: "user", content: "A".repeat(5000) },
+        { role: "assistant", content: "   " },
+        { role: "narrator", content: "Meanwhile..." },
+        { role: "assistant", content: "Done" },
+      ],
+    });
     await handler(event);
 
-    const metadata = mockRemember.mock.calls[0][4] as Record<string, unknown>;
-    expect(metadata.source).toBe("session-to-memory");
-    expect(metadata.sessionId).toBe("s-1");
-    expect(metadata.turnCount).toBe(4);
+    const turns = sentTurns();
+    expect(turns).toHaveLength(2);
+    expect(turns[0].content.length).toBe(4000);
+  });
+
+  it("drops timestamps that don't parse", async () => {
+    const event = makeEvent({
+      turns: [
+        { role: "user", content: "Hi", timestamp: "yesterday-ish" },
+        { role: "assistant", content: "Hello", timestamp: "2026-02-20T10:01:00Z" },
+      ],
+    });
+    await handler(event);
+
+    const turns = sentTurns();
+    expect(turns[0].timestamp).toBeUndefined();
+    expect(turns[1].timestamp).toBe("2026-02-20T10:01:00.000Z");
   });
 
   it("only fires on command:new", async () => {
@@ -107,7 +168,7 @@ describe("session-to-memory hook", () => {
     event.type = "message";
     event.action = "sent";
     await handler(event);
-    expect(mockRemember).not.toHaveBeenCalled();
+    expect(mockStart).not.toHaveBeenCalled();
   });
 
   it("skips when no session entry", async () => {
@@ -120,37 +181,27 @@ describe("session-to-memory hook", () => {
       context: { sessionId: "s-1" },
     };
     await handler(event as any);
-    expect(mockRemember).not.toHaveBeenCalled();
+    expect(mockStart).not.toHaveBeenCalled();
   });
 
-  it("never throws on remember failure", async () => {
-    mockRemember.mockRejectedValueOnce(new Error("storage error"));
+  it("never throws on daemon failure", async () => {
+    mockStart.mockRejectedValueOnce(new Error("daemon down"));
     const event = makeEvent();
     // Should not throw
     await handler(event);
+    expect(event.messages).toHaveLength(0);
   });
 
   it("respects OPENCLAW_MEMORY_HOOKS_ENABLED=false", async () => {
     process.env.OPENCLAW_MEMORY_HOOKS_ENABLED = "false";
     const event = makeEvent();
     await handler(event);
-    expect(mockRemember).not.toHaveBeenCalled();
+    expect(mockStart).not.toHaveBeenCalled();
   });
 
   it("adds message on success", async () => {
     const event = makeEvent();
     await handler(event);
-    expect(event.messages).toContain(
-      "[memory] Previous session summary saved to memory",
-    );
-  });
-
-  it("respects MAX_SUMMARY_LENGTH", async () => {
-    const longSummary = "A".repeat(3000);
-    const event = makeEvent({ summary: longSummary });
-    await handler(event);
-
-    const storedText = mockRemember.mock.calls[0][2];
-    expect(storedText.length).toBeLessThanOrEqual(2000);
+    expect(event.messages).toContain("[memory] Previous session sent to memory for reflection");
   });
 });
@@ -5,6 +5,7 @@ vi.mock("../lib/daemon-client", () => ({
   recall: vi.fn(),
   remember: vi.fn(),
   forget: vi.fn(),
+  reinforce: vi.fn(),
   getStatus: vi.fn(),
   checkHealth: vi.fn(),
   listMemories: vi.fn(),
@@ -15,6 +16,7 @@ import {
   recall,
   remember,
   forget,
+  reinforce,
   getStatus,
   checkHealth,
   listMemories,
@@ -23,6 +25,7 @@ import {
 const mockRecall = vi.mocked(recall);
 const mockRemember = vi.mocked(remember);
 const mockForget = vi.mocked(forget);
+const mockReinforce = vi.mocked(reinforce);
 const mockGetStatus = vi.mocked(getStatus);
 const mockCheckHealth = vi.mocked(checkHealth);
 const mockListMemories = vi.mocked(listMemories);
@@ -140,6 +143,7 @@ describe("createPlugin registration", () => {
     expect(typeof result.api.recall).toBe("function");
     expect(typeof result.api.remember).toBe("function");
     expect(typeof result.api.forget).toBe("function");
+    expect(typeof result.api.reinforce).toBe("function");
     expect(typeof result.api.getStatus).toBe("function");
     expect(typeof result.api.listMemories).toBe("function");
   });
@@ -234,6 +238,51 @@ describe("memory_search tool", () => {
     expect(result.content[0].text).not.toContain("low");
   });
 
+  it("passes hybrid mode and keeps keyword hits below minScore", async () => {
+    const { api, tools } = createMockApi({ minScore: 0.8 });
+    createPlugin(api as any);
+
+    mockRecall.mockResolvedValueOnce({
+      success: true,
+      query: "ERR_4471",
+      results: [
+        {
+          id: "k",
+          text: "keyword hit",
+          score: 0.0164,
+          tags: [],
+          metadata: {},
+          createdAt: "",
+          scores: { fused: 0.0164, vector: null, vectorRank: null, text: 1.5, textRank: 1 },
+        },
+        {
+          id: "v",
+          text: "weak vector hit",
+          score: 0.0161,
+          tags: [],
+          metadata: {},
+          createdAt: "",
+          scores: { fused: 0.0161, vector: 0.3, vectorRank: 2, text: null, textRank: null },
+        },
+      ],
+      count: 2,
+      method: "hybrid",
+    });
+
+    const result = await tools.memory_search.execute("", { query: "ERR_4471", mode: "hybrid" });
+    expect(mockRecall).toHaveBeenCalledWith(
+      "http://test:7654",
+      "test-agent",
+      "ERR_4471",
+      expect.any(Number),
+      undefined,
+      expect.objectContaining({ mode: "hybrid" }),
+    );
+    expect(result.content[0].text).toContain("Found 1 memories");
+    expect(result.content[0].text).toContain("[Text: 1.500]");
+    expect(result.content[0].text).not.toContain("weak vector hit");
+  });
+
   it("returns graceful message when no results", async () => {
     const { api, tools } = createMockApi();
     createPlugin(api as any);
@@ -250,6 +299,29 @@ describe("memory_search tool", () => {
     expect(result.content[0].text).toContain("No relevant memories found");
   });
 
+  it("reinforces cited memories and still searches when reinforcement fails", async () => {
+    const { api, tools } = createMockApi();
+    createPlugin(api as any);
+
+    mockReinforce.mockResolvedValueOnce({} as any).mockRejectedValueOnce(new Error("404"));
+    mockRecall.mockResolvedValueOnce({
+      success: true,
+      query: "test",
+      results: [{ id: "mem-3", text: "Deploys on Tuesday", score: 0.9, tags: [], metadata: {}, createdAt: "" }],
+      count: 1,
+      method: "in_memory",
+    });
+
+    const result = await tools.memory_search.execute("", {
+      query: "deploy day",
+      citedIds: ["mem-1", "mem-2"],
+    });
+
+    expect(mockReinforce).toHaveBeenCalledTimes(2);
+    expect(mockReinforce).toHaveBeenCalledWith("http://test:7654", "mem-1", expect.objectContaining({}));
+    expect(result.content[0].text).toContain("Found 1 memories");
+  });
+
   it("returns graceful error when daemon unreachable", async () => {
     const { api, tools } = createMockApi();
     createPlugin(api as any);
@@ -160,7 +160,7 @@ export default async function handler(event: {
           extractedAt: new Date().toISOString(),
         },
         undefined,
-        { apiKey: config.apiKey, projectId: config.projectId },
+        { apiKey: config.apiKey, projectId: config.projectId, async: true },
       ).catch(() => {
         // Silently ignore storage failures — hook must not block
       });
@@ -83,7 +83,12 @@ export default async function handler(event: BootstrapEvent) {
     if (event.type !== "agent" || event.action !== "bootstrap") return;
 
     const config = getConfigFromEnv();
-    const reqOpts = { apiKey: config.apiKey, projectId: config.projectId };
+    // The daemon hides superseded memories (the losing side of resolved conflicts)
+    const reqOpts = {
+      apiKey: config.apiKey,
+      projectId: config.projectId,
+      includeSuperseded: process.env.OPENCLAW_MEMORY_INCLUDE_SUPERSEDED === "true",
+    };
 
     // Quick health check — skip if daemon is down to avoid slow bootstrap
     const healthy = await checkHealth(config.daemonUrl);
@@ -1,11 +1,18 @@
 /**
  * session-to-memory hook
  *
- * Fires on command:new — summarizes the ending session and stores it
- * as a searchable memory in MongoDB with Voyage AI embeddings.
+ * Fires on command:new — sends the ending session's transcript to the
+ * daemon as a session and closes it, so the reflection pipeline extracts
+ * memories and an episode from the whole conversation.
  */
 
-import { getConfigFromEnv, remember } from "../../lib/daemon-client";
+import {
+  appendSessionTurns,
+  closeSession,
+  getConfigFromEnv,
+  startSession,
+  type SessionTurnInput,
+} from "../../lib/daemon-client";
 
 interface SessionEntry {
   id?: string;
@@ -24,50 +31,51 @@ interface SessionEntry {
   endedAt?: string;
 }
 
-/** Maximum characters of summary text to store */
-const MAX_SUMMARY_LENGTH = 2000;
-/** Minimum number of turns to bother summarizing */
+/** Maximum characters sent per turn */
+const MAX_TURN_LENGTH = 4000;
+/** Turns per append request — keeps each body under the daemon's JSON limit */
+const TURN_BATCH_SIZE = 10;
+/** Minimum number of turns to bother reflecting on */
 const MIN_TURNS = 2;
 
-function buildSummary(session: SessionEntry): string | null {
-  // If the session already has a summary, use it directly
-  if (session.summary && session.summary.length > 20) {
-    return session.summary.slice(0, MAX_SUMMARY_LENGTH);
-  }
-
-  // Otherwise, build from conversation turns
-  const turns = session.turns || session.messages || [];
-  if (turns.length < MIN_TURNS) return null;
+const TURN_ROLES = new Set<string>(["user", "assistant", "system", "tool"]);
 
-  const lines: string[] = [];
-  lines.push(`Session summary (${turns.length} turns):`);
+/** Normalize a timestamp to ISO 8601, or undefined if it doesn't parse */
+function toIso(value?: string): string | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
 
-  if (session.startedAt) {
-    lines.push(`Started: ${session.startedAt}`);
-  }
+function buildTurns(session: SessionEntry): SessionTurnInput[] | null {
+  const source: Array<{ role: string; content: string; timestamp?: string }> =
+    session.turns || session.messages || [];
 
-  // Extract key user messages and assistant conclusions
-  for (const turn of turns) {
+  const turns: SessionTurnInput[] = [];
+  for (const turn of source) {
     const content = turn.content?.trim();
-    if (!content) continue;
-
-    if (turn.role === "user") {
-      // First line of user messages as topic indicators
-      const firstLine = content.split("\n")[0].slice(0, 200);
-      lines.push(`- User: ${firstLine}`);
-    } else if (turn.role === "assistant") {
-      // Last paragraph of assistant responses as conclusions
-      const lastParagraph = content.split("\n\n").pop()?.trim();
-      if (lastParagraph && lastParagraph.length > 20) {
-        lines.push(`- Assistant: ${lastParagraph.slice(0, 200)}`);
-      }
-    }
+    if (!content || !TURN_ROLES.has(turn.role)) continue;
+    turns.push({
+      role: turn.role as SessionTurnInput["role"],
+      content: content.slice(0, MAX_TURN_LENGTH),
+      timestamp: toIso(turn.timestamp),
+    });
   }
 
-  const summary = lines.join("\n");
-  if (summary.length < 50) return null;
+  // Lead with the client's own summary when it has one — on short sessions
+  // it is all there is to reflect on
+  const summary = session.summary && session.summary.length > 20 ? session.summary : null;
+  if (turns.length < MIN_TURNS && !summary) return null;
+
+  if (summary) {
+    turns.unshift({
+      role: "system",
+      content: `Session summary: ${summary.slice(0, MAX_TURN_LENGTH)}`,
+      timestamp: toIso(session.startedAt),
+    });
+  }
 
-  return summary.slice(0, MAX_SUMMARY_LENGTH);
+  return turns;
 }
 
 export default async function handler(event: {
@@ -93,29 +101,37 @@ export default async function handler(event: {
     const session = event.context.sessionEntry;
     if (!session) return;
 
-    const summary = buildSummary(session);
-    if (!summary) return;
+    const turns = buildTurns(session);
+    if (!turns) return;
 
     const config = getConfigFromEnv();
+    const options = { apiKey: config.apiKey, projectId: config.projectId };
 
-    await remember(
-      config.daemonUrl,
-      config.agentId,
-      summary,
-      ["session-summary", "auto"],
-      {
+    const started = await startSession(config.daemonUrl, config.agentId, {
+      ...options,
+      sessionKey: event.sessionKey,
+      startedAt: toIso(session.startedAt),
+      metadata: {
         source: "session-to-memory",
-        sessionId: event.context.sessionId || session.id,
-        sessionKey: event.sessionKey,
-        turnCount: (session.turns || session.messages || []).length,
-        startedAt: session.startedAt,
-        endedAt: session.endedAt,
+        clientSessionId: event.context.sessionId || session.id,
       },
-      undefined,
-      { apiKey: config.apiKey, projectId: config.projectId },
-    );
+    });
+
+    for (let i = 0; i < turns.length; i += TURN_BATCH_SIZE) {
+      await appendSessionTurns(
+        config.daemonUrl,
+        started.id,
+        turns.slice(i, i + TURN_BATCH_SIZE),
+        options,
+      );
+    }
+
+    await closeSession(config.daemonUrl, started.id, {
+      ...options,
+      endedAt: toIso(session.endedAt),
+    });
 
-    event.messages.push("[memory] Previous session summary saved to memory");
+    event.messages.push("[memory] Previous session sent to memory for reflection");
   } catch {
     // Hook failures must never propagate
   }
@@ -133,7 +133,7 @@ export default async function handler(event: ToolEvent) {
         duration: event.context.duration,
       },
       undefined,
-      { apiKey: config.apiKey, projectId: config.projectId },
+      { apiKey: config.apiKey, projectId: config.projectId, async: true },
     ).catch(() => {
       // Silent fail — hook must not block
     });
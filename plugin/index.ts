@@ -36,6 +36,7 @@ import {
   recall,
   remember,
   forget,
+  reinforce,
   getStatus,
   checkHealth,
   listMemories,
@@ -225,12 +226,34 @@ export default function createPlugin(api: PluginAPI) {
           type: "number",
           description: "Maximum number of results to return (default: 6)",
         },
+        mode: {
+          type: "string",
+          enum: ["vector", "hybrid"],
+          description:
+            'Ranking mode. Use "hybrid" when the query contains exact identifiers (error codes, ticket numbers, names) to combine keyword and semantic matches (default: "vector")',
+        },
+        citedIds: {
+          type: "array",
+          items: { type: "string" },
+          description:
+            "IDs of memories from earlier searches that you actually used in your answer. They are reinforced so they stay strong and gain confidence.",
+        },
       },
       required: ["query"],
     },
     async execute(_id: string, params: Record<string, unknown>) {
       const query = params.query as string;
       const maxResults = (params.maxResults as number) || config.maxResults;
+      const mode = params.mode === "hybrid" ? "hybrid" : undefined;
+      const citedIds = Array.isArray(params.citedIds) ? (params.citedIds as string[]) : [];
+
+      // Reinforcement is best-effort — never fail the search because of it
+      if (citedIds.length > 0) {
+        await Promise.allSettled(
+          citedIds.map((memoryId) => reinforce(config.daemonUrl, memoryId, reqOpts(config))),
+        );
+      }
+
       try {
         const result = await recall(
           config.daemonUrl,
@@ -238,7 +261,7 @@ export default function createPlugin(api: PluginAPI) {
           query,
           maxResults,
           undefined,
-          reqOpts(config),
+          { ...reqOpts(config), mode },
         );
 
         if (!result.success || result.count === 0) {
@@ -247,8 +270,12 @@ export default function createPlugin(api: PluginAPI) {
           };
         }
 
-        const filtered = result.results.filter(
-          (r) => r.score >= config.minScore,
+        // Fused RRF scores are rank-based and not comparable to minScore, so in
+        // hybrid mode keep keyword hits and vector hits above the threshold.
+        const filtered = result.results.filter((r) =>
+          r.scores
+            ? r.scores.text !== null || (r.scores.vector ?? 0) >= config.minScore
+            : r.score >= config.minScore,
         );
 
         if (filtered.length === 0) {
@@ -258,10 +285,12 @@ export default function createPlugin(api: PluginAPI) {
         }
 
         const resultText = filtered
-          .map(
-            (r) =>
-              `[ID: ${r.id}] [Score: ${r.score.toFixed(3)}] ${r.text}\nTags: ${r.tags.join(", ") || "none"}`,
-          )
+          .map((r) => {
+            const sources = r.scores
+              ? ` [Vector: ${r.scores.vector?.toFixed(3) ?? "-"}] [Text: ${r.scores.text?.toFixed(3) ?? "-"}]`
+              : "";
+            return `[ID: ${r.id}] [Score: ${r.score.toFixed(3)}]${sources} ${r.text}\nTags: ${r.tags.join(", ") || "none"}`;
+          })
           .join("\n\n");
 
         return {
@@ -586,6 +615,8 @@ export default function createPlugin(api: PluginAPI) {
         ),
       forget: (memoryId: string) =>
         forget(config.daemonUrl, memoryId, reqOpts(config)),
+      reinforce: (memoryId: string) =>
+        reinforce(config.daemonUrl, memoryId, reqOpts(config)),
       getStatus: () => getStatus(config.daemonUrl, reqOpts(config)),
       listMemories: (opts?: { limit?: number; tags?: string; sort?: "desc" | "asc" }) =>
         listMemories(config.daemonUrl, config.agentId, {
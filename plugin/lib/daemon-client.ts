@@ -12,6 +12,8 @@ export interface DaemonConfig {
   projectId?: string;
 }
 
+export type RecallMode = "vector" | "hybrid";
+
 export interface RecallResult {
   success: boolean;
   query: string;
@@ -22,6 +24,14 @@ export interface RecallResult {
     tags: string[];
     metadata: Record<string, unknown>;
     createdAt: string;
+    /** Per-source scores, present in hybrid mode (score is then the fused RRF score) */
+    scores?: {
+      fused: number;
+      vector: number | null;
+      vectorRank: number | null;
+      text: number | null;
+      textRank: number | null;
+    };
   }>;
   count: number;
   method: string;
@@ -33,6 +43,8 @@ export interface RememberResult {
   text: string;
   tags: string[];
   ttl?: number;
+  /** "pending" when stored in async mode — embedded in the background */
+  embeddingStatus?: "pending" | "ready" | "failed";
 }
 
 export interface ForgetResult {
@@ -41,6 +53,15 @@ export interface ForgetResult {
   message: string;
 }
 
+export interface ReinforceResult {
+  success: boolean;
+  id: string;
+  confidence: number;
+  strength: number;
+  reinforcementCount: number;
+  lastReinforcedAt: string;
+}
+
 export interface StatusResult {
   daemon: string;
   mongodb: string;
@@ -63,12 +84,71 @@ export interface ListMemoriesResult {
   hasMore: boolean;
 }
 
+export type SessionTurnRole = "user" | "assistant" | "system" | "tool";
+
+export interface SessionTurnInput {
+  role: SessionTurnRole;
+  content: string;
+  /** ISO 8601 */
+  timestamp?: string;
+}
+
+export interface SessionInfo {
+  id: string;
+  agentId: string;
+  projectId: string | null;
+  sessionKey: string | null;
+  status: "open" | "closed";
+  startedAt: string;
+  lastActivityAt: string;
+  endedAt: string | null;
+  turnCount: number;
+  metadata: Record<string, unknown>;
+  reflectionJobId: string | null;
+}
+
+export interface SessionDetailResult {
+  success: boolean;
+  session: SessionInfo & {
+    turns: Array<{ role: SessionTurnRole; content: string; timestamp: string }>;
+  };
+  memories: Array<{
+    id: string;
+    text: string;
+    tags: string[];
+    memoryType: string | null;
+    createdAt: string;
+  }>;
+  episode: { id: string; title: string; narrative: string } | null;
+  jobs: Array<{ id: string; status: string; createdAt: string }>;
+}
+
+export interface CloseSessionResult {
+  success: boolean;
+  session: SessionInfo;
+  /** null when the session had no turns or reflection was turned off */
+  reflectionJobId: string | null;
+  message: string;
+}
+
 /** Options bag passed to most daemon-client functions. */
 export interface RequestOptions {
   apiKey?: string;
   projectId?: string;
 }
 
+/** Options for remember(): request options plus async (non-blocking) embedding. */
+export interface RememberOptions extends RequestOptions {
+  async?: boolean;
+}
+
+/** Options for recall(): request options plus the ranking mode. */
+export interface RecallOptions extends RequestOptions {
+  mode?: RecallMode;
+  /** Also return memories another memory SUPERSEDES (hidden by default) */
+  includeSuperseded?: boolean;
+}
+
 // --- Constants ---
 
 const DEFAULT_TIMEOUT_MS = 10_000;
@@ -152,6 +232,7 @@ export async function checkHealth(daemonUrl: string): Promise<boolean> {
 
 /**
  * Semantic search over stored memories.
+ * Pass `mode: "hybrid"` to fuse keyword (text index) and vector hits.
  */
 export async function recall(
   daemonUrl: string,
@@ -159,7 +240,7 @@ export async function recall(
   query: string,
   limit: number = 10,
   tags?: string,
-  options?: RequestOptions,
+  options?: RecallOptions,
 ): Promise<RecallResult> {
   const url = new URL("/recall", daemonUrl);
   url.searchParams.set("agentId", agentId);
@@ -167,6 +248,8 @@ export async function recall(
   url.searchParams.set("limit", String(limit));
   if (tags) url.searchParams.set("tags", tags);
   if (options?.projectId) url.searchParams.set("projectId", options.projectId);
+  if (options?.mode) url.searchParams.set("mode", options.mode);
+  if (options?.includeSuperseded) url.searchParams.set("includeSuperseded", "true");
 
   const response = await fetchWithRetry(url.toString(), {
     signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS),
@@ -180,6 +263,7 @@ export async function recall(
 
 /**
  * Store a new memory with optional metadata and TTL.
+ * With `async: true` the daemon responds before embedding (202, embeddingStatus "pending").
  */
 export async function remember(
   daemonUrl: string,
@@ -188,11 +272,12 @@ export async function remember(
   tags: string[] = [],
   metadata: Record<string, unknown> = {},
   ttl?: number,
-  options?: RequestOptions,
+  options?: RememberOptions,
 ): Promise<RememberResult> {
   const body: Record<string, unknown> = { agentId, text, tags, metadata };
   if (ttl !== undefined) body.ttl = ttl;
   if (options?.projectId) body.projectId = options.projectId;
+  if (options?.async) body.async = true;
 
   const response = await fetchWithRetry(`${daemonUrl}/remember`, {
     method: "POST",
@@ -227,6 +312,27 @@ export async function forget(
   return (await response.json()) as ForgetResult;
 }
 
+/**
+ * Reinforce a memory that was recalled and actually used
+ * (restores strength, raises confidence).
+ */
+export async function reinforce(
+  daemonUrl: string,
+  memoryId: string,
+  options?: RequestOptions,
+): Promise<ReinforceResult> {
+  const response = await fetchWithRetry(`${daemonUrl}/memories/${memoryId}/reinforce`, {
+    method: "POST",
+    signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS),
+    headers: buildHeaders(options?.apiKey),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Daemon reinforce failed: ${response.statusText}`);
+  }
+  return (await response.json()) as ReinforceResult;
+}
+
 /**
  * Get daemon status including MongoDB/Voyage health and memory stats.
  */
@@ -274,3 +380,105 @@ export async function listMemories(
   }
   return (await response.json()) as ListMemoriesResult;
 }
+
+/**
+ * Start a session on the daemon. Turns are appended with
+ * appendSessionTurns() and reflected on by closeSession().
+ */
+export async function startSession(
+  daemonUrl: string,
+  agentId: string,
+  options?: RequestOptions & {
+    sessionKey?: string;
+    startedAt?: string;
+    metadata?: Record<string, unknown>;
+  },
+): Promise<SessionInfo> {
+  const body: Record<string, unknown> = { agentId };
+  if (options?.projectId) body.projectId = options.projectId;
+  if (options?.sessionKey) body.sessionKey = options.sessionKey;
+  if (options?.startedAt) body.startedAt = options.startedAt;
+  if (options?.metadata) body.metadata = options.metadata;
+
+  const response = await fetchWithRetry(`${daemonUrl}/sessions`, {
+    method: "POST",
+    signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS),
+    headers: buildHeaders(options?.apiKey),
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Daemon session start failed: ${response.statusText}`);
+  }
+  const data = (await response.json()) as { session: SessionInfo };
+  return data.session;
+}
+
+/**
+ * Append transcript turns to an open session.
+ */
+export async function appendSessionTurns(
+  daemonUrl: string,
+  sessionId: string,
+  turns: SessionTurnInput[],
+  options?: RequestOptions,
+): Promise<SessionInfo> {
+  const response = await fetchWithRetry(`${daemonUrl}/sessions/${sessionId}/turns`, {
+    method: "POST",
+    signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS),
+    headers: buildHeaders(options?.apiKey),
+    body: JSON.stringify({ turns }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Daemon session append failed: ${response.statusText}`);
+  }
+  const data = (await response.json()) as { session: SessionInfo };
+  return data.session;
+}
+
+/**
+ * Close a session. The daemon runs reflection over its transcript unless
+ * `reflect` is false.
+ */
+export async function closeSession(
+  daemonUrl: string,
+  sessionId: string,
+  options?: RequestOptions & { endedAt?: string; reflect?: boolean },
+): Promise<CloseSessionResult> {
+  const body: Record<string, unknown> = {};
+  if (options?.endedAt) body.endedAt = options.endedAt;
+  if (options?.reflect !== undefined) body.reflect = options.reflect;
+
+  const response = await fetchWithRetry(`${daemonUrl}/sessions/${sessionId}/close`, {
+    method: "POST",
+    signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS),
+    headers: buildHeaders(options?.apiKey),
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Daemon session close failed: ${response.statusText}`);
+  }
+  return (await response.json()) as CloseSessionResult;
+}
+
+/**
+ * Get a session with its transcript, derived memories, episode and
+ * reflection jobs.
+ */
+export async function getSession(
+  daemonUrl: string,
+  sessionId: string,
+  options?: RequestOptions,
+): Promise<SessionDetailResult> {
+  const response = await fetchWithRetry(`${daemonUrl}/sessions/${sessionId}`, {
+    signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS),
+    headers: buildHeaders(options?.apiKey),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Daemon session fetch failed: ${response.statusText}`);
+  }
+  return (await response.json()) as SessionDetailResult;
+}